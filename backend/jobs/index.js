@@ -0,0 +1,238 @@
+const BloodRequest = require('../models/BloodRequest');
+const User = require('../models/User');
+const Appointment = require('../models/Appointment');
+const Drive = require('../models/Drive');
+const jobScheduler = require('../utils/jobScheduler');
+const notificationService = require('../utils/notificationService');
+const outreachService = require('../utils/outreachService');
+const priorityService = require('../utils/priorityService');
+const inventoryService = require('../utils/inventoryService');
+const deliveryService = require('../utils/deliveryService');
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Move active requests past their expiry date to 'expired' and withdraw
+ * any appointment slots that can no longer be used
+ */
+const expireRequests = async () => {
+  const now = new Date();
+  const staleRequests = await BloodRequest.find({
+    status: 'active',
+    expiresAt: { $lte: now }
+  });
+
+  let appointmentsCancelled = 0;
+  for (const bloodRequest of staleRequests) {
+    // updateOne avoids re-running validation on requests nobody has touched
+    await BloodRequest.updateOne({ _id: bloodRequest._id, status: 'active' }, { status: 'expired' });
+    bloodRequest.status = 'expired';
+
+    // Withdraw slots before notifying, so a failed notification cannot leave them bookable
+    const { modifiedCount } = await Appointment.updateMany(
+      { bloodRequest: bloodRequest._id, status: { $in: ['open', 'booked'] } },
+      { status: 'cancelled', cancellationReason: 'The blood request expired' }
+    );
+    appointmentsCancelled += modifiedCount;
+
+    try {
+      await notificationService.notifyRequestStatusChange(bloodRequest, 'expired');
+    } catch (notificationError) {
+      console.error('Notification error:', notificationError);
+    }
+  }
+
+  return { expired: staleRequests.length, appointmentsCancelled };
+};
+
+/**
+ * Remind requesters an hour before their request expires
+ */
+const sendExpiryReminders = async () => {
+  const now = new Date();
+  const expiringRequests = await BloodRequest.find({
+    status: 'active',
+    expiresAt: { $gt: now, $lte: new Date(now.getTime() + HOUR) },
+    expiryReminderSentAt: null
+  }).populate('requester', 'name email');
+
+  for (const bloodRequest of expiringRequests) {
+    await notificationService.notifyExpiryReminder(bloodRequest, bloodRequest.requester);
+    await BloodRequest.updateOne({ _id: bloodRequest._id }, { expiryReminderSentAt: now });
+  }
+
+  return { reminded: expiringRequests.length };
+};
+
+/**
+ * Tell donors when their waiting period since their last donation ends.
+ * Only recent transitions count, so old donors are not all notified at once.
+ */
+const notifyEligibleDonors = async () => {
+  const now = new Date();
+  const donors = await User.find({
+    role: 'donor',
+    isAvailable: true,
+    nextEligibleDate: { $gt: new Date(now.getTime() - 24 * HOUR), $lte: now },
+    $or: [
+      { eligibilityNotifiedAt: null },
+      { $expr: { $lt: ['$eligibilityNotifiedAt', '$nextEligibleDate'] } }
+    ]
+  }).select('name email');
+
+  for (const donor of donors) {
+    await notificationService.notifyDonorEligible(donor);
+    await User.updateOne({ _id: donor._id }, { eligibilityNotifiedAt: now });
+  }
+
+  return { notified: donors.length };
+};
+
+/**
+ * Close blood drives that have ended. Donors who never turned up are
+ * recorded as no-shows; check-ins without a recorded donation are kept.
+ */
+const completeDrives = async () => {
+  const { modifiedCount: completed } = await Drive.updateMany(
+    { status: 'scheduled', endsAt: { $lte: new Date() } },
+    { $set: { status: 'completed', 'registrations.$[entry].status': 'no_show' } },
+    { arrayFilters: [{ 'entry.status': 'registered' }] }
+  );
+
+  return { completed };
+};
+
+/**
+ * Older databases still carry the TTL index that deleted requests on
+ * expiresAt. Drop it so the expiry job can mark them 'expired' instead.
+ */
+const dropLegacyExpiryIndex = async () => {
+  try {
+    const indexes = await BloodRequest.collection.indexes();
+    const ttlIndex = indexes.find(index => index.key.expiresAt && index.expireAfterSeconds !== undefined);
+    if (ttlIndex) {
+      await BloodRequest.collection.dropIndex(ttlIndex.name);
+      console.log('Dropped legacy TTL index on blood request expiry');
+    }
+  } catch (error) {
+    console.error('Error checking legacy expiry index:', error);
+  }
+};
+
+/**
+ * Donors who donated before nextEligibleDate was stored only have
+ * lastDonation. Eligibility queries match on nextEligibleDate alone, so
+ * work it out for them the same way User.getNextEligibleDate does.
+ */
+const backfillNextEligibleDates = async () => {
+  try {
+    let backfilled = 0;
+    for (const [donationType, days] of Object.entries(User.DONATION_INTERVAL_DAYS)) {
+      // A missing donation type counts as whole blood
+      const typeFilter = donationType === 'whole_blood'
+        ? { lastDonationType: { $in: [null, 'whole_blood'] } }
+        : { lastDonationType: donationType };
+
+      const result = await User.updateMany(
+        { lastDonation: { $ne: null }, nextEligibleDate: null, ...typeFilter },
+        [{ $set: { nextEligibleDate: { $add: ['$lastDonation', days * DAY] } } }]
+      );
+      backfilled += result.modifiedCount;
+    }
+
+    if (backfilled) {
+      console.log(`Backfilled next eligible date for ${backfilled} donors`);
+    }
+  } catch (error) {
+    console.error('Error backfilling next eligible dates:', error);
+  }
+};
+
+/**
+ * Email verification used to share the isVerified flag with admins. Accounts
+ * created before emailVerified existed, and accounts an admin has verified,
+ * keep access to the routes guarded by requireVerification.
+ */
+const backfillEmailVerified = async () => {
+  try {
+    const result = await User.updateMany(
+      {
+        emailVerified: { $ne: true },
+        $or: [{ emailVerified: { $exists: false } }, { isVerified: true }]
+      },
+      { $set: { emailVerified: true } }
+    );
+
+    if (result.modifiedCount) {
+      console.log(`Marked ${result.modifiedCount} existing accounts as email verified`);
+    }
+  } catch (error) {
+    console.error('Error backfilling email verification:', error);
+  }
+};
+
+const registerJobs = () => {
+  jobScheduler.register('expire-requests', {
+    description: 'Mark active requests past their expiry date as expired',
+    intervalMs: 5 * MINUTE,
+    handler: expireRequests,
+    runOnStart: true
+  });
+
+  jobScheduler.register('expiry-reminders', {
+    description: 'Remind requesters an hour before their request expires',
+    intervalMs: 10 * MINUTE,
+    handler: sendExpiryReminders
+  });
+
+  jobScheduler.register('recompute-priorities', {
+    description: 'Recalculate request priority as deadlines approach and donors respond',
+    intervalMs: 15 * MINUTE,
+    handler: () => priorityService.refreshAll()
+  });
+
+  jobScheduler.register('eligibility-notifications', {
+    description: 'Notify donors when they become eligible to donate again',
+    intervalMs: HOUR,
+    handler: notifyEligibleDonors
+  });
+
+  jobScheduler.register('outreach-waves', {
+    description: 'Send the next outreach wave for requests still short of donors',
+    intervalMs: MINUTE,
+    handler: () => outreachService.runDueWaves()
+  });
+
+  jobScheduler.register('complete-drives', {
+    description: 'Close blood drives that have ended and record no-shows',
+    intervalMs: 15 * MINUTE,
+    handler: completeDrives
+  });
+
+  jobScheduler.register('retry-deliveries', {
+    description: 'Retry email, SMS and other notification deliveries that failed',
+    intervalMs: MINUTE,
+    handler: () => deliveryService.retryDue()
+  });
+
+  jobScheduler.register('low-stock-check', {
+    description: 'Start restock drives for blood banks whose stock has run low or expired',
+    intervalMs: HOUR,
+    handler: () => inventoryService.checkLowStock()
+  });
+};
+
+/**
+ * Register and start every background job
+ */
+const startJobs = async () => {
+  await dropLegacyExpiryIndex();
+  await backfillNextEligibleDates();
+  await backfillEmailVerified();
+  registerJobs();
+  jobScheduler.start();
+};
+
+module.exports = { startJobs };
@@ -1,15 +1,29 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const Session = require('../models/Session');
 
-// Generate JWT token
-const generateToken = (userId) => {
+// Generate a short-lived access token tied to a refresh session
+const generateToken = (userId, sessionId) => {
   return jwt.sign(
-    { userId },
+    { userId, sid: sessionId },
     process.env.JWT_SECRET || 'blood-donation-secret-key-change-in-production',
-    { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
+    { expiresIn: process.env.JWT_EXPIRES_IN || '15m' }
   );
 };
 
+// Tokens of signed-out sessions stop working before they expire. Tokens
+// issued before sessions existed carry no sid and run out on their own.
+const isSessionActive = async (sessionId) => {
+  if (!sessionId) return true;
+
+  const session = await Session.exists({
+    _id: sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+  return !!session;
+};
+
 // Verify JWT token
 const verifyToken = async (req, res, next) => {
   try {
@@ -30,6 +44,12 @@ const verifyToken = async (req, res, next) => {
         message: 'Token is not valid - user not found' 
       });
     }
+
+    if (!(await isSessionActive(decoded.sid))) {
+      return res.status(401).json({
+        message: 'Session has been signed out'
+      });
+    }
     
     if (user.isLocked) {
       return res.status(423).json({ 
@@ -38,6 +58,7 @@ const verifyToken = async (req, res, next) => {
     }
     
     req.user = user;
+    req.sessionId = decoded.sid;
     next();
   } catch (error) {
     if (error.name === 'TokenExpiredError') {
@@ -89,8 +110,9 @@ const optionalAuth = async (req, res, next) => {
     const decoded = jwt.verify(token, process.env.JWT_SECRET || 'blood-donation-secret-key-change-in-production');
     
     const user = await User.findById(decoded.userId).select('-password');
-    if (user && !user.isLocked) {
+    if (user && !user.isLocked && await isSessionActive(decoded.sid)) {
       req.user = user;
+      req.sessionId = decoded.sid;
     }
     
     next();
@@ -101,7 +123,7 @@ const optionalAuth = async (req, res, next) => {
   }
 };
 
-// Middleware to check if user is verified
+// Middleware to check the user has verified their email address
 const requireVerification = (req, res, next) => {
   if (!req.user) {
     return res.status(401).json({ 
@@ -109,15 +131,34 @@ const requireVerification = (req, res, next) => {
     });
   }
   
-  if (!req.user.isVerified) {
+  if (!req.user.emailVerified) {
     return res.status(403).json({ 
-      message: 'Please verify your email address to access this resource' 
+      message: 'Please verify your email address to access this resource',
+      code: 'EMAIL_NOT_VERIFIED'
     });
   }
   
   next();
 };
 
+// Hospital accounts may only act for their hospital once an admin approves them
+const requireApprovedHospital = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ 
+      message: 'Authentication required' 
+    });
+  }
+
+  if (req.user.role === 'hospital' && !req.user.getManagedHospital()) {
+    return res.status(403).json({
+      message: 'Your hospital account is awaiting admin approval',
+      code: 'HOSPITAL_NOT_APPROVED'
+    });
+  }
+
+  next();
+};
+
 // Middleware to check if user owns the resource or is admin
 const ownerOrAdmin = (resourceField = 'requester') => {
   return async (req, res, next) => {
@@ -194,6 +235,7 @@ module.exports = {
   authorize,
   optionalAuth,
   requireVerification,
+  requireApprovedHospital,
   ownerOrAdmin,
   userRateLimit
 };
\ No newline at end of file
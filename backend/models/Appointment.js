@@ -0,0 +1,88 @@
+const mongoose = require('mongoose');
+
+const appointmentSchema = new mongoose.Schema({
+  bloodRequest: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BloodRequest',
+    required: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  startTime: {
+    type: Date,
+    required: [true, 'Start time is required']
+  },
+  endTime: {
+    type: Date,
+    required: [true, 'End time is required'],
+    validate: {
+      validator: function(date) {
+        return !this.startTime || date > this.startTime;
+      },
+      message: 'End time must be after start time'
+    }
+  },
+  location: {
+    name: {
+      type: String,
+      maxlength: [150, 'Location name cannot exceed 150 characters']
+    },
+    address: {
+      type: String,
+      maxlength: [200, 'Location address cannot exceed 200 characters']
+    }
+  },
+  notes: {
+    type: String,
+    maxlength: [300, 'Notes cannot exceed 300 characters']
+  },
+  status: {
+    type: String,
+    enum: ['open', 'booked', 'cancelled', 'completed'],
+    default: 'open',
+    index: true
+  },
+  donor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  bookedAt: Date,
+  cancellationReason: {
+    type: String,
+    maxlength: [200, 'Cancellation reason cannot exceed 200 characters']
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for efficient queries
+appointmentSchema.index({ bloodRequest: 1, startTime: 1 });
+appointmentSchema.index({ donor: 1, status: 1, startTime: 1 });
+
+// Method to check whether the slot can still be booked
+appointmentSchema.methods.isBookable = function(requiredBy, now = new Date()) {
+  return this.status === 'open' &&
+    this.startTime > now &&
+    (!requiredBy || this.endTime <= requiredBy);
+};
+
+// Static method to find a donor's booked appointments overlapping a time range
+appointmentSchema.statics.findOverlapping = function(donorId, startTime, endTime, excludeId) {
+  const query = {
+    donor: donorId,
+    status: 'booked',
+    startTime: { $lt: endTime },
+    endTime: { $gt: startTime }
+  };
+
+  if (excludeId) {
+    query._id = { $ne: excludeId };
+  }
+
+  return this.findOne(query);
+};
+
+module.exports = mongoose.model('Appointment', appointmentSchema);
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { BLOOD_GROUPS, COMPONENT_TYPES, getCompatibleDonorGroups } = require('blood-donation-shared/compatibility');
 
 const bloodRequestSchema = new mongoose.Schema({
   requester: {
@@ -15,7 +16,12 @@ const bloodRequestSchema = new mongoose.Schema({
   bloodGroup: {
     type: String,
     required: [true, 'Blood group is required'],
-    enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']
+    enum: BLOOD_GROUPS
+  },
+  componentType: {
+    type: String,
+    enum: COMPONENT_TYPES,
+    default: 'whole_blood'
   },
   unitsNeeded: {
     type: Number,
@@ -29,7 +35,13 @@ const bloodRequestSchema = new mongoose.Schema({
     enum: ['low', 'medium', 'high', 'critical'],
     index: true
   },
+  // Details are copied from the Hospital collection when one is picked, so
+  // requests keep what was shown at the time
   hospital: {
+    hospitalId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Hospital'
+    },
     name: {
       type: String,
       required: [true, 'Hospital name is required'],
@@ -112,7 +124,12 @@ const bloodRequestSchema = new mongoose.Schema({
     type: Date,
     required: [true, 'Required by date is required'],
     validate: {
+      // Only checked when the date is set. Requests stay active past it until
+      // they expire, and saving their responses must keep working meanwhile.
       validator: function(date) {
+        if (this instanceof mongoose.Document && !this.isNew && !this.isModified('requiredBy')) {
+          return true;
+        }
         return date > new Date();
       },
       message: 'Required by date must be in the future'
@@ -124,6 +141,12 @@ const bloodRequestSchema = new mongoose.Schema({
     default: 'active',
     index: true
   },
+  // 'low_stock' requests are raised automatically to restock a blood bank
+  origin: {
+    type: String,
+    enum: ['manual', 'low_stock'],
+    default: 'manual'
+  },
   responses: [{
     donor: {
       type: mongoose.Schema.Types.ObjectId,
@@ -138,7 +161,8 @@ const bloodRequestSchema = new mongoose.Schema({
       type: String,
       enum: ['interested', 'confirmed', 'donated', 'declined'],
       default: 'interested'
-    }
+    },
+    statusUpdatedAt: Date
   }],
   notifiedDonors: [{
     donor: {
@@ -151,9 +175,26 @@ const bloodRequestSchema = new mongoose.Schema({
     },
     method: {
       type: String,
-      enum: ['email', 'sms', 'push']
-    }
+      // 'in_app' when quiet hours or a daily limit held back other channels
+      enum: ['email', 'sms', 'whatsapp', 'push', 'in_app']
+    },
+    // Outreach wave (0 = closest radius) that reached this donor
+    wave: Number
   }],
+  outreach: {
+    wave: {
+      type: Number,
+      default: -1
+    },
+    radiusKm: Number,
+    lastWaveAt: Date,
+    nextWaveAt: Date,
+    completedAt: Date,
+    stopReason: {
+      type: String,
+      enum: ['covered', 'max_radius', 'deadline', 'inactive']
+    }
+  },
   fulfillmentDetails: {
     donatedUnits: {
       type: Number,
@@ -197,10 +238,23 @@ const bloodRequestSchema = new mongoose.Schema({
     min: 1,
     max: 100
   },
+  // Points each factor contributed to the last priority calculation
+  priorityBreakdown: {
+    base: Number,
+    urgency: Number,
+    time: Number,
+    units: Number,
+    coverage: Number,
+    scarcity: Number,
+    fraud: Number,
+    calculatedAt: Date
+  },
+  // The expiry job moves active requests past this date to 'expired'
   expiresAt: {
     type: Date,
-    index: { expireAfterSeconds: 0 }
-  }
+    index: true
+  },
+  expiryReminderSentAt: Date
 }, {
   timestamps: true
 });
@@ -211,74 +265,175 @@ bloodRequestSchema.index({ location: '2dsphere' });
 // Compound indexes for efficient queries
 bloodRequestSchema.index({ status: 1, bloodGroup: 1, urgency: 1 });
 bloodRequestSchema.index({ requester: 1, status: 1 });
+bloodRequestSchema.index({ 'hospital.hospitalId': 1, status: 1 });
 bloodRequestSchema.index({ createdAt: -1 });
 bloodRequestSchema.index({ 'fraudCheck.score': 1, 'fraudCheck.isReviewed': 1 });
+bloodRequestSchema.index({ 'outreach.nextWaveAt': 1 });
+bloodRequestSchema.index({ status: 1, priority: -1, createdAt: -1 });
+
+// Hours an active request stays open for each urgency before it expires
+const EXPIRY_HOURS = {
+  'critical': 6,
+  'high': 24,
+  'medium': 72,
+  'low': 168 // 7 days
+};
+
+// Method to set the expiration date. New requests expire after their urgency
+// window; edited requests stay open for a fresh window or until required-by,
+// whichever is later, and get another expiry reminder.
+bloodRequestSchema.methods.refreshExpiry = function() {
+  const hours = EXPIRY_HOURS[this.urgency] || 72;
+  const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  if (this.isNew) {
+    this.expiresAt = this.expiresAt || expiresAt;
+    return this.expiresAt;
+  }
+
+  const requiredBy = this.requiredBy ? new Date(this.requiredBy) : null;
+  this.expiresAt = requiredBy && requiredBy > expiresAt ? requiredBy : expiresAt;
+  this.expiryReminderSentAt = undefined;
+  return this.expiresAt;
+};
 
 // Pre-save middleware to set expiration date
 bloodRequestSchema.pre('save', function(next) {
-  if (this.isNew && !this.expiresAt) {
-    // Set expiration based on urgency
-    const hoursToExpire = {
-      'critical': 6,
-      'high': 24,
-      'medium': 72,
-      'low': 168 // 7 days
-    };
-    
-    const hours = hoursToExpire[this.urgency] || 72;
-    this.expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+  if (this.isNew || this.isModified('requiredBy') || this.isModified('urgency')) {
+    this.refreshExpiry();
   }
   next();
 });
 
-// Method to get compatible blood groups for requests
+// Method to get the donor blood groups that can give to this request, best match first
 bloodRequestSchema.methods.getCompatibleBloodGroups = function() {
-  const compatibility = {
-    'A+': ['A+', 'A-', 'O+', 'O-'],
-    'A-': ['A-', 'O-'],
-    'B+': ['B+', 'B-', 'O+', 'O-'],
-    'B-': ['B-', 'O-'],
-    'AB+': ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
-    'AB-': ['A-', 'B-', 'AB-', 'O-'],
-    'O+': ['O+', 'O-'],
-    'O-': ['O-']
-  };
-  
-  return compatibility[this.bloodGroup] || [];
+  return getCompatibleDonorGroups(this.bloodGroup, this.componentType);
 };
 
-// Method to calculate priority score
-bloodRequestSchema.methods.calculatePriority = function() {
-  let score = 50; // Base score
-  
-  // Urgency factor (0-40 points)
+// Method to calculate priority score. Scarcity points depend on nearby donor
+// counts, so callers pass them in; otherwise the last computed value is kept.
+bloodRequestSchema.methods.calculatePriority = function({ scarcity } = {}) {
+  const now = Date.now();
+  const breakdown = { base: 20 };
+
+  // Urgency factor (6-30 points)
   const urgencyScores = {
-    'critical': 40,
-    'high': 30,
-    'medium': 20,
-    'low': 10
+    'critical': 30,
+    'high': 22,
+    'medium': 14,
+    'low': 6
   };
-  score += urgencyScores[this.urgency] || 0;
-  
-  // Time factor (0-20 points based on how soon it's needed)
-  const hoursUntilNeeded = (this.requiredBy - Date.now()) / (1000 * 60 * 60);
-  if (hoursUntilNeeded <= 6) score += 20;
-  else if (hoursUntilNeeded <= 24) score += 15;
-  else if (hoursUntilNeeded <= 72) score += 10;
-  else score += 5;
-  
-  // Units needed factor (0-10 points)
-  score += Math.min(this.unitsNeeded * 2, 10);
-  
+  breakdown.urgency = urgencyScores[this.urgency] || 0;
+
+  // Time factor (5-20 points based on how soon it's needed)
+  const hoursUntilNeeded = (this.requiredBy - now) / (1000 * 60 * 60);
+  if (hoursUntilNeeded <= 6) breakdown.time = 20;
+  else if (hoursUntilNeeded <= 24) breakdown.time = 15;
+  else if (hoursUntilNeeded <= 72) breakdown.time = 10;
+  else breakdown.time = 5;
+
+  // Remaining units factor (0-10 points)
+  const remainingUnits = Math.max(0, this.unitsNeeded - this.getCoveredUnits());
+  breakdown.units = Math.min(remainingUnits * 2, 10);
+
+  // Coverage factor (0-10 points): fewer interested donors per outstanding
+  // unit ranks higher. Two interested donors per unit counts as covered.
+  const interested = this.responses.filter(response => response.status === 'interested').length;
+  breakdown.coverage = remainingUnits > 0
+    ? Math.round(10 * Math.max(0, 1 - interested / (remainingUnits * 2)))
+    : 0;
+
+  // Blood group scarcity in the area (0-10 points)
+  breakdown.scarcity = scarcity !== undefined
+    ? scarcity
+    : (this.priorityBreakdown && this.priorityBreakdown.scarcity) || 0;
+
   // Fraud check penalty (0 to -30 points)
-  if (this.fraudCheck.score > 70) score -= 30;
-  else if (this.fraudCheck.score > 50) score -= 20;
-  else if (this.fraudCheck.score > 30) score -= 10;
-  
+  if (this.fraudCheck.score > 70) breakdown.fraud = -30;
+  else if (this.fraudCheck.score > 50) breakdown.fraud = -20;
+  else if (this.fraudCheck.score > 30) breakdown.fraud = -10;
+  else breakdown.fraud = 0;
+
+  const score = breakdown.base + breakdown.urgency + breakdown.time + breakdown.units +
+    breakdown.coverage + breakdown.scarcity + breakdown.fraud;
+
+  this.priorityBreakdown = { ...breakdown, calculatedAt: new Date(now) };
   this.priority = Math.max(1, Math.min(100, score));
   return this.priority;
 };
 
+// Method to get the request as sent to a user. Fraud analysis is only
+// visible to admins, in every route that returns requests.
+bloodRequestSchema.methods.toResponseFor = function(user) {
+  const requestObj = this.toObject();
+  if (!user || user.role !== 'admin') {
+    delete requestObj.fraudCheck;
+    if (requestObj.priorityBreakdown) {
+      delete requestObj.priorityBreakdown.fraud;
+    }
+  }
+  // Who was alerted and who donated is for the people running the request;
+  // everyone else only sees how many
+  if (!user || !this.canBeManagedBy(user)) {
+    requestObj.notifiedDonorsCount = (requestObj.notifiedDonors || []).length;
+    delete requestObj.notifiedDonors;
+    if (requestObj.fulfillmentDetails) {
+      requestObj.fulfillmentDetails.donorsCount = (requestObj.fulfillmentDetails.donors || []).length;
+      delete requestObj.fulfillmentDetails.donors;
+    }
+  }
+  return requestObj;
+};
+
+// Method to check whether a user can manage this request: its requester,
+// an admin, or an approved account of the hospital it was raised at
+bloodRequestSchema.methods.canBeManagedBy = function(user) {
+  if (user.role === 'admin') return true;
+  if ((this.requester._id || this.requester).toString() === user._id.toString()) return true;
+
+  const hospitalId = this.hospital && this.hospital.hospitalId;
+  const managedHospital = user.getManagedHospital();
+  return !!hospitalId && !!managedHospital && hospitalId.toString() === managedHospital.toString();
+};
+
+// Method to record units donated by a donor and close the request once enough
+// units have been collected. Returns true if the request became fulfilled.
+bloodRequestSchema.methods.recordDonation = function(donorId, units, donationDate = new Date()) {
+  this.fulfillmentDetails.donors.push({
+    donor: donorId,
+    units,
+    donationDate
+  });
+  this.fulfillmentDetails.donatedUnits = (this.fulfillmentDetails.donatedUnits || 0) + units;
+
+  if (this.status === 'active' && this.fulfillmentDetails.donatedUnits >= this.unitsNeeded) {
+    this.status = 'fulfilled';
+    this.fulfillmentDetails.fulfilledDate = donationDate;
+    return true;
+  }
+
+  return false;
+};
+
+// Method to count units already donated or promised by confirmed donors
+bloodRequestSchema.methods.getCoveredUnits = function() {
+  const confirmed = this.responses.filter(response => response.status === 'confirmed').length;
+  return (this.fulfillmentDetails.donatedUnits || 0) + confirmed;
+};
+
+// Method to get the fields pushed to clients in realtime events
+bloodRequestSchema.methods.toEventSummary = function() {
+  return {
+    requestId: this._id,
+    patientName: this.patientName,
+    bloodGroup: this.bloodGroup,
+    componentType: this.componentType,
+    urgency: this.urgency,
+    status: this.status,
+    hospitalName: this.hospital && this.hospital.name
+  };
+};
+
 // Method to check if request is expired
 bloodRequestSchema.methods.isExpired = function() {
   return this.expiresAt && this.expiresAt < new Date();
@@ -0,0 +1,71 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const BloodRequest = require('./BloodRequest');
+
+const HOUR = 60 * 60 * 1000;
+
+// Runs the pre-save middleware, minus validation, without a database connection
+const runPreSave = (bloodRequest) => new Promise((resolve, reject) => {
+  BloodRequest.schema.s.hooks.execPre('save', bloodRequest, [{ validateBeforeSave: false }], (error) => (
+    error ? reject(error) : resolve()
+  ));
+});
+
+const existingRequest = (overrides = {}) => BloodRequest.hydrate({
+  _id: new mongoose.Types.ObjectId(),
+  status: 'active',
+  urgency: 'critical',
+  requiredBy: new Date(Date.now() + 2 * HOUR),
+  expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+  expiryReminderSentAt: new Date(),
+  ...overrides
+});
+
+const assertAbout = (actual, expected) => {
+  assert.ok(Math.abs(actual.getTime() - expected) < 5000, `${actual.toISOString()} is not close to ${new Date(expected).toISOString()}`);
+};
+
+describe('BloodRequest expiry', () => {
+  test('new requests expire after their urgency window', async () => {
+    const bloodRequest = new BloodRequest({ urgency: 'high' });
+    await runPreSave(bloodRequest);
+    assertAbout(bloodRequest.expiresAt, Date.now() + 24 * HOUR);
+  });
+
+  test('new requests keep an expiry date they were given', async () => {
+    const expiresAt = new Date(Date.now() + 3 * HOUR);
+    const bloodRequest = new BloodRequest({ urgency: 'low', expiresAt });
+    await runPreSave(bloodRequest);
+    assert.equal(bloodRequest.expiresAt.getTime(), expiresAt.getTime());
+  });
+
+  test('moving required-by later keeps the request open until then and re-arms the reminder', async () => {
+    const requiredBy = new Date(Date.now() + 3 * 24 * HOUR);
+    const bloodRequest = existingRequest();
+    bloodRequest.requiredBy = requiredBy;
+    await runPreSave(bloodRequest);
+
+    assert.equal(bloodRequest.expiresAt.getTime(), requiredBy.getTime());
+    assert.equal(bloodRequest.expiryReminderSentAt, undefined);
+  });
+
+  test('changing urgency starts a fresh urgency window', async () => {
+    const bloodRequest = existingRequest();
+    bloodRequest.urgency = 'medium';
+    await runPreSave(bloodRequest);
+
+    assertAbout(bloodRequest.expiresAt, Date.now() + 72 * HOUR);
+    assert.equal(bloodRequest.expiryReminderSentAt, undefined);
+  });
+
+  test('other edits leave the expiry date and reminder alone', async () => {
+    const bloodRequest = existingRequest();
+    const { expiresAt, expiryReminderSentAt } = bloodRequest;
+    bloodRequest.contactInfo = { primaryPhone: '+15550100' };
+    await runPreSave(bloodRequest);
+
+    assert.equal(bloodRequest.expiresAt.getTime(), expiresAt.getTime());
+    assert.equal(bloodRequest.expiryReminderSentAt.getTime(), expiryReminderSentAt.getTime());
+  });
+});
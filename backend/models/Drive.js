@@ -0,0 +1,201 @@
+const mongoose = require('mongoose');
+const { BLOOD_GROUPS, COMPONENT_TYPES } = require('blood-donation-shared/compatibility');
+
+// Registrations in these states hold one of the drive's places
+const ACTIVE_REGISTRATION_STATUSES = ['registered', 'checked_in', 'donated'];
+
+const driveSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Drive name is required'],
+    trim: true,
+    maxlength: [150, 'Drive name cannot exceed 150 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  organizer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Set when a registered hospital runs or hosts the drive
+  hospital: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Hospital'
+  },
+  location: {
+    type: {
+      type: String,
+      enum: ['Point'],
+      default: 'Point'
+    },
+    coordinates: {
+      type: [Number], // [longitude, latitude]
+      required: [true, 'Location coordinates are required']
+    },
+    venue: {
+      type: String,
+      trim: true,
+      maxlength: [150, 'Venue cannot exceed 150 characters']
+    },
+    address: {
+      type: String,
+      required: [true, 'Address is required'],
+      maxlength: [200, 'Address cannot exceed 200 characters']
+    },
+    city: {
+      type: String,
+      required: [true, 'City is required'],
+      maxlength: [50, 'City cannot exceed 50 characters']
+    },
+    state: {
+      type: String,
+      required: [true, 'State is required'],
+      maxlength: [50, 'State cannot exceed 50 characters']
+    }
+  },
+  startsAt: {
+    type: Date,
+    required: [true, 'Start time is required']
+  },
+  endsAt: {
+    type: Date,
+    required: [true, 'End time is required'],
+    validate: {
+      validator: function(date) {
+        return date > this.startsAt;
+      },
+      message: 'End time must be after the start time'
+    }
+  },
+  // Units the organiser hopes to collect per blood group
+  targets: [{
+    _id: false,
+    bloodGroup: {
+      type: String,
+      enum: BLOOD_GROUPS,
+      required: true
+    },
+    units: {
+      type: Number,
+      min: [1, 'Target must be at least 1 unit'],
+      required: true
+    }
+  }],
+  capacity: {
+    type: Number,
+    required: [true, 'Capacity is required'],
+    min: [1, 'Capacity must be at least 1 donor'],
+    max: [5000, 'Capacity cannot exceed 5000 donors']
+  },
+  status: {
+    type: String,
+    enum: ['scheduled', 'cancelled', 'completed'],
+    default: 'scheduled',
+    index: true
+  },
+  registrations: [{
+    donor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    bloodGroup: {
+      type: String,
+      enum: BLOOD_GROUPS
+    },
+    status: {
+      type: String,
+      enum: ['registered', 'checked_in', 'donated', 'no_show', 'cancelled'],
+      default: 'registered'
+    },
+    registeredAt: {
+      type: Date,
+      default: Date.now
+    },
+    checkedInAt: Date,
+    donatedAt: Date,
+    componentType: {
+      type: String,
+      enum: COMPONENT_TYPES
+    },
+    units: Number
+  }],
+  cancellationReason: {
+    type: String,
+    maxlength: [200, 'Cancellation reason cannot exceed 200 characters']
+  }
+}, {
+  timestamps: true
+});
+
+// Create geospatial index for location-based queries
+driveSchema.index({ location: '2dsphere' });
+
+driveSchema.index({ status: 1, endsAt: 1, startsAt: 1 });
+driveSchema.index({ 'registrations.donor': 1 });
+driveSchema.index({ organizer: 1, startsAt: -1 });
+
+// Method to count donors holding a place
+driveSchema.methods.getRegisteredCount = function() {
+  return this.registrations.filter(registration =>
+    ACTIVE_REGISTRATION_STATUSES.includes(registration.status)
+  ).length;
+};
+
+// Method to find a donor's registration, if any
+driveSchema.methods.getRegistration = function(donorId) {
+  return this.registrations.find(registration =>
+    (registration.donor._id || registration.donor).toString() === donorId.toString()
+  );
+};
+
+// Method to sum units collected so far per blood group
+driveSchema.methods.getCollectedUnits = function() {
+  return this.registrations.reduce((collected, registration) => {
+    if (registration.status === 'donated' && registration.bloodGroup) {
+      collected[registration.bloodGroup] = (collected[registration.bloodGroup] || 0) + (registration.units || 1);
+    }
+    return collected;
+  }, {});
+};
+
+// Method to check whether donors can still sign up
+driveSchema.methods.isOpenForRegistration = function(now = new Date()) {
+  return this.status === 'scheduled' && this.endsAt > now;
+};
+
+// Method to check whether a user can run the drive: its organiser, an admin,
+// or an approved account of the hospital hosting it
+driveSchema.methods.canBeManagedBy = function(user) {
+  if (user.role === 'admin') return true;
+  if ((this.organizer._id || this.organizer).toString() === user._id.toString()) return true;
+
+  const managedHospital = user.getManagedHospital();
+  return !!this.hospital && !!managedHospital &&
+    (this.hospital._id || this.hospital).toString() === managedHospital.toString();
+};
+
+// Method to get the public view of the drive, without who registered
+driveSchema.methods.toSummary = function(viewerId) {
+  const { registrations, ...drive } = this.toObject();
+  const registeredCount = this.getRegisteredCount();
+  const registration = viewerId && this.getRegistration(viewerId);
+
+  return {
+    ...drive,
+    registeredCount,
+    spotsLeft: Math.max(0, this.capacity - registeredCount),
+    collected: this.getCollectedUnits(),
+    myRegistration: registration
+      ? { _id: registration._id, status: registration.status, registeredAt: registration.registeredAt }
+      : undefined
+  };
+};
+
+driveSchema.statics.ACTIVE_REGISTRATION_STATUSES = ACTIVE_REGISTRATION_STATUSES;
+
+module.exports = mongoose.model('Drive', driveSchema);
@@ -0,0 +1,109 @@
+const mongoose = require('mongoose');
+
+const hospitalSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Hospital name is required'],
+    trim: true,
+    maxlength: [150, 'Hospital name cannot exceed 150 characters']
+  },
+  phone: {
+    type: String,
+    required: [true, 'Hospital phone is required'],
+    match: [/^\+?[\d\s\-\(\)]{10,15}$/, 'Please enter a valid phone number']
+  },
+  location: {
+    type: {
+      type: String,
+      enum: ['Point'],
+      default: 'Point'
+    },
+    coordinates: {
+      type: [Number], // [longitude, latitude]
+      required: [true, 'Location coordinates are required']
+    },
+    address: {
+      type: String,
+      required: [true, 'Address is required'],
+      maxlength: [200, 'Address cannot exceed 200 characters']
+    },
+    city: {
+      type: String,
+      required: [true, 'City is required'],
+      maxlength: [50, 'City cannot exceed 50 characters']
+    },
+    state: {
+      type: String,
+      required: [true, 'State is required'],
+      maxlength: [50, 'State cannot exceed 50 characters']
+    }
+  },
+  // Who to call about blood supply, as opposed to the main switchboard
+  bloodBankContact: {
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Contact name cannot exceed 100 characters']
+    },
+    phone: {
+      type: String,
+      match: [/^\+?[\d\s\-\(\)]{10,15}$/, 'Please enter a valid phone number']
+    },
+    email: {
+      type: String,
+      lowercase: true,
+      match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
+    }
+  },
+  // Stock below this many units of a tracked blood group and component
+  // triggers a restock drive
+  lowStockThreshold: {
+    type: Number,
+    default: 5,
+    min: [0, 'Low stock threshold cannot be negative'],
+    max: [500, 'Low stock threshold cannot exceed 500 units']
+  },
+  isVerified: {
+    type: Boolean,
+    default: false
+  },
+  verifiedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  verifiedAt: Date,
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Create geospatial index for location-based queries
+hospitalSchema.index({ location: '2dsphere' });
+
+// Indexes for the autocomplete search
+hospitalSchema.index({ name: 1 });
+hospitalSchema.index({ isVerified: 1, name: 1 });
+
+// Method to get the details copied onto blood requests at this hospital
+hospitalSchema.methods.toRequestDetails = function() {
+  return {
+    hospital: {
+      hospitalId: this._id,
+      name: this.name,
+      address: this.location.address,
+      phone: this.phone
+    },
+    location: {
+      type: 'Point',
+      coordinates: this.location.coordinates,
+      address: this.location.address,
+      city: this.location.city,
+      state: this.location.state
+    }
+  };
+};
+
+module.exports = mongoose.model('Hospital', hospitalSchema);
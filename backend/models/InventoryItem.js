@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+const { BLOOD_GROUPS, COMPONENT_TYPES } = require('blood-donation-shared/compatibility');
+
+// One batch of units held by a blood bank. Stock is the sum of unexpired batches.
+const inventoryItemSchema = new mongoose.Schema({
+  hospital: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Hospital',
+    required: true
+  },
+  bloodGroup: {
+    type: String,
+    required: [true, 'Blood group is required'],
+    enum: BLOOD_GROUPS
+  },
+  componentType: {
+    type: String,
+    enum: COMPONENT_TYPES,
+    default: 'whole_blood'
+  },
+  units: {
+    type: Number,
+    required: [true, 'Number of units is required'],
+    min: [0, 'Units cannot be negative'],
+    max: [1000, 'Cannot record more than 1000 units in one batch']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  batchNumber: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Batch number cannot exceed 50 characters']
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+inventoryItemSchema.index({ hospital: 1, bloodGroup: 1, componentType: 1, expiresAt: 1 });
+inventoryItemSchema.index({ expiresAt: 1 });
+
+// Static method to get the filter for batches that can still be used
+inventoryItemSchema.statics.usableFilter = function(now = new Date()) {
+  return {
+    units: { $gt: 0 },
+    expiresAt: { $gt: now }
+  };
+};
+
+module.exports = mongoose.model('InventoryItem', inventoryItemSchema);
@@ -0,0 +1,43 @@
+const mongoose = require('mongoose');
+
+// How long job history is kept before MongoDB removes it
+const JOB_HISTORY_DAYS = parseInt(process.env.JOB_HISTORY_DAYS, 10) || 14;
+
+const jobRunSchema = new mongoose.Schema({
+  job: {
+    type: String,
+    required: true
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    default: 'schedule'
+  },
+  triggeredBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  status: {
+    type: String,
+    enum: ['running', 'success', 'failed'],
+    default: 'running'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  finishedAt: Date,
+  durationMs: Number,
+  // Whatever summary the job returned, e.g. { expired: 3 }
+  result: mongoose.Schema.Types.Mixed,
+  error: String
+}, {
+  timestamps: true
+});
+
+// Indexes for the admin history views
+jobRunSchema.index({ job: 1, startedAt: -1 });
+jobRunSchema.index({ startedAt: -1 });
+jobRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: JOB_HISTORY_DAYS * 24 * 60 * 60 });
+
+module.exports = mongoose.model('JobRun', jobRunSchema);
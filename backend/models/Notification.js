@@ -0,0 +1,65 @@
+const mongoose = require('mongoose');
+
+const NOTIFICATION_TYPES = [
+  'nearby_request',
+  'request_response',
+  'status_change',
+  'verification',
+  'appointment',
+  'reminder',
+  'eligibility',
+  'low_stock',
+  'drive'
+];
+
+const notificationSchema = new mongoose.Schema({
+  recipient: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: [150, 'Title cannot exceed 150 characters']
+  },
+  message: {
+    type: String,
+    maxlength: [500, 'Message cannot exceed 500 characters']
+  },
+  // Frontend route to open when the notification is clicked
+  link: String,
+  bloodRequest: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BloodRequest'
+  },
+  isRead: {
+    type: Boolean,
+    default: false
+  },
+  readAt: Date
+}, {
+  timestamps: true
+});
+
+// Indexes for efficient inbox queries
+notificationSchema.index({ recipient: 1, createdAt: -1 });
+notificationSchema.index({ recipient: 1, isRead: 1 });
+
+// Static method to create the same notification for several recipients
+notificationSchema.statics.createForRecipients = function(recipientIds, payload) {
+  if (!recipientIds.length) return Promise.resolve([]);
+
+  return this.insertMany(
+    recipientIds.map(recipient => ({ ...payload, recipient }))
+  );
+};
+
+notificationSchema.statics.NOTIFICATION_TYPES = NOTIFICATION_TYPES;
+
+module.exports = mongoose.model('Notification', notificationSchema);
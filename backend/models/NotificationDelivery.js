@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+const { CHANNELS } = require('../utils/channels');
+
+// How long delivery records are kept before MongoDB removes them
+const DELIVERY_HISTORY_DAYS = parseInt(process.env.DELIVERY_HISTORY_DAYS, 10) || 30;
+
+const DELIVERY_STATUSES = ['pending', 'sent', 'retrying', 'failed'];
+
+const notificationDeliverySchema = new mongoose.Schema({
+  channel: {
+    type: String,
+    enum: CHANNELS,
+    required: true
+  },
+  template: {
+    type: String,
+    required: true
+  },
+  recipient: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Email address, phone number, user id or URL, depending on the channel
+  to: {
+    type: String,
+    required: true
+  },
+  // Rendered once so retries send exactly the same message
+  content: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: DELIVERY_STATUSES,
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: Date,
+  lastError: String,
+  providerMessageId: String,
+  sentAt: Date,
+  bloodRequest: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BloodRequest'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for the retry job and the admin history views
+notificationDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+notificationDeliverySchema.index({ channel: 1, createdAt: -1 });
+notificationDeliverySchema.index({ recipient: 1, createdAt: -1 });
+notificationDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_HISTORY_DAYS * 24 * 60 * 60 });
+
+// Static method counting, per recipient, how many different blood requests a
+// template was sent about since the given date
+notificationDeliverySchema.statics.countRecentRequests = async function(recipientIds, template, since) {
+  if (!recipientIds.length) return new Map();
+
+  const rows = await this.aggregate([
+    {
+      $match: {
+        recipient: { $in: recipientIds },
+        template,
+        status: { $ne: 'failed' },
+        createdAt: { $gte: since }
+      }
+    },
+    { $group: { _id: '$recipient', requests: { $addToSet: '$bloodRequest' } } }
+  ]);
+
+  return new Map(rows.map(row => [row._id.toString(), row.requests.length]));
+};
+
+notificationDeliverySchema.statics.DELIVERY_STATUSES = DELIVERY_STATUSES;
+
+module.exports = mongoose.model('NotificationDelivery', notificationDeliverySchema);
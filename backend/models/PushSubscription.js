@@ -0,0 +1,50 @@
+const mongoose = require('mongoose');
+
+// A browser's Web Push subscription. Each one belongs to the session that
+// created it, so signing a device out also stops pushes to it.
+const pushSubscriptionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  session: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Session'
+  },
+  endpoint: {
+    type: String,
+    required: true,
+    maxlength: 1000
+  },
+  keys: {
+    p256dh: {
+      type: String,
+      required: true
+    },
+    auth: {
+      type: String,
+      required: true
+    }
+  },
+  userAgent: {
+    type: String,
+    maxlength: 300
+  },
+  lastSuccessAt: Date
+}, {
+  timestamps: true
+});
+
+// The push service's endpoint identifies the browser
+pushSubscriptionSchema.index({ endpoint: 1 }, { unique: true });
+pushSubscriptionSchema.index({ user: 1 });
+pushSubscriptionSchema.index({ session: 1 });
+
+// Ids (as strings) of the given users that have at least one subscription
+pushSubscriptionSchema.statics.subscribedUsers = async function(userIds) {
+  const users = await this.distinct('user', { user: { $in: userIds } });
+  return new Set(users.map(id => id.toString()));
+};
+
+module.exports = mongoose.model('PushSubscription', pushSubscriptionSchema);
@@ -0,0 +1,145 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS, 10) || 30;
+const REFRESH_TOKEN_TTL_MS = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+// Two tabs may refresh with the same token at once; the slower one should
+// retry with the new token rather than look like a stolen token being replayed
+const ROTATION_GRACE_MS = 60 * 1000;
+
+const sessionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Only hashes are stored so a database leak does not leak usable tokens
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  previousTokenHash: {
+    type: String,
+    select: false
+  },
+  rotatedAt: Date,
+  userAgent: {
+    type: String,
+    maxlength: 300
+  },
+  ip: String,
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: Date,
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'remote_logout', 'password_change', 'token_reuse']
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for token lookups and the sessions list
+sessionSchema.index({ refreshTokenHash: 1 });
+sessionSchema.index({ previousTokenHash: 1 });
+sessionSchema.index({ user: 1, revokedAt: 1, lastUsedAt: -1 });
+
+// Expired sessions are removed by MongoDB
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Virtual for checking whether the session can still be used
+sessionSchema.virtual('isActive').get(function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+});
+
+// Whether a replay of the previous token is a harmless refresh race
+sessionSchema.methods.isWithinRotationGrace = function() {
+  return !!this.rotatedAt && Date.now() - this.rotatedAt.getTime() < ROTATION_GRACE_MS;
+};
+
+// Shape returned by the sessions list
+sessionSchema.methods.toSummary = function(currentSessionId) {
+  return {
+    _id: this._id,
+    userAgent: this.userAgent,
+    ip: this.ip,
+    createdAt: this.createdAt,
+    lastUsedAt: this.lastUsedAt,
+    expiresAt: this.expiresAt,
+    isCurrent: !!currentSessionId && this._id.toString() === currentSessionId.toString()
+  };
+};
+
+const generateRefreshToken = () => crypto.randomBytes(48).toString('hex');
+
+const clientDetails = (req) => ({
+  userAgent: (req.get('User-Agent') || '').slice(0, 300),
+  ip: req.ip
+});
+
+// Static method to start a session for a user who just signed in
+sessionSchema.statics.start = async function(userId, req) {
+  const refreshToken = generateRefreshToken();
+  const session = await this.create({
+    user: userId,
+    refreshTokenHash: this.hashToken(refreshToken),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    ...clientDetails(req)
+  });
+
+  return { session, refreshToken };
+};
+
+// Static method to swap a refresh token for a new one. The swap is a single
+// conditional update so two requests cannot both rotate the same token.
+sessionSchema.statics.rotate = async function(refreshToken, req) {
+  const tokenHash = this.hashToken(refreshToken);
+  const nextToken = generateRefreshToken();
+  const now = new Date();
+
+  const session = await this.findOneAndUpdate(
+    { refreshTokenHash: tokenHash, revokedAt: null, expiresAt: { $gt: now } },
+    {
+      $set: {
+        refreshTokenHash: this.hashToken(nextToken),
+        previousTokenHash: tokenHash,
+        rotatedAt: now,
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+        ...clientDetails(req)
+      }
+    },
+    { new: true }
+  );
+
+  return session ? { session, refreshToken: nextToken } : null;
+};
+
+// Static method to revoke sessions matching a filter; resolves to the
+// revoked session ids
+sessionSchema.statics.revoke = async function(filter, reason) {
+  const query = { ...filter, revokedAt: null };
+  const sessionIds = await this.find(query).distinct('_id');
+  if (!sessionIds.length) return [];
+
+  await this.updateMany(
+    { _id: { $in: sessionIds }, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+
+  return sessionIds;
+};
+
+sessionSchema.statics.hashToken = function(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+module.exports = mongoose.model('Session', sessionSchema);
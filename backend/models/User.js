@@ -1,5 +1,61 @@
+const crypto = require('crypto');
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { BLOOD_GROUPS, COMPONENT_TYPES } = require('blood-donation-shared/compatibility');
+
+// Minimum days a donor must wait after each type of donation before donating
+// again. Override per deployment with DONATION_INTERVAL_<TYPE>_DAYS.
+const DONATION_TYPES = COMPONENT_TYPES;
+const DEFAULT_DONATION_INTERVAL_DAYS = {
+  whole_blood: 56,
+  platelets: 7,
+  plasma: 28,
+  double_red_cells: 112
+};
+const DONATION_INTERVAL_DAYS = DONATION_TYPES.reduce((intervals, type) => {
+  const configured = parseInt(process.env[`DONATION_INTERVAL_${type.toUpperCase()}_DAYS`], 10);
+  intervals[type] = configured > 0 ? configured : DEFAULT_DONATION_INTERVAL_DAYS[type];
+  return intervals;
+}, {});
+
+// Channels a donor can pick for request alerts; the in-app inbox is always on
+const ALERT_CHANNELS = ['email', 'sms', 'whatsapp', 'push'];
+const URGENCY_LEVELS = ['low', 'medium', 'high', 'critical'];
+
+// Matches the widest outreach radius
+const MAX_ALERT_DISTANCE_KM = 100;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isValidTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes past midnight at the given date in a time zone
+const minutesInTimeZone = (date, timeZone) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type) => parseInt(parts.find(entry => entry.type === type).value, 10);
+  return part('hour') * 60 + part('minute');
+};
+
+// How long emailed verification and password reset links stay valid
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
 
 const userSchema = new mongoose.Schema({
   name: {
@@ -28,15 +84,36 @@ const userSchema = new mongoose.Schema({
   },
   role: {
     type: String,
-    enum: ['donor', 'requester', 'admin'],
+    enum: ['donor', 'requester', 'hospital', 'admin'],
     default: 'donor'
   },
+  // The hospital a 'hospital' account acts for
+  hospital: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Hospital',
+    required: function() {
+      return this.role === 'hospital';
+    }
+  },
+  // An admin confirms the account really works at that hospital before it
+  // gets any hospital permissions
+  hospitalApproval: {
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected']
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reviewedAt: Date
+  },
   bloodGroup: {
     type: String,
     required: function() {
       return this.role === 'donor';
     },
-    enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']
+    enum: BLOOD_GROUPS
   },
   location: {
     type: {
@@ -72,17 +149,111 @@ const userSchema = new mongoose.Schema({
     type: Date,
     default: null
   },
+  lastDonationType: {
+    type: String,
+    enum: DONATION_TYPES,
+    default: 'whole_blood'
+  },
+  nextEligibleDate: {
+    type: Date,
+    default: null
+  },
+  // When the donor was last told they can donate again
+  eligibilityNotifiedAt: Date,
+  donationPreferences: {
+    type: [{
+      type: String,
+      enum: DONATION_TYPES
+    }],
+    default: ['whole_blood']
+  },
   medicalHistory: {
     type: String,
     maxlength: [500, 'Medical history cannot exceed 500 characters']
   },
+  // Which nearby requests a donor hears about, and how
+  notificationPreferences: {
+    channels: {
+      type: [{
+        type: String,
+        enum: ALERT_CHANNELS
+      }],
+      default: ['email']
+    },
+    maxDistanceKm: {
+      type: Number,
+      min: [1, 'Distance must be at least 1 km'],
+      max: [MAX_ALERT_DISTANCE_KM, `Distance cannot exceed ${MAX_ALERT_DISTANCE_KM} km`],
+      default: MAX_ALERT_DISTANCE_KM
+    },
+    // Least urgent request still announced
+    minUrgency: {
+      type: String,
+      enum: URGENCY_LEVELS,
+      default: 'low'
+    },
+    // Most requests announced outside the app in 24 hours (null for no limit)
+    dailyLimit: {
+      type: Number,
+      min: [1, 'Daily limit must be at least 1'],
+      max: [50, 'Daily limit cannot exceed 50'],
+      default: null
+    },
+    quietHours: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      start: {
+        type: String,
+        match: [TIME_OF_DAY, 'Quiet hours must use HH:mm'],
+        default: '22:00'
+      },
+      end: {
+        type: String,
+        match: [TIME_OF_DAY, 'Quiet hours must use HH:mm'],
+        default: '07:00'
+      },
+      timezone: {
+        type: String,
+        default: 'UTC',
+        validate: [isValidTimeZone, 'Unknown time zone']
+      }
+    },
+    criticalOverridesQuietHours: {
+      type: Boolean,
+      default: true
+    }
+  },
+  // Set by admins once they have checked the account
   isVerified: {
     type: Boolean,
     default: false
   },
-  verificationToken: String,
-  passwordResetToken: String,
-  passwordResetExpires: Date,
+  // Set when the user opens the link from the verification email
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  // Only SHA-256 hashes of emailed tokens are stored, so a leaked database
+  // cannot be used to verify accounts or reset passwords
+  verificationToken: {
+    type: String,
+    select: false
+  },
+  verificationExpires: {
+    type: Date,
+    select: false
+  },
+  verificationSentAt: Date,
+  passwordResetToken: {
+    type: String,
+    select: false
+  },
+  passwordResetExpires: {
+    type: Date,
+    select: false
+  },
   loginAttempts: {
     type: Number,
     default: 0
@@ -99,7 +270,9 @@ const userSchema = new mongoose.Schema({
     max: 5
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  toJSON: { virtuals: ['isEligible'] },
+  toObject: { virtuals: ['isEligible'] }
 });
 
 // Create geospatial index for location-based queries
@@ -109,12 +282,27 @@ userSchema.index({ location: '2dsphere' });
 // Note: email index is created by unique: true option
 userSchema.index({ bloodGroup: 1, isAvailable: 1 });
 userSchema.index({ role: 1 });
+userSchema.index({ role: 1, nextEligibleDate: 1 });
 
 // Virtual for account lock status
 userSchema.virtual('isLocked').get(function() {
   return !!(this.lockUntil && this.lockUntil > Date.now());
 });
 
+// Virtual for donation eligibility (omitted when eligibility fields weren't selected)
+userSchema.virtual('isEligible').get(function() {
+  if (!this.isSelected('lastDonation') || !this.isSelected('nextEligibleDate')) return undefined;
+  return this.canDonate();
+});
+
+// Keep the next eligible date in step with the last donation
+userSchema.pre('save', function(next) {
+  if (this.isModified('lastDonation') || this.isModified('lastDonationType')) {
+    this.nextEligibleDate = this.constructor.getNextEligibleDate(this.lastDonation, this.lastDonationType);
+  }
+  next();
+});
+
 // Hash password before saving
 userSchema.pre('save', async function(next) {
   if (!this.isModified('password')) return next();
@@ -165,12 +353,127 @@ userSchema.methods.resetFailedAttempts = function() {
   });
 };
 
-// Check if user can donate (minimum 56 days between donations)
-userSchema.methods.canDonate = function() {
-  if (!this.lastDonation) return true;
-  
-  const daysSinceLastDonation = (Date.now() - this.lastDonation) / (1000 * 60 * 60 * 24);
-  return daysSinceLastDonation >= 56;
+// The hospital this account may act for; null until an admin approves the link
+userSchema.methods.getManagedHospital = function() {
+  const approved = this.hospitalApproval && this.hospitalApproval.status === 'approved';
+  return this.role === 'hospital' && approved && this.hospital ? this.hospital : null;
+};
+
+// Start a new email verification, replacing any earlier link.
+// Returns the raw token to email; only its hash is stored.
+userSchema.methods.createVerificationToken = function() {
+  const token = crypto.randomBytes(32).toString('hex');
+  this.verificationToken = this.constructor.hashToken(token);
+  this.verificationExpires = new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS);
+  this.verificationSentAt = new Date();
+  return token;
+};
+
+// Start a password reset, replacing any earlier link.
+// Returns the raw token to email; only its hash is stored.
+userSchema.methods.createPasswordResetToken = function() {
+  const token = crypto.randomBytes(32).toString('hex');
+  this.passwordResetToken = this.constructor.hashToken(token);
+  this.passwordResetExpires = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS);
+  return token;
+};
+
+// Hash an emailed token the way it is stored
+userSchema.statics.hashToken = function(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Get the date the user may next donate (null if they can donate now)
+userSchema.methods.getNextEligibleDate = function() {
+  return this.nextEligibleDate ||
+    this.constructor.getNextEligibleDate(this.lastDonation, this.lastDonationType);
+};
+
+// Check if user can donate (interval depends on the type of their last donation)
+userSchema.methods.canDonate = function(date = new Date()) {
+  const nextEligibleDate = this.getNextEligibleDate();
+  return !nextEligibleDate || nextEligibleDate <= date;
 };
 
+// Calculate when a donor becomes eligible again after a donation
+userSchema.statics.getNextEligibleDate = function(lastDonation, donationType = 'whole_blood') {
+  if (!lastDonation) return null;
+
+  const days = DONATION_INTERVAL_DAYS[donationType] || DONATION_INTERVAL_DAYS.whole_blood;
+  return new Date(new Date(lastDonation).getTime() + days * 24 * 60 * 60 * 1000);
+};
+
+// Query filter matching donors who are eligible to donate on the given date
+userSchema.statics.eligibleDonorFilter = function(date = new Date()) {
+  return {
+    $or: [
+      { nextEligibleDate: null },
+      { nextEligibleDate: { $lte: date } }
+    ]
+  };
+};
+
+// Query filter matching donors willing to give the given blood component
+// (accounts created before preferences existed only give whole blood)
+userSchema.statics.donationPreferenceFilter = function(componentType = 'whole_blood') {
+  if (componentType !== 'whole_blood') {
+    return { donationPreferences: componentType };
+  }
+
+  return {
+    $or: [
+      { donationPreferences: componentType },
+      { donationPreferences: { $exists: false } }
+    ]
+  };
+};
+
+// Check whether the user's quiet hours cover the given time. Quiet hours
+// may run past midnight, e.g. 22:00-07:00.
+userSchema.methods.isInQuietHours = function(date = new Date()) {
+  const quietHours = this.notificationPreferences?.quietHours;
+  if (!quietHours?.enabled) return false;
+
+  const now = minutesInTimeZone(date, quietHours.timezone || 'UTC');
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+// Pick which of the available channels may carry an alert right now.
+// alertsToday is how many requests were announced to the user outside the
+// app in the last 24 hours. An empty list leaves only the in-app inbox.
+userSchema.methods.getAlertChannels = function(availableChannels, { urgency, alertsToday = 0, date = new Date() } = {}) {
+  const preferences = this.notificationPreferences || {};
+  const chosen = preferences.channels || ['email'];
+
+  if (preferences.dailyLimit && alertsToday >= preferences.dailyLimit) return [];
+
+  const overridesQuietHours = urgency === 'critical' && preferences.criticalOverridesQuietHours !== false;
+  if (!overridesQuietHours && this.isInQuietHours(date)) return [];
+
+  return availableChannels.filter(channel => chosen.includes(channel));
+};
+
+// Query filter matching users who want to hear about requests of the given
+// urgency (accounts created before preferences existed hear about all)
+userSchema.statics.alertUrgencyFilter = function(urgency) {
+  const levels = URGENCY_LEVELS.slice(0, URGENCY_LEVELS.indexOf(urgency) + 1);
+
+  return {
+    $or: [
+      { 'notificationPreferences.minUrgency': { $in: levels } },
+      { 'notificationPreferences.minUrgency': { $exists: false } }
+    ]
+  };
+};
+
+userSchema.statics.DONATION_TYPES = DONATION_TYPES;
+userSchema.statics.ALERT_CHANNELS = ALERT_CHANNELS;
+userSchema.statics.URGENCY_LEVELS = URGENCY_LEVELS;
+userSchema.statics.MAX_ALERT_DISTANCE_KM = MAX_ALERT_DISTANCE_KM;
+userSchema.statics.DONATION_INTERVAL_DAYS = DONATION_INTERVAL_DAYS;
+
 module.exports = mongoose.model('User', userSchema);
\ No newline at end of file
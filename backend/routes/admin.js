@@ -2,7 +2,17 @@ const express = require('express');
 const { query, body, validationResult } = require('express-validator');
 const User = require('../models/User');
 const BloodRequest = require('../models/BloodRequest');
+const JobRun = require('../models/JobRun');
+const Hospital = require('../models/Hospital');
+const NotificationDelivery = require('../models/NotificationDelivery');
 const { verifyToken, authorize } = require('../middleware/auth');
+const notificationService = require('../utils/notificationService');
+const jobScheduler = require('../utils/jobScheduler');
+const deliveryService = require('../utils/deliveryService');
+const { CHANNELS, LocalChannel } = require('../utils/channels');
+const scarcityService = require('../utils/scarcityService');
+const { escapeRegex } = require('../utils/regex');
+const { COMPONENT_TYPES } = require('blood-donation-shared/compatibility');
 
 const router = express.Router();
 
@@ -62,6 +72,7 @@ router.get('/dashboard', async (req, res) => {
     const formattedUserStats = {
       donors: 0,
       requesters: 0,
+      hospitals: 0,
       admins: 0
     };
     userStats.forEach(stat => {
@@ -104,8 +115,9 @@ router.get('/users',
   [
     query('page').optional().isInt({ min: 1 }),
     query('limit').optional().isInt({ min: 1, max: 100 }),
-    query('role').optional().isIn(['donor', 'requester', 'admin']),
+    query('role').optional().isIn(['donor', 'requester', 'hospital', 'admin']),
     query('verified').optional().isBoolean(),
+    query('hospitalApproval').optional().isIn(['pending', 'approved', 'rejected']),
     query('search').optional().trim()
   ],
   async (req, res) => {
@@ -123,6 +135,7 @@ router.get('/users',
         limit = 20,
         role,
         verified,
+        hospitalApproval,
         search
       } = req.query;
 
@@ -136,10 +149,15 @@ router.get('/users',
         query.isVerified = verified;
       }
 
+      if (hospitalApproval) {
+        query['hospitalApproval.status'] = hospitalApproval;
+      }
+
       if (search) {
+        const pattern = new RegExp(escapeRegex(search), 'i');
         query.$or = [
-          { name: new RegExp(search, 'i') },
-          { email: new RegExp(search, 'i') }
+          { name: pattern },
+          { email: pattern }
         ];
       }
 
@@ -152,14 +170,17 @@ router.get('/users',
         .limit(parseInt(limit));
 
       const total = await User.countDocuments(query);
+      const totalPages = Math.ceil(total / limit);
 
       res.json({
         users,
         pagination: {
           page: parseInt(page),
-          pages: Math.ceil(total / limit),
+          pages: totalPages,
           total,
-          limit: parseInt(limit)
+          limit: parseInt(limit),
+          hasNextPage: parseInt(page) < totalPages,
+          hasPrevPage: parseInt(page) > 1
         }
       });
 
@@ -183,7 +204,10 @@ router.get('/requests',
     query('status').optional().isIn(['active', 'fulfilled', 'expired', 'cancelled']),
     query('urgency').optional().isIn(['low', 'medium', 'high', 'critical']),
     query('bloodGroup').optional().isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']),
-    query('fraudScore').optional().isInt({ min: 0, max: 100 })
+    query('componentType').optional().isIn(COMPONENT_TYPES),
+    query('fraudScore').optional().isInt({ min: 0, max: 100 }),
+    query('reviewed').optional().isBoolean(),
+    query('search').optional().trim()
   ],
   async (req, res) => {
     try {
@@ -201,7 +225,10 @@ router.get('/requests',
         status,
         urgency,
         bloodGroup,
-        fraudScore
+        componentType,
+        fraudScore,
+        reviewed,
+        search
       } = req.query;
 
       let query = {};
@@ -218,27 +245,50 @@ router.get('/requests',
         query.bloodGroup = bloodGroup;
       }
 
+      if (componentType) {
+        query.componentType = componentType;
+      }
+
       if (fraudScore) {
         query['fraudCheck.score'] = { $gte: parseInt(fraudScore) };
       }
 
+      if (reviewed !== undefined) {
+        query['fraudCheck.isReviewed'] = reviewed === 'true';
+      }
+
+      if (search) {
+        const pattern = new RegExp(escapeRegex(search), 'i');
+        query.$or = [
+          { patientName: pattern },
+          { 'hospital.name': pattern },
+          { 'location.city': pattern }
+        ];
+      }
+
       const skip = (page - 1) * limit;
 
+      // Fraud review queues are ordered by risk, everything else by recency
+      const sort = fraudScore ? { 'fraudCheck.score': -1, createdAt: -1 } : { createdAt: -1 };
+
       const requests = await BloodRequest.find(query)
         .populate('requester', 'name email phone')
-        .sort({ createdAt: -1 })
+        .sort(sort)
         .skip(skip)
         .limit(parseInt(limit));
 
       const total = await BloodRequest.countDocuments(query);
+      const totalPages = Math.ceil(total / limit);
 
       res.json({
         requests,
         pagination: {
           page: parseInt(page),
-          pages: Math.ceil(total / limit),
+          pages: totalPages,
           total,
-          limit: parseInt(limit)
+          limit: parseInt(limit),
+          hasNextPage: parseInt(page) < totalPages,
+          hasPrevPage: parseInt(page) > 1
         }
       });
 
@@ -283,6 +333,8 @@ router.put('/users/:id/verify',
         });
       }
 
+      await notificationService.notifyVerificationChange(user, isVerified);
+
       res.json({
         message: `User ${isVerified ? 'verified' : 'unverified'} successfully`,
         user
@@ -298,6 +350,180 @@ router.put('/users/:id/verify',
   }
 );
 
+// @route   PUT /api/admin/users/:id/hospital-approval
+// @desc    Approve or reject a hospital account's link to its hospital
+// @access  Private (admin)
+router.put('/users/:id/hospital-approval',
+  [
+    body('approved').isBoolean().withMessage('approved must be a boolean')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { approved } = req.body;
+
+      const user = await User.findOneAndUpdate(
+        { _id: req.params.id, role: 'hospital' },
+        {
+          hospitalApproval: {
+            status: approved ? 'approved' : 'rejected',
+            reviewedBy: req.user._id,
+            reviewedAt: new Date()
+          }
+        },
+        { new: true }
+      ).select('-password');
+
+      if (!user) {
+        return res.status(404).json({
+          message: 'Hospital account not found'
+        });
+      }
+
+      res.json({
+        message: `Hospital account ${approved ? 'approved' : 'rejected'} successfully`,
+        user
+      });
+
+    } catch (error) {
+      console.error('Admin hospital approval error:', error);
+      res.status(500).json({
+        message: 'Server error updating hospital approval',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/admin/hospitals
+// @desc    Get registered hospitals with pagination and filtering
+// @access  Private (admin)
+router.get('/hospitals',
+  [
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+    query('verified').optional().isBoolean(),
+    query('search').optional().trim()
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const {
+        page = 1,
+        limit = 20,
+        verified,
+        search
+      } = req.query;
+
+      let query = {};
+
+      if (verified !== undefined) {
+        query.isVerified = verified;
+      }
+
+      if (search) {
+        const pattern = new RegExp(escapeRegex(search), 'i');
+        query.$or = [
+          { name: pattern },
+          { 'location.city': pattern }
+        ];
+      }
+
+      const skip = (page - 1) * limit;
+
+      const hospitals = await Hospital.find(query)
+        .populate('createdBy', 'name email')
+        .sort({ isVerified: 1, createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit));
+
+      const total = await Hospital.countDocuments(query);
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        hospitals,
+        pagination: {
+          page: parseInt(page),
+          pages: totalPages,
+          total,
+          limit: parseInt(limit),
+          hasNextPage: parseInt(page) < totalPages,
+          hasPrevPage: parseInt(page) > 1
+        }
+      });
+
+    } catch (error) {
+      console.error('Admin get hospitals error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving hospitals',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   PUT /api/admin/hospitals/:id/verify
+// @desc    Verify or unverify a hospital
+// @access  Private (admin)
+router.put('/hospitals/:id/verify',
+  [
+    body('isVerified').isBoolean().withMessage('isVerified must be a boolean')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { isVerified } = req.body;
+
+      const hospital = await Hospital.findByIdAndUpdate(
+        req.params.id,
+        isVerified
+          ? { isVerified, verifiedBy: req.user._id, verifiedAt: new Date() }
+          : { isVerified, $unset: { verifiedBy: 1, verifiedAt: 1 } },
+        { new: true }
+      );
+
+      if (!hospital) {
+        return res.status(404).json({
+          message: 'Hospital not found'
+        });
+      }
+
+      res.json({
+        message: `Hospital ${isVerified ? 'verified' : 'unverified'} successfully`,
+        hospital
+      });
+
+    } catch (error) {
+      console.error('Admin verify hospital error:', error);
+      res.status(500).json({
+        message: 'Server error updating hospital verification',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
 // @route   PUT /api/admin/requests/:id/review-fraud
 // @desc    Review fraud check for a blood request
 // @access  Private (admin)
@@ -380,6 +606,8 @@ router.put('/requests/:id/status',
         });
       }
 
+      await notificationService.notifyRequestStatusChange(bloodRequest, status, req.user._id);
+
       res.json({
         message: 'Blood request status updated successfully',
         bloodRequest
@@ -530,4 +758,314 @@ router.get('/analytics', async (req, res) => {
   }
 });
 
-module.exports = router;
\ No newline at end of file
+// @route   GET /api/admin/analytics/scarcity
+// @desc    Compare donor supply with request demand per area and blood group
+// @access  Private (admin)
+router.get('/analytics/scarcity',
+  [
+    query('groupBy').optional().isIn(['city', 'grid']),
+    query('gridSize').optional().isFloat({ min: 0.05, max: 5 }).withMessage('Grid size must be between 0.05 and 5 degrees'),
+    query('lat').optional().isFloat({ min: -90, max: 90 }),
+    query('lng').optional().isFloat({ min: -180, max: 180 }),
+    query('radius').optional().isInt({ min: 1, max: 1000 }).withMessage('Radius must be between 1 and 1000 km')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { groupBy = 'city', gridSize = 0.5, lat, lng, radius } = req.query;
+
+      const areas = await scarcityService.getHeatmap({
+        groupBy,
+        gridSize: parseFloat(gridSize),
+        lat: lat !== undefined ? parseFloat(lat) : undefined,
+        lng: lng !== undefined ? parseFloat(lng) : undefined,
+        radiusKm: radius !== undefined ? parseInt(radius) : undefined
+      });
+
+      res.json({
+        groupBy,
+        gridSize: groupBy === 'grid' ? parseFloat(gridSize) : undefined,
+        areas
+      });
+
+    } catch (error) {
+      console.error('Admin scarcity analytics error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving scarcity analytics',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/admin/jobs
+// @desc    List background jobs with their schedule and latest run
+// @access  Private (admin)
+router.get('/jobs', async (req, res) => {
+  try {
+    const jobs = jobScheduler.getJobs();
+
+    const lastRuns = await JobRun.aggregate([
+      { $match: { job: { $in: jobs.map(job => job.name) } } },
+      { $sort: { startedAt: -1 } },
+      { $group: { _id: '$job', lastRun: { $first: '$$ROOT' } } }
+    ]);
+    const lastRunByJob = new Map(lastRuns.map(({ _id, lastRun }) => [_id, lastRun]));
+
+    res.json({
+      jobs: jobs.map(job => ({
+        ...job,
+        lastRun: lastRunByJob.get(job.name) || null
+      }))
+    });
+
+  } catch (error) {
+    console.error('Admin get jobs error:', error);
+    res.status(500).json({
+      message: 'Server error retrieving jobs',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   GET /api/admin/jobs/history
+// @desc    Get background job runs with pagination and filtering
+// @access  Private (admin)
+router.get('/jobs/history',
+  [
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+    query('job').optional().trim(),
+    query('status').optional().isIn(['running', 'success', 'failed'])
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const {
+        page = 1,
+        limit = 20,
+        job,
+        status
+      } = req.query;
+
+      let query = {};
+
+      if (job) {
+        query.job = job;
+      }
+
+      if (status) {
+        query.status = status;
+      }
+
+      const skip = (page - 1) * limit;
+
+      const runs = await JobRun.find(query)
+        .populate('triggeredBy', 'name email')
+        .sort({ startedAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit));
+
+      const total = await JobRun.countDocuments(query);
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        runs,
+        pagination: {
+          page: parseInt(page),
+          pages: totalPages,
+          total,
+          limit: parseInt(limit),
+          hasNextPage: parseInt(page) < totalPages,
+          hasPrevPage: parseInt(page) > 1
+        }
+      });
+
+    } catch (error) {
+      console.error('Admin job history error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving job history',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   POST /api/admin/jobs/:name/run
+// @desc    Run a background job immediately
+// @access  Private (admin)
+router.post('/jobs/:name/run', async (req, res) => {
+  try {
+    if (!jobScheduler.hasJob(req.params.name)) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    const run = await jobScheduler.runJob(req.params.name, {
+      trigger: 'manual',
+      triggeredBy: req.user._id
+    });
+
+    if (!run) {
+      return res.status(409).json({ message: 'Job is already running' });
+    }
+
+    res.json({
+      message: run.status === 'success' ? 'Job completed' : 'Job failed',
+      run
+    });
+
+  } catch (error) {
+    console.error('Admin run job error:', error);
+    res.status(500).json({
+      message: 'Server error running job',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   GET /api/admin/deliveries
+// @desc    Get notification deliveries with pagination and filtering, and
+//          which adapter each channel is using
+// @access  Private (admin)
+router.get('/deliveries',
+  [
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+    query('channel').optional().isIn(CHANNELS),
+    query('status').optional().isIn(NotificationDelivery.DELIVERY_STATUSES),
+    query('template').optional().trim()
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const {
+        page = 1,
+        limit = 20,
+        channel,
+        status,
+        template
+      } = req.query;
+
+      let query = {};
+
+      if (channel) {
+        query.channel = channel;
+      }
+
+      if (status) {
+        query.status = status;
+      }
+
+      if (template) {
+        query.template = template;
+      }
+
+      const skip = (page - 1) * limit;
+
+      // Rendered content can be large, so the list leaves it out
+      const deliveries = await NotificationDelivery.find(query)
+        .select('-content')
+        .populate('recipient', 'name email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit));
+
+      const total = await NotificationDelivery.countDocuments(query);
+      const totalPages = Math.ceil(total / limit);
+
+      const channels = CHANNELS.map(name => {
+        const adapter = deliveryService.getChannel(name);
+        return {
+          name,
+          adapter: !adapter ? 'unavailable' : adapter instanceof LocalChannel ? 'local' : 'provider'
+        };
+      });
+
+      res.json({
+        deliveries,
+        channels,
+        pagination: {
+          page: parseInt(page),
+          pages: totalPages,
+          total,
+          limit: parseInt(limit),
+          hasNextPage: parseInt(page) < totalPages,
+          hasPrevPage: parseInt(page) > 1
+        }
+      });
+
+    } catch (error) {
+      console.error('Admin get deliveries error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving deliveries',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   POST /api/admin/deliveries/:id/retry
+// @desc    Send a failed delivery again
+// @access  Private (admin)
+router.post('/deliveries/:id/retry', async (req, res) => {
+  try {
+    const delivery = await NotificationDelivery.findOneAndUpdate(
+      { _id: req.params.id, status: 'failed' },
+      { $set: { status: 'pending' } },
+      { new: true }
+    );
+
+    if (!delivery) {
+      return res.status(404).json({ message: 'Failed delivery not found' });
+    }
+
+    if (delivery.content?.redacted) {
+      await NotificationDelivery.updateOne({ _id: delivery._id }, { status: 'failed' });
+      return res.status(400).json({
+        message: 'This message contained a one-time link and cannot be resent. Ask the user to request a new one.'
+      });
+    }
+
+    // A manual retry gets the full set of attempts again
+    delivery.attempts = 0;
+    await deliveryService.attempt(delivery);
+
+    const result = delivery.toObject();
+    delete result.content;
+
+    res.json({
+      message: delivery.status === 'sent' ? 'Delivery sent' : 'Delivery failed again',
+      delivery: result
+    });
+
+  } catch (error) {
+    console.error('Admin retry delivery error:', error);
+    res.status(500).json({
+      message: 'Server error retrying delivery',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,569 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Appointment = require('../models/Appointment');
+const BloodRequest = require('../models/BloodRequest');
+const User = require('../models/User');
+const { verifyToken } = require('../middleware/auth');
+const notificationService = require('../utils/notificationService');
+
+const router = express.Router();
+
+const slotValidation = [
+  body('startTime')
+    .isISO8601()
+    .withMessage('Start time must be a valid date'),
+  body('endTime')
+    .isISO8601()
+    .withMessage('End time must be a valid date'),
+  body('location.name')
+    .optional()
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage('Location name cannot exceed 150 characters'),
+  body('location.address')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Location address cannot exceed 200 characters'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage('Notes cannot exceed 300 characters')
+];
+
+const isRequestManager = (bloodRequest, user) => bloodRequest.canBeManagedBy(user);
+
+const hasConfirmedResponse = (bloodRequest, userId) =>
+  bloodRequest.responses.some(response =>
+    response.donor.toString() === userId.toString() && response.status === 'confirmed'
+  );
+
+// Check a slot's time range against the blood request it belongs to.
+// Returns an error message, or null if the slot is valid.
+const getSlotTimeError = (bloodRequest, startTime, endTime) => {
+  if (startTime <= new Date()) {
+    return 'Start time must be in the future';
+  }
+
+  if (endTime <= startTime) {
+    return 'End time must be after start time';
+  }
+
+  if (endTime > bloodRequest.requiredBy) {
+    return 'Appointment must end before the request is required';
+  }
+
+  return null;
+};
+
+const notifyParty = async (appointment, bloodRequest, recipientId, action) => {
+  try {
+    const recipient = await User.findById(recipientId).select('name email');
+    await notificationService.notifyAppointmentUpdate(appointment, bloodRequest, recipient, action);
+  } catch (notificationError) {
+    console.error('Notification error:', notificationError);
+  }
+};
+
+// Atomically book an open slot, so two donors can never hold the same slot
+const bookOpenSlot = (slotId, donorId) =>
+  Appointment.findOneAndUpdate(
+    { _id: slotId, status: 'open' },
+    { status: 'booked', donor: donorId, bookedAt: new Date() },
+    { new: true }
+  );
+
+const releaseSlot = (slotId) =>
+  Appointment.findByIdAndUpdate(
+    slotId,
+    { status: 'open', $unset: { donor: 1, bookedAt: 1 } },
+    { new: true }
+  );
+
+// Check whether a donor may book a slot. Returns an { status, message } error
+// object, or null if the booking may go ahead.
+const getBookingError = async (slot, bloodRequest, donorId, excludeId) => {
+  if (bloodRequest.status !== 'active') {
+    return { status: 400, message: 'This blood request is no longer active' };
+  }
+
+  if (!hasConfirmedResponse(bloodRequest, donorId)) {
+    return { status: 403, message: 'Only donors with a confirmed response can book an appointment' };
+  }
+
+  if (!slot.isBookable(bloodRequest.requiredBy)) {
+    return { status: 409, message: 'This appointment slot is no longer available' };
+  }
+
+  const existingBooking = await Appointment.findOne({
+    bloodRequest: bloodRequest._id,
+    donor: donorId,
+    status: 'booked',
+    _id: { $ne: excludeId }
+  });
+
+  if (existingBooking) {
+    return { status: 409, message: 'You already have an appointment for this request' };
+  }
+
+  const overlapping = await Appointment.findOverlapping(donorId, slot.startTime, slot.endTime, excludeId);
+  if (overlapping) {
+    return { status: 409, message: 'You already have another appointment at this time' };
+  }
+
+  return null;
+};
+
+// @route   GET /api/appointments/my
+// @desc    Get booked appointments for the current donor, or on requests the current user manages
+// @access  Private
+router.get('/my',
+  verifyToken,
+  [
+    query('upcoming')
+      .optional()
+      .isBoolean()
+      .withMessage('Upcoming must be a boolean')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const filter = { status: 'booked' };
+
+      if (req.user.role === 'donor') {
+        filter.donor = req.user._id;
+      } else {
+        // Approved hospital accounts also see bookings at their hospital
+        const managedHospital = req.user.getManagedHospital();
+        const requestFilter = managedHospital
+          ? { $or: [{ requester: req.user._id }, { 'hospital.hospitalId': managedHospital }] }
+          : { requester: req.user._id };
+        const managedRequests = await BloodRequest.find(requestFilter).distinct('_id');
+        filter.bloodRequest = { $in: managedRequests };
+      }
+
+      if (req.query.upcoming === 'true') {
+        filter.endTime = { $gte: new Date() };
+      }
+
+      const appointments = await Appointment.find(filter)
+        .populate('bloodRequest', 'patientName bloodGroup componentType hospital requiredBy status requester')
+        .populate('donor', 'name bloodGroup phone email')
+        .sort({ startTime: 1 })
+        .lean();
+
+      res.json({ appointments });
+
+    } catch (error) {
+      console.error('Get my appointments error:', error);
+      res.status(500).json({
+        message: 'Server error fetching appointments',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/appointments/request/:requestId
+// @desc    Get appointment slots for a blood request
+// @access  Private (request owner, admin or confirmed donor)
+router.get('/request/:requestId', verifyToken, async (req, res) => {
+  try {
+    const bloodRequest = await BloodRequest.findById(req.params.requestId);
+    if (!bloodRequest) {
+      return res.status(404).json({
+        message: 'Blood request not found'
+      });
+    }
+
+    let filter;
+    if (isRequestManager(bloodRequest, req.user)) {
+      filter = { bloodRequest: bloodRequest._id };
+    } else if (hasConfirmedResponse(bloodRequest, req.user._id)) {
+      // Donors only see slots they could book, plus their own booking
+      filter = {
+        bloodRequest: bloodRequest._id,
+        $or: [
+          { status: 'open', startTime: { $gt: new Date() } },
+          { donor: req.user._id, status: { $in: ['booked', 'completed'] } }
+        ]
+      };
+    } else {
+      return res.status(403).json({
+        message: 'Not authorized to view appointments for this request'
+      });
+    }
+
+    const appointments = await Appointment.find(filter)
+      .populate('donor', 'name bloodGroup phone')
+      .sort({ startTime: 1 })
+      .lean();
+
+    res.json({ appointments });
+
+  } catch (error) {
+    console.error('Get request appointments error:', error);
+    res.status(500).json({
+      message: 'Server error fetching appointments',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/appointments/request/:requestId
+// @desc    Publish an appointment slot for a blood request
+// @access  Private (request owner or admin)
+router.post('/request/:requestId', verifyToken, slotValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const bloodRequest = await BloodRequest.findById(req.params.requestId);
+    if (!bloodRequest) {
+      return res.status(404).json({
+        message: 'Blood request not found'
+      });
+    }
+
+    if (!isRequestManager(bloodRequest, req.user)) {
+      return res.status(403).json({
+        message: 'Not authorized to add appointments to this request'
+      });
+    }
+
+    if (bloodRequest.status !== 'active') {
+      return res.status(400).json({
+        message: 'This blood request is no longer active'
+      });
+    }
+
+    const startTime = new Date(req.body.startTime);
+    const endTime = new Date(req.body.endTime);
+    const timeError = getSlotTimeError(bloodRequest, startTime, endTime);
+    if (timeError) {
+      return res.status(400).json({
+        message: timeError
+      });
+    }
+
+    const appointment = new Appointment({
+      bloodRequest: bloodRequest._id,
+      createdBy: req.user._id,
+      startTime,
+      endTime,
+      location: req.body.location || { name: bloodRequest.hospital.name, address: bloodRequest.hospital.address },
+      notes: req.body.notes
+    });
+
+    await appointment.save();
+
+    res.status(201).json({
+      message: 'Appointment slot created successfully',
+      appointment
+    });
+
+  } catch (error) {
+    console.error('Create appointment error:', error);
+    res.status(500).json({
+      message: 'Server error creating appointment',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   PUT /api/appointments/:id
+// @desc    Update an appointment slot's time, location or notes
+// @access  Private (request owner or admin)
+router.put('/:id', verifyToken, slotValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const appointment = await Appointment.findById(req.params.id);
+    if (!appointment) {
+      return res.status(404).json({
+        message: 'Appointment not found'
+      });
+    }
+
+    const bloodRequest = await BloodRequest.findById(appointment.bloodRequest);
+    if (!bloodRequest || !isRequestManager(bloodRequest, req.user)) {
+      return res.status(403).json({
+        message: 'Not authorized to update this appointment'
+      });
+    }
+
+    if (!['open', 'booked'].includes(appointment.status)) {
+      return res.status(400).json({
+        message: `Cannot update a ${appointment.status} appointment`
+      });
+    }
+
+    const startTime = new Date(req.body.startTime);
+    const endTime = new Date(req.body.endTime);
+    const timeError = getSlotTimeError(bloodRequest, startTime, endTime);
+    if (timeError) {
+      return res.status(400).json({
+        message: timeError
+      });
+    }
+
+    if (appointment.donor) {
+      const overlapping = await Appointment.findOverlapping(appointment.donor, startTime, endTime, appointment._id);
+      if (overlapping) {
+        return res.status(409).json({
+          message: 'The booked donor already has another appointment at this time'
+        });
+      }
+    }
+
+    appointment.startTime = startTime;
+    appointment.endTime = endTime;
+    if (req.body.location) appointment.location = req.body.location;
+    if (req.body.notes !== undefined) appointment.notes = req.body.notes;
+
+    await appointment.save();
+
+    if (appointment.donor) {
+      await notifyParty(appointment, bloodRequest, appointment.donor, 'updated');
+    }
+
+    res.json({
+      message: 'Appointment updated successfully',
+      appointment
+    });
+
+  } catch (error) {
+    console.error('Update appointment error:', error);
+    res.status(500).json({
+      message: 'Server error updating appointment',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/appointments/:id/book
+// @desc    Book an open appointment slot
+// @access  Private (donor with a confirmed response)
+router.post('/:id/book', verifyToken, async (req, res) => {
+  try {
+    const slot = await Appointment.findById(req.params.id);
+    if (!slot) {
+      return res.status(404).json({
+        message: 'Appointment not found'
+      });
+    }
+
+    const bloodRequest = await BloodRequest.findById(slot.bloodRequest);
+    if (!bloodRequest) {
+      return res.status(404).json({
+        message: 'Blood request not found'
+      });
+    }
+
+    const bookingError = await getBookingError(slot, bloodRequest, req.user._id);
+    if (bookingError) {
+      return res.status(bookingError.status).json({
+        message: bookingError.message
+      });
+    }
+
+    const appointment = await bookOpenSlot(slot._id, req.user._id);
+    if (!appointment) {
+      return res.status(409).json({
+        message: 'This appointment slot is no longer available'
+      });
+    }
+
+    await notifyParty(appointment, bloodRequest, bloodRequest.requester, 'booked');
+
+    res.json({
+      message: 'Appointment booked successfully',
+      appointment
+    });
+
+  } catch (error) {
+    console.error('Book appointment error:', error);
+    res.status(500).json({
+      message: 'Server error booking appointment',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/appointments/:id/reschedule
+// @desc    Move the current donor's booking to another slot on the same request
+// @access  Private (booked donor)
+router.post('/:id/reschedule',
+  verifyToken,
+  [
+    body('slotId')
+      .isMongoId()
+      .withMessage('A valid slot is required')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const current = await Appointment.findById(req.params.id);
+      if (!current) {
+        return res.status(404).json({
+          message: 'Appointment not found'
+        });
+      }
+
+      if (current.status !== 'booked' || current.donor?.toString() !== req.user._id.toString()) {
+        return res.status(403).json({
+          message: 'You can only reschedule your own booked appointments'
+        });
+      }
+
+      const slot = await Appointment.findById(req.body.slotId);
+      if (!slot || slot.bloodRequest.toString() !== current.bloodRequest.toString()) {
+        return res.status(404).json({
+          message: 'Appointment slot not found for this request'
+        });
+      }
+
+      const bloodRequest = await BloodRequest.findById(current.bloodRequest);
+      const bookingError = await getBookingError(slot, bloodRequest, req.user._id, current._id);
+      if (bookingError) {
+        return res.status(bookingError.status).json({
+          message: bookingError.message
+        });
+      }
+
+      await releaseSlot(current._id);
+
+      const appointment = await bookOpenSlot(slot._id, req.user._id);
+      if (!appointment) {
+        // Someone else took the new slot first, so hold on to the old one
+        await bookOpenSlot(current._id, req.user._id);
+        return res.status(409).json({
+          message: 'This appointment slot is no longer available'
+        });
+      }
+
+      await notifyParty(appointment, bloodRequest, bloodRequest.requester, 'rescheduled');
+
+      res.json({
+        message: 'Appointment rescheduled successfully',
+        appointment
+      });
+
+    } catch (error) {
+      console.error('Reschedule appointment error:', error);
+      res.status(500).json({
+        message: 'Server error rescheduling appointment',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   POST /api/appointments/:id/cancel
+// @desc    Cancel a booking (donor) or withdraw a slot (request owner or admin)
+// @access  Private
+router.post('/:id/cancel',
+  verifyToken,
+  [
+    body('reason')
+      .optional()
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage('Reason cannot exceed 200 characters')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const appointment = await Appointment.findById(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({
+          message: 'Appointment not found'
+        });
+      }
+
+      const bloodRequest = await BloodRequest.findById(appointment.bloodRequest);
+      const isManager = bloodRequest && isRequestManager(bloodRequest, req.user);
+      const isBookedDonor = appointment.status === 'booked' &&
+        appointment.donor?.toString() === req.user._id.toString();
+
+      if (!isManager && !isBookedDonor) {
+        return res.status(403).json({
+          message: 'Not authorized to cancel this appointment'
+        });
+      }
+
+      if (!['open', 'booked'].includes(appointment.status)) {
+        return res.status(400).json({
+          message: `Cannot cancel a ${appointment.status} appointment`
+        });
+      }
+
+      const bookedDonor = appointment.donor;
+      appointment.cancellationReason = req.body.reason;
+
+      // A donor cancelling frees the slot for someone else; a requester
+      // cancelling withdraws the slot entirely
+      let updated;
+      if (isBookedDonor && !isManager) {
+        updated = await releaseSlot(appointment._id);
+      } else {
+        appointment.status = 'cancelled';
+        updated = await appointment.save();
+      }
+
+      if (bloodRequest) {
+        const recipientId = isBookedDonor ? bloodRequest.requester : bookedDonor;
+        if (recipientId) {
+          await notifyParty(appointment, bloodRequest, recipientId, 'cancelled');
+        }
+      }
+
+      res.json({
+        message: 'Appointment cancelled successfully',
+        appointment: updated
+      });
+
+    } catch (error) {
+      console.error('Cancel appointment error:', error);
+      res.status(500).json({
+        message: 'Server error cancelling appointment',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+module.exports = router;
@@ -1,11 +1,79 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, param, validationResult } = require('express-validator');
 const User = require('../models/User');
-const { generateToken, verifyToken } = require('../middleware/auth');
+const Hospital = require('../models/Hospital');
+const Session = require('../models/Session');
+const PushSubscription = require('../models/PushSubscription');
+const { generateToken, verifyToken, userRateLimit } = require('../middleware/auth');
+const notificationService = require('../utils/notificationService');
+const realtimeService = require('../utils/realtimeService');
 
 const router = express.Router();
 
+// Verification emails can be resent at most once a minute and 5 times an hour
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const resendLimit = userRateLimit(5, 60 * 60 * 1000);
+
+// Fields that only the token flows below may change
+const TOKEN_FIELDS = [
+  'verificationToken',
+  'verificationExpires',
+  'verificationSentAt',
+  'passwordResetToken',
+  'passwordResetExpires'
+];
+
+// Fields users may change through PUT /profile
+const PROFILE_FIELDS = [
+  'name',
+  'phone',
+  'location',
+  'isAvailable',
+  'bloodGroup',
+  'medicalHistory',
+  'lastDonation',
+  'lastDonationType',
+  'donationPreferences'
+];
+
+// Email failures are logged rather than failing the request; users can ask
+// for another link
+const sendVerificationEmail = async (user, token) => {
+  try {
+    await notificationService.sendVerificationEmail(user, token);
+  } catch (error) {
+    console.error('Verification email error:', error);
+  }
+};
+
+// Start a refresh session along with its first access token
+const issueTokens = async (user, req) => {
+  const { session, refreshToken } = await Session.start(user._id, req);
+  return { token: generateToken(user._id, session._id), refreshToken };
+};
+
+// Revoke sessions and drop their live event streams and push subscriptions
+const revokeSessions = async (filter, reason) => {
+  const sessionIds = await Session.revoke(filter, reason);
+  realtimeService.closeSessions(sessionIds);
+  if (sessionIds.length) {
+    await PushSubscription.deleteMany({ session: { $in: sessionIds } });
+  }
+  return sessionIds;
+};
+
 // Validation middleware
+const passwordValidation = (field) => body(field)
+  .isLength({ min: 6 })
+  .withMessage('Password must be at least 6 characters long')
+  .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+  .withMessage('Password must contain at least one lowercase letter, one uppercase letter, and one number');
+
+const refreshTokenValidation = body('refreshToken')
+  .isHexadecimal()
+  .isLength({ min: 96, max: 96 })
+  .withMessage('Invalid refresh token');
+
 const registerValidation = [
   body('name')
     .trim()
@@ -15,21 +83,28 @@ const registerValidation = [
     .isEmail()
     .normalizeEmail()
     .withMessage('Please provide a valid email'),
-  body('password')
-    .isLength({ min: 6 })
-    .withMessage('Password must be at least 6 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-    .withMessage('Password must contain at least one lowercase letter, one uppercase letter, and one number'),
+  passwordValidation('password'),
   body('phone')
     .matches(/^\+?[\d\s\-\(\)]{10,15}$/)
     .withMessage('Please provide a valid phone number'),
   body('role')
-    .isIn(['donor', 'requester'])
-    .withMessage('Role must be either donor or requester'),
+    .isIn(['donor', 'requester', 'hospital'])
+    .withMessage('Role must be donor, requester or hospital'),
+  body('hospitalId')
+    .if(body('role').equals('hospital'))
+    .isMongoId()
+    .withMessage('Select the hospital this account belongs to'),
   body('bloodGroup')
     .optional()
     .isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
     .withMessage('Invalid blood group'),
+  body('donationPreferences')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Select at least one donation type'),
+  body('donationPreferences.*')
+    .isIn(User.DONATION_TYPES)
+    .withMessage('Invalid donation type'),
   body('location.coordinates')
     .isArray({ min: 2, max: 2 })
     .withMessage('Location coordinates must be an array of [longitude, latitude]'),
@@ -80,8 +155,10 @@ router.post('/register', registerValidation, async (req, res) => {
       phone,
       role,
       bloodGroup,
+      donationPreferences,
       location,
-      medicalHistory
+      medicalHistory,
+      hospitalId
     } = req.body;
 
     // Check if user already exists
@@ -110,23 +187,44 @@ router.post('/register', registerValidation, async (req, res) => {
       medicalHistory
     };
 
+    // Hospital accounts act for one registered hospital, once an admin
+    // approves the link
+    if (role === 'hospital') {
+      const hospital = await Hospital.findById(hospitalId);
+      if (!hospital) {
+        return res.status(400).json({
+          message: 'Selected hospital not found'
+        });
+      }
+      userData.hospital = hospital._id;
+      userData.hospitalApproval = { status: 'pending' };
+    }
+
     if (role === 'donor') {
       userData.bloodGroup = bloodGroup;
+      if (donationPreferences) {
+        userData.donationPreferences = donationPreferences;
+      }
     }
 
     const user = new User(userData);
+    const verificationToken = user.createVerificationToken();
     await user.save();
 
-    // Generate token
-    const token = generateToken(user._id);
+    await sendVerificationEmail(user, verificationToken);
+
+    // Generate tokens
+    const { token, refreshToken } = await issueTokens(user, req);
 
-    // Remove password from response
+    // Remove password and token hashes from response
     const userResponse = user.toObject();
     delete userResponse.password;
+    TOKEN_FIELDS.forEach(field => delete userResponse[field]);
 
     res.status(201).json({
       message: 'User registered successfully',
       token,
+      refreshToken,
       user: userResponse
     });
 
@@ -190,8 +288,8 @@ router.post('/login', loginValidation, async (req, res) => {
     // Reset failed attempts on successful login
     await user.resetFailedAttempts();
 
-    // Generate token
-    const token = generateToken(user._id);
+    // Generate tokens
+    const { token, refreshToken } = await issueTokens(user, req);
 
     // Remove sensitive fields from response
     const userResponse = user.toObject();
@@ -202,6 +300,7 @@ router.post('/login', loginValidation, async (req, res) => {
     res.json({
       message: 'Login successful',
       token,
+      refreshToken,
       user: userResponse
     });
 
@@ -250,10 +349,29 @@ router.put('/profile', verifyToken, [
     .optional()
     .isBoolean()
     .withMessage('isAvailable must be a boolean'),
+  body('bloodGroup')
+    .optional()
+    .isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
+    .withMessage('Invalid blood group'),
   body('medicalHistory')
     .optional()
     .isLength({ max: 500 })
-    .withMessage('Medical history cannot exceed 500 characters')
+    .withMessage('Medical history cannot exceed 500 characters'),
+  body('lastDonation')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Last donation must be a valid date'),
+  body('lastDonationType')
+    .optional()
+    .isIn(User.DONATION_TYPES)
+    .withMessage('Invalid donation type'),
+  body('donationPreferences')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Select at least one donation type'),
+  body('donationPreferences.*')
+    .isIn(User.DONATION_TYPES)
+    .withMessage('Invalid donation type')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -264,14 +382,35 @@ router.put('/profile', verifyToken, [
       });
     }
 
-    const updates = req.body;
-    
-    // Don't allow updating certain fields
-    delete updates.email;
-    delete updates.password;
-    delete updates.role;
-    delete updates.bloodGroup;
-    delete updates.isVerified;
+    // Only fields users manage themselves; everything else (role, hospital,
+    // verification, lockout and token state) is set by the server or admins
+    const updates = {};
+    PROFILE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) {
+        updates[field] = req.body[field];
+      }
+    });
+
+    // Blood group is self-reported until an admin verifies the account
+    // (isVerified, not the emailed link); after that only unverifying the
+    // account unlocks it again
+    if (updates.bloodGroup !== undefined && updates.bloodGroup !== req.user.bloodGroup) {
+      if (req.user.isVerified && req.user.bloodGroup) {
+        return res.status(403).json({
+          message: 'Blood group cannot be changed after verification. Please contact an administrator.'
+        });
+      }
+    } else {
+      delete updates.bloodGroup;
+    }
+
+    // Self-reported donations move the eligibility window as well
+    if (updates.lastDonation !== undefined || updates.lastDonationType !== undefined) {
+      const current = await User.findById(req.user._id).select('lastDonation lastDonationType');
+      const lastDonation = updates.lastDonation !== undefined ? updates.lastDonation : current.lastDonation;
+      const lastDonationType = updates.lastDonationType || current.lastDonationType;
+      updates.nextEligibleDate = User.getNextEligibleDate(lastDonation, lastDonationType);
+    }
 
     const user = await User.findByIdAndUpdate(
       req.user._id,
@@ -299,6 +438,105 @@ router.put('/profile', verifyToken, [
   }
 });
 
+// Preference fields a user may set, as dotted paths under notificationPreferences
+const PREFERENCE_FIELDS = [
+  'channels',
+  'maxDistanceKm',
+  'minUrgency',
+  'dailyLimit',
+  'quietHours.enabled',
+  'quietHours.start',
+  'quietHours.end',
+  'quietHours.timezone',
+  'criticalOverridesQuietHours'
+];
+
+const timeOfDayValidation = (field) => body(field)
+  .optional()
+  .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  .withMessage('Quiet hours must use HH:mm');
+
+// @route   PUT /api/auth/notification-preferences
+// @desc    Update which nearby requests the user hears about, and how
+// @access  Private
+router.put('/notification-preferences', verifyToken, [
+  body('channels')
+    .optional()
+    .isArray()
+    .withMessage('Channels must be a list'),
+  body('channels.*')
+    .isIn(User.ALERT_CHANNELS)
+    .withMessage('Invalid notification channel'),
+  body('maxDistanceKm')
+    .optional()
+    .isInt({ min: 1, max: User.MAX_ALERT_DISTANCE_KM })
+    .withMessage(`Distance must be between 1 and ${User.MAX_ALERT_DISTANCE_KM} km`)
+    .toInt(),
+  body('minUrgency')
+    .optional()
+    .isIn(User.URGENCY_LEVELS)
+    .withMessage('Invalid urgency level'),
+  body('dailyLimit')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Daily limit must be between 1 and 50')
+    .toInt(),
+  body('quietHours.enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Quiet hours enabled must be a boolean'),
+  timeOfDayValidation('quietHours.start'),
+  timeOfDayValidation('quietHours.end'),
+  body('quietHours.timezone')
+    .optional()
+    .custom(timeZone => {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    })
+    .withMessage('Unknown time zone'),
+  body('criticalOverridesQuietHours')
+    .optional()
+    .isBoolean()
+    .withMessage('criticalOverridesQuietHours must be a boolean')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    // Only the fields sent are changed
+    const updates = {};
+    PREFERENCE_FIELDS.forEach(field => {
+      const value = field.split('.').reduce((source, key) => source?.[key], req.body);
+      if (value !== undefined) {
+        updates[`notificationPreferences.${field}`] = value;
+      }
+    });
+
+    const user = await User.findByIdAndUpdate(
+      req.user._id,
+      { $set: updates },
+      { new: true, runValidators: true }
+    ).select('-password');
+
+    res.json({
+      message: 'Notification preferences saved',
+      user
+    });
+
+  } catch (error) {
+    console.error('Notification preferences error:', error);
+    res.status(500).json({
+      message: 'Server error saving notification preferences',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
 // @route   POST /api/auth/change-password
 // @desc    Change user password
 // @access  Private
@@ -338,6 +576,12 @@ router.post('/change-password', verifyToken, [
     user.password = newPassword;
     await user.save();
 
+    // Sign out every other device; this one stays signed in
+    await revokeSessions(
+      { user: user._id, _id: { $ne: req.sessionId } },
+      'password_change'
+    );
+
     res.json({
       message: 'Password changed successfully'
     });
@@ -351,4 +595,381 @@ router.post('/change-password', verifyToken, [
   }
 });
 
+// @route   POST /api/auth/verify-email
+// @desc    Verify an email address with the token from the verification email
+// @access  Public
+router.post('/verify-email', [
+  body('token')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Invalid verification link')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findOneAndUpdate(
+      {
+        verificationToken: User.hashToken(req.body.token),
+        verificationExpires: { $gt: new Date() }
+      },
+      {
+        $set: { emailVerified: true },
+        $unset: { verificationToken: 1, verificationExpires: 1 }
+      },
+      { new: true }
+    );
+
+    if (!user) {
+      return res.status(400).json({
+        message: 'This verification link is invalid or has expired'
+      });
+    }
+
+    res.json({
+      message: 'Email verified successfully',
+      user
+    });
+
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      message: 'Server error verifying email',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/auth/resend-verification
+// @desc    Send a new verification email to the current user
+// @access  Private
+router.post('/resend-verification', verifyToken, resendLimit, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id);
+
+    if (user.emailVerified) {
+      return res.status(400).json({
+        message: 'Your email address is already verified'
+      });
+    }
+
+    if (user.verificationSentAt && Date.now() - user.verificationSentAt.getTime() < RESEND_COOLDOWN_MS) {
+      return res.status(429).json({
+        message: 'A verification email was just sent. Please wait a minute before asking for another.'
+      });
+    }
+
+    const verificationToken = user.createVerificationToken();
+    await user.save();
+    await sendVerificationEmail(user, verificationToken);
+
+    res.json({
+      message: 'Verification email sent'
+    });
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      message: 'Server error sending verification email',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/auth/forgot-password
+// @desc    Email a password reset link
+// @access  Public
+router.post('/forgot-password', [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    // The response is the same whether or not the account exists, so the
+    // endpoint cannot be used to discover registered emails
+    const response = {
+      message: 'If an account exists for that email, a password reset link has been sent'
+    };
+
+    const user = await User.findOne({ email: req.body.email });
+    if (!user) {
+      return res.json(response);
+    }
+
+    const resetToken = user.createPasswordResetToken();
+    await user.save();
+
+    try {
+      await notificationService.sendPasswordResetEmail(user, resetToken);
+    } catch (emailError) {
+      console.error('Password reset email error:', emailError);
+    }
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      message: 'Server error requesting password reset',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/auth/reset-password
+// @desc    Set a new password with the token from the reset email
+// @access  Public
+router.post('/reset-password', [
+  body('token')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Invalid password reset link'),
+  passwordValidation('password')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findOne({
+      passwordResetToken: User.hashToken(req.body.token),
+      passwordResetExpires: { $gt: new Date() }
+    });
+
+    if (!user) {
+      return res.status(400).json({
+        message: 'This password reset link is invalid or has expired'
+      });
+    }
+
+    // Each link works once; a successful reset also lifts any login lockout
+    user.password = req.body.password;
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    user.loginAttempts = undefined;
+    user.lockUntil = undefined;
+    await user.save();
+
+    // Whoever knew the old password is signed out everywhere
+    await revokeSessions({ user: user._id }, 'password_change');
+
+    res.json({
+      message: 'Password reset successfully. You can now log in with your new password.'
+    });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      message: 'Server error resetting password',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/auth/refresh
+// @desc    Swap a refresh token for a new access token and refresh token
+// @access  Public
+router.post('/refresh', [refreshTokenValidation], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const rotated = await Session.rotate(req.body.refreshToken, req);
+
+    if (!rotated) {
+      // A token that was already rotated is either a refresh race between
+      // tabs or a stolen token being replayed
+      const tokenHash = Session.hashToken(req.body.refreshToken);
+      const session = await Session.findOne({ previousTokenHash: tokenHash });
+
+      if (session && session.isActive && session.isWithinRotationGrace()) {
+        return res.status(401).json({
+          message: 'Refresh token has already been used',
+          code: 'REFRESH_TOKEN_ROTATED'
+        });
+      }
+
+      if (session && session.isActive) {
+        await revokeSessions({ _id: session._id }, 'token_reuse');
+      }
+
+      return res.status(401).json({
+        message: 'Session has expired. Please log in again.'
+      });
+    }
+
+    const { session, refreshToken } = rotated;
+    const user = await User.findById(session.user);
+
+    if (!user) {
+      return res.status(401).json({
+        message: 'Session has expired. Please log in again.'
+      });
+    }
+
+    if (user.isLocked) {
+      return res.status(423).json({
+        message: 'Account is temporarily locked due to failed login attempts'
+      });
+    }
+
+    res.json({
+      token: generateToken(user._id, session._id),
+      refreshToken
+    });
+
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      message: 'Server error refreshing session',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/auth/logout
+// @desc    Sign out the session that owns the refresh token
+// @access  Public
+router.post('/logout', [refreshTokenValidation], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    // Works with an expired access token, and says nothing about whether
+    // the token matched a session
+    await revokeSessions(
+      { refreshTokenHash: Session.hashToken(req.body.refreshToken) },
+      'logout'
+    );
+
+    res.json({
+      message: 'Logged out successfully'
+    });
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      message: 'Server error during logout',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   GET /api/auth/sessions
+// @desc    List the current user's signed-in sessions
+// @access  Private
+router.get('/sessions', verifyToken, async (req, res) => {
+  try {
+    const sessions = await Session.find({
+      user: req.user._id,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    }).sort({ lastUsedAt: -1 });
+
+    res.json({
+      sessions: sessions.map(session => session.toSummary(req.sessionId))
+    });
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      message: 'Server error fetching sessions',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   DELETE /api/auth/sessions
+// @desc    Sign out every session except the current one
+// @access  Private
+router.delete('/sessions', verifyToken, async (req, res) => {
+  try {
+    const sessionIds = await revokeSessions(
+      { user: req.user._id, _id: { $ne: req.sessionId } },
+      'remote_logout'
+    );
+
+    res.json({
+      message: sessionIds.length
+        ? `Signed out of ${sessionIds.length} other session${sessionIds.length === 1 ? '' : 's'}`
+        : 'No other sessions to sign out',
+      revokedCount: sessionIds.length
+    });
+
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({
+      message: 'Server error signing out sessions',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   DELETE /api/auth/sessions/:id
+// @desc    Sign out one of the current user's sessions
+// @access  Private
+router.delete('/sessions/:id', verifyToken, [
+  param('id').isMongoId().withMessage('Invalid session ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const sessionIds = await revokeSessions(
+      { _id: req.params.id, user: req.user._id },
+      req.sessionId && req.sessionId.toString() === req.params.id ? 'logout' : 'remote_logout'
+    );
+
+    if (!sessionIds.length) {
+      return res.status(404).json({
+        message: 'Session not found'
+      });
+    }
+
+    res.json({
+      message: 'Session signed out'
+    });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      message: 'Server error signing out session',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
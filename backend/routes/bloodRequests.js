@@ -1,19 +1,70 @@
 const express = require('express');
 const { body, query, validationResult } = require('express-validator');
 const BloodRequest = require('../models/BloodRequest');
+const Hospital = require('../models/Hospital');
 const User = require('../models/User');
-const { verifyToken, authorize, userRateLimit } = require('../middleware/auth');
+const Appointment = require('../models/Appointment');
+const { verifyToken, authorize, requireVerification, requireApprovedHospital, userRateLimit } = require('../middleware/auth');
 const fraudDetection = require('../utils/fraudDetection');
 const notificationService = require('../utils/notificationService');
+const priorityService = require('../utils/priorityService');
+const realtimeService = require('../utils/realtimeService');
+const outreachService = require('../utils/outreachService');
+const { COMPONENT_TYPES, canDonate, getCompatibleRecipientGroups } = require('blood-donation-shared/compatibility');
 
 const router = express.Router();
 
+// Build a query filter matching requests the donor can give to, per blood component.
+// Requests created before component types existed are whole blood.
+const getDonorCompatibilityFilter = (donor, componentTypes = COMPONENT_TYPES) => ({
+  $or: componentTypes.map(componentType => ({
+    componentType: componentType === 'whole_blood' ? { $in: [componentType, null] } : componentType,
+    bloodGroup: { $in: getCompatibleRecipientGroups(donor.bloodGroup, componentType) }
+  }))
+});
+
+// Check whether a donor is allowed to respond to a blood request.
+// Returns an { status, message } error object, or null if the donor may respond.
+const getDonorResponseError = (bloodRequest, donor) => {
+  // The codes let clients replaying queued offline responses tell a request
+  // that changed in the meantime from a failed call
+  if (bloodRequest.status !== 'active') {
+    return { status: 409, code: 'REQUEST_INACTIVE', message: 'This blood request is no longer active' };
+  }
+
+  // Check if donor can donate to this blood group
+  if (!canDonate(donor.bloodGroup, bloodRequest.bloodGroup, bloodRequest.componentType)) {
+    return { status: 400, code: 'INCOMPATIBLE', message: 'Your blood group is not compatible with this request' };
+  }
+
+  // Check if donor already responded
+  const existingResponse = bloodRequest.responses.find(
+    response => response.donor.toString() === donor._id.toString()
+  );
+
+  if (existingResponse) {
+    return { status: 409, code: 'ALREADY_RESPONDED', message: 'You have already responded to this request' };
+  }
+
+  if (!donor.canDonate()) {
+    return {
+      status: 400,
+      code: 'NOT_ELIGIBLE',
+      message: `You are not eligible to donate again until ${donor.getNextEligibleDate().toDateString()}`
+    };
+  }
+
+  return null;
+};
+
 // @route   POST /api/blood-requests
 // @desc    Create a new blood request
-// @access  Private (requester, admin)
+// @access  Private (requester, hospital, admin)
 router.post('/', 
   verifyToken,
-  authorize('requester', 'admin'),
+  authorize('requester', 'hospital', 'admin'),
+  requireVerification,
+  requireApprovedHospital,
   userRateLimit(5, 60 * 60 * 1000), // 5 requests per hour
   [
     body('patientName')
@@ -23,12 +74,20 @@ router.post('/',
     body('bloodGroup')
       .isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
       .withMessage('Invalid blood group'),
+    body('componentType')
+      .optional()
+      .isIn(COMPONENT_TYPES)
+      .withMessage('Invalid component type'),
     body('unitsNeeded')
       .isInt({ min: 1, max: 10 })
       .withMessage('Units needed must be between 1 and 10'),
     body('urgency')
       .isIn(['low', 'medium', 'high', 'critical'])
       .withMessage('Invalid urgency level'),
+    body('hospital.hospitalId')
+      .optional()
+      .isMongoId()
+      .withMessage('Invalid hospital'),
     body('hospital.name')
       .trim()
       .isLength({ min: 2, max: 150 })
@@ -77,9 +136,26 @@ router.post('/',
         });
       }
 
+      // Hospital accounts always raise requests at their own hospital
+      const hospitalId = req.user.role === 'hospital'
+        ? req.user.getManagedHospital()
+        : req.body.hospital && req.body.hospital.hospitalId;
+
+      let hospitalDetails = {};
+      if (hospitalId) {
+        const hospital = await Hospital.findById(hospitalId);
+        if (!hospital) {
+          return res.status(400).json({
+            message: 'Selected hospital not found'
+          });
+        }
+        hospitalDetails = hospital.toRequestDetails();
+      }
+
       // Create blood request
       const bloodRequest = new BloodRequest({
         ...req.body,
+        ...hospitalDetails,
         requester: req.user._id
       });
 
@@ -89,14 +165,25 @@ router.post('/',
       bloodRequest.fraudCheck.factors = fraudScore.factors;
 
       // Calculate priority
-      bloodRequest.calculatePriority();
+      bloodRequest.calculatePriority({
+        scarcity: await priorityService.getScarcityPoints(bloodRequest)
+      });
 
       await bloodRequest.save();
 
-      // If fraud score is not too high, notify nearby donors
+      // Admins watch every new request live, and flagged ones separately
+      realtimeService.sendToRole('admin', 'request:created', bloodRequest.toEventSummary());
+      if (fraudScore.score > 50) {
+        realtimeService.sendToRole('admin', 'request:fraud', {
+          ...bloodRequest.toEventSummary(),
+          fraudScore: fraudScore.score
+        });
+      }
+
+      // If fraud score is not too high, start notifying nearby donors
       if (fraudScore.score < 80) {
         try {
-          await notificationService.notifyNearbyDonors(bloodRequest);
+          await outreachService.startOutreach(bloodRequest);
         } catch (notificationError) {
           console.error('Notification error:', notificationError);
           // Don't fail the request if notification fails
@@ -107,7 +194,7 @@ router.post('/',
 
       res.status(201).json({
         message: 'Blood request created successfully',
-        bloodRequest,
+        bloodRequest: bloodRequest.toResponseFor(req.user),
         fraudWarning: fraudScore.score > 50 ? 'This request has been flagged for review' : null
       });
 
@@ -130,6 +217,7 @@ router.get('/',
     query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
     query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
     query('bloodGroup').optional().isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']),
+    query('componentType').optional().isIn(COMPONENT_TYPES),
     query('urgency').optional().isIn(['low', 'medium', 'high', 'critical']),
     query('status').optional().isIn(['active', 'fulfilled', 'expired', 'cancelled']),
     query('lat').optional().isFloat({ min: -90, max: 90 }),
@@ -150,6 +238,7 @@ router.get('/',
         page = 1,
         limit = 10,
         bloodGroup,
+        componentType,
         urgency,
         status = 'active',
         lat,
@@ -163,6 +252,10 @@ router.get('/',
       if (bloodGroup) {
         query.bloodGroup = bloodGroup;
       }
+
+      if (componentType) {
+        query.componentType = componentType;
+      }
       
       if (urgency) {
         query.urgency = urgency;
@@ -181,11 +274,12 @@ router.get('/',
         };
       }
 
-      // If user is a donor, show compatible blood groups
+      // If user is a donor, show requests they can give to
       if (req.user.role === 'donor' && req.user.bloodGroup && !bloodGroup) {
-        const tempRequest = new BloodRequest({ bloodGroup: req.user.bloodGroup });
-        const compatibleGroups = tempRequest.getCompatibleBloodGroups();
-        query.bloodGroup = { $in: compatibleGroups };
+        Object.assign(query, getDonorCompatibilityFilter(
+          req.user,
+          componentType ? [componentType] : COMPONENT_TYPES
+        ));
       }
 
       const options = {
@@ -198,6 +292,9 @@ router.get('/',
         ]
       };
 
+      // Bring stale priorities up to date before sorting on them
+      await priorityService.refreshStale(query);
+
       const bloodRequests = await BloodRequest.find(query)
         .populate([{ path: 'requester', select: 'name email phone' }, { path: 'responses.donor', select: 'name bloodGroup' }])
         .sort({ priority: -1, createdAt: -1 })
@@ -208,7 +305,7 @@ router.get('/',
       const totalPages = Math.ceil(total / parseInt(limit));
 
       res.json({
-        bloodRequests,
+        bloodRequests: bloodRequests.map(bloodRequest => bloodRequest.toResponseFor(req.user)),
         pagination: {
           page: parseInt(page),
           pages: totalPages,
@@ -250,10 +347,7 @@ router.get('/nearby',
       }
 
       // Find nearby blood requests compatible with donor's blood group
-      const tempRequest = new BloodRequest({ bloodGroup: donor.bloodGroup });
-      const compatibleGroups = tempRequest.getCompatibleBloodGroups();
-
-      const nearbyRequests = await BloodRequest.find({
+      const query = {
         location: {
           $near: {
             $geometry: {
@@ -263,19 +357,24 @@ router.get('/nearby',
             $maxDistance: radius * 1000 // Convert km to meters
           }
         },
-        bloodGroup: { $in: compatibleGroups },
+        ...getDonorCompatibilityFilter(donor, donor.donationPreferences),
         status: 'active'
-      })
+      };
+
+      await priorityService.refreshStale(query);
+
+      const nearbyRequests = await BloodRequest.find(query)
       .populate('requester', 'name email phone')
       .sort({ priority: -1, createdAt: -1 })
       .limit(20);
 
       res.json({
-        nearbyRequests,
+        nearbyRequests: nearbyRequests.map(bloodRequest => bloodRequest.toResponseFor(req.user)),
         donor: {
           bloodGroup: donor.bloodGroup,
           location: donor.location,
-          canDonate: donor.canDonate()
+          canDonate: donor.canDonate(),
+          nextEligibleDate: donor.getNextEligibleDate()
         }
       });
 
@@ -289,6 +388,215 @@ router.get('/nearby',
   }
 );
 
+// @route   GET /api/blood-requests/my-requests
+// @desc    Get blood requests created by the current user
+// @access  Private
+router.get('/my-requests',
+  verifyToken,
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+    query('status').optional().isIn(['active', 'fulfilled', 'expired', 'cancelled'])
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { page = 1, limit = 10, status } = req.query;
+
+      // Approved hospital accounts also see every request raised at their hospital
+      const managedHospital = req.user.getManagedHospital();
+      const query = managedHospital
+        ? { $or: [{ requester: req.user._id }, { 'hospital.hospitalId': managedHospital }] }
+        : { requester: req.user._id };
+      if (status) {
+        query.status = status;
+      }
+
+      const bloodRequests = await BloodRequest.find(query)
+        .populate('responses.donor', 'name bloodGroup')
+        .sort({ createdAt: -1 })
+        .skip((parseInt(page) - 1) * parseInt(limit))
+        .limit(parseInt(limit));
+
+      const total = await BloodRequest.countDocuments(query);
+      const totalPages = Math.ceil(total / parseInt(limit));
+
+      res.json({
+        message: 'Blood requests retrieved successfully',
+        data: bloodRequests.map(bloodRequest => bloodRequest.toResponseFor(req.user)),
+        pagination: {
+          page: parseInt(page),
+          pages: totalPages,
+          total,
+          limit: parseInt(limit),
+          hasNextPage: parseInt(page) < totalPages,
+          hasPrevPage: parseInt(page) > 1
+        }
+      });
+
+    } catch (error) {
+      console.error('Get my blood requests error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving your blood requests',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/blood-requests/my-donations
+// @desc    Get the donations the current user has recorded against requests
+// @access  Private
+router.get('/my-donations',
+  verifyToken,
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const page = parseInt(req.query.page) || 1;
+      const limit = parseInt(req.query.limit) || 10;
+
+      // One row per recorded donation; a donor may give to the same request more than once
+      const donationsPipeline = [
+        { $match: { 'fulfillmentDetails.donors.donor': req.user._id } },
+        { $unwind: '$fulfillmentDetails.donors' },
+        { $match: { 'fulfillmentDetails.donors.donor': req.user._id } }
+      ];
+
+      const [donations, [count]] = await Promise.all([
+        BloodRequest.aggregate([
+          ...donationsPipeline,
+          { $sort: { 'fulfillmentDetails.donors.donationDate': -1 } },
+          { $skip: (page - 1) * limit },
+          { $limit: limit },
+          {
+            $project: {
+              _id: 0,
+              request: '$_id',
+              patientName: 1,
+              bloodGroup: 1,
+              componentType: 1,
+              hospitalName: '$hospital.name',
+              status: 1,
+              units: '$fulfillmentDetails.donors.units',
+              donationDate: '$fulfillmentDetails.donors.donationDate'
+            }
+          }
+        ]),
+        BloodRequest.aggregate([...donationsPipeline, { $count: 'total' }])
+      ]);
+
+      const total = count?.total || 0;
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        message: 'Donations retrieved successfully',
+        data: donations,
+        pagination: {
+          page,
+          pages: totalPages,
+          total,
+          limit,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      });
+
+    } catch (error) {
+      console.error('Get my donations error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving your donations',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/blood-requests/all
+// @desc    Get blood requests across all users regardless of location
+// @access  Private (admin)
+router.get('/all',
+  verifyToken,
+  authorize('admin'),
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+    query('status').optional().isIn(['active', 'fulfilled', 'expired', 'cancelled']),
+    query('urgency').optional().isIn(['low', 'medium', 'high', 'critical']),
+    query('bloodGroup').optional().isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { page = 1, limit = 10, status = 'active', urgency, bloodGroup } = req.query;
+
+      const query = { status };
+      if (urgency) {
+        query.urgency = urgency;
+      }
+      if (bloodGroup) {
+        query.bloodGroup = bloodGroup;
+      }
+
+      // Bring stale priorities up to date before sorting on them
+      await priorityService.refreshStale(query);
+
+      const bloodRequests = await BloodRequest.find(query)
+        .populate([{ path: 'requester', select: 'name email phone' }, { path: 'responses.donor', select: 'name bloodGroup' }])
+        .sort({ priority: -1, createdAt: -1 })
+        .skip((parseInt(page) - 1) * parseInt(limit))
+        .limit(parseInt(limit));
+
+      const total = await BloodRequest.countDocuments(query);
+      const totalPages = Math.ceil(total / parseInt(limit));
+
+      res.json({
+        message: 'Blood requests retrieved successfully',
+        data: bloodRequests,
+        pagination: {
+          page: parseInt(page),
+          pages: totalPages,
+          total,
+          limit: parseInt(limit),
+          hasNextPage: parseInt(page) < totalPages,
+          hasPrevPage: parseInt(page) > 1
+        }
+      });
+
+    } catch (error) {
+      console.error('Get all blood requests error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving blood requests',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
 // @route   GET /api/blood-requests/:id
 // @desc    Get single blood request
 // @access  Private
@@ -304,7 +612,19 @@ router.get('/:id', verifyToken, async (req, res) => {
       });
     }
 
-    res.json(bloodRequest);
+    // Other viewers only get donor counts, see toResponseFor
+    if (bloodRequest.canBeManagedBy(req.user)) {
+      await bloodRequest.populate([
+        { path: 'notifiedDonors.donor', select: 'name bloodGroup' },
+        { path: 'fulfillmentDetails.donors.donor', select: 'name bloodGroup' }
+      ]);
+    }
+
+    if (bloodRequest.status === 'active' && priorityService.isStale(bloodRequest)) {
+      await priorityService.refresh(bloodRequest);
+    }
+
+    res.json(bloodRequest.toResponseFor(req.user));
 
   } catch (error) {
     console.error('Get blood request error:', error);
@@ -351,30 +671,11 @@ router.post('/:id/respond',
         });
       }
 
-      if (bloodRequest.status !== 'active') {
-        return res.status(400).json({
-          message: 'This blood request is no longer active'
-        });
-      }
-
-      // Check if donor can donate to this blood group
-      const tempRequest = new BloodRequest({ bloodGroup: donor.bloodGroup });
-      const compatibleGroups = tempRequest.getCompatibleBloodGroups();
-      
-      if (!compatibleGroups.includes(bloodRequest.bloodGroup)) {
-        return res.status(400).json({
-          message: 'Your blood group is not compatible with this request'
-        });
-      }
-
-      // Check if donor already responded
-      const existingResponse = bloodRequest.responses.find(
-        response => response.donor.toString() === donor._id.toString()
-      );
-
-      if (existingResponse) {
-        return res.status(400).json({
-          message: 'You have already responded to this request'
+      const responseError = getDonorResponseError(bloodRequest, donor);
+      if (responseError) {
+        return res.status(responseError.status).json({
+          message: responseError.message,
+          code: responseError.code
         });
       }
 
@@ -385,6 +686,9 @@ router.post('/:id/respond',
         status
       });
 
+      // Coverage changed, so re-rank the request
+      bloodRequest.calculatePriority();
+
       await bloodRequest.save();
 
       // Notify requester about the response
@@ -398,7 +702,7 @@ router.post('/:id/respond',
 
       res.json({
         message: 'Response submitted successfully',
-        bloodRequest
+        bloodRequest: bloodRequest.toResponseFor(req.user)
       });
 
     } catch (error) {
@@ -411,6 +715,206 @@ router.post('/:id/respond',
   }
 );
 
+// @route   POST /api/blood-requests/:id/interest
+// @desc    Express interest in a blood request (shorthand for an 'interested' response)
+// @access  Private (donor)
+router.post('/:id/interest',
+  verifyToken,
+  authorize('donor'),
+  async (req, res) => {
+    try {
+      const donor = req.user;
+
+      const bloodRequest = await BloodRequest.findById(req.params.id);
+      if (!bloodRequest) {
+        return res.status(404).json({
+          message: 'Blood request not found'
+        });
+      }
+
+      const responseError = getDonorResponseError(bloodRequest, donor);
+      if (responseError) {
+        return res.status(responseError.status).json({
+          message: responseError.message,
+          code: responseError.code
+        });
+      }
+
+      bloodRequest.responses.push({
+        donor: donor._id,
+        status: 'interested'
+      });
+
+      bloodRequest.calculatePriority();
+
+      await bloodRequest.save();
+
+      try {
+        await notificationService.notifyRequesterOfResponse(bloodRequest, donor, 'interested');
+      } catch (notificationError) {
+        console.error('Notification error:', notificationError);
+      }
+
+      res.status(201).json({
+        message: 'Interest expressed successfully'
+      });
+
+    } catch (error) {
+      console.error('Express interest error:', error);
+      res.status(500).json({
+        message: 'Server error expressing interest',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   PUT /api/blood-requests/:id/responses/:responseId
+// @desc    Update the status of a donor response
+// @access  Private (responding donor, request owner or admin)
+router.put('/:id/responses/:responseId',
+  verifyToken,
+  [
+    body('status')
+      .isIn(['confirmed', 'declined', 'donated'])
+      .withMessage('Status must be confirmed, declined or donated'),
+    body('units')
+      .optional()
+      .isInt({ min: 1, max: 10 })
+      .withMessage('Units must be between 1 and 10')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { status } = req.body;
+      const units = status === 'donated' ? parseInt(req.body.units, 10) || 1 : 0;
+
+      const bloodRequest = await BloodRequest.findById(req.params.id);
+      if (!bloodRequest) {
+        return res.status(404).json({
+          message: 'Blood request not found'
+        });
+      }
+
+      const response = bloodRequest.responses.id(req.params.responseId);
+      if (!response) {
+        return res.status(404).json({
+          message: 'Response not found'
+        });
+      }
+
+      if (bloodRequest.status !== 'active') {
+        return res.status(400).json({
+          message: 'This blood request is no longer active'
+        });
+      }
+
+      const isManager = bloodRequest.canBeManagedBy(req.user);
+      const isResponder = response.donor.toString() === req.user._id.toString();
+
+      // Donors may confirm or withdraw their own response; only the requester,
+      // the hospital or an admin can record that a donation took place
+      const allowed = isManager
+        ? ['confirmed', 'declined', 'donated']
+        : isResponder ? ['confirmed', 'declined'] : [];
+
+      if (!allowed.includes(status)) {
+        return res.status(403).json({
+          message: 'Not authorized to update this response'
+        });
+      }
+
+      if (response.status === 'donated') {
+        return res.status(400).json({
+          message: 'This donation has already been recorded'
+        });
+      }
+
+      if (status === 'donated' && response.status !== 'confirmed') {
+        return res.status(400).json({
+          message: 'Only confirmed responses can be marked as donated'
+        });
+      }
+
+      const remainingUnits = bloodRequest.unitsNeeded - (bloodRequest.fulfillmentDetails.donatedUnits || 0);
+      if (status === 'donated' && units > remainingUnits) {
+        return res.status(400).json({
+          message: `Only ${remainingUnits} more unit(s) are needed for this request`
+        });
+      }
+
+      const now = new Date();
+      response.status = status;
+      response.statusUpdatedAt = now;
+
+      let fulfilled = false;
+      if (status === 'donated') {
+        fulfilled = bloodRequest.recordDonation(response.donor, units, now);
+      }
+
+      bloodRequest.calculatePriority();
+
+      await bloodRequest.save();
+
+      // Keep the donor's booked appointments in step with their response
+      if (status === 'declined') {
+        await Appointment.updateMany(
+          { bloodRequest: bloodRequest._id, donor: response.donor, status: 'booked' },
+          { status: 'open', $unset: { donor: 1, bookedAt: 1 } }
+        );
+      } else if (status === 'donated') {
+        await Appointment.updateMany(
+          { bloodRequest: bloodRequest._id, donor: response.donor, status: 'booked' },
+          { status: 'completed' }
+        );
+      }
+
+      if (status === 'donated') {
+        await User.findByIdAndUpdate(response.donor, {
+          $inc: { totalDonations: 1 },
+          lastDonation: now,
+          lastDonationType: bloodRequest.componentType,
+          nextEligibleDate: User.getNextEligibleDate(now, bloodRequest.componentType)
+        });
+      }
+
+      if (!isResponder) {
+        await notificationService.notifyDonorOfResponseStatus(bloodRequest, response.donor, status);
+      }
+
+      if (fulfilled) {
+        await notificationService.notifyRequestStatusChange(bloodRequest, 'fulfilled', req.user._id);
+      }
+
+      await bloodRequest.populate([
+        { path: 'responses.donor', select: 'name bloodGroup email phone' },
+        { path: 'fulfillmentDetails.donors.donor', select: 'name bloodGroup' }
+      ]);
+
+      res.json({
+        message: fulfilled
+          ? 'Donation recorded and blood request fulfilled'
+          : status === 'donated' ? 'Donation recorded successfully' : 'Response updated successfully',
+        bloodRequest: bloodRequest.toResponseFor(req.user)
+      });
+
+    } catch (error) {
+      console.error('Update response status error:', error);
+      res.status(500).json({
+        message: 'Server error updating response',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
 // @route   PUT /api/blood-requests/:id
 // @desc    Update blood request (owner or admin only)
 // @access  Private
@@ -424,8 +928,8 @@ router.put('/:id', verifyToken, async (req, res) => {
       });
     }
 
-    // Check ownership or admin rights
-    if (bloodRequest.requester.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+    // Check ownership, hospital or admin rights
+    if (!bloodRequest.canBeManagedBy(req.user)) {
       return res.status(403).json({
         message: 'Not authorized to update this blood request'
       });
@@ -441,17 +945,23 @@ router.put('/:id', verifyToken, async (req, res) => {
       }
     });
 
+    const statusChanged = updates.status && updates.status !== bloodRequest.status;
+
     Object.assign(bloodRequest, updates);
     
-    if (updates.urgency) {
+    if (updates.urgency || updates.requiredBy) {
       bloodRequest.calculatePriority();
     }
 
     await bloodRequest.save();
 
+    if (statusChanged) {
+      await notificationService.notifyRequestStatusChange(bloodRequest, bloodRequest.status, req.user._id);
+    }
+
     res.json({
       message: 'Blood request updated successfully',
-      bloodRequest
+      bloodRequest: bloodRequest.toResponseFor(req.user)
     });
 
   } catch (error) {
@@ -2,6 +2,7 @@ const express = require('express');
 const { query, validationResult } = require('express-validator');
 const User = require('../models/User');
 const { verifyToken, optionalAuth } = require('../middleware/auth');
+const { escapeRegex } = require('../utils/regex');
 
 const router = express.Router();
 
@@ -14,7 +15,8 @@ router.get('/nearby',
     query('lat').isFloat({ min: -90, max: 90 }).withMessage('Valid latitude required'),
     query('lng').isFloat({ min: -180, max: 180 }).withMessage('Valid longitude required'),
     query('bloodGroup').optional().isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']),
-    query('radius').optional().isInt({ min: 1, max: 100 }).withMessage('Radius must be between 1 and 100 km')
+    query('radius').optional().isInt({ min: 1, max: 100 }).withMessage('Radius must be between 1 and 100 km'),
+    query('includeIneligible').optional().isBoolean()
   ],
   async (req, res) => {
     try {
@@ -26,7 +28,7 @@ router.get('/nearby',
         });
       }
 
-      const { lat, lng, bloodGroup, radius = 20 } = req.query;
+      const { lat, lng, bloodGroup, radius = 20, includeIneligible } = req.query;
 
       let query = {
         role: 'donor',
@@ -46,8 +48,13 @@ router.get('/nearby',
         query.bloodGroup = bloodGroup;
       }
 
+      // Donors still within their post-donation interval are hidden by default
+      if (includeIneligible !== 'true') {
+        Object.assign(query, User.eligibleDonorFilter());
+      }
+
       const donors = await User.find(query)
-        .select('name bloodGroup location totalDonations rating lastDonation')
+        .select('name bloodGroup location totalDonations rating lastDonation lastDonationType nextEligibleDate')
         .limit(50);
 
       // Add distance and eligibility info
@@ -109,18 +116,18 @@ router.get('/',
       }
 
       if (city) {
-        query['location.city'] = new RegExp(city, 'i');
+        query['location.city'] = new RegExp(escapeRegex(city), 'i');
       }
 
       if (state) {
-        query['location.state'] = new RegExp(state, 'i');
+        query['location.state'] = new RegExp(escapeRegex(state), 'i');
       }
 
       const skip = (page - 1) * limit;
 
       // Select different fields based on authentication
       const selectFields = req.user 
-        ? 'name bloodGroup location.city location.state totalDonations rating lastDonation'
+        ? 'name bloodGroup location.city location.state totalDonations rating lastDonation lastDonationType nextEligibleDate'
         : 'name bloodGroup location.city location.state totalDonations rating';
 
       const donors = await User.find(query)
@@ -0,0 +1,783 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Drive = require('../models/Drive');
+const Hospital = require('../models/Hospital');
+const User = require('../models/User');
+const { verifyToken, authorize, optionalAuth, requireVerification, requireApprovedHospital } = require('../middleware/auth');
+const notificationService = require('../utils/notificationService');
+const { escapeRegex } = require('../utils/regex');
+const { BLOOD_GROUPS, COMPONENT_TYPES } = require('blood-donation-shared/compatibility');
+
+const router = express.Router();
+
+// Updates may change any subset of fields
+const getDriveValidation = (isUpdate = false) => {
+  const field = (name) => isUpdate ? body(name).optional() : body(name);
+
+  return [
+    field('name')
+      .trim()
+      .isLength({ min: 3, max: 150 })
+      .withMessage('Drive name must be between 3 and 150 characters'),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 1000 })
+      .withMessage('Description cannot exceed 1000 characters'),
+    body('hospitalId')
+      .optional({ values: 'falsy' })
+      .isMongoId()
+      .withMessage('Invalid hospital'),
+    field('location.coordinates')
+      .isArray({ min: 2, max: 2 })
+      .withMessage('Location coordinates must be [longitude, latitude]'),
+    field('location.address')
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Address is required'),
+    field('location.city')
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('City is required'),
+    field('location.state')
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('State is required'),
+    body('location.venue')
+      .optional()
+      .trim()
+      .isLength({ max: 150 })
+      .withMessage('Venue cannot exceed 150 characters'),
+    field('startsAt')
+      .isISO8601()
+      .toDate()
+      .withMessage('Invalid start time'),
+    field('endsAt')
+      .isISO8601()
+      .toDate()
+      .withMessage('Invalid end time'),
+    field('capacity')
+      .isInt({ min: 1, max: 5000 })
+      .withMessage('Capacity must be between 1 and 5000 donors'),
+    body('targets')
+      .optional()
+      .isArray({ max: BLOOD_GROUPS.length })
+      .withMessage('Invalid targets'),
+    body('targets.*.bloodGroup')
+      .isIn(BLOOD_GROUPS)
+      .withMessage('Invalid blood group'),
+    body('targets.*.units')
+      .isInt({ min: 1, max: 5000 })
+      .withMessage('Target units must be between 1 and 5000')
+  ];
+};
+
+// Check a drive's time window. Returns an error message, or null if it is valid.
+const getWindowError = (startsAt, endsAt) => {
+  if (endsAt <= new Date()) {
+    return 'The drive must end in the future';
+  }
+
+  if (endsAt <= startsAt) {
+    return 'End time must be after start time';
+  }
+
+  return null;
+};
+
+// A blood group may only be targeted once per drive
+const hasDuplicateTargets = (targets = []) =>
+  new Set(targets.map(target => target.bloodGroup)).size !== targets.length;
+
+// Hospital accounts run drives for their own hospital; admins may name one
+const getDriveHospitalId = (user, hospitalId) =>
+  user.role === 'hospital' ? user.getManagedHospital() : hospitalId;
+
+const notifyDrive = async (drive, donorIds, action) => {
+  try {
+    await notificationService.notifyDriveUpdate(drive, donorIds, action);
+  } catch (notificationError) {
+    console.error('Notification error:', notificationError);
+  }
+};
+
+// @route   GET /api/drives
+// @desc    Get upcoming blood drives, optionally near a position
+// @access  Public
+router.get('/',
+  optionalAuth,
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+    query('lat').optional().isFloat({ min: -90, max: 90 }).withMessage('Invalid latitude'),
+    query('lng').optional().isFloat({ min: -180, max: 180 }).withMessage('Invalid longitude'),
+    query('radius').optional().isInt({ min: 1, max: 200 }).withMessage('Radius must be between 1 and 200 km'),
+    query('city').optional().trim().isLength({ max: 50 }),
+    query('mine').optional().isBoolean()
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { page = 1, limit = 10, lat, lng, radius = 50, city, mine } = req.query;
+
+      const query = {
+        status: 'scheduled',
+        endsAt: { $gt: new Date() }
+      };
+
+      // Organisers see every drive they run, including past and cancelled ones
+      if (mine === 'true' && req.user) {
+        delete query.status;
+        delete query.endsAt;
+        query.$or = [{ organizer: req.user._id }];
+        const managedHospital = req.user.getManagedHospital();
+        if (managedHospital) {
+          query.$or.push({ hospital: managedHospital });
+        }
+      }
+
+      if (city) {
+        query['location.city'] = new RegExp(escapeRegex(city), 'i');
+      }
+
+      // $near sorts by distance and cannot be combined with countDocuments,
+      // so nearby searches use $geoWithin for the count
+      let sort = query.$or ? { startsAt: -1 } : { startsAt: 1 };
+      const countQuery = { ...query };
+      if (lat !== undefined && lng !== undefined) {
+        const coordinates = [parseFloat(lng), parseFloat(lat)];
+        query.location = {
+          $near: {
+            $geometry: { type: 'Point', coordinates },
+            $maxDistance: radius * 1000
+          }
+        };
+        countQuery.location = {
+          $geoWithin: { $centerSphere: [coordinates, radius / 6378.1] }
+        };
+        sort = undefined;
+      }
+
+      let drivesQuery = Drive.find(query)
+        .populate('organizer', 'name')
+        .populate('hospital', 'name isVerified')
+        .skip((parseInt(page) - 1) * parseInt(limit))
+        .limit(parseInt(limit));
+      if (sort) {
+        drivesQuery = drivesQuery.sort(sort);
+      }
+
+      const [drives, total] = await Promise.all([drivesQuery, Drive.countDocuments(countQuery)]);
+      const totalPages = Math.ceil(total / parseInt(limit));
+
+      res.json({
+        message: 'Blood drives retrieved successfully',
+        data: drives.map(drive => drive.toSummary(req.user && req.user._id)),
+        pagination: {
+          page: parseInt(page),
+          pages: totalPages,
+          total,
+          limit: parseInt(limit),
+          hasNextPage: parseInt(page) < totalPages,
+          hasPrevPage: parseInt(page) > 1
+        }
+      });
+
+    } catch (error) {
+      console.error('Get drives error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving blood drives',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/drives/nearby
+// @desc    Get upcoming blood drives near the donor, for the donor feed
+// @access  Private (donor)
+router.get('/nearby',
+  verifyToken,
+  authorize('donor'),
+  [
+    query('radius').optional().isInt({ min: 1, max: 100 }).withMessage('Radius must be between 1 and 100 km')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { radius = 20 } = req.query;
+      const donor = req.user;
+
+      if (!donor.location || !donor.location.coordinates) {
+        return res.status(400).json({
+          message: 'Donor location not set. Please update your profile.'
+        });
+      }
+
+      const drives = await Drive.find({
+        location: {
+          $near: {
+            $geometry: {
+              type: 'Point',
+              coordinates: donor.location.coordinates
+            },
+            $maxDistance: radius * 1000 // Convert km to meters
+          }
+        },
+        status: 'scheduled',
+        endsAt: { $gt: new Date() }
+      })
+      .populate('organizer', 'name')
+      .populate('hospital', 'name isVerified')
+      .limit(20);
+
+      res.json({
+        nearbyDrives: drives.map(drive => drive.toSummary(donor._id))
+      });
+
+    } catch (error) {
+      console.error('Get nearby drives error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving nearby drives',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/drives/my-registrations
+// @desc    Get the drives the current donor has registered for
+// @access  Private (donor)
+router.get('/my-registrations', verifyToken, authorize('donor'), async (req, res) => {
+  try {
+    const drives = await Drive.find({ 'registrations.donor': req.user._id })
+      .populate('organizer', 'name')
+      .populate('hospital', 'name isVerified')
+      .sort({ startsAt: -1 })
+      .limit(50);
+
+    res.json({
+      drives: drives.map(drive => drive.toSummary(req.user._id))
+    });
+
+  } catch (error) {
+    console.error('Get drive registrations error:', error);
+    res.status(500).json({
+      message: 'Server error retrieving your drive registrations',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   GET /api/drives/:id
+// @desc    Get a blood drive; organisers also see its registrations
+// @access  Public
+router.get('/:id', optionalAuth, async (req, res) => {
+  try {
+    const drive = await Drive.findById(req.params.id)
+      .populate('organizer', 'name email phone')
+      .populate('hospital', 'name phone isVerified')
+      .populate('registrations.donor', 'name bloodGroup phone email');
+
+    if (!drive) {
+      return res.status(404).json({
+        message: 'Blood drive not found'
+      });
+    }
+
+    const canManage = !!req.user && drive.canBeManagedBy(req.user);
+
+    res.json({
+      drive: {
+        ...drive.toSummary(req.user && req.user._id),
+        registrations: canManage ? drive.registrations : undefined,
+        canManage
+      }
+    });
+
+  } catch (error) {
+    console.error('Get drive error:', error);
+    res.status(500).json({
+      message: 'Server error retrieving blood drive',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/drives
+// @desc    Schedule a blood drive
+// @access  Private (hospital, admin)
+router.post('/',
+  verifyToken,
+  authorize('hospital', 'admin'),
+  requireVerification,
+  requireApprovedHospital,
+  getDriveValidation(),
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { name, description, location, startsAt, endsAt, capacity, targets = [] } = req.body;
+
+      const windowError = getWindowError(startsAt, endsAt);
+      if (windowError) {
+        return res.status(400).json({
+          message: windowError
+        });
+      }
+
+      if (hasDuplicateTargets(targets)) {
+        return res.status(400).json({
+          message: 'Each blood group can only have one target'
+        });
+      }
+
+      const hospitalId = getDriveHospitalId(req.user, req.body.hospitalId);
+      if (hospitalId && !(await Hospital.exists({ _id: hospitalId }))) {
+        return res.status(400).json({
+          message: 'Hospital not found'
+        });
+      }
+
+      const drive = new Drive({
+        name,
+        description,
+        organizer: req.user._id,
+        hospital: hospitalId || undefined,
+        location: {
+          type: 'Point',
+          coordinates: location.coordinates.map(Number),
+          venue: location.venue,
+          address: location.address,
+          city: location.city,
+          state: location.state
+        },
+        startsAt,
+        endsAt,
+        capacity,
+        targets
+      });
+
+      await drive.save();
+
+      res.status(201).json({
+        message: 'Blood drive scheduled successfully',
+        drive: drive.toSummary()
+      });
+
+    } catch (error) {
+      console.error('Create drive error:', error);
+      res.status(500).json({
+        message: 'Server error scheduling blood drive',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   PUT /api/drives/:id
+// @desc    Update or cancel a blood drive
+// @access  Private (organiser, hospital staff or admin)
+router.put('/:id',
+  verifyToken,
+  [
+    ...getDriveValidation(true),
+    body('status')
+      .optional()
+      .isIn(['cancelled'])
+      .withMessage('Drives can only be cancelled by hand'),
+    body('cancellationReason')
+      .optional()
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage('Cancellation reason cannot exceed 200 characters')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const drive = await Drive.findById(req.params.id);
+
+      if (!drive) {
+        return res.status(404).json({
+          message: 'Blood drive not found'
+        });
+      }
+
+      if (!drive.canBeManagedBy(req.user)) {
+        return res.status(403).json({
+          message: 'Not authorized to update this blood drive'
+        });
+      }
+
+      if (drive.status !== 'scheduled') {
+        return res.status(400).json({
+          message: `This blood drive is already ${drive.status}`
+        });
+      }
+
+      const { status, cancellationReason, location, targets } = req.body;
+
+      if (status === 'cancelled') {
+        drive.status = 'cancelled';
+        drive.cancellationReason = cancellationReason;
+        await drive.save();
+
+        const donorIds = drive.registrations
+          .filter(registration => ['registered', 'checked_in'].includes(registration.status))
+          .map(registration => registration.donor);
+        await notifyDrive(drive, donorIds, 'cancelled');
+
+        return res.json({
+          message: 'Blood drive cancelled',
+          drive: drive.toSummary()
+        });
+      }
+
+      const startsAt = req.body.startsAt || drive.startsAt;
+      const endsAt = req.body.endsAt || drive.endsAt;
+      const windowError = getWindowError(startsAt, endsAt);
+      if (windowError) {
+        return res.status(400).json({
+          message: windowError
+        });
+      }
+
+      if (targets && hasDuplicateTargets(targets)) {
+        return res.status(400).json({
+          message: 'Each blood group can only have one target'
+        });
+      }
+
+      if (req.body.capacity !== undefined && req.body.capacity < drive.getRegisteredCount()) {
+        return res.status(400).json({
+          message: `Capacity cannot be below the ${drive.getRegisteredCount()} donor(s) already registered`
+        });
+      }
+
+      ['name', 'description', 'startsAt', 'endsAt', 'capacity', 'targets'].forEach(key => {
+        if (req.body[key] !== undefined) {
+          drive[key] = req.body[key];
+        }
+      });
+
+      if (location) {
+        ['venue', 'address', 'city', 'state'].forEach(key => {
+          if (location[key] !== undefined) {
+            drive.location[key] = location[key];
+          }
+        });
+        if (location.coordinates) {
+          drive.location.coordinates = location.coordinates.map(Number);
+        }
+      }
+
+      const timeChanged = drive.isModified('startsAt') || drive.isModified('endsAt');
+      await drive.save();
+
+      if (timeChanged) {
+        const donorIds = drive.registrations
+          .filter(registration => registration.status === 'registered')
+          .map(registration => registration.donor);
+        await notifyDrive(drive, donorIds, 'rescheduled');
+      }
+
+      res.json({
+        message: 'Blood drive updated successfully',
+        drive: drive.toSummary()
+      });
+
+    } catch (error) {
+      console.error('Update drive error:', error);
+      res.status(500).json({
+        message: 'Server error updating blood drive',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   POST /api/drives/:id/register
+// @desc    Register the current donor for a blood drive
+// @access  Private (donor)
+router.post('/:id/register', verifyToken, authorize('donor'), async (req, res) => {
+  try {
+    const drive = await Drive.findById(req.params.id);
+
+    if (!drive) {
+      return res.status(404).json({
+        message: 'Blood drive not found'
+      });
+    }
+
+    if (!drive.isOpenForRegistration()) {
+      return res.status(400).json({
+        message: 'This blood drive is no longer taking registrations'
+      });
+    }
+
+    const donor = req.user;
+    const existing = drive.getRegistration(donor._id);
+
+    if (existing && existing.status !== 'cancelled') {
+      return res.status(400).json({
+        message: 'You are already registered for this blood drive'
+      });
+    }
+
+    // Donors need to become eligible before the drive ends
+    if (!donor.canDonate(drive.endsAt)) {
+      return res.status(400).json({
+        message: `You are not eligible to donate again until ${donor.getNextEligibleDate().toDateString()}`
+      });
+    }
+
+    // Reserve the place atomically, so a full drive is never overbooked
+    const registeredCount = drive.getRegisteredCount();
+    const registration = { donor: donor._id, bloodGroup: donor.bloodGroup, status: 'registered', registeredAt: new Date() };
+    const update = existing
+      ? { $set: { 'registrations.$[entry]': { ...registration, _id: existing._id } } }
+      : { $push: { registrations: registration } };
+
+    const updated = await Drive.findOneAndUpdate(
+      {
+        _id: drive._id,
+        status: 'scheduled',
+        $expr: {
+          $lt: [
+            {
+              $size: {
+                $filter: {
+                  input: '$registrations',
+                  cond: { $in: ['$$this.status', Drive.ACTIVE_REGISTRATION_STATUSES] }
+                }
+              }
+            },
+            '$capacity'
+          ]
+        }
+      },
+      update,
+      {
+        new: true,
+        arrayFilters: existing ? [{ 'entry._id': existing._id }] : undefined
+      }
+    );
+
+    if (!updated) {
+      return res.status(400).json({
+        message: registeredCount >= drive.capacity
+          ? 'This blood drive is full'
+          : 'This blood drive is no longer taking registrations'
+      });
+    }
+
+    await notifyDrive(updated, [donor._id], 'registered');
+
+    res.status(201).json({
+      message: 'Registered for the blood drive',
+      drive: updated.toSummary(donor._id)
+    });
+
+  } catch (error) {
+    console.error('Register for drive error:', error);
+    res.status(500).json({
+      message: 'Server error registering for blood drive',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   DELETE /api/drives/:id/register
+// @desc    Cancel the current donor's registration for a blood drive
+// @access  Private (donor)
+router.delete('/:id/register', verifyToken, authorize('donor'), async (req, res) => {
+  try {
+    const drive = await Drive.findById(req.params.id);
+
+    if (!drive) {
+      return res.status(404).json({
+        message: 'Blood drive not found'
+      });
+    }
+
+    const registration = drive.getRegistration(req.user._id);
+
+    if (!registration || registration.status !== 'registered') {
+      return res.status(400).json({
+        message: 'You have no registration to cancel for this blood drive'
+      });
+    }
+
+    registration.status = 'cancelled';
+    await drive.save();
+
+    res.json({
+      message: 'Registration cancelled',
+      drive: drive.toSummary(req.user._id)
+    });
+
+  } catch (error) {
+    console.error('Cancel drive registration error:', error);
+    res.status(500).json({
+      message: 'Server error cancelling registration',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   PUT /api/drives/:id/registrations/:registrationId
+// @desc    Check a donor in, or record their attendance at a blood drive
+// @access  Private (organiser, hospital staff or admin)
+router.put('/:id/registrations/:registrationId',
+  verifyToken,
+  [
+    body('status')
+      .isIn(['checked_in', 'donated', 'no_show'])
+      .withMessage('Status must be checked_in, donated or no_show'),
+    body('componentType')
+      .optional()
+      .isIn(COMPONENT_TYPES)
+      .withMessage('Invalid component type'),
+    body('units')
+      .optional()
+      .isInt({ min: 1, max: 10 })
+      .withMessage('Units must be between 1 and 10')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const drive = await Drive.findById(req.params.id);
+
+      if (!drive) {
+        return res.status(404).json({
+          message: 'Blood drive not found'
+        });
+      }
+
+      if (!drive.canBeManagedBy(req.user)) {
+        return res.status(403).json({
+          message: 'Not authorized to record attendance for this blood drive'
+        });
+      }
+
+      if (drive.status === 'cancelled') {
+        return res.status(400).json({
+          message: 'This blood drive was cancelled'
+        });
+      }
+
+      const registration = drive.registrations.id(req.params.registrationId);
+      if (!registration) {
+        return res.status(404).json({
+          message: 'Registration not found'
+        });
+      }
+
+      const { status } = req.body;
+      const now = new Date();
+
+      if (now < drive.startsAt) {
+        return res.status(400).json({
+          message: 'Attendance can only be recorded once the drive has started'
+        });
+      }
+
+      if (registration.status === 'donated') {
+        return res.status(400).json({
+          message: 'This donation has already been recorded'
+        });
+      }
+
+      if (registration.status === 'cancelled') {
+        return res.status(400).json({
+          message: 'This donor cancelled their registration'
+        });
+      }
+
+      if (status === 'checked_in' && registration.status !== 'registered') {
+        return res.status(400).json({
+          message: 'Only registered donors can be checked in'
+        });
+      }
+
+      registration.status = status;
+
+      if (status === 'checked_in') {
+        registration.checkedInAt = now;
+      }
+
+      if (status === 'donated') {
+        const componentType = req.body.componentType || 'whole_blood';
+        registration.checkedInAt = registration.checkedInAt || now;
+        registration.donatedAt = now;
+        registration.componentType = componentType;
+        registration.units = parseInt(req.body.units, 10) || 1;
+
+        await User.findByIdAndUpdate(registration.donor, {
+          $inc: { totalDonations: 1 },
+          lastDonation: now,
+          lastDonationType: componentType,
+          nextEligibleDate: User.getNextEligibleDate(now, componentType)
+        });
+      }
+
+      await drive.save();
+
+      if (status === 'donated') {
+        await notifyDrive(drive, [registration.donor], 'donated');
+      }
+
+      await drive.populate('registrations.donor', 'name bloodGroup phone email');
+
+      res.json({
+        message: status === 'donated'
+          ? 'Donation recorded successfully'
+          : status === 'checked_in' ? 'Donor checked in' : 'Donor marked as a no-show',
+        registration
+      });
+
+    } catch (error) {
+      console.error('Update drive registration error:', error);
+      res.status(500).json({
+        message: 'Server error recording attendance',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+module.exports = router;
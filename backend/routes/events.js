@@ -0,0 +1,14 @@
+const express = require('express');
+const { verifyToken } = require('../middleware/auth');
+const realtimeService = require('../utils/realtimeService');
+
+const router = express.Router();
+
+// @route   GET /api/events
+// @desc    Open a Server-Sent Events stream of live updates for the current user
+// @access  Private
+router.get('/', verifyToken, (req, res) => {
+  realtimeService.subscribe(req, res);
+});
+
+module.exports = router;
@@ -0,0 +1,280 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Hospital = require('../models/Hospital');
+const { verifyToken, authorize, requireApprovedHospital } = require('../middleware/auth');
+const { escapeRegex } = require('../utils/regex');
+
+const router = express.Router();
+
+// Fields shown in the public search and picker
+const PUBLIC_FIELDS = 'name phone location bloodBankContact isVerified lowStockThreshold';
+
+const bloodBankContactValidation = [
+  body('bloodBankContact.name')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Contact name cannot exceed 100 characters'),
+  body('bloodBankContact.phone')
+    .optional({ checkFalsy: true })
+    .matches(/^\+?[\d\s\-\(\)]{10,15}$/)
+    .withMessage('Invalid blood bank phone number'),
+  body('bloodBankContact.email')
+    .optional({ checkFalsy: true })
+    .isEmail()
+    .withMessage('Invalid blood bank email')
+];
+
+const hospitalValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 150 })
+    .withMessage('Hospital name must be between 2 and 150 characters'),
+  body('phone')
+    .matches(/^\+?[\d\s\-\(\)]{10,15}$/)
+    .withMessage('Invalid hospital phone number'),
+  body('location.coordinates')
+    .isArray({ min: 2, max: 2 })
+    .withMessage('Location coordinates must be an array of [longitude, latitude]'),
+  body('location.coordinates.*')
+    .isNumeric()
+    .withMessage('Coordinates must be numbers'),
+  body('location.address')
+    .trim()
+    .isLength({ min: 5, max: 200 })
+    .withMessage('Address must be between 5 and 200 characters'),
+  body('location.city')
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('City must be between 2 and 50 characters'),
+  body('location.state')
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('State must be between 2 and 50 characters'),
+  ...bloodBankContactValidation
+];
+
+// @route   GET /api/hospitals/search
+// @desc    Autocomplete hospitals by name or city, nearest first when a position is given
+// @access  Public
+router.get('/search',
+  [
+    query('q').optional().trim().isLength({ max: 100 }),
+    query('lat').optional().isFloat({ min: -90, max: 90 }),
+    query('lng').optional().isFloat({ min: -180, max: 180 }),
+    query('limit').optional().isInt({ min: 1, max: 20 })
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { q, lat, lng, limit = 10 } = req.query;
+
+      let query = {};
+
+      if (q) {
+        const pattern = new RegExp(escapeRegex(q), 'i');
+        query.$or = [
+          { name: pattern },
+          { 'location.city': pattern }
+        ];
+      }
+
+      let hospitals;
+      if (lat && lng) {
+        query.location = {
+          $near: {
+            $geometry: {
+              type: 'Point',
+              coordinates: [parseFloat(lng), parseFloat(lat)]
+            }
+          }
+        };
+        hospitals = await Hospital.find(query).select(PUBLIC_FIELDS).limit(parseInt(limit));
+      } else {
+        hospitals = await Hospital.find(query)
+          .select(PUBLIC_FIELDS)
+          .sort({ isVerified: -1, name: 1 })
+          .limit(parseInt(limit));
+      }
+
+      res.json({ hospitals });
+
+    } catch (error) {
+      console.error('Search hospitals error:', error);
+      res.status(500).json({
+        message: 'Server error searching hospitals',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/hospitals/:id
+// @desc    Get a hospital
+// @access  Public
+router.get('/:id', async (req, res) => {
+  try {
+    const hospital = await Hospital.findById(req.params.id).select(PUBLIC_FIELDS);
+
+    if (!hospital) {
+      return res.status(404).json({
+        message: 'Hospital not found'
+      });
+    }
+
+    res.json(hospital);
+
+  } catch (error) {
+    console.error('Get hospital error:', error);
+    res.status(500).json({
+      message: 'Server error retrieving hospital',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   POST /api/hospitals
+// @desc    Register a hospital. Hospitals added by admins are verified straight away.
+// @access  Private (requester, hospital, admin)
+router.post('/',
+  verifyToken,
+  authorize('requester', 'hospital', 'admin'),
+  hospitalValidation,
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { name, phone, location, bloodBankContact } = req.body;
+
+      // Avoid duplicates of the same hospital in the same city
+      const existing = await Hospital.findOne({
+        name: new RegExp(`^${escapeRegex(name.trim())}$`, 'i'),
+        'location.city': new RegExp(`^${escapeRegex(location.city.trim())}$`, 'i')
+      });
+      if (existing) {
+        return res.status(400).json({
+          message: 'This hospital is already registered',
+          hospital: existing
+        });
+      }
+
+      const isAdmin = req.user.role === 'admin';
+      const hospital = new Hospital({
+        name,
+        phone,
+        location: { ...location, type: 'Point' },
+        bloodBankContact,
+        createdBy: req.user._id,
+        isVerified: isAdmin,
+        verifiedBy: isAdmin ? req.user._id : undefined,
+        verifiedAt: isAdmin ? new Date() : undefined
+      });
+
+      await hospital.save();
+
+      res.status(201).json({
+        message: 'Hospital registered successfully',
+        hospital
+      });
+
+    } catch (error) {
+      console.error('Create hospital error:', error);
+      res.status(500).json({
+        message: 'Server error registering hospital',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   PUT /api/hospitals/:id
+// @desc    Update a hospital. Its own accounts may change contact details and
+//          the low stock threshold only.
+// @access  Private (hospital, admin)
+router.put('/:id',
+  verifyToken,
+  authorize('hospital', 'admin'),
+  requireApprovedHospital,
+  [
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 2, max: 150 })
+      .withMessage('Hospital name must be between 2 and 150 characters'),
+    body('phone')
+      .optional()
+      .matches(/^\+?[\d\s\-\(\)]{10,15}$/)
+      .withMessage('Invalid hospital phone number'),
+    body('lowStockThreshold')
+      .optional()
+      .isInt({ min: 0, max: 500 })
+      .withMessage('Low stock threshold must be between 0 and 500'),
+    ...bloodBankContactValidation
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const hospital = await Hospital.findById(req.params.id);
+
+      if (!hospital) {
+        return res.status(404).json({
+          message: 'Hospital not found'
+        });
+      }
+
+      const isAdmin = req.user.role === 'admin';
+      const managedHospital = req.user.getManagedHospital();
+      if (!isAdmin && (!managedHospital || managedHospital.toString() !== hospital._id.toString())) {
+        return res.status(403).json({
+          message: 'Not authorized to update this hospital'
+        });
+      }
+
+      const allowedUpdates = isAdmin
+        ? ['name', 'phone', 'location', 'bloodBankContact', 'lowStockThreshold']
+        : ['phone', 'bloodBankContact', 'lowStockThreshold'];
+
+      Object.keys(req.body).forEach(key => {
+        if (allowedUpdates.includes(key)) {
+          hospital[key] = req.body[key];
+        }
+      });
+
+      await hospital.save();
+
+      res.json({
+        message: 'Hospital updated successfully',
+        hospital
+      });
+
+    } catch (error) {
+      console.error('Update hospital error:', error);
+      res.status(500).json({
+        message: 'Server error updating hospital',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+module.exports = router;
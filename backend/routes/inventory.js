@@ -0,0 +1,344 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Hospital = require('../models/Hospital');
+const InventoryItem = require('../models/InventoryItem');
+const { verifyToken, authorize, requireApprovedHospital } = require('../middleware/auth');
+const inventoryService = require('../utils/inventoryService');
+const { BLOOD_GROUPS, COMPONENT_TYPES } = require('blood-donation-shared/compatibility');
+
+const router = express.Router();
+
+// All inventory routes require authentication
+router.use(verifyToken);
+
+// Hospital accounts manage their own hospital's stock; admins name the hospital
+const getManagedHospitalId = (user, hospitalId) =>
+  user.role === 'hospital' ? user.getManagedHospital() : hospitalId;
+
+const canManageInventory = (user, item) => {
+  if (user.role === 'admin') return true;
+  const managedHospital = user.getManagedHospital();
+  return !!managedHospital && managedHospital.toString() === item.hospital.toString();
+};
+
+// Stock dropping is what triggers restock drives, so check after each change.
+// A failed check is logged rather than failing the inventory update.
+const checkLowStock = async (hospitalId) => {
+  try {
+    await inventoryService.checkLowStock(hospitalId);
+  } catch (error) {
+    console.error('Low stock check error:', error);
+  }
+};
+
+// Updates may change any subset of fields, and may record a batch that has expired
+const getBatchValidation = (isUpdate = false) => {
+  const field = (name) => isUpdate ? body(name).optional() : body(name);
+
+  const expiresAt = field('expiresAt')
+    .isISO8601()
+    .toDate()
+    .withMessage('Invalid expiry date');
+  if (!isUpdate) {
+    expiresAt.custom((date) => {
+      if (date <= new Date()) {
+        throw new Error('Expiry date must be in the future');
+      }
+      return true;
+    });
+  }
+
+  return [
+    field('units')
+      .isInt({ min: 0, max: 1000 })
+      .withMessage('Units must be between 0 and 1000'),
+    expiresAt,
+    body('batchNumber')
+      .optional()
+      .trim()
+      .isLength({ max: 50 })
+      .withMessage('Batch number cannot exceed 50 characters')
+  ];
+};
+
+// @route   GET /api/inventory/nearby
+// @desc    Find blood banks near a position with stock compatible with a request
+// @access  Private
+router.get('/nearby',
+  [
+    query('lat').isFloat({ min: -90, max: 90 }).withMessage('Invalid latitude'),
+    query('lng').isFloat({ min: -180, max: 180 }).withMessage('Invalid longitude'),
+    query('radius').optional().isFloat({ min: 1, max: 200 }),
+    query('bloodGroup').isIn(BLOOD_GROUPS).withMessage('Invalid blood group'),
+    query('componentType').optional().isIn(COMPONENT_TYPES).withMessage('Invalid component type'),
+    query('unitsNeeded').optional().isInt({ min: 1, max: 10 })
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const { lat, lng, radius = 50, bloodGroup, componentType = 'whole_blood', unitsNeeded = 1 } = req.query;
+
+      const banks = await inventoryService.findNearbyStock({
+        lat: parseFloat(lat),
+        lng: parseFloat(lng),
+        radiusKm: parseFloat(radius),
+        bloodGroup,
+        componentType,
+        unitsNeeded: parseInt(unitsNeeded)
+      });
+
+      res.json({ banks });
+
+    } catch (error) {
+      console.error('Nearby stock error:', error);
+      res.status(500).json({
+        message: 'Server error finding nearby stock',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/inventory/hospital/:hospitalId
+// @desc    Get a blood bank's published stock levels
+// @access  Private
+router.get('/hospital/:hospitalId', async (req, res) => {
+  try {
+    const hospital = await Hospital.findById(req.params.hospitalId)
+      .select('name phone location bloodBankContact isVerified lowStockThreshold');
+
+    if (!hospital) {
+      return res.status(404).json({
+        message: 'Hospital not found'
+      });
+    }
+
+    const stock = await inventoryService.getStockLevels([hospital._id]);
+
+    res.json({ hospital, stock });
+
+  } catch (error) {
+    console.error('Get hospital stock error:', error);
+    res.status(500).json({
+      message: 'Server error retrieving stock',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   GET /api/inventory
+// @desc    Get a blood bank's batches and stock levels for management
+// @access  Private (hospital, admin)
+router.get('/',
+  authorize('hospital', 'admin'),
+  requireApprovedHospital,
+  [
+    query('hospitalId').optional().isMongoId().withMessage('Invalid hospital'),
+    query('includeExpired').optional().isBoolean()
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const hospitalId = getManagedHospitalId(req.user, req.query.hospitalId);
+      if (!hospitalId) {
+        return res.status(400).json({
+          message: 'A hospital is required'
+        });
+      }
+
+      const hospital = await Hospital.findById(hospitalId).select('name lowStockThreshold');
+      if (!hospital) {
+        return res.status(404).json({
+          message: 'Hospital not found'
+        });
+      }
+
+      const batchQuery = { hospital: hospital._id };
+      if (req.query.includeExpired !== 'true') {
+        batchQuery.expiresAt = { $gt: new Date() };
+      }
+
+      const [batches, stock] = await Promise.all([
+        InventoryItem.find(batchQuery)
+          .populate('updatedBy', 'name')
+          .sort({ bloodGroup: 1, componentType: 1, expiresAt: 1 }),
+        inventoryService.getStockLevels([hospital._id])
+      ]);
+
+      res.json({ hospital, batches, stock });
+
+    } catch (error) {
+      console.error('Get inventory error:', error);
+      res.status(500).json({
+        message: 'Server error retrieving inventory',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   POST /api/inventory
+// @desc    Record a batch of units received by a blood bank
+// @access  Private (hospital, admin)
+router.post('/',
+  authorize('hospital', 'admin'),
+  requireApprovedHospital,
+  [
+    body('hospitalId').optional().isMongoId().withMessage('Invalid hospital'),
+    body('bloodGroup').isIn(BLOOD_GROUPS).withMessage('Invalid blood group'),
+    body('componentType').optional().isIn(COMPONENT_TYPES).withMessage('Invalid component type'),
+    ...getBatchValidation()
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const hospitalId = getManagedHospitalId(req.user, req.body.hospitalId);
+      const hospital = hospitalId && await Hospital.findById(hospitalId).select('_id');
+      if (!hospital) {
+        return res.status(400).json({
+          message: 'Hospital not found'
+        });
+      }
+
+      const { bloodGroup, componentType, units, expiresAt, batchNumber } = req.body;
+
+      const item = new InventoryItem({
+        hospital: hospital._id,
+        bloodGroup,
+        componentType,
+        units,
+        expiresAt,
+        batchNumber,
+        updatedBy: req.user._id
+      });
+
+      await item.save();
+
+      res.status(201).json({
+        message: 'Inventory batch added successfully',
+        item
+      });
+
+    } catch (error) {
+      console.error('Add inventory error:', error);
+      res.status(500).json({
+        message: 'Server error adding inventory',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   PUT /api/inventory/:id
+// @desc    Update a batch, e.g. after units are issued
+// @access  Private (hospital, admin)
+router.put('/:id',
+  authorize('hospital', 'admin'),
+  requireApprovedHospital,
+  getBatchValidation(true),
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const item = await InventoryItem.findById(req.params.id);
+
+      if (!item) {
+        return res.status(404).json({
+          message: 'Inventory batch not found'
+        });
+      }
+
+      if (!canManageInventory(req.user, item)) {
+        return res.status(403).json({
+          message: 'Not authorized to update this inventory'
+        });
+      }
+
+      ['units', 'expiresAt', 'batchNumber'].forEach(key => {
+        if (req.body[key] !== undefined) {
+          item[key] = req.body[key];
+        }
+      });
+      item.updatedBy = req.user._id;
+
+      await item.save();
+      await checkLowStock(item.hospital);
+
+      res.json({
+        message: 'Inventory batch updated successfully',
+        item
+      });
+
+    } catch (error) {
+      console.error('Update inventory error:', error);
+      res.status(500).json({
+        message: 'Server error updating inventory',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/inventory/:id
+// @desc    Remove a batch, e.g. one entered by mistake or discarded
+// @access  Private (hospital, admin)
+router.delete('/:id', authorize('hospital', 'admin'), requireApprovedHospital, async (req, res) => {
+  try {
+    const item = await InventoryItem.findById(req.params.id);
+
+    if (!item) {
+      return res.status(404).json({
+        message: 'Inventory batch not found'
+      });
+    }
+
+    if (!canManageInventory(req.user, item)) {
+      return res.status(403).json({
+        message: 'Not authorized to remove this inventory'
+      });
+    }
+
+    await item.deleteOne();
+    await checkLowStock(item.hospital);
+
+    res.json({
+      message: 'Inventory batch removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete inventory error:', error);
+    res.status(500).json({
+      message: 'Server error removing inventory',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+module.exports = router;
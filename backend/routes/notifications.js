@@ -0,0 +1,245 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Notification = require('../models/Notification');
+const PushSubscription = require('../models/PushSubscription');
+const { verifyToken } = require('../middleware/auth');
+const PushChannel = require('../utils/channels/PushChannel');
+
+const router = express.Router();
+
+router.use(verifyToken);
+
+// @route   GET /api/notifications
+// @desc    Get the current user's notifications
+// @access  Private
+router.get('/',
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+    query('unreadOnly').optional().isBoolean().withMessage('unreadOnly must be a boolean')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const page = parseInt(req.query.page, 10) || 1;
+      const limit = parseInt(req.query.limit, 10) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter = { recipient: req.user._id };
+      if (req.query.unreadOnly === 'true') {
+        filter.isRead = false;
+      }
+
+      const [notifications, total, unreadCount] = await Promise.all([
+        Notification.find(filter)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit)
+          .lean(),
+        Notification.countDocuments(filter),
+        Notification.countDocuments({ recipient: req.user._id, isRead: false })
+      ]);
+
+      const pages = Math.ceil(total / limit);
+
+      res.json({
+        notifications,
+        unreadCount,
+        pagination: {
+          page,
+          pages,
+          total,
+          limit,
+          hasNextPage: page < pages,
+          hasPrevPage: page > 1
+        }
+      });
+
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      res.status(500).json({
+        message: 'Server error fetching notifications',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   GET /api/notifications/unread-count
+// @desc    Get the number of unread notifications
+// @access  Private
+router.get('/unread-count', async (req, res) => {
+  try {
+    const unreadCount = await Notification.countDocuments({ recipient: req.user._id, isRead: false });
+
+    res.json({ unreadCount });
+
+  } catch (error) {
+    console.error('Get unread count error:', error);
+    res.status(500).json({
+      message: 'Server error fetching unread count',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   PUT /api/notifications/read-all
+// @desc    Mark all of the current user's notifications as read
+// @access  Private
+router.put('/read-all', async (req, res) => {
+  try {
+    const result = await Notification.updateMany(
+      { recipient: req.user._id, isRead: false },
+      { isRead: true, readAt: new Date() }
+    );
+
+    res.json({
+      message: 'All notifications marked as read',
+      updated: result.modifiedCount
+    });
+
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({
+      message: 'Server error updating notifications',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// @route   GET /api/notifications/push/public-key
+// @desc    Get the VAPID public key browsers subscribe with
+// @access  Private
+router.get('/push/public-key', (req, res) => {
+  // Null when this server is not set up to send Web Push
+  res.json({ publicKey: process.env.VAPID_PUBLIC_KEY || null });
+});
+
+// @route   POST /api/notifications/push/subscriptions
+// @desc    Save this browser's push subscription for the current user
+// @access  Private
+router.post('/push/subscriptions',
+  [
+    body('endpoint')
+      .isURL({ protocols: ['https'], require_protocol: true })
+      .custom(endpoint => PushChannel.isPushServiceEndpoint(endpoint))
+      .withMessage('Subscription endpoint must be an https URL of a browser push service'),
+    body('keys.p256dh')
+      .isBase64({ urlSafe: true })
+      .withMessage('Subscription key is invalid'),
+    body('keys.auth')
+      .isBase64({ urlSafe: true })
+      .withMessage('Subscription auth secret is invalid')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      // A browser keeps its endpoint across sign-ins, so it moves to whoever
+      // subscribed last
+      const subscription = await PushSubscription.findOneAndUpdate(
+        { endpoint: req.body.endpoint },
+        {
+          $set: {
+            user: req.user._id,
+            session: req.sessionId,
+            keys: { p256dh: req.body.keys.p256dh, auth: req.body.keys.auth },
+            userAgent: req.get('user-agent')?.slice(0, 300)
+          }
+        },
+        { new: true, upsert: true, runValidators: true }
+      );
+
+      res.status(201).json({
+        message: 'Push notifications enabled on this device',
+        subscriptionId: subscription._id
+      });
+
+    } catch (error) {
+      console.error('Save push subscription error:', error);
+      res.status(500).json({
+        message: 'Server error saving push subscription',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/notifications/push/subscriptions
+// @desc    Remove this browser's push subscription
+// @access  Private
+router.delete('/push/subscriptions',
+  [
+    body('endpoint').isString().notEmpty().withMessage('Subscription endpoint is required')
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      await PushSubscription.deleteOne({ endpoint: req.body.endpoint, user: req.user._id });
+
+      res.json({
+        message: 'Push notifications disabled on this device'
+      });
+
+    } catch (error) {
+      console.error('Delete push subscription error:', error);
+      res.status(500).json({
+        message: 'Server error removing push subscription',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+);
+
+// @route   PUT /api/notifications/:id/read
+// @desc    Mark a notification as read
+// @access  Private
+router.put('/:id/read', async (req, res) => {
+  try {
+    const notification = await Notification.findOneAndUpdate(
+      { _id: req.params.id, recipient: req.user._id },
+      { isRead: true, readAt: new Date() },
+      { new: true }
+    );
+
+    if (!notification) {
+      return res.status(404).json({
+        message: 'Notification not found'
+      });
+    }
+
+    res.json({
+      message: 'Notification marked as read',
+      notification
+    });
+
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({
+      message: 'Server error updating notification',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+module.exports = router;
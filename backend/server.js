@@ -10,6 +10,13 @@ const authRoutes = require('./routes/auth');
 const bloodRequestRoutes = require('./routes/bloodRequests');
 const donorRoutes = require('./routes/donors');
 const adminRoutes = require('./routes/admin');
+const appointmentRoutes = require('./routes/appointments');
+const notificationRoutes = require('./routes/notifications');
+const eventRoutes = require('./routes/events');
+const hospitalRoutes = require('./routes/hospitals');
+const inventoryRoutes = require('./routes/inventory');
+const driveRoutes = require('./routes/drives');
+const { startJobs } = require('./jobs');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -35,7 +42,17 @@ const authLimiter = rateLimit({
   max: process.env.NODE_ENV === 'production' ? 5 : 20, // 20 attempts in dev, 5 in production
   message: 'Too many authentication attempts, please try again later.'
 });
-app.use('/api/auth', authLimiter);
+// Only endpoints that check a password or one-time token; token refresh,
+// sessions and profile calls are routine and share the general limit
+const credentialRoutes = [
+  'login',
+  'register',
+  'change-password',
+  'forgot-password',
+  'reset-password',
+  'verify-email'
+];
+app.use(credentialRoutes.map(route => `/api/auth/${route}`), authLimiter);
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
@@ -47,7 +64,10 @@ app.use(mongoSanitize());
 // MongoDB connection
 if (process.env.MOCK_MODE !== 'true') {
   mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/blood-donation')
-  .then(() => console.log('Connected to MongoDB'))
+  .then(() => {
+    console.log('Connected to MongoDB');
+    startJobs();
+  })
   .catch(err => {
     console.error('MongoDB connection error:', err);
     console.log('Running in mock mode without database...');
@@ -65,6 +85,12 @@ app.use('/api/auth', authRoutes);
 app.use('/api/blood-requests', bloodRequestRoutes);
 app.use('/api/donors', donorRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/appointments', appointmentRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/hospitals', hospitalRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/drives', driveRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -0,0 +1,59 @@
+// Provider calls give up after this long so a slow API cannot stall outreach
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Base Channel
+ * A channel adapter delivers one rendered message to one address and throws
+ * when the provider rejects it. Retries and delivery records are handled by
+ * the delivery service, not by adapters.
+ */
+class BaseChannel {
+  constructor(name) {
+    this.name = name;
+  }
+
+  /**
+   * Whether the provider credentials this adapter needs are set
+   */
+  isConfigured() {
+    return false;
+  }
+
+  /**
+   * Address used for channels that are not sent to a particular user
+   */
+  getDefaultAddress() {
+    return null;
+  }
+
+  /**
+   * Deliver rendered content; resolves to { providerMessageId }
+   */
+  async send(to, content) {
+    throw new Error(`The ${this.name} channel does not implement send()`);
+  }
+
+  /**
+   * Call a provider's HTTP API. Client errors other than rate limiting are
+   * marked as not worth retrying.
+   */
+  async request(url, options) {
+    const response = await fetch(url, {
+      ...options,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      const error = new Error(`${this.name} provider responded with ${response.status}: ${body.slice(0, 200)}`);
+      error.status = response.status;
+      error.retryable = response.status >= 500 || response.status === 429;
+      throw error;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    return contentType.includes('application/json') ? response.json() : null;
+  }
+}
+
+module.exports = BaseChannel;
@@ -0,0 +1,39 @@
+const nodemailer = require('nodemailer');
+const BaseChannel = require('./BaseChannel');
+
+/**
+ * Email Channel
+ * Sends HTML email over SMTP. Content: { subject, html }
+ */
+class EmailChannel extends BaseChannel {
+  constructor() {
+    super('email');
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'smtp.gmail.com',
+      port: process.env.SMTP_PORT || 587,
+      secure: false, // true for 465, false for other ports
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS
+      }
+    });
+  }
+
+  isConfigured() {
+    return !!(process.env.SMTP_USER && process.env.SMTP_PASS);
+  }
+
+  async send(to, { subject, html }) {
+    const info = await this.transporter.sendMail({
+      from: `"Blood Donation System" <${process.env.SMTP_USER}>`,
+      to,
+      subject,
+      html
+    });
+
+    return { providerMessageId: info.messageId };
+  }
+}
+
+module.exports = EmailChannel;
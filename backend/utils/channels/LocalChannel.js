@@ -0,0 +1,65 @@
+const fs = require('fs');
+const BaseChannel = require('./BaseChannel');
+
+// Only the most recent messages are kept in memory
+const MAX_KEPT_MESSAGES = 500;
+
+/**
+ * Local Channel
+ * Stand-in for any channel when no provider is configured. Messages are
+ * logged to the console, kept in memory for tests to inspect, and appended
+ * as JSON lines to NOTIFICATION_OUTBOX_FILE when that is set.
+ */
+class LocalChannel extends BaseChannel {
+  constructor(name) {
+    super(name);
+    this.delivered = [];
+    this.sequence = 0;
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  getDefaultAddress() {
+    return `local:${this.name}`;
+  }
+
+  async send(to, content) {
+    this.sequence += 1;
+    const message = {
+      providerMessageId: `local-${this.name}-${this.sequence}`,
+      channel: this.name,
+      to,
+      content,
+      sentAt: new Date().toISOString()
+    };
+
+    this.delivered.push(message);
+    if (this.delivered.length > MAX_KEPT_MESSAGES) {
+      this.delivered.shift();
+    }
+
+    const summary = content.subject || content.title || content.event || content.text || '';
+    console.log(`[${this.name}] to ${to}: ${summary.slice(0, 120)}`);
+
+    if (process.env.NOTIFICATION_OUTBOX_FILE) {
+      await fs.promises.appendFile(process.env.NOTIFICATION_OUTBOX_FILE, `${JSON.stringify(message)}\n`);
+    }
+
+    return { providerMessageId: message.providerMessageId };
+  }
+
+  /**
+   * Messages delivered so far, optionally only those sent to one address
+   */
+  getDelivered(to) {
+    return to ? this.delivered.filter(message => message.to === to) : [...this.delivered];
+  }
+
+  clear() {
+    this.delivered = [];
+  }
+}
+
+module.exports = LocalChannel;
@@ -0,0 +1,180 @@
+const crypto = require('crypto');
+const BaseChannel = require('./BaseChannel');
+const PushSubscription = require('../../models/PushSubscription');
+
+// Push services hold undelivered messages for this long by default
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+// VAPID tokens may be valid for at most 24 hours
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+// Push services answer these for subscriptions that no longer exist
+const GONE_STATUSES = new Set([404, 410]);
+
+// Browser push services (Chrome, Firefox, Edge, Safari) and their subdomains.
+// The server POSTs to subscription endpoints, so nothing else is accepted.
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'push.services.mozilla.com',
+  'notify.windows.com',
+  'push.apple.com'
+];
+
+const hkdf = (salt, ikm, info, length) => Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+/**
+ * Encrypt a payload for one subscription (RFC 8291, aes128gcm). The result is
+ * a single record: salt, record size, our public key, then the ciphertext.
+ */
+const encryptPayload = (payload, { p256dh, auth }) => {
+  const userAgentKey = Buffer.from(p256dh, 'base64url');
+  const authSecret = Buffer.from(auth, 'base64url');
+
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentKey);
+  const salt = crypto.randomBytes(16);
+
+  const ikm = hkdf(
+    authSecret,
+    sharedSecret,
+    Buffer.concat([Buffer.from('WebPush: info\0'), userAgentKey, serverKey]),
+    32
+  );
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the last (and only) record
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag()
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(4096, 16);
+  header.writeUInt8(serverKey.length, 20);
+
+  return Buffer.concat([header, serverKey, ciphertext]);
+};
+
+/**
+ * Push Channel
+ * Sends Web Push messages to every browser a user subscribed from, signed
+ * with the VAPID key pair (RFC 8292). Content: { title, body, url, tag?, ttl?, urgent? }
+ *
+ * The address is the user's id. Subscriptions the push service reports as
+ * gone are deleted. A key pair can be generated with:
+ *   node -e "const e=require('crypto').createECDH('prime256v1');e.generateKeys();console.log(e.getPublicKey('base64url'),e.getPrivateKey('base64url'))"
+ */
+class PushChannel extends BaseChannel {
+  constructor() {
+    super('push');
+  }
+
+  isConfigured() {
+    return !!(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY && process.env.VAPID_SUBJECT);
+  }
+
+  /**
+   * Whether an endpoint belongs to a known browser push service
+   */
+  static isPushServiceEndpoint(endpoint) {
+    let url;
+    try {
+      url = new URL(endpoint);
+    } catch (error) {
+      return false;
+    }
+
+    if (url.protocol !== 'https:' || url.port || url.username || url.password) return false;
+    return PUSH_SERVICE_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`));
+  }
+
+  async send(to, { title, body, url, tag, ttl, urgent }) {
+    const subscriptions = await PushSubscription.find({ user: to });
+    if (!subscriptions.length) {
+      const error = new Error('No push subscriptions for this user');
+      error.retryable = false;
+      throw error;
+    }
+
+    const payload = JSON.stringify({ title, body, url, tag });
+    const errors = [];
+    let sent = 0;
+
+    for (const subscription of subscriptions) {
+      // Saved before endpoints were restricted to push services
+      if (!PushChannel.isPushServiceEndpoint(subscription.endpoint)) {
+        await subscription.deleteOne();
+        const error = new Error('Subscription endpoint is not a known push service');
+        error.retryable = false;
+        errors.push(error);
+        continue;
+      }
+
+      try {
+        await this.request(subscription.endpoint, {
+          method: 'POST',
+          headers: {
+            Authorization: this.getAuthorization(subscription.endpoint),
+            'Content-Encoding': 'aes128gcm',
+            'Content-Type': 'application/octet-stream',
+            TTL: String(Math.max(0, Math.round(ttl ?? DEFAULT_TTL_SECONDS))),
+            Urgency: urgent ? 'high' : 'normal',
+            ...(tag && { Topic: crypto.createHash('sha256').update(tag).digest('base64url').slice(0, 32) })
+          },
+          body: encryptPayload(payload, subscription.keys)
+        });
+        sent += 1;
+        subscription.lastSuccessAt = new Date();
+        await subscription.save();
+      } catch (error) {
+        if (GONE_STATUSES.has(error.status)) {
+          await subscription.deleteOne();
+          error.retryable = false;
+        }
+        errors.push(error);
+      }
+    }
+
+    if (!sent) {
+      const error = new Error(errors.map(subscriptionError => subscriptionError.message).join('; '));
+      error.retryable = errors.some(subscriptionError => subscriptionError.retryable);
+      throw error;
+    }
+
+    return { providerMessageId: `${sent}/${subscriptions.length} subscriptions` };
+  }
+
+  /**
+   * VAPID Authorization header for the push service behind an endpoint
+   */
+  getAuthorization(endpoint) {
+    const publicKey = Buffer.from(process.env.VAPID_PUBLIC_KEY, 'base64url');
+    const privateKey = crypto.createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33, 65).toString('base64url'),
+        d: process.env.VAPID_PRIVATE_KEY
+      },
+      format: 'jwk'
+    });
+
+    const encode = value => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsignedToken = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+      sub: process.env.VAPID_SUBJECT
+    })}`;
+    const signature = crypto.sign('sha256', Buffer.from(unsignedToken), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+
+    return `vapid t=${unsignedToken}.${signature.toString('base64url')}, k=${process.env.VAPID_PUBLIC_KEY}`;
+  }
+}
+
+module.exports = PushChannel;
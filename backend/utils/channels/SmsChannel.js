@@ -0,0 +1,33 @@
+const BaseChannel = require('./BaseChannel');
+
+/**
+ * SMS Channel
+ * Sends text messages through the Twilio REST API. Content: { text }
+ */
+class SmsChannel extends BaseChannel {
+  constructor() {
+    super('sms');
+  }
+
+  isConfigured() {
+    return !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_PHONE);
+  }
+
+  async send(to, { text }) {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const credentials = Buffer.from(`${accountSid}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64');
+
+    const message = await this.request(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: to, From: process.env.TWILIO_PHONE, Body: text })
+    });
+
+    return { providerMessageId: message?.sid };
+  }
+}
+
+module.exports = SmsChannel;
@@ -0,0 +1,42 @@
+const crypto = require('crypto');
+const BaseChannel = require('./BaseChannel');
+
+/**
+ * Webhook Channel
+ * Posts events as JSON to an integration URL, signed with HMAC-SHA256 when a
+ * secret is set. Content: { event, data }
+ */
+class WebhookChannel extends BaseChannel {
+  constructor() {
+    super('webhook');
+  }
+
+  isConfigured() {
+    return !!process.env.NOTIFICATION_WEBHOOK_URL;
+  }
+
+  getDefaultAddress() {
+    return process.env.NOTIFICATION_WEBHOOK_URL || null;
+  }
+
+  async send(to, { event, data }) {
+    const id = crypto.randomUUID();
+    const body = JSON.stringify({ id, event, data, sentAt: new Date().toISOString() });
+    const headers = { 'Content-Type': 'application/json' };
+
+    // Receivers recompute this over the raw body to check the sender
+    if (process.env.NOTIFICATION_WEBHOOK_SECRET) {
+      const signature = crypto
+        .createHmac('sha256', process.env.NOTIFICATION_WEBHOOK_SECRET)
+        .update(body)
+        .digest('hex');
+      headers['X-Signature-256'] = `sha256=${signature}`;
+    }
+
+    await this.request(to, { method: 'POST', headers, body });
+
+    return { providerMessageId: id };
+  }
+}
+
+module.exports = WebhookChannel;
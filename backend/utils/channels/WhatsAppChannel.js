@@ -0,0 +1,39 @@
+const BaseChannel = require('./BaseChannel');
+
+/**
+ * WhatsApp Channel
+ * Sends text messages through the WhatsApp Cloud API, or any API that
+ * accepts the same request shape. Content: { text }
+ */
+class WhatsAppChannel extends BaseChannel {
+  constructor() {
+    super('whatsapp');
+  }
+
+  isConfigured() {
+    return !!(process.env.WHATSAPP_API_TOKEN && process.env.WHATSAPP_PHONE_NUMBER_ID);
+  }
+
+  async send(to, { text }) {
+    const baseUrl = process.env.WHATSAPP_API_URL || 'https://graph.facebook.com/v19.0';
+
+    const result = await this.request(`${baseUrl}/${process.env.WHATSAPP_PHONE_NUMBER_ID}/messages`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${process.env.WHATSAPP_API_TOKEN}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        // The API expects digits only, without '+' or spaces
+        to: to.replace(/\D/g, ''),
+        type: 'text',
+        text: { body: text }
+      })
+    });
+
+    return { providerMessageId: result?.messages?.[0]?.id };
+  }
+}
+
+module.exports = WhatsAppChannel;
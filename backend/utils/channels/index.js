@@ -0,0 +1,47 @@
+const EmailChannel = require('./EmailChannel');
+const SmsChannel = require('./SmsChannel');
+const WhatsAppChannel = require('./WhatsAppChannel');
+const PushChannel = require('./PushChannel');
+const WebhookChannel = require('./WebhookChannel');
+const LocalChannel = require('./LocalChannel');
+
+const CHANNELS = ['email', 'sms', 'whatsapp', 'push', 'webhook'];
+
+const ADAPTERS = {
+  email: EmailChannel,
+  sms: SmsChannel,
+  whatsapp: WhatsAppChannel,
+  push: PushChannel,
+  webhook: WebhookChannel
+};
+
+/**
+ * Build the channel registry. A channel uses its provider adapter when that
+ * is configured. Otherwise it falls back to the local stand-in outside
+ * production and is left out in production. NOTIFICATION_DRIVER=local sends
+ * every channel to the stand-in, e.g. for tests.
+ */
+const createChannels = () => {
+  const forceLocal = process.env.NOTIFICATION_DRIVER === 'local';
+  const allowStandIn = forceLocal || process.env.NODE_ENV !== 'production';
+  const channels = new Map();
+
+  CHANNELS.forEach(name => {
+    const Adapter = ADAPTERS[name];
+    const adapter = Adapter && !forceLocal ? new Adapter() : null;
+
+    if (adapter && adapter.isConfigured()) {
+      channels.set(name, adapter);
+    } else if (allowStandIn) {
+      channels.set(name, new LocalChannel(name));
+    }
+  });
+
+  return channels;
+};
+
+module.exports = {
+  CHANNELS,
+  createChannels,
+  LocalChannel
+};
@@ -0,0 +1,325 @@
+/**
+ * Notification templates, one renderer per channel for each kind of message.
+ * Content shapes: email { subject, html }, sms and whatsapp { text },
+ * push { title, body, url, tag?, ttl?, urgent? }, webhook { event, data }.
+ */
+
+const frontendUrl = (path) => `${process.env.FRONTEND_URL}${path}`;
+
+const simpleEmail = (name, paragraphs) => `
+      <div style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <h2>Dear ${name},</h2>
+        ${paragraphs.filter(Boolean).map(paragraph => `<p>${paragraph}</p>`).join('\n        ')}
+      </div>
+    `;
+
+const appointmentActions = {
+  booked: 'A donation appointment has been booked',
+  rescheduled: 'A donation appointment has been rescheduled',
+  updated: 'The time of a donation appointment has changed',
+  cancelled: 'A donation appointment has been cancelled'
+};
+
+const templates = {
+  nearby_request: {
+    // distanceKm is how far the donor is; radiusKm the outreach wave they were found in
+    email: ({ donor, bloodRequest, distanceKm, radiusKm }) => ({
+      subject: `🩸 Urgent Blood Donation Request - ${bloodRequest.bloodGroup}`,
+      html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #dc2626; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .urgency-high { color: #dc2626; font-weight: bold; }
+          .urgency-critical { color: #991b1b; font-weight: bold; animation: blink 1s infinite; }
+          .details { background-color: white; padding: 15px; margin: 10px 0; border-radius: 5px; }
+          .button { display: inline-block; background-color: #dc2626; color: white; padding: 12px 24px; 
+                   text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
+          @keyframes blink { 50% { opacity: 0.5; } }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🩸 Blood Donation Request</h1>
+          </div>
+          
+          <div class="content">
+            <h2>Dear ${donor.name},</h2>
+            
+            <p>A blood donation request has been made near your location that matches your blood group.</p>
+            
+            <div class="details">
+              <h3>Request Details:</h3>
+              <p><strong>Patient:</strong> ${bloodRequest.patientName}</p>
+              <p><strong>Blood Group Needed:</strong> ${bloodRequest.bloodGroup}</p>
+              <p><strong>Units Required:</strong> ${bloodRequest.unitsNeeded}</p>
+              <p><strong>Urgency:</strong> 
+                <span class="urgency-${bloodRequest.urgency}">${bloodRequest.urgency.toUpperCase()}</span>
+              </p>
+              <p><strong>Required By:</strong> ${new Date(bloodRequest.requiredBy).toLocaleString()}</p>
+              <p><strong>Medical Reason:</strong> ${bloodRequest.medicalReason}</p>
+            </div>
+            
+            <div class="details">
+              <h3>Hospital Information:</h3>
+              <p><strong>Hospital:</strong> ${bloodRequest.hospital.name}</p>
+              <p><strong>Address:</strong> ${bloodRequest.hospital.address}</p>
+              <p><strong>Phone:</strong> ${bloodRequest.hospital.phone}</p>
+            </div>
+            
+            <div class="details">
+              <h3>Contact Information:</h3>
+              <p><strong>Primary Contact:</strong> ${bloodRequest.contactInfo.primaryPhone}</p>
+              ${bloodRequest.contactInfo.alternatePhone ? 
+                `<p><strong>Alternate Contact:</strong> ${bloodRequest.contactInfo.alternatePhone}</p>` : ''}
+              <p><strong>Doctor:</strong> ${bloodRequest.doctorInfo.name} - ${bloodRequest.doctorInfo.phone}</p>
+            </div>
+            
+            <p>Your blood group (${donor.bloodGroup}) is compatible with this request.</p>
+            
+            ${donor.canDonate() ? 
+              `<p style="color: green;"><strong>✅ You are eligible to donate!</strong></p>
+               <a href="${process.env.FRONTEND_URL}/blood-requests/${bloodRequest._id}" class="button">
+                 Respond to Request
+               </a>` :
+              `<p style="color: orange;"><strong>⚠️ Please check your donation eligibility</strong></p>
+               <p>You can donate again from ${donor.getNextEligibleDate().toDateString()}. Please verify your eligibility before responding.</p>`
+            }
+            
+            <p><strong>Distance:</strong> ${distanceKm !== undefined
+              ? `About ${Math.max(1, Math.round(distanceKm))} km from your location`
+              : `Within ${radiusKm} km of your location`}</p>
+            
+            <p>Thank you for being a registered blood donor. Your willingness to help saves lives!</p>
+          </div>
+          
+          <div class="footer">
+            <p>Blood Donation Request System</p>
+            <p>This is an automated notification. Please do not reply to this email.</p>
+            <p>If you no longer wish to receive these notifications, please update your preferences in your profile.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+      `
+    }),
+    sms: ({ bloodRequest }) => ({
+      text: `🩸 URGENT: Blood donation needed near you! ${bloodRequest.bloodGroup} - ${bloodRequest.unitsNeeded} units. Urgency: ${bloodRequest.urgency.toUpperCase()}. Hospital: ${bloodRequest.hospital.name}. Contact: ${bloodRequest.contactInfo.primaryPhone}. Details: ${frontendUrl(`/blood-requests/${bloodRequest._id}`)}`
+    }),
+    whatsapp: ({ donor, bloodRequest }) => ({
+      text: `Hi ${donor.name}, ${bloodRequest.bloodGroup} blood is needed near you (${bloodRequest.urgency} urgency).\n` +
+        `${bloodRequest.unitsNeeded} unit(s) at ${bloodRequest.hospital.name}, needed by ${new Date(bloodRequest.requiredBy).toLocaleString()}.\n` +
+        `Respond here: ${frontendUrl(`/blood-requests/${bloodRequest._id}`)}`
+    }),
+    // A push that arrives after the request expired is of no use
+    push: ({ bloodRequest }) => ({
+      title: `${bloodRequest.urgency === 'critical' ? 'Critical: ' : ''}${bloodRequest.bloodGroup} blood needed nearby`,
+      body: `${bloodRequest.unitsNeeded} unit(s) needed at ${bloodRequest.hospital.name}`,
+      url: `/requests/${bloodRequest._id}`,
+      tag: `request-${bloodRequest._id}`,
+      ttl: bloodRequest.expiresAt ? (new Date(bloodRequest.expiresAt) - Date.now()) / 1000 : undefined,
+      urgent: ['high', 'critical'].includes(bloodRequest.urgency)
+    })
+  },
+
+  request_response: {
+    email: ({ requester, donor, bloodRequest, responseStatus }) => ({
+      subject: `Blood Donation Response - ${donor.name}`,
+      html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #059669; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; }
+          .donor-info { background-color: #f0f9ff; padding: 15px; margin: 10px 0; border-radius: 5px; }
+          .status-interested { color: #059669; font-weight: bold; }
+          .status-confirmed { color: #dc2626; font-weight: bold; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🩸 Donor Response Received</h1>
+          </div>
+          
+          <div class="content">
+            <h2>Dear ${requester.name},</h2>
+            
+            <p>Good news! A donor has responded to your blood donation request for ${bloodRequest.patientName}.</p>
+            
+            <div class="donor-info">
+              <h3>Donor Information:</h3>
+              <p><strong>Name:</strong> ${donor.name}</p>
+              <p><strong>Blood Group:</strong> ${donor.bloodGroup}</p>
+              <p><strong>Status:</strong> 
+                <span class="status-${responseStatus}">${responseStatus.toUpperCase()}</span>
+              </p>
+              <p><strong>Total Donations:</strong> ${donor.totalDonations}</p>
+              <p><strong>Rating:</strong> ⭐ ${donor.rating}/5</p>
+            </div>
+            
+            <p><strong>Next Steps:</strong></p>
+            <ul>
+              ${responseStatus === 'confirmed' ? 
+                '<li>The donor has confirmed their availability</li><li>Please coordinate directly with the donor</li>' :
+                '<li>The donor has expressed interest</li><li>Please follow up to confirm their availability</li>'
+              }
+              <li>Arrange for the donation at ${bloodRequest.hospital.name}</li>
+              <li>Ensure all necessary paperwork is prepared</li>
+            </ul>
+            
+            <p>Please contact the donor directly to coordinate the donation.</p>
+            
+            <p>Thank you for using our blood donation system!</p>
+          </div>
+        </div>
+      </body>
+      </html>
+      `
+    }),
+    push: ({ donor, bloodRequest, responseStatus }) => ({
+      title: `${donor.name} ${responseStatus === 'confirmed' ? 'confirmed they will donate' : 'is interested in donating'}`,
+      body: `For your ${bloodRequest.bloodGroup} request for ${bloodRequest.patientName}`,
+      url: `/requests/${bloodRequest._id}`,
+      tag: `response-${bloodRequest._id}`
+    })
+  },
+
+  verify_email: {
+    email: ({ user, token }) => {
+      const verificationUrl = frontendUrl(`/verify-email?token=${token}`);
+      return {
+        subject: 'Verify Your Blood Donation Account',
+        html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #dc2626; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; }
+          .button { display: inline-block; background-color: #dc2626; color: white; padding: 12px 24px; 
+                   text-decoration: none; border-radius: 5px; margin: 10px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Welcome to Blood Donation System</h1>
+          </div>
+          
+          <div class="content">
+            <h2>Dear ${user.name},</h2>
+            
+            <p>Thank you for registering as a ${user.role} in our blood donation system!</p>
+            
+            <p>To activate your account and start ${user.role === 'donor' ? 'helping save lives' : 'making blood requests'}, 
+               please verify your email address by clicking the button below:</p>
+            
+            <a href="${verificationUrl}" class="button">Verify Email Address</a>
+            
+            <p>If the button doesn't work, copy and paste this link into your browser:</p>
+            <p>${verificationUrl}</p>
+            
+            <p>This verification link will expire in 24 hours.</p>
+            
+            <p>If you didn't create this account, please ignore this email.</p>
+            
+            <p>Thank you for joining our mission to save lives through blood donation!</p>
+          </div>
+        </div>
+      </body>
+      </html>
+        `
+      };
+    }
+  },
+
+  password_reset: {
+    email: ({ user, token }) => {
+      const resetUrl = frontendUrl(`/reset-password?token=${token}`);
+      return {
+        subject: 'Reset your Blood Donation System password',
+        html: simpleEmail(user.name, [
+          'We received a request to reset the password for your blood donation account.',
+          `<a href="${resetUrl}">Choose a new password</a>`,
+          'If the link doesn\'t work, copy and paste this address into your browser:',
+          resetUrl,
+          'This link will expire in 1 hour. If you didn\'t ask to reset your password, you can ignore this email.'
+        ])
+      };
+    }
+  },
+
+  appointment_update: {
+    email: ({ recipient, appointment, bloodRequest, action }) => {
+      const actionText = appointmentActions[action] || 'A donation appointment has changed';
+      return {
+        subject: `Donation Appointment ${action.charAt(0).toUpperCase() + action.slice(1)} - ${bloodRequest.patientName}`,
+        html: simpleEmail(recipient.name, [
+          `${actionText} for the blood request for ${bloodRequest.patientName}.`,
+          `<strong>When:</strong> ${appointment.startTime.toLocaleString()} - ${appointment.endTime.toLocaleTimeString()}`,
+          `<strong>Where:</strong> ${appointment.location?.name || bloodRequest.hospital.name}`,
+          appointment.cancellationReason && `<strong>Reason:</strong> ${appointment.cancellationReason}`,
+          `<a href="${frontendUrl(`/blood-requests/${bloodRequest._id}`)}">View the request</a>`
+        ])
+      };
+    }
+  },
+
+  expiry_reminder: {
+    email: ({ requester, bloodRequest }) => {
+      const expiresAt = new Date(bloodRequest.expiresAt);
+      return {
+        subject: `Blood request expiring soon - ${bloodRequest.patientName}`,
+        html: simpleEmail(requester.name, [
+          `Your blood request for ${bloodRequest.patientName} expires in less than an hour, at ${expiresAt.toLocaleString()}.`,
+          'If you still need donors, move the required-by time later or change the urgency to keep it open.',
+          `<a href="${frontendUrl(`/requests/${bloodRequest._id}?edit=deadline`)}">Update the request</a>`
+        ])
+      };
+    }
+  },
+
+  request_status: {
+    webhook: ({ bloodRequest, status }) => ({
+      event: 'blood_request.status_changed',
+      data: { ...bloodRequest.toEventSummary(), status }
+    })
+  },
+
+  custom: {
+    email: ({ subject, html }) => ({ subject, html })
+  }
+};
+
+/**
+ * Render a template for one channel
+ */
+const renderTemplate = (template, channel, data) => {
+  const renderer = templates[template]?.[channel];
+  if (!renderer) {
+    throw new Error(`No ${channel} template named "${template}"`);
+  }
+  return renderer(data);
+};
+
+/**
+ * Whether a template can be sent over a channel
+ */
+const hasTemplate = (template, channel) => !!templates[template]?.[channel];
+
+module.exports = {
+  renderTemplate,
+  hasTemplate
+};
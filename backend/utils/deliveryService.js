@@ -0,0 +1,128 @@
+const NotificationDelivery = require('../models/NotificationDelivery');
+const { createChannels } = require('./channels');
+const { renderTemplate } = require('./channels/templates');
+
+const MINUTE = 60 * 1000;
+
+// Wait before each retry; a delivery fails for good once these run out
+const RETRY_DELAYS_MS = [MINUTE, 5 * MINUTE, 30 * MINUTE];
+
+// Messages carrying one-time links are only stored until they are settled,
+// so delivery history does not keep usable tokens around
+const SENSITIVE_TEMPLATES = new Set(['verify_email', 'password_reset']);
+
+/**
+ * Delivery Service
+ * Renders a template for a channel, hands it to the channel's adapter and
+ * records the outcome. Failed deliveries are retried by the
+ * 'retry-deliveries' job.
+ */
+class DeliveryService {
+  constructor() {
+    this.channels = createChannels();
+  }
+
+  /**
+   * Whether a channel has an adapter (a provider or the local stand-in)
+   */
+  isAvailable(channel) {
+    return this.channels.has(channel);
+  }
+
+  getChannel(channel) {
+    return this.channels.get(channel) || null;
+  }
+
+  /**
+   * Send one message. Resolves to the delivery record, or null when the
+   * channel is unavailable or there is no address. Provider errors are
+   * recorded on the delivery rather than thrown.
+   */
+  async send(channel, template, { to, recipient, bloodRequest, data }) {
+    const adapter = this.getChannel(channel);
+    // Only messages without a recipient fall back to the channel's default
+    // address; a user with no phone or subscription is simply not reachable
+    const address = to || (recipient ? null : adapter?.getDefaultAddress());
+    if (!adapter || !address) return null;
+
+    const delivery = await NotificationDelivery.create({
+      channel,
+      template,
+      recipient,
+      to: address,
+      content: renderTemplate(template, channel, data),
+      bloodRequest
+    });
+
+    return this.attempt(delivery);
+  }
+
+  /**
+   * Try a delivery once and schedule a retry if it fails
+   */
+  async attempt(delivery) {
+    const adapter = this.getChannel(delivery.channel);
+    delivery.attempts += 1;
+
+    try {
+      if (!adapter) {
+        const error = new Error(`The ${delivery.channel} channel is not available`);
+        error.retryable = false;
+        throw error;
+      }
+
+      const { providerMessageId } = await adapter.send(delivery.to, delivery.content);
+      delivery.status = 'sent';
+      delivery.sentAt = new Date();
+      delivery.providerMessageId = providerMessageId;
+      delivery.nextAttemptAt = undefined;
+      delivery.lastError = undefined;
+    } catch (error) {
+      const retryDelay = RETRY_DELAYS_MS[delivery.attempts - 1];
+      delivery.lastError = error.message.slice(0, 500);
+
+      if (error.retryable !== false && retryDelay !== undefined) {
+        delivery.status = 'retrying';
+        delivery.nextAttemptAt = new Date(Date.now() + retryDelay);
+      } else {
+        delivery.status = 'failed';
+        delivery.nextAttemptAt = undefined;
+      }
+
+      console.error(`${delivery.channel} delivery to ${delivery.to} failed (attempt ${delivery.attempts}):`, error.message);
+    }
+
+    if (SENSITIVE_TEMPLATES.has(delivery.template) && delivery.status !== 'retrying') {
+      delivery.content = { subject: delivery.content.subject, redacted: true };
+    }
+
+    await delivery.save();
+    return delivery;
+  }
+
+  /**
+   * Retry deliveries whose next attempt is due. Each one is claimed first so
+   * overlapping runs never send the same message twice.
+   */
+  async retryDue(limit = 100) {
+    const summary = { retried: 0, sent: 0, failed: 0 };
+
+    while (summary.retried < limit) {
+      const delivery = await NotificationDelivery.findOneAndUpdate(
+        { status: 'retrying', nextAttemptAt: { $lte: new Date() } },
+        { $set: { status: 'pending' } },
+        { new: true, sort: { nextAttemptAt: 1 } }
+      );
+      if (!delivery) break;
+
+      await this.attempt(delivery);
+      summary.retried += 1;
+      if (delivery.status === 'sent') summary.sent += 1;
+      if (delivery.status === 'failed') summary.failed += 1;
+    }
+
+    return summary;
+  }
+}
+
+module.exports = new DeliveryService();
@@ -0,0 +1,44 @@
+process.env.NOTIFICATION_DRIVER = 'local';
+
+const { test, describe, mock, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const NotificationDelivery = require('../models/NotificationDelivery');
+const deliveryService = require('./deliveryService');
+
+// Keep deliveries in memory instead of writing them to the database
+const stubDeliveries = () => {
+  mock.method(NotificationDelivery, 'create', async (fields) => {
+    const delivery = new NotificationDelivery(fields);
+    delivery.save = async () => delivery;
+    return delivery;
+  });
+};
+
+afterEach(() => mock.restoreAll());
+
+describe('deliveryService.send', () => {
+  test('a push to a user with no subscription is not delivered', async () => {
+    stubDeliveries();
+    const delivery = await deliveryService.send('push', 'nearby_request', {
+      to: null,
+      recipient: new mongoose.Types.ObjectId(),
+      data: {}
+    });
+
+    assert.equal(delivery, null);
+    assert.equal(NotificationDelivery.create.mock.callCount(), 0);
+    assert.equal(deliveryService.getChannel('push').delivered.length, 0);
+  });
+
+  test('messages without a recipient go to the channel default address', async () => {
+    stubDeliveries();
+    const bloodRequest = { toEventSummary: () => ({ id: 'request-1' }) };
+    const delivery = await deliveryService.send('webhook', 'request_status', {
+      data: { bloodRequest, status: 'expired' }
+    });
+
+    assert.equal(delivery.status, 'sent');
+    assert.equal(delivery.to, 'local:webhook');
+  });
+});
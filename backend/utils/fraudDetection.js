@@ -1,5 +1,6 @@
 const BloodRequest = require('../models/BloodRequest');
 const User = require('../models/User');
+const Hospital = require('../models/Hospital');
 
 /**
  * Fraud Detection Service
@@ -258,6 +259,18 @@ class FraudDetectionService {
   async analyzeHospitalInfo(bloodRequest) {
     let score = 0;
 
+    // Only an admin-verified hospital record is trusted outright. Anyone can
+    // register a hospital, so unverified ones get the checks below as well.
+    if (bloodRequest.hospital.hospitalId) {
+      const hospital = await Hospital.findById(bloodRequest.hospital.hospitalId).select('isVerified');
+      if (hospital && hospital.isVerified) {
+        return 0;
+      }
+      if (hospital) {
+        score += 5;
+      }
+    }
+
     // Check for generic hospital names
     const hospitalName = bloodRequest.hospital.name.toLowerCase();
     const genericNames = [
@@ -277,9 +290,6 @@ class FraudDetectionService {
       score += 8;
     }
 
-    // TODO: In a real implementation, you could verify hospital against a database
-    // of registered medical facilities
-
     return Math.min(score, 15);
   }
 
@@ -0,0 +1,228 @@
+const mongoose = require('mongoose');
+const Hospital = require('../models/Hospital');
+const InventoryItem = require('../models/InventoryItem');
+const BloodRequest = require('../models/BloodRequest');
+const User = require('../models/User');
+const notificationService = require('./notificationService');
+const outreachService = require('./outreachService');
+const priorityService = require('./priorityService');
+const realtimeService = require('./realtimeService');
+const { getCompatibleDonorGroups } = require('blood-donation-shared/compatibility');
+
+// Restock drives aim to bring stock back up to this multiple of the threshold
+const RESTOCK_TARGET_MULTIPLIER = 2;
+
+// Restock drives collect over a week, matching the 'low' urgency expiry
+const RESTOCK_WINDOW_DAYS = 7;
+
+// Blood requests cannot ask for more than this many units at once
+const MAX_REQUEST_UNITS = 10;
+
+const MAX_NEARBY_BANKS = 20;
+
+/**
+ * Inventory Service
+ * Summarises blood bank stock, finds nearby banks that can cover a request
+ * and raises restock drives when stock runs low
+ */
+class InventoryService {
+  /**
+   * Sum unexpired units per blood group and component for the given hospitals.
+   * Every combination a hospital has ever stocked is listed, so empty shelves
+   * show up with zero units.
+   */
+  async getStockLevels(hospitalIds, now = new Date()) {
+    const usable = {
+      $and: [{ $gt: ['$units', 0] }, { $gt: ['$expiresAt', now] }]
+    };
+
+    return InventoryItem.aggregate([
+      { $match: { hospital: { $in: hospitalIds.map(id => new mongoose.Types.ObjectId(id)) } } },
+      {
+        $group: {
+          _id: { hospital: '$hospital', bloodGroup: '$bloodGroup', componentType: '$componentType' },
+          units: { $sum: { $cond: [usable, '$units', 0] } },
+          nextExpiry: { $min: { $cond: [usable, '$expiresAt', null] } }
+        }
+      },
+      {
+        $project: {
+          _id: 0,
+          hospital: '$_id.hospital',
+          bloodGroup: '$_id.bloodGroup',
+          componentType: '$_id.componentType',
+          units: 1,
+          nextExpiry: 1
+        }
+      },
+      { $sort: { bloodGroup: 1, componentType: 1 } }
+    ]);
+  }
+
+  /**
+   * Find blood banks near a position holding stock that is compatible with a
+   * request, nearest first
+   */
+  async findNearbyStock({ lat, lng, radiusKm = 50, bloodGroup, componentType = 'whole_blood', unitsNeeded = 1 }) {
+    const hospitals = await Hospital.aggregate([
+      {
+        $geoNear: {
+          near: { type: 'Point', coordinates: [lng, lat] },
+          distanceField: 'distance',
+          maxDistance: radiusKm * 1000,
+          spherical: true
+        }
+      },
+      { $limit: MAX_NEARBY_BANKS * 5 },
+      { $project: { name: 1, phone: 1, location: 1, bloodBankContact: 1, isVerified: 1, distance: 1 } }
+    ]);
+
+    if (hospitals.length === 0) return [];
+
+    const compatibleGroups = getCompatibleDonorGroups(bloodGroup, componentType);
+    const stock = await InventoryItem.aggregate([
+      {
+        $match: {
+          hospital: { $in: hospitals.map(hospital => hospital._id) },
+          bloodGroup: { $in: compatibleGroups },
+          componentType,
+          ...InventoryItem.usableFilter()
+        }
+      },
+      {
+        $group: {
+          _id: { hospital: '$hospital', bloodGroup: '$bloodGroup' },
+          units: { $sum: '$units' },
+          nextExpiry: { $min: '$expiresAt' }
+        }
+      }
+    ]);
+
+    const stockByHospital = new Map();
+    stock.forEach(row => {
+      const key = row._id.hospital.toString();
+      if (!stockByHospital.has(key)) stockByHospital.set(key, []);
+      stockByHospital.get(key).push({
+        bloodGroup: row._id.bloodGroup,
+        units: row.units,
+        nextExpiry: row.nextExpiry
+      });
+    });
+
+    return hospitals
+      .filter(hospital => stockByHospital.has(hospital._id.toString()))
+      .slice(0, MAX_NEARBY_BANKS)
+      .map(({ distance, ...hospital }) => {
+        // Exact matches first, then the other compatible groups in preference order
+        const groups = stockByHospital.get(hospital._id.toString())
+          .sort((a, b) => compatibleGroups.indexOf(a.bloodGroup) - compatibleGroups.indexOf(b.bloodGroup));
+        const exact = groups.find(group => group.bloodGroup === bloodGroup);
+        const compatibleUnits = groups.reduce((sum, group) => sum + group.units, 0);
+
+        return {
+          hospital,
+          distanceKm: Math.round(distance / 100) / 10,
+          units: exact ? exact.units : 0,
+          compatibleUnits,
+          canCover: compatibleUnits >= unitsNeeded,
+          stock: groups
+        };
+      });
+  }
+
+  /**
+   * Raise restock drives for stock below each hospital's threshold. Checks
+   * one hospital when given, otherwise every hospital with inventory.
+   */
+  async checkLowStock(hospitalId) {
+    const hospitalIds = hospitalId
+      ? [hospitalId]
+      : await InventoryItem.distinct('hospital');
+    const hospitals = await Hospital.find({ _id: { $in: hospitalIds } });
+    const levels = await this.getStockLevels(hospitals.map(hospital => hospital._id));
+
+    const summary = { checked: levels.length, lowStock: 0, drivesCreated: 0, skipped: 0 };
+
+    for (const hospital of hospitals) {
+      const lowLevels = levels.filter(level =>
+        level.hospital.toString() === hospital._id.toString() &&
+        level.units < hospital.lowStockThreshold
+      );
+
+      for (const level of lowLevels) {
+        summary.lowStock += 1;
+        const created = await this.createRestockDrive(hospital, level);
+        if (created) summary.drivesCreated += 1;
+        else if (created === null) summary.skipped += 1;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Create a low urgency request asking donors to restock a blood bank.
+   * Returns the request, false if a drive is already running, or null when
+   * there is no account to raise it under.
+   */
+  async createRestockDrive(hospital, level) {
+    const existing = await BloodRequest.exists({
+      origin: 'low_stock',
+      status: 'active',
+      'hospital.hospitalId': hospital._id,
+      bloodGroup: level.bloodGroup,
+      componentType: level.componentType
+    });
+    if (existing) return false;
+
+    const staff = await User.find({ role: 'hospital', hospital: hospital._id, 'hospitalApproval.status': 'approved' })
+      .select('_id')
+      .sort({ createdAt: 1 });
+    const requester = staff.length > 0 ? staff[0]._id : hospital.createdBy;
+    if (!requester) return null;
+
+    const target = hospital.lowStockThreshold * RESTOCK_TARGET_MULTIPLIER;
+    const unitsNeeded = Math.min(MAX_REQUEST_UNITS, Math.max(1, target - level.units));
+    const contact = hospital.bloodBankContact || {};
+    const bloodBankPhone = contact.phone || hospital.phone;
+
+    const bloodRequest = new BloodRequest({
+      ...hospital.toRequestDetails(),
+      requester,
+      patientName: `${hospital.name} blood bank`.slice(0, 100),
+      bloodGroup: level.bloodGroup,
+      componentType: level.componentType,
+      unitsNeeded,
+      urgency: 'low',
+      origin: 'low_stock',
+      contactInfo: {
+        primaryPhone: bloodBankPhone,
+        email: contact.email
+      },
+      medicalReason: `Restocking the blood bank: ${level.units} unit(s) left, below the threshold of ${hospital.lowStockThreshold}`,
+      doctorInfo: {
+        name: contact.name || 'Blood bank staff',
+        phone: bloodBankPhone
+      },
+      requiredBy: new Date(Date.now() + RESTOCK_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    });
+
+    bloodRequest.calculatePriority({
+      scarcity: await priorityService.getScarcityPoints(bloodRequest)
+    });
+    await bloodRequest.save();
+
+    realtimeService.sendToRole('admin', 'request:created', bloodRequest.toEventSummary());
+    await notificationService.notifyLowStock(bloodRequest, staff.map(user => user._id), level.units);
+
+    try {
+      await outreachService.startOutreach(bloodRequest);
+    } catch (notificationError) {
+      console.error('Notification error:', notificationError);
+    }
+
+    return bloodRequest;
+  }
+}
+
+module.exports = new InventoryService();
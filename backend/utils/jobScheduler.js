@@ -0,0 +1,126 @@
+const JobRun = require('../models/JobRun');
+
+/**
+ * Job Scheduler
+ * Runs recurring background jobs in-process on fixed intervals and records
+ * each run in the JobRun collection. No external queue is required.
+ */
+class JobScheduler {
+  constructor() {
+    this.jobs = new Map();
+    this.started = false;
+  }
+
+  /**
+   * Register a job. The handler returns a summary object that is stored with the run.
+   */
+  register(name, { description, intervalMs, handler, runOnStart = false }) {
+    if (this.jobs.has(name)) {
+      throw new Error(`Job "${name}" is already registered`);
+    }
+
+    this.jobs.set(name, {
+      name,
+      description,
+      intervalMs,
+      handler,
+      runOnStart,
+      timer: null,
+      running: false,
+      lastRunAt: null,
+      nextRunAt: null
+    });
+  }
+
+  /**
+   * Start every registered job's timer
+   */
+  start() {
+    if (this.started) return;
+    this.started = true;
+
+    this.jobs.forEach(job => {
+      job.nextRunAt = new Date(Date.now() + job.intervalMs);
+      job.timer = setInterval(() => {
+        job.nextRunAt = new Date(Date.now() + job.intervalMs);
+        this.runJob(job.name).catch(error => console.error(`Job ${job.name} error:`, error));
+      }, job.intervalMs);
+      job.timer.unref();
+
+      if (job.runOnStart) {
+        this.runJob(job.name).catch(error => console.error(`Job ${job.name} error:`, error));
+      }
+    });
+
+    console.log(`Job scheduler started with ${this.jobs.size} job(s)`);
+  }
+
+  stop() {
+    this.jobs.forEach(job => {
+      clearInterval(job.timer);
+      job.timer = null;
+      job.nextRunAt = null;
+    });
+    this.started = false;
+  }
+
+  /**
+   * Run a job now and record the run. Returns the JobRun document, or null
+   * if the job is still busy with a previous run.
+   */
+  async runJob(name, { trigger = 'schedule', triggeredBy } = {}) {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job "${name}"`);
+    }
+
+    if (job.running) return null;
+    job.running = true;
+
+    let run;
+    try {
+      run = await JobRun.create({ job: name, trigger, triggeredBy });
+    } catch (error) {
+      job.running = false;
+      throw error;
+    }
+
+    try {
+      const result = await job.handler();
+      run.status = 'success';
+      run.result = result;
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error);
+      run.status = 'failed';
+      run.error = error.message;
+    } finally {
+      job.running = false;
+      job.lastRunAt = run.startedAt;
+      run.finishedAt = new Date();
+      run.durationMs = run.finishedAt - run.startedAt;
+      await run.save();
+    }
+
+    return run;
+  }
+
+  /**
+   * List registered jobs with their schedule state
+   */
+  getJobs() {
+    return [...this.jobs.values()].map(job => ({
+      name: job.name,
+      description: job.description,
+      intervalMs: job.intervalMs,
+      running: job.running,
+      lastRunAt: job.lastRunAt,
+      nextRunAt: job.nextRunAt
+    }));
+  }
+
+  hasJob(name) {
+    return this.jobs.has(name);
+  }
+}
+
+module.exports = new JobScheduler();
@@ -1,90 +1,171 @@
-const nodemailer = require('nodemailer');
 const User = require('../models/User');
 const BloodRequest = require('../models/BloodRequest');
+const Notification = require('../models/Notification');
+const NotificationDelivery = require('../models/NotificationDelivery');
+const PushSubscription = require('../models/PushSubscription');
+const realtimeService = require('./realtimeService');
+const deliveryService = require('./deliveryService');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Where a user is reached on each channel. Push is addressed to the user
+// and only reaches those in pushUsers, the ids with a browser subscription.
+const getChannelAddress = (channel, user, pushUsers = new Set()) => {
+  switch (channel) {
+    case 'email':
+      return user.email;
+    case 'sms':
+    case 'whatsapp':
+      return user.phone;
+    case 'push':
+      return pushUsers.has(user._id.toString()) ? user._id.toString() : null;
+    default:
+      return null;
+  }
+};
 
 /**
  * Notification Service
- * Handles email and SMS notifications for blood donation system
+ * Decides who hears about what and on which channels. Delivery itself goes
+ * through the channel adapters of the delivery service.
  */
 class NotificationService {
-  constructor() {
-    // Initialize email transporter
-    this.emailTransporter = nodemailer.createTransport({
-      host: process.env.SMTP_HOST || 'smtp.gmail.com',
-      port: process.env.SMTP_PORT || 587,
-      secure: false, // true for 465, false for other ports
-      auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASS
-      }
-    });
-
-    // SMS service would be initialized here (Twilio, AWS SNS, etc.)
-    // For demo purposes, we'll log SMS notifications
-  }
-
   /**
-   * Notify nearby donors about a new blood request
+   * Notify nearby donors about a blood request, within the radius of one
+   * outreach wave. Donors reached by an earlier wave are skipped.
    */
-  async notifyNearbyDonors(bloodRequest) {
+  async notifyNearbyDonors(bloodRequest, { radiusKm = 20, wave = 0 } = {}) {
     try {
       const compatibleGroups = bloodRequest.getCompatibleBloodGroups();
+      const alreadyNotified = (bloodRequest.notifiedDonors || []).map(notification => notification.donor);
       
-      // Find nearby donors with compatible blood groups
-      const nearbyDonors = await User.find({
-        role: 'donor',
-        bloodGroup: { $in: compatibleGroups },
-        isAvailable: true,
-        location: {
-          $near: {
-            $geometry: {
-              type: 'Point',
-              coordinates: bloodRequest.location.coordinates
-            },
-            $maxDistance: 20000 // 20km radius
+      // Find nearby donors with compatible blood groups who want to hear
+      // about a request this urgent and this far away
+      const candidates = await User.aggregate([
+        {
+          $geoNear: {
+            near: { type: 'Point', coordinates: bloodRequest.location.coordinates },
+            distanceField: 'distance',
+            maxDistance: radiusKm * 1000,
+            spherical: true,
+            query: {
+              _id: { $nin: alreadyNotified },
+              role: 'donor',
+              bloodGroup: { $in: compatibleGroups },
+              isAvailable: true,
+              $and: [
+                User.eligibleDonorFilter(),
+                User.donationPreferenceFilter(bloodRequest.componentType),
+                User.alertUrgencyFilter(bloodRequest.urgency)
+              ]
+            }
           }
-        }
-      }).limit(50); // Limit to avoid spam
+        },
+        {
+          $match: {
+            $expr: {
+              $lte: [
+                '$distance',
+                { $multiply: [{ $ifNull: ['$notificationPreferences.maxDistanceKm', User.MAX_ALERT_DISTANCE_KM] }, 1000] }
+              ]
+            }
+          }
+        },
+        { $limit: 50 }, // Limit to avoid spam
+        { $project: { password: 0 } }
+      ]);
+      const nearbyDonors = candidates.map(candidate => User.hydrate(candidate));
+      // $geoNear distances are in metres and do not survive hydrate()
+      const distancesKm = new Map(candidates.map(candidate => [candidate._id.toString(), candidate.distance / 1000]));
 
-      console.log(`Found ${nearbyDonors.length} nearby compatible donors`);
+      console.log(`Found ${nearbyDonors.length} new compatible donors within ${radiusKm}km (wave ${wave})`);
 
       const notifications = [];
+      const availableChannels = process.env.DISABLE_NOTIFICATIONS === 'true'
+        ? []
+        : User.ALERT_CHANNELS.filter(channel => deliveryService.isAvailable(channel));
+      const [alertsToday, pushUsers] = await Promise.all([
+        NotificationDelivery.countRecentRequests(
+          nearbyDonors.map(donor => donor._id),
+          'nearby_request',
+          new Date(Date.now() - DAY)
+        ),
+        PushSubscription.subscribedUsers(nearbyDonors.map(donor => donor._id))
+      ]);
 
       for (const donor of nearbyDonors) {
         try {
-          // Send email notification
-          if (donor.email) {
-            await this.sendEmailToDonor(donor, bloodRequest);
-            notifications.push({
-              donor: donor._id,
-              method: 'email'
+          // Quiet hours and the daily limit leave only the in-app inbox
+          const channels = donor.getAlertChannels(availableChannels, {
+            urgency: bloodRequest.urgency,
+            alertsToday: alertsToday.get(donor._id.toString()) || 0
+          });
+          let reached = false;
+
+          for (const channel of channels) {
+            const delivery = await deliveryService.send(channel, 'nearby_request', {
+              to: getChannelAddress(channel, donor, pushUsers),
+              recipient: donor._id,
+              bloodRequest: bloodRequest._id,
+              data: { donor, bloodRequest, radiusKm, distanceKm: distancesKm.get(donor._id.toString()) }
             });
+
+            // Deliveries waiting for a retry still count as reaching the donor
+            if (delivery && delivery.status !== 'failed') {
+              reached = true;
+              notifications.push({
+                donor: donor._id,
+                method: channel,
+                wave
+              });
+            }
           }
 
-          // Send SMS notification (if phone available and SMS service configured)
-          if (donor.phone && this.isSMSEnabled()) {
-            await this.sendSMSToDonor(donor, bloodRequest);
+          if (!reached) {
             notifications.push({
               donor: donor._id,
-              method: 'sms'
+              method: 'in_app',
+              wave
             });
           }
 
-          // Add small delay to avoid overwhelming email server
-          await this.delay(100);
+          // Add small delay to avoid overwhelming the providers
+          if (channels.length) {
+            await this.delay(100);
+          }
 
         } catch (donorError) {
           console.error(`Failed to notify donor ${donor._id}:`, donorError);
         }
       }
 
-      // Update blood request with notification records
-      bloodRequest.notifiedDonors = notifications;
-      await bloodRequest.save();
+      realtimeService.sendToUsers(
+        nearbyDonors.map(donor => donor._id),
+        'request:created',
+        bloodRequest.toEventSummary()
+      );
+
+      await this.createInAppNotification(nearbyDonors.map(donor => donor._id), {
+        type: 'nearby_request',
+        title: `${bloodRequest.urgency === 'critical' ? 'Critical: ' : ''}${bloodRequest.bloodGroup} blood needed nearby`,
+        message: `${bloodRequest.unitsNeeded} unit(s) needed at ${bloodRequest.hospital.name}`,
+        link: `/requests/${bloodRequest._id}`,
+        bloodRequest: bloodRequest._id
+      });
+
+      // Append this wave's notification records. A targeted $push avoids
+      // overwriting responses that arrived while the wave was being sent.
+      if (notifications.length) {
+        await BloodRequest.updateOne(
+          { _id: bloodRequest._id },
+          { $push: { notifiedDonors: { $each: notifications } } }
+        );
+        bloodRequest.notifiedDonors.push(...notifications);
+      }
 
       return {
-        donorsNotified: notifications.length,
-        methods: ['email', 'sms']
+        donorsNotified: nearbyDonors.length,
+        methods: [...new Set(notifications.map(notification => notification.method))]
       };
 
     } catch (error) {
@@ -94,294 +175,281 @@ class NotificationService {
   }
 
   /**
-   * Send email notification to donor
+   * Notify requester about donor response
    */
-  async sendEmailToDonor(donor, bloodRequest) {
-    // Skip email sending if notifications are disabled
-    if (process.env.DISABLE_NOTIFICATIONS === 'true') {
-      console.log(`Email notification skipped for ${donor.name} (development mode)`);
-      return { success: true };
-    }
-    
-    const subject = `🩸 Urgent Blood Donation Request - ${bloodRequest.bloodGroup}`;
-    
-    const html = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background-color: #dc2626; color: white; padding: 20px; text-align: center; }
-          .content { padding: 20px; background-color: #f9f9f9; }
-          .urgency-high { color: #dc2626; font-weight: bold; }
-          .urgency-critical { color: #991b1b; font-weight: bold; animation: blink 1s infinite; }
-          .details { background-color: white; padding: 15px; margin: 10px 0; border-radius: 5px; }
-          .button { display: inline-block; background-color: #dc2626; color: white; padding: 12px 24px; 
-                   text-decoration: none; border-radius: 5px; margin: 10px 0; }
-          .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
-          @keyframes blink { 50% { opacity: 0.5; } }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>🩸 Blood Donation Request</h1>
-          </div>
-          
-          <div class="content">
-            <h2>Dear ${donor.name},</h2>
-            
-            <p>A blood donation request has been made near your location that matches your blood group.</p>
-            
-            <div class="details">
-              <h3>Request Details:</h3>
-              <p><strong>Patient:</strong> ${bloodRequest.patientName}</p>
-              <p><strong>Blood Group Needed:</strong> ${bloodRequest.bloodGroup}</p>
-              <p><strong>Units Required:</strong> ${bloodRequest.unitsNeeded}</p>
-              <p><strong>Urgency:</strong> 
-                <span class="urgency-${bloodRequest.urgency}">${bloodRequest.urgency.toUpperCase()}</span>
-              </p>
-              <p><strong>Required By:</strong> ${new Date(bloodRequest.requiredBy).toLocaleString()}</p>
-              <p><strong>Medical Reason:</strong> ${bloodRequest.medicalReason}</p>
-            </div>
-            
-            <div class="details">
-              <h3>Hospital Information:</h3>
-              <p><strong>Hospital:</strong> ${bloodRequest.hospital.name}</p>
-              <p><strong>Address:</strong> ${bloodRequest.hospital.address}</p>
-              <p><strong>Phone:</strong> ${bloodRequest.hospital.phone}</p>
-            </div>
-            
-            <div class="details">
-              <h3>Contact Information:</h3>
-              <p><strong>Primary Contact:</strong> ${bloodRequest.contactInfo.primaryPhone}</p>
-              ${bloodRequest.contactInfo.alternatePhone ? 
-                `<p><strong>Alternate Contact:</strong> ${bloodRequest.contactInfo.alternatePhone}</p>` : ''}
-              <p><strong>Doctor:</strong> ${bloodRequest.doctorInfo.name} - ${bloodRequest.doctorInfo.phone}</p>
-            </div>
-            
-            <p>Your blood group (${donor.bloodGroup}) is compatible with this request.</p>
-            
-            ${donor.canDonate() ? 
-              `<p style="color: green;"><strong>✅ You are eligible to donate!</strong></p>
-               <a href="${process.env.FRONTEND_URL}/blood-requests/${bloodRequest._id}" class="button">
-                 Respond to Request
-               </a>` :
-              `<p style="color: orange;"><strong>⚠️ Please check your donation eligibility</strong></p>
-               <p>It's been less than 56 days since your last donation. Please verify your eligibility before responding.</p>`
-            }
-            
-            <p><strong>Distance:</strong> Approximately within 20km of your location</p>
-            
-            <p>Thank you for being a registered blood donor. Your willingness to help saves lives!</p>
-          </div>
-          
-          <div class="footer">
-            <p>Blood Donation Request System</p>
-            <p>This is an automated notification. Please do not reply to this email.</p>
-            <p>If you no longer wish to receive these notifications, please update your preferences in your profile.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    const mailOptions = {
-      from: `"Blood Donation System" <${process.env.SMTP_USER}>`,
-      to: donor.email,
-      subject,
-      html
-    };
+  async notifyRequesterOfResponse(bloodRequest, donor, responseStatus) {
+    try {
+      await bloodRequest.populate('requester');
+      const requester = bloodRequest.requester;
+
+      realtimeService.sendToUsers([requester._id], 'request:response', {
+        ...bloodRequest.toEventSummary(),
+        donorName: donor.name,
+        responseStatus
+      });
+
+      await this.createInAppNotification([requester._id], {
+        type: 'request_response',
+        title: `${donor.name} ${responseStatus === 'confirmed' ? 'confirmed they will donate' : 'is interested in donating'}`,
+        message: `For your ${bloodRequest.bloodGroup} request for ${bloodRequest.patientName}`,
+        link: `/requests/${bloodRequest._id}`,
+        bloodRequest: bloodRequest._id
+      });
+
+      const data = { requester, donor, bloodRequest, responseStatus };
+      const pushUsers = await PushSubscription.subscribedUsers([requester._id]);
+      for (const channel of ['email', 'push']) {
+        await deliveryService.send(channel, 'request_response', {
+          to: getChannelAddress(channel, requester, pushUsers),
+          recipient: requester._id,
+          bloodRequest: bloodRequest._id,
+          data
+        });
+      }
 
-    if (process.env.SMTP_USER && process.env.SMTP_PASS) {
-      await this.emailTransporter.sendMail(mailOptions);
-      console.log(`Email sent to donor: ${donor.email}`);
-    } else {
-      console.log('SMTP not configured, email would be sent to:', donor.email);
-      console.log('Subject:', subject);
+    } catch (error) {
+      console.error('Error notifying requester of response:', error);
+      throw error;
     }
   }
 
   /**
-   * Send SMS notification to donor
+   * Send verification email
    */
-  async sendSMSToDonor(donor, bloodRequest) {
-    const message = `🩸 URGENT: Blood donation needed near you! ${bloodRequest.bloodGroup} - ${bloodRequest.unitsNeeded} units. Urgency: ${bloodRequest.urgency.toUpperCase()}. Hospital: ${bloodRequest.hospital.name}. Contact: ${bloodRequest.contactInfo.primaryPhone}. Details: ${process.env.FRONTEND_URL}/blood-requests/${bloodRequest._id}`;
+  async sendVerificationEmail(user, verificationToken) {
+    return deliveryService.send('email', 'verify_email', {
+      to: user.email,
+      recipient: user._id,
+      data: { user, token: verificationToken }
+    });
+  }
 
-    // In a real implementation, you would use SMS service like Twilio:
-    // await this.smsClient.messages.create({
-    //   body: message,
-    //   from: process.env.TWILIO_PHONE,
-    //   to: donor.phone
-    // });
+  /**
+   * Send password reset email
+   */
+  async sendPasswordResetEmail(user, resetToken) {
+    return deliveryService.send('email', 'password_reset', {
+      to: user.email,
+      recipient: user._id,
+      data: { user, token: resetToken }
+    });
+  }
 
-    console.log(`SMS would be sent to ${donor.phone}: ${message}`);
+  /**
+   * Utility function to add delay
+   */
+  delay(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   /**
-   * Notify requester about donor response
+   * Notify a donor or requester that an appointment was booked, moved or cancelled
    */
-  async notifyRequesterOfResponse(bloodRequest, donor, responseStatus) {
+  async notifyAppointmentUpdate(appointment, bloodRequest, recipient, action) {
+    if (!recipient || !recipient.email) return;
+
+    const actionText = {
+      booked: 'A donation appointment has been booked',
+      rescheduled: 'A donation appointment has been rescheduled',
+      updated: 'The time of a donation appointment has changed',
+      cancelled: 'A donation appointment has been cancelled'
+    };
+
+    await this.createInAppNotification([recipient._id], {
+      type: 'appointment',
+      title: actionText[action] || 'A donation appointment has changed',
+      message: `${appointment.startTime.toLocaleString()} for ${bloodRequest.patientName}`,
+      link: `/requests/${bloodRequest._id}`,
+      bloodRequest: bloodRequest._id
+    });
+
     try {
-      await bloodRequest.populate('requester');
-      const requester = bloodRequest.requester;
+      await deliveryService.send('email', 'appointment_update', {
+        to: recipient.email,
+        recipient: recipient._id,
+        bloodRequest: bloodRequest._id,
+        data: { recipient, appointment, bloodRequest, action }
+      });
+    } catch (error) {
+      console.error('Error sending appointment notification:', error);
+    }
+  }
 
-      const subject = `Blood Donation Response - ${donor.name}`;
-      
-      const html = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-            .header { background-color: #059669; color: white; padding: 20px; text-align: center; }
-            .content { padding: 20px; }
-            .donor-info { background-color: #f0f9ff; padding: 15px; margin: 10px 0; border-radius: 5px; }
-            .status-interested { color: #059669; font-weight: bold; }
-            .status-confirmed { color: #dc2626; font-weight: bold; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1>🩸 Donor Response Received</h1>
-            </div>
-            
-            <div class="content">
-              <h2>Dear ${requester.name},</h2>
-              
-              <p>Good news! A donor has responded to your blood donation request for ${bloodRequest.patientName}.</p>
-              
-              <div class="donor-info">
-                <h3>Donor Information:</h3>
-                <p><strong>Name:</strong> ${donor.name}</p>
-                <p><strong>Blood Group:</strong> ${donor.bloodGroup}</p>
-                <p><strong>Status:</strong> 
-                  <span class="status-${responseStatus}">${responseStatus.toUpperCase()}</span>
-                </p>
-                <p><strong>Total Donations:</strong> ${donor.totalDonations}</p>
-                <p><strong>Rating:</strong> ⭐ ${donor.rating}/5</p>
-              </div>
-              
-              <p><strong>Next Steps:</strong></p>
-              <ul>
-                ${responseStatus === 'confirmed' ? 
-                  '<li>The donor has confirmed their availability</li><li>Please coordinate directly with the donor</li>' :
-                  '<li>The donor has expressed interest</li><li>Please follow up to confirm their availability</li>'
-                }
-                <li>Arrange for the donation at ${bloodRequest.hospital.name}</li>
-                <li>Ensure all necessary paperwork is prepared</li>
-              </ul>
-              
-              <p>Please contact the donor directly to coordinate the donation.</p>
-              
-              <p>Thank you for using our blood donation system!</p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `;
-
-      const mailOptions = {
-        from: `"Blood Donation System" <${process.env.SMTP_USER}>`,
-        to: requester.email,
-        subject,
-        html
-      };
+  /**
+   * Notify the requester and responding donors that a blood request changed status
+   */
+  async notifyRequestStatusChange(bloodRequest, status, actorId) {
+    // Requester and donors may or may not be populated
+    const recipients = new Set([(bloodRequest.requester._id || bloodRequest.requester).toString()]);
 
-      if (process.env.SMTP_USER && process.env.SMTP_PASS) {
-        await this.emailTransporter.sendMail(mailOptions);
-        console.log(`Response notification sent to requester: ${requester.email}`);
-      } else {
-        console.log('SMTP not configured, email would be sent to:', requester.email);
+    (bloodRequest.responses || []).forEach(response => {
+      if (response.status !== 'declined') {
+        recipients.add((response.donor._id || response.donor).toString());
       }
+    });
+
+    // People don't need telling about changes they made themselves
+    if (actorId) {
+      recipients.delete(actorId.toString());
+    }
+
+    realtimeService.sendToUsers([...recipients], 'request:status', bloodRequest.toEventSummary());
 
+    await this.createInAppNotification([...recipients], {
+      type: 'status_change',
+      title: `Blood request for ${bloodRequest.patientName} is now ${status}`,
+      message: `${bloodRequest.bloodGroup} request at ${bloodRequest.hospital.name}`,
+      link: `/requests/${bloodRequest._id}`,
+      bloodRequest: bloodRequest._id
+    });
+
+    // Integrations such as hospital systems follow status changes by webhook
+    try {
+      await deliveryService.send('webhook', 'request_status', {
+        bloodRequest: bloodRequest._id,
+        data: { bloodRequest, status }
+      });
     } catch (error) {
-      console.error('Error notifying requester of response:', error);
-      throw error;
+      console.error('Error sending status webhook:', error);
     }
   }
 
   /**
-   * Send verification email
+   * Notify a donor that the requester changed the status of their response
    */
-  async sendVerificationEmail(user, verificationToken) {
-    const verificationUrl = `${process.env.FRONTEND_URL}/verify-email?token=${verificationToken}`;
-    
-    const subject = 'Verify Your Blood Donation Account';
-    
-    const html = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background-color: #dc2626; color: white; padding: 20px; text-align: center; }
-          .content { padding: 20px; }
-          .button { display: inline-block; background-color: #dc2626; color: white; padding: 12px 24px; 
-                   text-decoration: none; border-radius: 5px; margin: 10px 0; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>Welcome to Blood Donation System</h1>
-          </div>
-          
-          <div class="content">
-            <h2>Dear ${user.name},</h2>
-            
-            <p>Thank you for registering as a ${user.role} in our blood donation system!</p>
-            
-            <p>To activate your account and start ${user.role === 'donor' ? 'helping save lives' : 'making blood requests'}, 
-               please verify your email address by clicking the button below:</p>
-            
-            <a href="${verificationUrl}" class="button">Verify Email Address</a>
-            
-            <p>If the button doesn't work, copy and paste this link into your browser:</p>
-            <p>${verificationUrl}</p>
-            
-            <p>This verification link will expire in 24 hours.</p>
-            
-            <p>If you didn't create this account, please ignore this email.</p>
-            
-            <p>Thank you for joining our mission to save lives through blood donation!</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    const mailOptions = {
-      from: `"Blood Donation System" <${process.env.SMTP_USER}>`,
-      to: user.email,
-      subject,
-      html
+  async notifyDonorOfResponseStatus(bloodRequest, donorId, responseStatus) {
+    const titles = {
+      confirmed: 'Your response was confirmed',
+      declined: 'Your response was declined',
+      donated: 'Thank you! Your donation was recorded'
     };
 
-    if (process.env.SMTP_USER && process.env.SMTP_PASS) {
-      await this.emailTransporter.sendMail(mailOptions);
-    } else {
-      console.log('Verification email would be sent to:', user.email);
+    realtimeService.sendToUsers([donorId], 'request:status', {
+      ...bloodRequest.toEventSummary(),
+      responseStatus
+    });
+
+    await this.createInAppNotification([donorId], {
+      type: 'status_change',
+      title: titles[responseStatus] || 'Your response was updated',
+      message: `Blood request for ${bloodRequest.patientName} at ${bloodRequest.hospital.name}`,
+      link: `/requests/${bloodRequest._id}`,
+      bloodRequest: bloodRequest._id
+    });
+  }
+
+  /**
+   * Remind a requester that their blood request is about to expire
+   */
+  async notifyExpiryReminder(bloodRequest, requester) {
+    const expiresAt = new Date(bloodRequest.expiresAt);
+
+    await this.createInAppNotification([requester._id], {
+      type: 'reminder',
+      title: `Your request for ${bloodRequest.patientName} expires soon`,
+      message: `It will expire at ${expiresAt.toLocaleTimeString()}. Update the required-by time if you still need donors.`,
+      link: `/requests/${bloodRequest._id}?edit=deadline`,
+      bloodRequest: bloodRequest._id
+    });
+
+    try {
+      await deliveryService.send('email', 'expiry_reminder', {
+        to: requester.email,
+        recipient: requester._id,
+        bloodRequest: bloodRequest._id,
+        data: { requester, bloodRequest }
+      });
+    } catch (error) {
+      console.error('Error sending expiry reminder:', error);
     }
   }
 
   /**
-   * Check if SMS service is enabled
+   * Let a donor know their waiting period is over and they can donate again
+   */
+  async notifyDonorEligible(donor) {
+    await this.createInAppNotification([donor._id], {
+      type: 'eligibility',
+      title: 'You can donate again',
+      message: 'Your waiting period since your last donation is over. Thank you for being a donor!',
+      link: '/donors'
+    });
+  }
+
+  /**
+   * Tell a blood bank's staff that low stock started a restock drive
    */
-  isSMSEnabled() {
-    // In a real implementation, check if SMS service (Twilio, etc.) is configured
-    return false; // Disabled for demo
+  async notifyLowStock(bloodRequest, staffIds, unitsLeft) {
+    await this.createInAppNotification(staffIds, {
+      type: 'low_stock',
+      title: `Low ${bloodRequest.bloodGroup} stock at ${bloodRequest.hospital.name}`,
+      message: `Only ${unitsLeft} unit(s) left. A restock drive for ${bloodRequest.unitsNeeded} unit(s) is now asking donors to give.`,
+      link: `/requests/${bloodRequest._id}`,
+      bloodRequest: bloodRequest._id
+    });
   }
 
   /**
-   * Utility function to add delay
+   * Tell donors registered for a blood drive about a change to their place
    */
-  delay(ms) {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  async notifyDriveUpdate(drive, donorIds, action) {
+    const startsAt = new Date(drive.startsAt).toLocaleString();
+    const notices = {
+      registered: {
+        title: `You're registered for ${drive.name}`,
+        message: `See you at ${drive.location.venue || drive.location.address} on ${startsAt}.`
+      },
+      rescheduled: {
+        title: `${drive.name} has been rescheduled`,
+        message: `The drive now starts on ${startsAt}.`
+      },
+      cancelled: {
+        title: `${drive.name} has been cancelled`,
+        message: drive.cancellationReason || 'The organiser cancelled this blood drive.'
+      },
+      donated: {
+        title: 'Thank you! Your donation was recorded',
+        message: `Your donation at ${drive.name} has been recorded.`
+      }
+    };
+
+    await this.createInAppNotification(donorIds, {
+      type: 'drive',
+      ...notices[action],
+      link: `/drives/${drive._id}`
+    });
+  }
+
+  /**
+   * Notify a user that an admin changed their verification status
+   */
+  async notifyVerificationChange(user, isVerified) {
+    await this.createInAppNotification([user._id], {
+      type: 'verification',
+      title: isVerified ? 'Your account has been verified' : 'Your account verification was removed',
+      message: isVerified
+        ? 'An administrator has verified your account.'
+        : 'Please contact support if you think this is a mistake.',
+      link: '/dashboard'
+    });
+  }
+
+  /**
+   * Store in-app notifications for the inbox and push them to connected users.
+   * Failures are logged rather than thrown so they never block the email or
+   * SMS channels.
+   */
+  async createInAppNotification(recipientIds, payload) {
+    try {
+      const notifications = await Notification.createForRecipients(recipientIds, payload);
+      notifications.forEach(notification => {
+        realtimeService.sendToUsers([notification.recipient], 'notification', notification);
+      });
+      return notifications;
+    } catch (error) {
+      console.error('Error creating in-app notifications:', error);
+      return [];
+    }
   }
 
   /**
@@ -393,8 +461,8 @@ class NotificationService {
 
     for (const user of users) {
       try {
-        await this.sendCustomEmail(user.email, subject, message);
-        results.push({ userId: user._id, status: 'sent' });
+        const delivery = await this.sendCustomEmail(user.email, subject, message);
+        results.push({ userId: user._id, status: delivery ? delivery.status : 'skipped', error: delivery?.lastError });
       } catch (error) {
         results.push({ userId: user._id, status: 'failed', error: error.message });
       }
@@ -407,18 +475,10 @@ class NotificationService {
    * Send custom email
    */
   async sendCustomEmail(email, subject, htmlContent) {
-    const mailOptions = {
-      from: `"Blood Donation System" <${process.env.SMTP_USER}>`,
+    return deliveryService.send('email', 'custom', {
       to: email,
-      subject,
-      html: htmlContent
-    };
-
-    if (process.env.SMTP_USER && process.env.SMTP_PASS) {
-      await this.emailTransporter.sendMail(mailOptions);
-    } else {
-      console.log(`Custom email would be sent to: ${email}`);
-    }
+      data: { subject, html: htmlContent }
+    });
   }
 }
 
@@ -0,0 +1,122 @@
+const BloodRequest = require('../models/BloodRequest');
+const notificationService = require('./notificationService');
+
+// Each wave widens the search radius until enough donors have confirmed
+const OUTREACH_RADII_KM = [5, 20, 50, 100];
+
+// How long to wait for responses before widening, per urgency
+const WAVE_INTERVAL_MINUTES = {
+  critical: 15,
+  high: 30,
+  medium: 120,
+  low: 360
+};
+
+const MIN_WAVE_INTERVAL_MINUTES = 5;
+
+/**
+ * Outreach Service
+ * Escalates donor notifications for a blood request in widening radius waves
+ */
+class OutreachService {
+  /**
+   * Send the first (closest) wave for a newly created request
+   */
+  async startOutreach(bloodRequest) {
+    return this.runWave(bloodRequest, 0);
+  }
+
+  /**
+   * Work out when the next wave is due. Waves are spaced by urgency, but
+   * squeezed so the widest radius still goes out before requiredBy.
+   */
+  getNextWaveAt(bloodRequest, wave, now = new Date()) {
+    const remainingWaves = OUTREACH_RADII_KM.length - 1 - wave;
+    if (remainingWaves <= 0) return null;
+
+    const baseMs = (WAVE_INTERVAL_MINUTES[bloodRequest.urgency] || WAVE_INTERVAL_MINUTES.medium) * 60 * 1000;
+    const timeLeftMs = new Date(bloodRequest.requiredBy).getTime() - now.getTime();
+    const intervalMs = Math.max(
+      MIN_WAVE_INTERVAL_MINUTES * 60 * 1000,
+      Math.min(baseMs, timeLeftMs / (remainingWaves + 1))
+    );
+
+    return new Date(now.getTime() + intervalMs);
+  }
+
+  /**
+   * Check whether outreach should stop. Returns the stop reason, or null to continue.
+   */
+  getStopReason(bloodRequest, wave, now = new Date()) {
+    if (bloodRequest.status !== 'active') return 'inactive';
+    if (bloodRequest.getCoveredUnits() >= bloodRequest.unitsNeeded) return 'covered';
+    if (new Date(bloodRequest.requiredBy) <= now) return 'deadline';
+    if (wave >= OUTREACH_RADII_KM.length) return 'max_radius';
+    return null;
+  }
+
+  /**
+   * Notify donors within the wave's radius and schedule the next wave
+   */
+  async runWave(bloodRequest, wave) {
+    const now = new Date();
+    const stopReason = this.getStopReason(bloodRequest, wave, now);
+
+    if (stopReason) {
+      await this.stopOutreach(bloodRequest, stopReason, now);
+      return { wave, stopReason, donorsNotified: 0 };
+    }
+
+    const radiusKm = OUTREACH_RADII_KM[wave];
+    const result = await notificationService.notifyNearbyDonors(bloodRequest, { radiusKm, wave });
+    const nextWaveAt = this.getNextWaveAt(bloodRequest, wave, now);
+
+    bloodRequest.outreach = {
+      wave,
+      radiusKm,
+      lastWaveAt: now,
+      nextWaveAt,
+      completedAt: nextWaveAt ? undefined : now,
+      stopReason: nextWaveAt ? undefined : 'max_radius'
+    };
+
+    // Update only the outreach fields so concurrent responses are not overwritten
+    await BloodRequest.updateOne({ _id: bloodRequest._id }, { outreach: bloodRequest.outreach });
+
+    return { wave, radiusKm, donorsNotified: result.donorsNotified, nextWaveAt };
+  }
+
+  async stopOutreach(bloodRequest, stopReason, now = new Date()) {
+    await BloodRequest.updateOne(
+      { _id: bloodRequest._id },
+      {
+        'outreach.nextWaveAt': null,
+        'outreach.completedAt': now,
+        'outreach.stopReason': stopReason
+      }
+    );
+  }
+
+  /**
+   * Run every wave that has come due
+   */
+  async runDueWaves() {
+    // Requests closed since their last wave are picked up too, so their
+    // outreach gets marked as stopped
+    const dueRequests = await BloodRequest.find({
+      'outreach.nextWaveAt': { $lte: new Date() }
+    });
+
+    for (const bloodRequest of dueRequests) {
+      try {
+        await this.runWave(bloodRequest, bloodRequest.outreach.wave + 1);
+      } catch (error) {
+        console.error(`Outreach wave failed for request ${bloodRequest._id}:`, error);
+      }
+    }
+
+    return { processed: dueRequests.length };
+  }
+}
+
+module.exports = new OutreachService();
@@ -0,0 +1,129 @@
+const BloodRequest = require('../models/BloodRequest');
+const User = require('../models/User');
+
+// Donors within this distance count towards blood group availability
+const SCARCITY_RADIUS_KM = 50;
+
+// Priorities older than this are recalculated before feeds are sorted
+const PRIORITY_STALE_MINUTES = 15;
+
+// Upper bound on requests refreshed during a single read
+const MAX_REFRESH_PER_READ = 100;
+
+const EARTH_RADIUS_KM = 6378.1;
+
+/**
+ * Priority Service
+ * Keeps request priority current as time passes and donors respond
+ */
+class PriorityService {
+  /**
+   * Score how scarce compatible donors are around a request (0-10 points),
+   * measured as eligible donors per outstanding unit
+   */
+  async getScarcityPoints(bloodRequest, cache = new Map()) {
+    const [lng, lat] = bloodRequest.location.coordinates;
+    // Nearby requests for the same group share a donor count
+    const key = `${bloodRequest.bloodGroup}|${bloodRequest.componentType}|${lng.toFixed(1)},${lat.toFixed(1)}`;
+
+    if (!cache.has(key)) {
+      // $near is not allowed in counts, so match on a sphere instead
+      cache.set(key, User.countDocuments({
+        role: 'donor',
+        bloodGroup: { $in: bloodRequest.getCompatibleBloodGroups() },
+        isAvailable: true,
+        $and: [
+          User.eligibleDonorFilter(),
+          User.donationPreferenceFilter(bloodRequest.componentType)
+        ],
+        location: {
+          $geoWithin: {
+            $centerSphere: [[lng, lat], SCARCITY_RADIUS_KM / EARTH_RADIUS_KM]
+          }
+        }
+      }));
+    }
+
+    const donorCount = await cache.get(key);
+    const remainingUnits = Math.max(1, bloodRequest.unitsNeeded - bloodRequest.getCoveredUnits());
+    const donorsPerUnit = donorCount / remainingUnits;
+
+    if (donorsPerUnit < 1) return 10;
+    if (donorsPerUnit < 3) return 7;
+    if (donorsPerUnit < 10) return 4;
+    return 0;
+  }
+
+  /**
+   * Recalculate one request's priority and store it with its breakdown
+   */
+  async refresh(bloodRequest, cache) {
+    const scarcity = await this.getScarcityPoints(bloodRequest, cache);
+    bloodRequest.calculatePriority({ scarcity });
+
+    // updateOne skips the requiredBy validator, which overdue requests fail
+    await BloodRequest.updateOne(
+      { _id: bloodRequest._id },
+      { priority: bloodRequest.priority, priorityBreakdown: bloodRequest.priorityBreakdown }
+    );
+
+    return bloodRequest.priority;
+  }
+
+  isStale(bloodRequest, now = new Date()) {
+    const calculatedAt = bloodRequest.priorityBreakdown && bloodRequest.priorityBreakdown.calculatedAt;
+    return !calculatedAt || now - calculatedAt > PRIORITY_STALE_MINUTES * 60 * 1000;
+  }
+
+  /**
+   * Refresh stale active requests matching a feed query, so the feed's
+   * priority sort reflects the current time
+   */
+  async refreshStale(query = {}) {
+    // Only active requests are re-scored
+    if (query.status && query.status !== 'active') return 0;
+
+    const staleBefore = new Date(Date.now() - PRIORITY_STALE_MINUTES * 60 * 1000);
+    const staleRequests = await BloodRequest.find({
+      ...query,
+      status: 'active',
+      // Kept under $and since feed queries may carry their own $or
+      $and: [
+        ...(query.$and || []),
+        {
+          $or: [
+            { 'priorityBreakdown.calculatedAt': null },
+            { 'priorityBreakdown.calculatedAt': { $lt: staleBefore } }
+          ]
+        }
+      ]
+    }).limit(MAX_REFRESH_PER_READ);
+
+    const cache = new Map();
+    for (const bloodRequest of staleRequests) {
+      await this.refresh(bloodRequest, cache);
+    }
+
+    return staleRequests.length;
+  }
+
+  /**
+   * Recalculate every active request. Returns how many priorities changed.
+   */
+  async refreshAll() {
+    const activeRequests = await BloodRequest.find({ status: 'active' });
+    const cache = new Map();
+
+    let updated = 0;
+    for (const bloodRequest of activeRequests) {
+      const previous = bloodRequest.priority;
+      if (await this.refresh(bloodRequest, cache) !== previous) {
+        updated += 1;
+      }
+    }
+
+    return { checked: activeRequests.length, updated };
+  }
+}
+
+module.exports = new PriorityService();
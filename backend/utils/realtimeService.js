@@ -0,0 +1,116 @@
+/**
+ * Realtime Service
+ * Pushes live events to signed-in users over Server-Sent Events
+ */
+class RealtimeService {
+  constructor() {
+    // userId -> Set of { res, role, sessionId } connections (a user may have several tabs open)
+    this.connections = new Map();
+
+    // Comments keep idle connections from being closed by proxies
+    this.heartbeat = setInterval(() => this.sendHeartbeat(), 25 * 1000);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Register an authenticated request as an event stream
+   */
+  subscribe(req, res) {
+    const userId = req.user._id.toString();
+    const connection = {
+      res,
+      role: req.user.role,
+      sessionId: req.sessionId ? req.sessionId.toString() : null
+    };
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    if (!this.connections.has(userId)) {
+      this.connections.set(userId, new Set());
+    }
+    this.connections.get(userId).add(connection);
+
+    this.write(res, 'ready', { userId });
+
+    req.on('close', () => {
+      const userConnections = this.connections.get(userId);
+      if (!userConnections) return;
+
+      userConnections.delete(connection);
+      if (userConnections.size === 0) {
+        this.connections.delete(userId);
+      }
+    });
+  }
+
+  /**
+   * Send an event to every open connection of the given users
+   */
+  sendToUsers(userIds, event, data) {
+    const uniqueIds = new Set(userIds.map(id => id.toString()));
+
+    uniqueIds.forEach(userId => {
+      const userConnections = this.connections.get(userId);
+      if (!userConnections) return;
+
+      userConnections.forEach(({ res }) => this.write(res, event, data));
+    });
+  }
+
+  /**
+   * Send an event to every connected user with the given role
+   */
+  sendToRole(role, event, data) {
+    this.connections.forEach(userConnections => {
+      userConnections.forEach(connection => {
+        if (connection.role === role) {
+          this.write(connection.res, event, data);
+        }
+      });
+    });
+  }
+
+  /**
+   * End the streams opened by signed-out sessions; the client's reconnect
+   * then fails authentication
+   */
+  closeSessions(sessionIds) {
+    const ids = new Set(sessionIds.map(id => id.toString()));
+
+    this.connections.forEach(userConnections => {
+      userConnections.forEach(connection => {
+        if (connection.sessionId && ids.has(connection.sessionId)) {
+          connection.res.end();
+        }
+      });
+    });
+  }
+
+  /**
+   * Number of users with at least one open connection
+   */
+  getConnectedUserCount() {
+    return this.connections.size;
+  }
+
+  sendHeartbeat() {
+    this.connections.forEach(userConnections => {
+      userConnections.forEach(({ res }) => res.write(': heartbeat\n\n'));
+    });
+  }
+
+  write(res, event, data) {
+    try {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    } catch (error) {
+      console.error('Error writing realtime event:', error);
+    }
+  }
+}
+
+module.exports = new RealtimeService();
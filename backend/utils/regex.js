@@ -0,0 +1,6 @@
+// Escape user input before using it in a RegExp search
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+module.exports = {
+  escapeRegex
+};
@@ -0,0 +1,186 @@
+const User = require('../models/User');
+const BloodRequest = require('../models/BloodRequest');
+const { BLOOD_GROUPS, getCompatibleDonorGroups } = require('blood-donation-shared/compatibility');
+
+const EARTH_RADIUS_KM = 6378.1;
+
+// Compatible donors per outstanding unit below which an area is flagged
+const SHORTAGE_RATIO = 1;
+const LOW_SUPPLY_RATIO = 3;
+
+/**
+ * Scarcity Service
+ * Compares available donor supply with active request demand per area and
+ * blood group, for the admin heatmap
+ */
+class ScarcityService {
+  /**
+   * Build the aggregation stages that tag each document with its area.
+   * Areas are either city/state pairs or square grid cells of gridSize degrees.
+   */
+  getAreaStages(groupBy, gridSize) {
+    if (groupBy === 'grid') {
+      const cell = (index) => ({
+        $multiply: [
+          { $floor: { $divide: [{ $arrayElemAt: ['$location.coordinates', index] }, gridSize] } },
+          gridSize
+        ]
+      });
+
+      return [
+        { $addFields: { areaLng: cell(0), areaLat: cell(1) } },
+        { $addFields: { areaKey: { $concat: [{ $toString: '$areaLat' }, ',', { $toString: '$areaLng' }] } } }
+      ];
+    }
+
+    return [
+      {
+        $addFields: {
+          areaKey: {
+            $concat: [
+              { $toLower: { $trim: { input: { $ifNull: ['$location.city', ''] } } } },
+              '|',
+              { $toLower: { $trim: { input: { $ifNull: ['$location.state', ''] } } } }
+            ]
+          }
+        }
+      }
+    ];
+  }
+
+  /**
+   * Group by area and blood group, keeping what is needed to label the area
+   * and place it on a map
+   */
+  getGroupStage(valueExpression) {
+    return {
+      $group: {
+        _id: { area: '$areaKey', bloodGroup: '$bloodGroup' },
+        value: { $sum: valueExpression },
+        count: { $sum: 1 },
+        city: { $first: '$location.city' },
+        state: { $first: '$location.state' },
+        lng: { $avg: { $arrayElemAt: ['$location.coordinates', 0] } },
+        lat: { $avg: { $arrayElemAt: ['$location.coordinates', 1] } },
+        cellLng: { $first: '$areaLng' },
+        cellLat: { $first: '$areaLat' }
+      }
+    };
+  }
+
+  getLevel(compatibleDonors, unitsNeeded) {
+    if (unitsNeeded <= 0) return 'none';
+    const ratio = compatibleDonors / unitsNeeded;
+    if (ratio < SHORTAGE_RATIO) return 'shortage';
+    if (ratio < LOW_SUPPLY_RATIO) return 'low';
+    return 'ok';
+  }
+
+  /**
+   * Build the supply-vs-demand heatmap. An optional centre and radius limits
+   * the analysis to one region using the 2dsphere indexes.
+   */
+  async getHeatmap({ groupBy = 'city', gridSize = 0.5, lat, lng, radiusKm } = {}) {
+    const regionFilter = lat !== undefined && lng !== undefined && radiusKm
+      ? { location: { $geoWithin: { $centerSphere: [[lng, lat], radiusKm / EARTH_RADIUS_KM] } } }
+      : {};
+    const areaStages = this.getAreaStages(groupBy, gridSize);
+
+    const [supply, demand] = await Promise.all([
+      User.aggregate([
+        {
+          $match: {
+            ...regionFilter,
+            role: 'donor',
+            isAvailable: true,
+            bloodGroup: { $in: BLOOD_GROUPS },
+            ...User.eligibleDonorFilter()
+          }
+        },
+        ...areaStages,
+        this.getGroupStage(1)
+      ]),
+      BloodRequest.aggregate([
+        { $match: { ...regionFilter, status: 'active' } },
+        ...areaStages,
+        this.getGroupStage({
+          $max: [0, { $subtract: ['$unitsNeeded', { $ifNull: ['$fulfillmentDetails.donatedUnits', 0] }] }]
+        })
+      ])
+    ]);
+
+    const areas = new Map();
+    const getArea = (row) => {
+      if (!areas.has(row._id.area)) {
+        // Grid cells are placed at their centre, cities at their first documents' mean position
+        const center = groupBy === 'grid'
+          ? { lat: row.cellLat + gridSize / 2, lng: row.cellLng + gridSize / 2 }
+          : { lat: row.lat, lng: row.lng };
+
+        areas.set(row._id.area, {
+          key: row._id.area,
+          label: groupBy === 'grid'
+            ? `${center.lat.toFixed(2)}, ${center.lng.toFixed(2)}`
+            : [row.city, row.state].filter(Boolean).join(', ') || 'Unknown',
+          center,
+          donors: {},
+          unitsNeeded: {},
+          requests: {}
+        });
+      }
+      return areas.get(row._id.area);
+    };
+
+    supply.forEach(row => {
+      getArea(row).donors[row._id.bloodGroup] = row.value;
+    });
+    demand.forEach(row => {
+      const area = getArea(row);
+      area.unitsNeeded[row._id.bloodGroup] = row.value;
+      area.requests[row._id.bloodGroup] = row.count;
+    });
+
+    // Compatibility follows red cell rules, which covers whole blood requests
+    const compatibleGroups = Object.fromEntries(
+      BLOOD_GROUPS.map(bloodGroup => [bloodGroup, getCompatibleDonorGroups(bloodGroup)])
+    );
+
+    const results = [...areas.values()].map(area => {
+      const bloodGroups = BLOOD_GROUPS.map(bloodGroup => {
+        const unitsNeeded = area.unitsNeeded[bloodGroup] || 0;
+        const compatibleDonors = compatibleGroups[bloodGroup]
+          .reduce((sum, donorGroup) => sum + (area.donors[donorGroup] || 0), 0);
+
+        return {
+          bloodGroup,
+          donors: area.donors[bloodGroup] || 0,
+          compatibleDonors,
+          unitsNeeded,
+          requests: area.requests[bloodGroup] || 0,
+          level: this.getLevel(compatibleDonors, unitsNeeded)
+        };
+      });
+
+      return {
+        key: area.key,
+        label: area.label,
+        center: area.center,
+        totalDonors: bloodGroups.reduce((sum, group) => sum + group.donors, 0),
+        totalUnitsNeeded: bloodGroups.reduce((sum, group) => sum + group.unitsNeeded, 0),
+        shortages: bloodGroups.filter(group => group.level === 'shortage').length,
+        bloodGroups
+      };
+    });
+
+    // Worst areas first
+    results.sort((a, b) =>
+      b.shortages - a.shortages ||
+      b.totalUnitsNeeded - a.totalUnitsNeeded ||
+      b.totalDonors - a.totalDonors
+    );
+
+    return results;
+  }
+}
+
+module.exports = new ScarcityService();
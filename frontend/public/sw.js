@@ -0,0 +1,126 @@
+/* Service worker: makes the app installable, keeps it usable offline and shows Web Push notifications */
+
+// Bump the version to drop caches written by an older worker
+const STATIC_CACHE = 'static-v1';
+const API_CACHE = 'api-v1';
+
+// The app shell; built JS and CSS under /assets/ are cached as they load
+const APP_SHELL = ['/', '/manifest.webmanifest', '/icons/icon.svg', '/icons/icon-192.png'];
+
+// API reads worth keeping for offline use: the signed-in user, nearby
+// requests and single requests opened from them
+const CACHED_API_PATHS = [/\/api\/auth\/me$/, /\/api\/blood-requests\/nearby$/, /\/api\/blood-requests\/[0-9a-f]{24}$/];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(STATIC_CACHE).then((cache) => cache.addAll(APP_SHELL)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key !== STATIC_CACHE && key !== API_CACHE).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks for cached user data to be dropped on logout
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'CLEAR_USER_DATA') {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+// Try the network and keep a copy; serve the copy when the network fails
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    // A nearby list fetched with another radius beats no list at all
+    const cached =
+      (await cache.match(request)) ||
+      (await cache.match(request, { ignoreSearch: true })) ||
+      (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Built assets have hashed names, so a cached copy never goes stale
+const cacheFirst = async (request) => {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    // Every route is served by index.html, so any cached shell will do
+    event.respondWith(networkFirst(request, STATIC_CACHE, '/'));
+  } else if (CACHED_API_PATHS.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request, API_CACHE));
+  } else if (url.origin === self.location.origin && /^\/(assets|icons)\//.test(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// The backend sends { title, body, url, tag } (see the push templates)
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'BloodDonate', {
+      body: message.body,
+      icon: '/icons/icon-192.png',
+      badge: '/icons/icon-192.png',
+      tag: message.tag,
+      renotify: !!message.tag,
+      data: { url: message.url || '/dashboard' },
+    })
+  );
+});
+
+// Open the linked page, reusing an open tab of the app when there is one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/dashboard', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const appWindow = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (appWindow) {
+        // navigate() only works on tabs this worker controls
+        return appWindow
+          .focus()
+          .then((client) => client.navigate(url))
+          .catch(() => self.clients.openWindow(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -1,19 +1,38 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { AuthProvider } from './context/AuthContext';
 import { ToastProvider, ToastContainer } from './context/ToastContext';
+import { OfflineProvider } from './context/OfflineContext';
 
 // Pages
 import Home from './pages/Home';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import VerifyEmail from './pages/VerifyEmail';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
 import Dashboard from './pages/Dashboard';
+import Profile from './pages/Profile';
 import CreateRequest from './pages/CreateRequest';
+import Inventory from './pages/Inventory';
 import Donors from './pages/Donors';
 import Admin from './pages/Admin';
+import BloodRequestDetails from './pages/BloodRequestDetails';
+import Drives from './pages/Drives';
+import DriveDetails from './pages/DriveDetails';
+import CreateDrive from './pages/CreateDrive';
+import AdminDashboard from './pages/admin/AdminDashboard';
+import AdminRequests from './pages/admin/AdminRequests';
+import AdminUsers from './pages/admin/AdminUsers';
+import AdminHospitals from './pages/admin/AdminHospitals';
+import AdminFraud from './pages/admin/AdminFraud';
+import AdminAnalytics from './pages/admin/AdminAnalytics';
+import AdminJobs from './pages/admin/AdminJobs';
+import AdminDeliveries from './pages/admin/AdminDeliveries';
 
 // Components
 import Navbar from './components/Layout/Navbar';
 import Footer from './components/Layout/Footer';
+import OfflineBanner from './components/Layout/OfflineBanner';
 import ProtectedRoute from './components/ProtectedRoute';
 
 // Styles
@@ -23,54 +42,103 @@ function App() {
   return (
     <AuthProvider>
       <ToastProvider>
-        <Router>
-          <div className="min-h-screen bg-gray-50 flex flex-col">
-            <Navbar />
+        <OfflineProvider>
+          <Router>
+            <div className="min-h-screen bg-gray-50 flex flex-col">
+              <Navbar />
+              <OfflineBanner />
             
-            <main className="flex-grow">
-              <Routes>
-                {/* Public Routes */}
-                <Route path="/" element={<Home />} />
-                <Route path="/login" element={<Login />} />
-                <Route path="/register" element={<Register />} />
-                <Route path="/donors" element={<Donors />} />
+              <main className="flex-grow">
+                <Routes>
+                  {/* Public Routes */}
+                  <Route path="/" element={<Home />} />
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/register" element={<Register />} />
+                  <Route path="/verify-email" element={<VerifyEmail />} />
+                  <Route path="/forgot-password" element={<ForgotPassword />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
+                  <Route path="/donors" element={<Donors />} />
+                  <Route path="/drives" element={<Drives />} />
+                  <Route path="/drives/:id" element={<DriveDetails />} />
                 
-                {/* Protected Routes */}
-                <Route path="/dashboard" element={
-                  <ProtectedRoute>
-                    <Dashboard />
-                  </ProtectedRoute>
-                } />
+                  {/* Protected Routes */}
+                  <Route path="/dashboard" element={
+                    <ProtectedRoute>
+                      <Dashboard />
+                    </ProtectedRoute>
+                  } />
                 
-                <Route path="/create-request" element={
-                  <ProtectedRoute allowedRoles={['requester', 'admin']}>
-                    <CreateRequest />
-                  </ProtectedRoute>
-                } />
+                  <Route path="/profile" element={
+                    <ProtectedRoute>
+                      <Profile />
+                    </ProtectedRoute>
+                  } />
                 
-                {/* Admin Routes */}
-                <Route path="/admin" element={
-                  <ProtectedRoute allowedRoles={['admin']}>
-                    <Admin />
-                  </ProtectedRoute>
-                } />
+                  <Route path="/requests/:id" element={
+                    <ProtectedRoute>
+                      <BloodRequestDetails />
+                    </ProtectedRoute>
+                  } />
+
+                  {/* Notification emails link to /blood-requests/:id */}
+                  <Route path="/blood-requests/:id" element={
+                    <ProtectedRoute>
+                      <BloodRequestDetails />
+                    </ProtectedRoute>
+                  } />
+                
+                  <Route path="/create-request" element={
+                    <ProtectedRoute allowedRoles={['requester', 'hospital', 'admin']} requireVerification>
+                      <CreateRequest />
+                    </ProtectedRoute>
+                  } />
+
+                  <Route path="/inventory" element={
+                    <ProtectedRoute allowedRoles={['hospital']}>
+                      <Inventory />
+                    </ProtectedRoute>
+                  } />
+                
+                  <Route path="/drives/create" element={
+                    <ProtectedRoute allowedRoles={['hospital', 'admin']} requireVerification>
+                      <CreateDrive />
+                    </ProtectedRoute>
+                  } />
+
+                  {/* Admin Routes */}
+                  <Route path="/admin" element={
+                    <ProtectedRoute allowedRoles={['admin']}>
+                      <Admin />
+                    </ProtectedRoute>
+                  }>
+                    <Route index element={<AdminDashboard />} />
+                    <Route path="dashboard" element={<AdminDashboard />} />
+                    <Route path="requests" element={<AdminRequests />} />
+                    <Route path="users" element={<AdminUsers />} />
+                    <Route path="hospitals" element={<AdminHospitals />} />
+                    <Route path="fraud" element={<AdminFraud />} />
+                    <Route path="analytics" element={<AdminAnalytics />} />
+                    <Route path="jobs" element={<AdminJobs />} />
+                    <Route path="deliveries" element={<AdminDeliveries />} />
+                  </Route>
                 
-                {/* 404 Route */}
-                <Route path="*" element={
-                  <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-                    <div className="text-center">
-                      <h1 className="text-4xl font-bold text-gray-900 mb-2">404</h1>
-                      <p className="text-gray-600">Page not found</p>
+                  {/* 404 Route */}
+                  <Route path="*" element={
+                    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                      <div className="text-center">
+                        <h1 className="text-4xl font-bold text-gray-900 mb-2">404</h1>
+                        <p className="text-gray-600">Page not found</p>
+                      </div>
                     </div>
-                  </div>
-                } />
-              </Routes>
-            </main>
+                  } />
+                </Routes>
+              </main>
             
-            <Footer />
-            <ToastContainer />
-          </div>
-        </Router>
+              <Footer />
+              <ToastContainer />
+            </div>
+          </Router>
+        </OfflineProvider>
       </ToastProvider>
     </AuthProvider>
   );
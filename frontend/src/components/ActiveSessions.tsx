@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Monitor, ShieldCheck, Smartphone } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import type { AuthSession } from '../types';
+import { formatDateTime, formatRelativeTime, getErrorMessage } from '../utils';
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// A readable "Browser on Platform" label from the user agent string
+const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Browser';
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return platform ? `${browser} on ${platform}` : browser;
+};
+
+const isMobile = (userAgent?: string): boolean => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+// Lists the devices signed in to this account and signs out the others
+const ActiveSessions: React.FC = () => {
+  const { showToast } = useToast();
+
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await api.getSessions());
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const runAction = async (key: string, action: () => Promise<{ message: string }>) => {
+    setActionLoading(key);
+    try {
+      const { message } = await action();
+      showToast(message, 'success');
+      await loadSessions();
+    } catch (error) {
+      console.error('Session action error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRevoke = (session: AuthSession) => {
+    if (!window.confirm(`Sign out ${describeDevice(session.userAgent)}?`)) return;
+    runAction(session._id, () => api.revokeSession(session._id));
+  };
+
+  const handleRevokeOthers = () => {
+    if (!window.confirm('Sign out of every other device?')) return;
+    runAction('others', () => api.revokeOtherSessions());
+  };
+
+  const otherSessions = sessions.filter((session) => !session.isCurrent);
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2 text-red-600" />
+          Active Sessions
+        </h3>
+        {otherSessions.length > 0 && (
+          <button
+            onClick={handleRevokeOthers}
+            disabled={!!actionLoading}
+            className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+          >
+            {actionLoading === 'others' ? 'Signing out...' : 'Sign out other devices'}
+          </button>
+        )}
+      </div>
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+        </div>
+      ) : sessions.length > 0 ? (
+        <div className="divide-y divide-gray-200">
+          {sessions.map((session) => {
+            const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+            return (
+              <div key={session._id} className="px-6 py-4 flex items-center justify-between gap-3">
+                <div className="flex items-center min-w-0">
+                  <DeviceIcon className="h-8 w-8 text-gray-400 mr-3 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {describeDevice(session.userAgent)}
+                      {session.isCurrent && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {session.ip ? `${session.ip} • ` : ''}
+                      Active {formatRelativeTime(session.lastUsedAt)} • Signed in {formatDateTime(session.createdAt)}
+                    </p>
+                  </div>
+                </div>
+                {!session.isCurrent && (
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={!!actionLoading}
+                    className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-red-600 bg-white hover:bg-gray-50 disabled:opacity-50 flex-shrink-0"
+                  >
+                    {actionLoading === session._id ? 'Signing out...' : 'Sign out'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="px-6 py-4 text-sm text-gray-500">No active sessions.</p>
+      )}
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,217 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, Plus } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import type { AppointmentSlot, BloodRequest, User } from '../types';
+import { formatDateTime, getErrorMessage } from '../utils';
+
+interface AppointmentSlotsProps {
+  request: BloodRequest;
+  canManage: boolean;
+}
+
+const SLOT_DURATIONS = [15, 30, 45, 60];
+
+const slotStatusColors: Record<AppointmentSlot['status'], string> = {
+  open: 'bg-green-100 text-green-800',
+  booked: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  completed: 'bg-purple-100 text-purple-800',
+};
+
+const getDonorId = (donor: User | string | undefined): string => {
+  if (!donor) return '';
+  return typeof donor === 'string' ? donor : donor._id;
+};
+
+const formatSlotTime = (slot: AppointmentSlot): string =>
+  `${formatDateTime(slot.startTime)} – ${new Date(slot.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+const AppointmentSlots: React.FC<AppointmentSlotsProps> = ({ request, canManage }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+
+  const [slots, setSlots] = useState<AppointmentSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [startTime, setStartTime] = useState('');
+  const [duration, setDuration] = useState(30);
+
+  const loadSlots = useCallback(async () => {
+    try {
+      const data = await api.getRequestSlots(request._id);
+      setSlots(data.appointments);
+    } catch (error) {
+      console.error('Error loading appointment slots:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [request._id]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  const runAction = async (key: string, action: () => Promise<unknown>, successMessage: string) => {
+    setActionLoading(key);
+    try {
+      await action();
+      showToast(successMessage, 'success');
+      await loadSlots();
+    } catch (error) {
+      console.error('Appointment action error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleAddSlot = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startTime) return;
+
+    const start = new Date(startTime);
+    const end = new Date(start.getTime() + duration * 60 * 1000);
+    runAction(
+      'create',
+      async () => {
+        await api.createSlot(request._id, { startTime: start.toISOString(), endTime: end.toISOString() });
+        setStartTime('');
+      },
+      'Appointment slot added'
+    );
+  };
+
+  const handleCancel = (slot: AppointmentSlot) => {
+    const isMine = getDonorId(slot.donor) === user?._id;
+    const prompt = isMine && !canManage
+      ? 'Cancel your appointment? The slot will be released to other donors.'
+      : 'Withdraw this appointment slot?';
+    if (!window.confirm(prompt)) return;
+
+    runAction(`cancel-${slot._id}`, () => api.cancelAppointment(slot._id), 'Appointment cancelled');
+  };
+
+  const myBooking = slots.find((slot) => slot.status === 'booked' && getDonorId(slot.donor) === user?._id);
+  const isActive = request.status === 'active';
+  const visibleSlots = canManage ? slots : slots.filter((slot) => slot.status === 'open' || slot === myBooking);
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <CalendarClock className="h-5 w-5 mr-2 text-red-600" />
+        Appointments
+      </h2>
+
+      {canManage && isActive && (
+        <form onSubmit={handleAddSlot} className="flex flex-col space-y-2 mb-4">
+          <input
+            type="datetime-local"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            required
+            aria-label="Slot start time"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-red-500 focus:border-red-500"
+          />
+          <div className="flex space-x-2">
+            <select
+              value={duration}
+              onChange={(e) => setDuration(Number(e.target.value))}
+              aria-label="Slot duration"
+              className="flex-1 border border-gray-300 rounded-md px-2 py-2 text-sm"
+            >
+              {SLOT_DURATIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>{minutes} minutes</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={actionLoading === 'create'}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Slot
+            </button>
+          </div>
+        </form>
+      )}
+
+      {!canManage && myBooking && (
+        <div className="mb-4 p-3 bg-blue-50 rounded-md text-sm text-blue-800">
+          Your appointment: {formatSlotTime(myBooking)}
+          {myBooking.location?.name && <> at {myBooking.location.name}</>}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+        </div>
+      ) : visibleSlots.length ? (
+        <ul className="divide-y divide-gray-200">
+          {visibleSlots.map((slot) => {
+            const isMine = getDonorId(slot.donor) === user?._id;
+            const donor = typeof slot.donor === 'object' ? slot.donor : null;
+            return (
+              <li key={slot._id} className="py-3 flex items-center justify-between gap-2">
+                <div>
+                  <p className="text-sm text-gray-900">{formatSlotTime(slot)}</p>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${slotStatusColors[slot.status]}`}>
+                      {slot.status}
+                    </span>
+                    {canManage && donor && <span className="text-xs text-gray-600">{donor.name}</span>}
+                  </div>
+                </div>
+                {isActive && (
+                  <div className="flex space-x-2">
+                    {!canManage && slot.status === 'open' && !myBooking && (
+                      <button
+                        onClick={() => runAction(`book-${slot._id}`, () => api.bookSlot(slot._id), 'Appointment booked')}
+                        disabled={!!actionLoading}
+                        className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Book
+                      </button>
+                    )}
+                    {!canManage && slot.status === 'open' && myBooking && (
+                      <button
+                        onClick={() =>
+                          runAction(
+                            `reschedule-${slot._id}`,
+                            () => api.rescheduleAppointment(myBooking._id, slot._id),
+                            'Appointment rescheduled'
+                          )
+                        }
+                        disabled={!!actionLoading}
+                        className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Move here
+                      </button>
+                    )}
+                    {(canManage ? ['open', 'booked'].includes(slot.status) : isMine && slot.status === 'booked') && (
+                      <button
+                        onClick={() => handleCancel(slot)}
+                        disabled={!!actionLoading}
+                        className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {canManage ? 'No appointment slots published yet.' : 'No appointment slots are available right now.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentSlots;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { getErrorMessage } from '../utils';
+
+const emptyForm = { currentPassword: '', newPassword: '', confirmPassword: '' };
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm';
+
+// Changes the password; the server signs out every other device afterwards
+const ChangePassword: React.FC = () => {
+  const { changePassword } = useAuth();
+  const { showToast } = useToast();
+
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData((prev) => ({ ...prev, [e.target.name]: e.target.value }));
+    setError('');
+  };
+
+  const validate = (): string => {
+    if (!formData.currentPassword) return 'Current password is required';
+    if (formData.newPassword.length < 6) return 'Password must be at least 6 characters';
+    if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(formData.newPassword)) {
+      return 'Password must contain at least one uppercase letter, one lowercase letter, and one number';
+    }
+    if (formData.newPassword !== formData.confirmPassword) return 'Passwords do not match';
+    return '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await changePassword({ currentPassword: formData.currentPassword, newPassword: formData.newPassword });
+      setFormData(emptyForm);
+      showToast('Password changed. Other devices have been signed out.', 'success');
+    } catch (error) {
+      console.error('Error changing password:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg mb-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <KeyRound className="h-5 w-5 mr-2 text-red-600" />
+          Change Password
+        </h3>
+      </div>
+
+      <div className="px-6 py-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700">Current password</label>
+          <input
+            type="password"
+            name="currentPassword"
+            id="currentPassword"
+            autoComplete="current-password"
+            value={formData.currentPassword}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700">New password</label>
+          <input
+            type="password"
+            name="newPassword"
+            id="newPassword"
+            autoComplete="new-password"
+            value={formData.newPassword}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">Confirm new password</label>
+          <input
+            type="password"
+            name="confirmPassword"
+            id="confirmPassword"
+            autoComplete="new-password"
+            value={formData.confirmPassword}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+        </div>
+        {error && <p className="md:col-span-3 text-sm text-red-600">{error}</p>}
+      </div>
+
+      <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+        >
+          {saving ? 'Changing...' : 'Change Password'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ChangePassword;
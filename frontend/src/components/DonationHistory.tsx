@@ -0,0 +1,77 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { History } from 'lucide-react';
+import { api } from '../services/api';
+import Pagination from './ui/Pagination';
+import type { DonationRecord, PaginationInfo } from '../types';
+import { formatDate, getDonationTypeLabel, getStatusColor } from '../utils';
+
+// Lists the donations the current user has recorded against blood requests
+const DonationHistory: React.FC = () => {
+  const [donations, setDonations] = useState<DonationRecord[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  const loadDonations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.getMyDonations(page);
+      setDonations(response.data || []);
+      setPagination(response.pagination || null);
+    } catch (error) {
+      console.error('Error loading donations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    loadDonations();
+  }, [loadDonations]);
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <History className="h-5 w-5 mr-2 text-red-600" />
+          Donation History
+        </h3>
+      </div>
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+        </div>
+      ) : donations.length > 0 ? (
+        <>
+          <div className="divide-y divide-gray-200">
+            {donations.map((donation) => (
+              <div key={`${donation.request}-${donation.donationDate}`} className="px-6 py-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <Link
+                    to={`/requests/${donation.request}`}
+                    className="text-sm font-medium text-gray-900 hover:text-red-600"
+                  >
+                    {donation.patientName} • {donation.bloodGroup}
+                  </Link>
+                  <p className="text-xs text-gray-500 truncate">
+                    {donation.units} unit(s) of {getDonationTypeLabel(donation.componentType)} at {donation.hospitalName} on{' '}
+                    {formatDate(donation.donationDate)}
+                  </p>
+                </div>
+                <span className={`flex-shrink-0 ${getStatusColor(donation.status)}`}>
+                  {donation.status}
+                </span>
+              </div>
+            ))}
+          </div>
+          <Pagination pagination={pagination} onPageChange={setPage} />
+        </>
+      ) : (
+        <p className="px-6 py-4 text-sm text-gray-500">No donations recorded yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default DonationHistory;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { BadgeCheck, Calendar, MapPin, Users } from 'lucide-react';
+import type { Drive } from '../types';
+import { formatDateTime, getBloodGroupColor } from '../utils';
+
+interface DriveCardProps {
+  drive: Drive;
+  // Shown in the card footer, e.g. a register button
+  action?: React.ReactNode;
+}
+
+const DriveCard: React.FC<DriveCardProps> = ({ drive, action }) => (
+  <div className="bg-white border border-gray-200 rounded-lg p-5 shadow-sm flex flex-col">
+    <div className="flex items-start justify-between mb-2">
+      <Link to={`/drives/${drive._id}`} className="text-lg font-semibold text-gray-900 hover:text-red-600">
+        {drive.name}
+      </Link>
+      {drive.status !== 'scheduled' && (
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+          drive.status === 'cancelled' ? 'bg-gray-100 text-gray-700' : 'bg-green-100 text-green-800'
+        }`}>
+          {drive.status}
+        </span>
+      )}
+    </div>
+
+    {drive.hospital && (
+      <div className="flex items-center text-sm text-gray-600 mb-2">
+        {drive.hospital.name}
+        {drive.hospital.isVerified && <BadgeCheck className="h-4 w-4 ml-1 text-green-600" />}
+      </div>
+    )}
+
+    <div className="space-y-1 text-sm text-gray-600 mb-3">
+      <div className="flex items-center">
+        <Calendar className="h-4 w-4 mr-2 text-gray-400" />
+        {formatDateTime(drive.startsAt)} – {formatDateTime(drive.endsAt)}
+      </div>
+      <div className="flex items-center">
+        <MapPin className="h-4 w-4 mr-2 text-gray-400" />
+        {drive.location.venue ? `${drive.location.venue}, ` : ''}{drive.location.city}, {drive.location.state}
+      </div>
+      <div className="flex items-center">
+        <Users className="h-4 w-4 mr-2 text-gray-400" />
+        {drive.spotsLeft > 0 ? `${drive.spotsLeft} of ${drive.capacity} places left` : 'Fully booked'}
+      </div>
+    </div>
+
+    {drive.targets.length > 0 && (
+      <div className="flex flex-wrap gap-1 mb-3">
+        {drive.targets.map((target) => (
+          <span
+            key={target.bloodGroup}
+            className={`px-2 py-0.5 text-xs font-medium rounded-full ${getBloodGroupColor(target.bloodGroup)}`}
+          >
+            {target.bloodGroup}: {drive.collected[target.bloodGroup] || 0}/{target.units}
+          </span>
+        ))}
+      </div>
+    )}
+
+    {action && <div className="mt-auto pt-2">{action}</div>}
+  </div>
+);
+
+export default DriveCard;
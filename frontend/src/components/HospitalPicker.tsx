@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { BadgeCheck, Building2, X } from 'lucide-react';
+import { api } from '../services/api';
+import type { HospitalRecord, MapLocation } from '../types';
+
+const SEARCH_DELAY_MS = 300;
+
+interface HospitalPickerProps {
+  value: HospitalRecord | null;
+  onChange: (hospital: HospitalRecord | null) => void;
+  // Lists the nearest hospitals first
+  near?: Pick<MapLocation, 'lat' | 'lng'>;
+  // Hospital accounts cannot switch to another hospital
+  locked?: boolean;
+  error?: string;
+  placeholder?: string;
+}
+
+const HospitalPicker: React.FC<HospitalPickerProps> = ({
+  value,
+  onChange,
+  near,
+  locked = false,
+  error,
+  placeholder = 'Search hospitals by name or city',
+}) => {
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<HospitalRecord[]>([]);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const lat = near?.lat;
+  const lng = near?.lng;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const coords = lat !== undefined && lng !== undefined ? { lat, lng } : undefined;
+        const data = await api.searchHospitals(search.trim(), coords);
+        if (!cancelled) setResults(data.hospitals);
+      } catch (err) {
+        console.error('Hospital search error:', err);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, search, lat, lng]);
+
+  const handleSelect = (hospital: HospitalRecord) => {
+    onChange(hospital);
+    setSearch('');
+    setOpen(false);
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-start justify-between p-3 border border-gray-300 rounded-md bg-gray-50">
+        <div className="flex items-start">
+          <Building2 className="h-5 w-5 text-gray-400 mr-2 mt-0.5" />
+          <div>
+            <div className="flex items-center text-sm font-medium text-gray-900">
+              {value.name}
+              {value.isVerified && (
+                <span className="ml-2 inline-flex items-center text-xs text-green-700">
+                  <BadgeCheck className="h-4 w-4 mr-0.5" />
+                  Verified
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-gray-500">
+              {value.location.address}, {value.location.city}, {value.location.state}
+            </div>
+            <div className="text-xs text-gray-500">{value.phone}</div>
+          </div>
+        </div>
+        {!locked && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Clear hospital"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        className={`block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm ${
+          error ? 'border-red-300' : 'border-gray-300'
+        }`}
+        placeholder={placeholder}
+      />
+      {open && (
+        <ul className="absolute z-10 mt-1 w-full max-h-60 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg">
+          {loading && results.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-gray-500">Searching...</li>
+          ) : results.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-gray-500">No registered hospitals found</li>
+          ) : (
+            results.map((hospital) => (
+              <li key={hospital._id}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => handleSelect(hospital)}
+                  className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                >
+                  <div className="flex items-center text-sm text-gray-900">
+                    {hospital.name}
+                    {hospital.isVerified && <BadgeCheck className="h-4 w-4 ml-1 text-green-600" />}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {hospital.location.city}, {hospital.location.state}
+                  </div>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default HospitalPicker;
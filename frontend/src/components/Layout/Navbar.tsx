@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 import { useToast } from '../../context/ToastContext';
+import NotificationBell from './NotificationBell';
 import { 
   Heart, 
   Menu, 
@@ -12,7 +13,9 @@ import {
   Shield,
   Droplets,
   Search,
-  Plus
+  Plus,
+  Warehouse,
+  Tent
 } from 'lucide-react';
 
 const Navbar: React.FC = () => {
@@ -41,16 +44,22 @@ const Navbar: React.FC = () => {
   const publicNavItems = [
     { path: '/', label: 'Home', icon: Heart },
     { path: '/donors', label: 'Find Donors', icon: Search },
+    { path: '/drives', label: 'Blood Drives', icon: Tent },
   ];
 
   const authenticatedNavItems = [
     { path: '/dashboard', label: 'Dashboard', icon: Heart },
     { path: '/blood-requests', label: 'Blood Requests', icon: Droplets },
-    ...(user?.role === 'requester' || user?.role === 'admin' 
+    ...(user?.role === 'requester' || user?.role === 'hospital' || user?.role === 'admin' 
       ? [{ path: '/blood-requests/create', label: 'Create Request', icon: Plus }] 
       : []
     ),
+    ...(user?.role === 'hospital'
+      ? [{ path: '/inventory', label: 'Inventory', icon: Warehouse }]
+      : []
+    ),
     { path: '/donors', label: 'Find Donors', icon: Search },
+    { path: '/drives', label: 'Drives', icon: Tent },
   ];
 
   const adminNavItems = [
@@ -138,80 +147,85 @@ const Navbar: React.FC = () => {
             )}
           </div>
 
-          {/* Right side items */}
-          <div className="hidden md:flex items-center space-x-4">
-            {isAuthenticated ? (
-              /* Profile Dropdown */
-              <div className="relative">
-                <button
-                  onClick={() => setIsProfileDropdownOpen(!isProfileDropdownOpen)}
-                  className="flex items-center space-x-2 text-gray-700 hover:text-blood-600 focus:outline-none focus:ring-2 focus:ring-blood-500 focus:ring-offset-2 rounded-md p-2"
-                >
-                  <div className="h-8 w-8 bg-blood-100 rounded-full flex items-center justify-center">
-                    <User className="h-5 w-5 text-blood-600" />
-                  </div>
-                  <span className="text-sm font-medium">{user?.name}</span>
-                </button>
+          <div className="flex items-center space-x-2">
+            {/* Notifications */}
+            {isAuthenticated && <NotificationBell />}
 
-                {/* Dropdown Menu */}
-                {isProfileDropdownOpen && (
-                  <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg py-1 z-50 border border-gray-200">
-                    <div className="px-4 py-2 border-b border-gray-100">
-                      <p className="text-sm font-medium text-gray-900">{user?.name}</p>
-                      <p className="text-xs text-gray-500">{user?.email}</p>
-                      <p className="text-xs text-gray-400 capitalize">{user?.role}</p>
+            {/* Right side items */}
+            <div className="hidden md:flex items-center space-x-4">
+              {isAuthenticated ? (
+                /* Profile Dropdown */
+                <div className="relative">
+                  <button
+                    onClick={() => setIsProfileDropdownOpen(!isProfileDropdownOpen)}
+                    className="flex items-center space-x-2 text-gray-700 hover:text-blood-600 focus:outline-none focus:ring-2 focus:ring-blood-500 focus:ring-offset-2 rounded-md p-2"
+                  >
+                    <div className="h-8 w-8 bg-blood-100 rounded-full flex items-center justify-center">
+                      <User className="h-5 w-5 text-blood-600" />
                     </div>
-                    
-                    <Link
-                      to="/profile"
-                      className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                      onClick={() => setIsProfileDropdownOpen(false)}
-                    >
-                      <Settings className="h-4 w-4 mr-2" />
-                      Profile Settings
-                    </Link>
-                    
-                    <button
-                      onClick={handleLogout}
-                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                    >
-                      <LogOut className="h-4 w-4 mr-2" />
-                      Sign Out
-                    </button>
-                  </div>
-                )}
-              </div>
-            ) : (
-              /* Auth Buttons */
-              <div className="flex items-center space-x-2">
-                <Link
-                  to="/login"
-                  className="text-gray-700 hover:text-blood-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
-                >
-                  Sign In
-                </Link>
-                <Link
-                  to="/register"
-                  className="btn-primary text-sm"
-                >
-                  Sign Up
-                </Link>
-              </div>
-            )}
-          </div>
+                    <span className="text-sm font-medium">{user?.name}</span>
+                  </button>
 
-          {/* Mobile menu button */}
-          <div className="md:hidden">
-            <button
-              onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-              className="text-gray-700 hover:text-blood-600 focus:outline-none focus:ring-2 focus:ring-blood-500 focus:ring-offset-2 rounded-md p-2"
-            >
-              {isMobileMenuOpen ? (
-                <X className="h-6 w-6" />
+                  {/* Dropdown Menu */}
+                  {isProfileDropdownOpen && (
+                    <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg py-1 z-50 border border-gray-200">
+                      <div className="px-4 py-2 border-b border-gray-100">
+                        <p className="text-sm font-medium text-gray-900">{user?.name}</p>
+                        <p className="text-xs text-gray-500">{user?.email}</p>
+                        <p className="text-xs text-gray-400 capitalize">{user?.role}</p>
+                      </div>
+                      
+                      <Link
+                        to="/profile"
+                        className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                        onClick={() => setIsProfileDropdownOpen(false)}
+                      >
+                        <Settings className="h-4 w-4 mr-2" />
+                        Profile Settings
+                      </Link>
+                      
+                      <button
+                        onClick={handleLogout}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                      >
+                        <LogOut className="h-4 w-4 mr-2" />
+                        Sign Out
+                      </button>
+                    </div>
+                  )}
+                </div>
               ) : (
-                <Menu className="h-6 w-6" />
+                /* Auth Buttons */
+                <div className="flex items-center space-x-2">
+                  <Link
+                    to="/login"
+                    className="text-gray-700 hover:text-blood-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    Sign In
+                  </Link>
+                  <Link
+                    to="/register"
+                    className="btn-primary text-sm"
+                  >
+                    Sign Up
+                  </Link>
+                </div>
               )}
-            </button>
+            </div>
+
+            {/* Mobile menu button */}
+            <div className="md:hidden">
+              <button
+                onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+                className="text-gray-700 hover:text-blood-600 focus:outline-none focus:ring-2 focus:ring-blood-500 focus:ring-offset-2 rounded-md p-2"
+              >
+                {isMobileMenuOpen ? (
+                  <X className="h-6 w-6" />
+                ) : (
+                  <Menu className="h-6 w-6" />
+                )}
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import { useToast } from '../../context/ToastContext';
+import { api } from '../../services/api';
+import type { AppNotification } from '../../types';
+import { formatRelativeTime } from '../../utils';
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+const INBOX_SIZE = 15;
+
+const NotificationBell: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const { info } = useToast();
+  const navigate = useNavigate();
+
+  // Ids already shown, so only notifications that arrive while the app is
+  // open get a toast (and not the backlog on first load)
+  const seenIds = useRef<Set<string> | null>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const data = await api.getNotifications({ limit: INBOX_SIZE });
+
+      if (seenIds.current) {
+        data.notifications
+          .filter((notification) => !notification.isRead && !seenIds.current?.has(notification._id))
+          .forEach((notification) => info(notification.title));
+      }
+      seenIds.current = new Set(data.notifications.map((notification) => notification._id));
+
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, [info]);
+
+  useEffect(() => {
+    loadNotifications();
+    const timer = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadNotifications]);
+
+  // Live arrivals come over the realtime stream; polling above is the fallback
+  useEffect(() => {
+    return api.subscribe('notification', (notification) => {
+      if (seenIds.current?.has(notification._id)) return;
+      seenIds.current?.add(notification._id);
+
+      info(notification.title);
+      setNotifications((prev) => [notification, ...prev].slice(0, INBOX_SIZE));
+      setUnreadCount((count) => count + 1);
+    });
+  }, [info]);
+
+  const handleOpen = (notification: AppNotification) => {
+    setIsOpen(false);
+    if (!notification.isRead) {
+      setNotifications((prev) =>
+        prev.map((item) => (item._id === notification._id ? { ...item, isRead: true } : item))
+      );
+      setUnreadCount((count) => Math.max(0, count - 1));
+      api.markNotificationRead(notification._id).catch((error) => {
+        console.error('Error marking notification read:', error);
+      });
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await api.markAllNotificationsRead();
+      setNotifications((prev) => prev.map((item) => ({ ...item, isRead: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-700 hover:text-blood-600 focus:outline-none focus:ring-2 focus:ring-blood-500 focus:ring-offset-2 rounded-md"
+        aria-label={`Notifications${unreadCount ? ` (${unreadCount} unread)` : ''}`}
+      >
+        <Bell className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-blood-600 text-white text-xs font-medium flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg z-50 border border-gray-200">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <p className="text-sm font-medium text-gray-900">Notifications</p>
+              {unreadCount > 0 && (
+                <button
+                  onClick={handleMarkAllRead}
+                  className="flex items-center text-xs font-medium text-blood-600 hover:text-blood-700"
+                >
+                  <CheckCheck className="h-4 w-4 mr-1" />
+                  Mark all as read
+                </button>
+              )}
+            </div>
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.length > 0 ? (
+                notifications.map((notification) => (
+                  <button
+                    key={notification._id}
+                    onClick={() => handleOpen(notification)}
+                    className={`block w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                      notification.isRead ? '' : 'bg-blood-50'
+                    }`}
+                  >
+                    <div className="flex items-start space-x-2">
+                      {!notification.isRead && (
+                        <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-blood-600" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                        {notification.message && (
+                          <p className="text-sm text-gray-600">{notification.message}</p>
+                        )}
+                        <p className="text-xs text-gray-400 mt-1">{formatRelativeTime(notification.createdAt)}</p>
+                      </div>
+                    </div>
+                  </button>
+                ))
+              ) : (
+                <p className="px-4 py-6 text-sm text-center text-gray-500">You're all caught up.</p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
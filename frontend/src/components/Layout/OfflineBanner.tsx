@@ -0,0 +1,42 @@
+import React from 'react';
+import { CloudUpload, WifiOff } from 'lucide-react';
+import { useOffline } from '../../context/useOffline';
+
+// Shown below the navbar while offline or while responses wait to be sent
+const OfflineBanner: React.FC = () => {
+  const { isOnline, queuedActions, isReplaying, replayQueue } = useOffline();
+  const queued = queuedActions.length;
+
+  if (isOnline && queued === 0) {
+    return null;
+  }
+
+  const queuedText = `${queued} response${queued === 1 ? '' : 's'}`;
+
+  return (
+    <div
+      role="status"
+      className={`px-4 py-2 text-sm text-center ${isOnline ? 'bg-blue-50 text-blue-800' : 'bg-yellow-50 text-yellow-800'}`}
+    >
+      {isOnline ? (
+        <span className="inline-flex items-center">
+          <CloudUpload className="h-4 w-4 mr-2" />
+          {isReplaying ? `Sending ${queuedText} saved while offline...` : `${queuedText} saved while offline could not be sent yet.`}
+          {!isReplaying && (
+            <button onClick={replayQueue} className="ml-2 font-medium underline hover:no-underline">
+              Try again
+            </button>
+          )}
+        </span>
+      ) : (
+        <span className="inline-flex items-center">
+          <WifiOff className="h-4 w-4 mr-2" />
+          You are offline. Showing the last saved data
+          {queued > 0 ? `; ${queuedText} will be sent when you reconnect.` : '.'}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default OfflineBanner;
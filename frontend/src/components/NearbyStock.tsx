@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { BadgeCheck, Phone, Warehouse } from 'lucide-react';
+import { api } from '../services/api';
+import type { BloodGroup, DonationType, NearbyStockBank } from '../types';
+import { formatDate, getDonationTypeLabel } from '../utils';
+
+const LOOKUP_DELAY_MS = 400;
+
+const getEarliestExpiry = (bank: NearbyStockBank) =>
+  bank.stock.map((group) => group.nextExpiry).sort()[0];
+
+interface NearbyStockProps {
+  bloodGroup: BloodGroup;
+  componentType: DonationType;
+  unitsNeeded: number;
+  lat: number;
+  lng: number;
+}
+
+// Blood banks near the hospital that could cover the request from stock
+const NearbyStock: React.FC<NearbyStockProps> = ({ bloodGroup, componentType, unitsNeeded, lat, lng }) => {
+  const [banks, setBanks] = useState<NearbyStockBank[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const data = await api.getNearbyStock({ lat, lng, bloodGroup, componentType, unitsNeeded });
+        if (!cancelled) setBanks(data.banks);
+      } catch (error) {
+        console.error('Nearby stock error:', error);
+        if (!cancelled) setBanks([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [bloodGroup, componentType, unitsNeeded, lat, lng]);
+
+  const coveringBanks = banks.filter((bank) => bank.canCover).length;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+      <div className="flex items-center mb-2">
+        <Warehouse className="h-5 w-5 text-gray-500 mr-2" />
+        <h4 className="text-sm font-medium text-gray-900">
+          Nearby blood bank stock for {bloodGroup} {getDonationTypeLabel(componentType)}
+        </h4>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Checking nearby blood banks...</p>
+      ) : banks.length === 0 ? (
+        <p className="text-sm text-gray-500">No blood banks nearby have compatible stock. Donors will be notified.</p>
+      ) : (
+        <>
+          {coveringBanks > 0 && (
+            <p className="text-sm text-green-700 mb-3">
+              {coveringBanks} blood bank(s) nearby can cover {unitsNeeded} unit(s) from stock. Consider contacting them
+              before broadcasting to donors.
+            </p>
+          )}
+          <ul className="divide-y divide-gray-200">
+            {banks.map((bank) => (
+              <li key={bank.hospital._id} className="py-2">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center text-sm font-medium text-gray-900">
+                      {bank.hospital.name}
+                      {bank.hospital.isVerified && <BadgeCheck className="h-4 w-4 ml-1 text-green-600" />}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {bank.distanceKm} km • {bank.stock.map((group) => `${group.bloodGroup}: ${group.units}`).join(', ')}
+                      {` • earliest expiry ${formatDate(getEarliestExpiry(bank))}`}
+                    </div>
+                    <a
+                      href={`tel:${bank.hospital.bloodBankContact?.phone || bank.hospital.phone}`}
+                      className="inline-flex items-center text-xs text-red-600 hover:text-red-500"
+                    >
+                      <Phone className="h-3 w-3 mr-1" />
+                      {bank.hospital.bloodBankContact?.phone || bank.hospital.phone}
+                    </a>
+                  </div>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                    bank.canCover ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {bank.compatibleUnits} unit(s)
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NearbyStock;
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { BellRing, Moon } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import type { AlertChannel, NotificationPreferences as Preferences } from '../types';
+import { getErrorMessage } from '../utils';
+
+const CHANNEL_OPTIONS: Array<{ value: AlertChannel; label: string }> = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'push', label: 'Browser push' },
+];
+
+const URGENCY_OPTIONS: Array<{ value: Preferences['minUrgency']; label: string }> = [
+  { value: 'low', label: 'All requests' },
+  { value: 'medium', label: 'Medium urgency and above' },
+  { value: 'high', label: 'High urgency and above' },
+  { value: 'critical', label: 'Critical only' },
+];
+
+const MAX_DISTANCE_KM = 100;
+
+// Mirrors the defaults on the User model, for accounts saved before preferences existed
+const defaultPreferences = (): Preferences => ({
+  channels: ['email'],
+  maxDistanceKm: MAX_DISTANCE_KM,
+  minUrgency: 'low',
+  dailyLimit: null,
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  },
+  criticalOverridesQuietHours: true,
+});
+
+// Lets a donor choose how, and how often, they hear about nearby blood requests
+const NotificationPreferences: React.FC = () => {
+  const { user, updateNotificationPreferences } = useAuth();
+  const { showToast } = useToast();
+
+  const [preferences, setPreferences] = useState<Preferences>(() => {
+    const defaults = defaultPreferences();
+    const saved = user?.notificationPreferences;
+    return saved ? { ...defaults, ...saved, quietHours: { ...defaults.quietHours, ...saved.quietHours } } : defaults;
+  });
+  const [saving, setSaving] = useState(false);
+
+  const update = <K extends keyof Preferences>(key: K, value: Preferences[K]) => {
+    setPreferences((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateQuietHours = <K extends keyof Preferences['quietHours']>(key: K, value: Preferences['quietHours'][K]) => {
+    setPreferences((prev) => ({ ...prev, quietHours: { ...prev.quietHours, [key]: value } }));
+  };
+
+  const toggleChannel = (channel: AlertChannel) => {
+    update(
+      'channels',
+      preferences.channels.includes(channel)
+        ? preferences.channels.filter((value) => value !== channel)
+        : [...preferences.channels, channel]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const message = await updateNotificationPreferences(preferences);
+      showToast(message, 'success');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg mb-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <BellRing className="h-5 w-5 mr-2 text-red-600" />
+          Request Alerts
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Choose which nearby blood requests reach you and how. Everything still appears in the app.
+        </p>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">Channels</legend>
+          <div className="flex flex-wrap gap-4">
+            {CHANNEL_OPTIONS.map((option) => (
+              <label key={option.value} className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={preferences.channels.includes(option.value)}
+                  onChange={() => toggleChannel(option.value)}
+                  className="h-4 w-4 text-red-600 border-gray-300 rounded mr-2"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          {preferences.channels.length === 0 && (
+            <p className="mt-2 text-xs text-gray-500">With no channel selected you will only see requests in the app.</p>
+          )}
+          {preferences.channels.includes('push') && (
+            <p className="mt-2 text-xs text-gray-500">Browser push reaches the devices where you turned push notifications on.</p>
+          )}
+        </fieldset>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label htmlFor="maxDistanceKm" className="block text-sm font-medium text-gray-700">
+              Maximum distance: {preferences.maxDistanceKm} km
+            </label>
+            <input
+              id="maxDistanceKm"
+              type="range"
+              min={1}
+              max={MAX_DISTANCE_KM}
+              value={preferences.maxDistanceKm}
+              onChange={(e) => update('maxDistanceKm', Number(e.target.value))}
+              className="mt-3 w-full accent-red-600"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="minUrgency" className="block text-sm font-medium text-gray-700">Urgency</label>
+            <select
+              id="minUrgency"
+              value={preferences.minUrgency}
+              onChange={(e) => update('minUrgency', e.target.value as Preferences['minUrgency'])}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {URGENCY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="dailyLimit" className="block text-sm font-medium text-gray-700">Daily limit</label>
+            <input
+              id="dailyLimit"
+              type="number"
+              min={1}
+              max={50}
+              placeholder="No limit"
+              value={preferences.dailyLimit ?? ''}
+              onChange={(e) => update('dailyLimit', e.target.value ? Number(e.target.value) : null)}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Most requests alerted in 24 hours</p>
+          </div>
+        </div>
+
+        <fieldset className="border-t border-gray-200 pt-6">
+          <label className="inline-flex items-center text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={preferences.quietHours.enabled}
+              onChange={(e) => updateQuietHours('enabled', e.target.checked)}
+              className="h-4 w-4 text-red-600 border-gray-300 rounded mr-2"
+            />
+            <Moon className="h-4 w-4 mr-1 text-gray-500" />
+            Quiet hours
+          </label>
+
+          {preferences.quietHours.enabled && (
+            <div className="mt-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label htmlFor="quietStart" className="block text-sm font-medium text-gray-700">From</label>
+                  <input
+                    id="quietStart"
+                    type="time"
+                    required
+                    value={preferences.quietHours.start}
+                    onChange={(e) => updateQuietHours('start', e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="quietEnd" className="block text-sm font-medium text-gray-700">Until</label>
+                  <input
+                    id="quietEnd"
+                    type="time"
+                    required
+                    value={preferences.quietHours.end}
+                    onChange={(e) => updateQuietHours('end', e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="quietTimezone" className="block text-sm font-medium text-gray-700">Time zone</label>
+                  <input
+                    id="quietTimezone"
+                    type="text"
+                    required
+                    value={preferences.quietHours.timezone}
+                    onChange={(e) => updateQuietHours('timezone', e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  />
+                </div>
+              </div>
+              <label className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={preferences.criticalOverridesQuietHours}
+                  onChange={(e) => update('criticalOverridesQuietHours', e.target.checked)}
+                  className="h-4 w-4 text-red-600 border-gray-300 rounded mr-2"
+                />
+                Still alert me about critical requests during quiet hours
+              </label>
+            </div>
+          )}
+        </fieldset>
+      </div>
+
+      <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Preferences'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default NotificationPreferences;
@@ -2,15 +2,20 @@ import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import LoadingSpinner from './ui/LoadingSpinner';
+import VerifyEmailNotice from './VerifyEmailNotice';
+import type { User } from '../types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  allowedRoles?: Array<'donor' | 'requester' | 'admin'>;
+  allowedRoles?: Array<User['role']>;
+  // Matches routes the API guards with requireVerification
+  requireVerification?: boolean;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
   children, 
-  allowedRoles = [] 
+  allowedRoles = [],
+  requireVerification = false
 }) => {
   const { isAuthenticated, isLoading, user } = useAuth();
 
@@ -61,6 +66,10 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     );
   }
 
+  if (requireVerification && user && !user.emailVerified) {
+    return <VerifyEmailNotice />;
+  }
+
   return <>{children}</>;
 };
 
@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { Smartphone } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { disablePush, enablePush, getPushStatus } from '../services/push';
+import type { PushStatus } from '../services/push';
+import { getErrorMessage } from '../utils';
+
+const STATUS_TEXT: Record<PushStatus, string> = {
+  unsupported: 'This browser does not support push notifications.',
+  unavailable: 'Push notifications are not available on this server yet.',
+  denied: 'Notifications are blocked for this site. Allow them in your browser settings to turn push on.',
+  disabled: 'Get alerts on this device even when the app is closed.',
+  enabled: 'This device receives push notifications.',
+};
+
+// Turns Web Push on or off for the current browser
+const PushNotifications: React.FC = () => {
+  const { showToast } = useToast();
+
+  const [status, setStatus] = useState<PushStatus | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    getPushStatus()
+      .then(setStatus)
+      .catch((error) => {
+        console.error('Error checking push status:', error);
+        setStatus('unavailable');
+      });
+  }, []);
+
+  const handleToggle = async () => {
+    try {
+      setWorking(true);
+      const message = status === 'enabled' ? await disablePush() : await enablePush();
+      showToast(message, 'success');
+    } catch (error) {
+      console.error('Push subscription error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setStatus(await getPushStatus().catch(() => status));
+      setWorking(false);
+    }
+  };
+
+  const canToggle = status === 'enabled' || status === 'disabled';
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-8">
+      <div className="px-6 py-4 flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <Smartphone className="h-5 w-5 mr-2 text-red-600" />
+            Push Notifications
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">{status ? STATUS_TEXT[status] : 'Checking this device...'}</p>
+        </div>
+        {canToggle && (
+          <button
+            onClick={handleToggle}
+            disabled={working}
+            className={`px-3 py-1.5 text-sm font-medium rounded-md flex-shrink-0 disabled:opacity-50 ${
+              status === 'enabled'
+                ? 'border border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+                : 'border border-transparent text-white bg-red-600 hover:bg-red-700'
+            }`}
+          >
+            {working ? 'Working...' : status === 'enabled' ? 'Turn off' : 'Turn on'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PushNotifications;
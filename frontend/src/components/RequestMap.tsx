@@ -0,0 +1,218 @@
+import React, { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Circle, CircleMarker, MapContainer, Marker, Popup, TileLayer, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import type { BloodRequest, MapLocation, MapMarker } from '../types';
+import { formatDate, getDonationTypeLabel } from '../utils';
+
+// Tiles come from OpenStreetMap unless overridden, e.g. with a local tile
+// server for offline development: VITE_MAP_TILE_URL=http://localhost:8080/tile/{z}/{x}/{y}.png
+const tileConfig = {
+  url: import.meta.env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+    '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  subdomains: import.meta.env.VITE_MAP_TILE_SUBDOMAINS || 'abc',
+  maxZoom: Number(import.meta.env.VITE_MAP_MAX_ZOOM) || 19,
+};
+
+const urgencyColors: Record<BloodRequest['urgency'], string> = {
+  critical: '#dc2626',
+  high: '#ea580c',
+  medium: '#ca8a04',
+  low: '#16a34a',
+};
+
+// Sits just above the point so it does not hide the request markers there
+const hospitalIcon = L.divIcon({
+  html: '🏥',
+  className: 'text-xl leading-none',
+  iconSize: [24, 24],
+  iconAnchor: [12, 30],
+  popupAnchor: [0, -28],
+});
+
+const DEFAULT_VIEW = { center: [20, 0] as [number, number], zoom: 2 };
+
+interface HospitalMarkerData {
+  name: string;
+  address?: string;
+  requests: BloodRequest[];
+}
+
+// Turn requests into request markers plus one marker per hospital
+const buildMarkers = (requests: BloodRequest[], userLocation?: MapLocation): MapMarker[] => {
+  const markers: MapMarker[] = [];
+  const hospitals = new Map<string, MapMarker>();
+
+  if (userLocation) {
+    markers.push({
+      id: 'user',
+      position: [userLocation.lat, userLocation.lng],
+      type: 'user',
+      data: userLocation,
+      popup: userLocation.address || 'Your location',
+    });
+  }
+
+  requests.forEach((request) => {
+    const coordinates = request.location?.coordinates;
+    if (!coordinates) return;
+    const position: [number, number] = [coordinates[1], coordinates[0]];
+
+    markers.push({ id: request._id, position, type: 'request', data: request });
+
+    const name = request.hospital?.name || request.hospitalName;
+    if (!name) return;
+    const key = `${name}|${position.join(',')}`;
+    const hospital = hospitals.get(key);
+    if (hospital) {
+      (hospital.data as HospitalMarkerData).requests.push(request);
+    } else {
+      hospitals.set(key, {
+        id: `hospital-${key}`,
+        position,
+        type: 'hospital',
+        data: { name, address: request.hospital?.address, requests: [request] } satisfies HospitalMarkerData,
+      });
+    }
+  });
+
+  return [...markers, ...hospitals.values()];
+};
+
+// Keep the view on the search radius, or on every marker when there is none
+const FitView: React.FC<{ markers: MapMarker[]; userLocation?: MapLocation; radiusKm?: number }> = ({
+  markers,
+  userLocation,
+  radiusKm,
+}) => {
+  const map = useMap();
+  const lat = userLocation?.lat;
+  const lng = userLocation?.lng;
+  // Serialised so the view only moves when marker positions actually change
+  const positionsKey = JSON.stringify(markers.map((marker) => marker.position));
+
+  useEffect(() => {
+    const positions = JSON.parse(positionsKey) as [number, number][];
+    if (lat !== undefined && lng !== undefined && radiusKm) {
+      map.fitBounds(L.latLng(lat, lng).toBounds(radiusKm * 2000));
+    } else if (positions.length > 0) {
+      map.fitBounds(L.latLngBounds(positions), { padding: [30, 30], maxZoom: 13 });
+    }
+  }, [map, positionsKey, lat, lng, radiusKm]);
+
+  return null;
+};
+
+interface RequestMapProps {
+  requests: BloodRequest[];
+  userLocation?: MapLocation;
+  // Draws the search radius around the user's location
+  radiusKm?: number;
+  height?: number;
+  className?: string;
+}
+
+const RequestMap: React.FC<RequestMapProps> = ({ requests, userLocation, radiusKm, height = 400, className = '' }) => {
+  const markers = buildMarkers(requests, userLocation);
+
+  return (
+    <div className={`relative z-0 ${className}`}>
+      <MapContainer center={DEFAULT_VIEW.center} zoom={DEFAULT_VIEW.zoom} style={{ height }} scrollWheelZoom={false}>
+        <TileLayer
+          url={tileConfig.url}
+          attribution={tileConfig.attribution}
+          subdomains={tileConfig.subdomains}
+          maxZoom={tileConfig.maxZoom}
+        />
+        <FitView markers={markers} userLocation={userLocation} radiusKm={radiusKm} />
+
+        {userLocation && radiusKm && (
+          <Circle
+            center={[userLocation.lat, userLocation.lng]}
+            radius={radiusKm * 1000}
+            pathOptions={{ color: '#2563eb', weight: 1, fillOpacity: 0.05 }}
+          />
+        )}
+
+        {markers.map((marker) => {
+          switch (marker.type) {
+            case 'user':
+              return (
+                <CircleMarker
+                  key={marker.id}
+                  center={marker.position}
+                  radius={8}
+                  pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#2563eb', fillOpacity: 1 }}
+                >
+                  <Popup>{marker.popup}</Popup>
+                </CircleMarker>
+              );
+            case 'request': {
+              const request = marker.data as BloodRequest;
+              return (
+                <CircleMarker
+                  key={marker.id}
+                  center={marker.position}
+                  radius={request.urgency === 'critical' ? 10 : 8}
+                  pathOptions={{ color: '#ffffff', weight: 1, fillColor: urgencyColors[request.urgency], fillOpacity: 0.9 }}
+                >
+                  <Popup>
+                    <div className="space-y-1">
+                      <Link to={`/requests/${request._id}`} className="font-medium text-red-600 hover:text-red-700">
+                        {request.bloodGroup} {getDonationTypeLabel(request.componentType)} for {request.patientName}
+                      </Link>
+                      <div className="text-xs text-gray-600">
+                        {request.unitsNeeded} unit(s) • {request.urgency} • required by {formatDate(request.requiredBy)}
+                      </div>
+                    </div>
+                  </Popup>
+                </CircleMarker>
+              );
+            }
+            case 'hospital': {
+              const hospital = marker.data as HospitalMarkerData;
+              return (
+                <Marker key={marker.id} position={marker.position} icon={hospitalIcon}>
+                  <Popup>
+                    <div className="space-y-1">
+                      <div className="font-medium text-gray-900">{hospital.name}</div>
+                      {hospital.address && <div className="text-xs text-gray-600">{hospital.address}</div>}
+                      <ul className="text-xs">
+                        {hospital.requests.map((request) => (
+                          <li key={request._id}>
+                            <Link to={`/requests/${request._id}`} className="text-red-600 hover:text-red-700">
+                              {request.bloodGroup} for {request.patientName}
+                            </Link>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </Popup>
+                </Marker>
+              );
+            }
+            default:
+              return null;
+          }
+        })}
+      </MapContainer>
+
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-600">
+        {(Object.keys(urgencyColors) as BloodRequest['urgency'][]).map((urgency) => (
+          <span key={urgency} className="flex items-center capitalize">
+            <span className="inline-block h-3 w-3 rounded-full mr-1" style={{ backgroundColor: urgencyColors[urgency] }} />
+            {urgency}
+          </span>
+        ))}
+        <span className="flex items-center">
+          <span className="inline-block h-3 w-3 rounded-full mr-1 bg-blue-600" />
+          You
+        </span>
+        <span>🏥 Hospital</span>
+      </div>
+    </div>
+  );
+};
+
+export default RequestMap;
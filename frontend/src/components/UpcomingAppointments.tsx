@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarClock } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import type { AppointmentSlot } from '../types';
+import { formatDateTime, getErrorMessage } from '../utils';
+
+const getRequestId = (slot: AppointmentSlot): string =>
+  typeof slot.bloodRequest === 'string' ? slot.bloodRequest : slot.bloodRequest._id;
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInputValue = (date: string): string => {
+  const d = new Date(date);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+const UpcomingAppointments: React.FC = () => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+
+  const [appointments, setAppointments] = useState<AppointmentSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState<string | null>(null);
+  const [openSlots, setOpenSlots] = useState<AppointmentSlot[]>([]);
+  const [newStartTime, setNewStartTime] = useState('');
+
+  const isDonor = user?.role === 'donor';
+
+  const loadAppointments = useCallback(async () => {
+    try {
+      const data = await api.getMyAppointments();
+      setAppointments(data.appointments);
+    } catch (error) {
+      console.error('Error loading appointments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  const runAction = async (key: string, action: () => Promise<unknown>, successMessage: string) => {
+    setActionLoading(key);
+    try {
+      await action();
+      showToast(successMessage, 'success');
+      setRescheduling(null);
+      await loadAppointments();
+    } catch (error) {
+      console.error('Appointment action error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const startReschedule = async (appointment: AppointmentSlot) => {
+    setRescheduling(appointment._id);
+    if (!isDonor) {
+      setNewStartTime(toLocalInputValue(appointment.startTime));
+      return;
+    }
+
+    try {
+      const data = await api.getRequestSlots(getRequestId(appointment));
+      setOpenSlots(data.appointments.filter((slot) => slot.status === 'open'));
+    } catch (error) {
+      console.error('Error loading open slots:', error);
+      showToast(getErrorMessage(error), 'error');
+      setRescheduling(null);
+    }
+  };
+
+  const handleMoveTime = (appointment: AppointmentSlot) => {
+    const start = new Date(newStartTime);
+    const duration = new Date(appointment.endTime).getTime() - new Date(appointment.startTime).getTime();
+    runAction(
+      `reschedule-${appointment._id}`,
+      () =>
+        api.updateSlot(appointment._id, {
+          startTime: start.toISOString(),
+          endTime: new Date(start.getTime() + duration).toISOString(),
+        }),
+      'Appointment rescheduled'
+    );
+  };
+
+  const handleCancel = (appointment: AppointmentSlot) => {
+    if (!window.confirm('Cancel this appointment?')) return;
+    runAction(`cancel-${appointment._id}`, () => api.cancelAppointment(appointment._id), 'Appointment cancelled');
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2 text-red-600" />
+          Upcoming Appointments
+        </h3>
+      </div>
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+        </div>
+      ) : appointments.length > 0 ? (
+        <div className="divide-y divide-gray-200">
+          {appointments.map((appointment) => {
+            const request = typeof appointment.bloodRequest === 'string' ? null : appointment.bloodRequest;
+            const donor = typeof appointment.donor === 'object' ? appointment.donor : null;
+            return (
+              <div key={appointment._id} className="p-6">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{formatDateTime(appointment.startTime)}</p>
+                    <p className="text-sm text-gray-500">
+                      <Link to={`/requests/${getRequestId(appointment)}`} className="hover:text-red-600">
+                        {request ? `${request.bloodGroup} for ${request.patientName}` : 'Blood request'}
+                      </Link>
+                      {' • '}
+                      {appointment.location?.name || request?.hospital?.name}
+                    </p>
+                    {!isDonor && donor && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        Donor: {donor.name}{donor.phone ? ` • ${donor.phone}` : ''}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => (rescheduling === appointment._id ? setRescheduling(null) : startReschedule(appointment))}
+                      disabled={!!actionLoading}
+                      className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {rescheduling === appointment._id ? 'Close' : 'Reschedule'}
+                    </button>
+                    <button
+                      onClick={() => handleCancel(appointment)}
+                      disabled={!!actionLoading}
+                      className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-red-600 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+
+                {rescheduling === appointment._id && (
+                  <div className="mt-4 p-4 bg-gray-50 rounded-md">
+                    {isDonor ? (
+                      openSlots.length > 0 ? (
+                        <div className="flex flex-wrap gap-2">
+                          {openSlots.map((slot) => (
+                            <button
+                              key={slot._id}
+                              onClick={() =>
+                                runAction(
+                                  `reschedule-${appointment._id}`,
+                                  () => api.rescheduleAppointment(appointment._id, slot._id),
+                                  'Appointment rescheduled'
+                                )
+                              }
+                              disabled={!!actionLoading}
+                              className="px-3 py-1.5 border border-gray-300 text-sm rounded-md text-gray-700 bg-white hover:border-red-300 disabled:opacity-50"
+                            >
+                              {formatDateTime(slot.startTime)}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-500">No other slots are available for this request.</p>
+                      )
+                    ) : (
+                      <div className="flex space-x-2">
+                        <input
+                          type="datetime-local"
+                          value={newStartTime}
+                          onChange={(e) => setNewStartTime(e.target.value)}
+                          aria-label="New start time"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-red-500 focus:border-red-500"
+                        />
+                        <button
+                          onClick={() => handleMoveTime(appointment)}
+                          disabled={!newStartTime || !!actionLoading}
+                          className="px-3 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="p-6 text-center text-sm text-gray-500">
+          {isDonor
+            ? 'No upcoming appointments. Confirm a request to book a donation time.'
+            : 'No donors have booked appointments on your requests yet.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UpcomingAppointments;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import { getErrorMessage } from '../utils';
+
+interface VerifyEmailNoticeProps {
+  // A one-line banner rather than the full-page state
+  compact?: boolean;
+}
+
+// Shown to users who have not verified their email address yet, with a way
+// to send the verification link again
+const VerifyEmailNotice: React.FC<VerifyEmailNoticeProps> = ({ compact = false }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const { message } = await api.resendVerification();
+      setSent(true);
+      showToast(message, 'success');
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const resendButton = (
+    <button
+      onClick={handleResend}
+      disabled={sending}
+      className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+    >
+      {sending ? 'Sending...' : sent ? 'Send again' : 'Resend verification email'}
+    </button>
+  );
+
+  if (compact) {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center text-sm text-yellow-800">
+          <MailWarning className="h-5 w-5 mr-2 flex-shrink-0" />
+          Please verify your email address{user ? ` (${user.email})` : ''} to use every feature.
+        </div>
+        {resendButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="max-w-md text-center">
+        <MailWarning className="h-16 w-16 text-yellow-500 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Verify your email</h1>
+        <p className="text-gray-600 mb-4">
+          We sent a verification link to <span className="font-medium">{user?.email}</span>.
+          Open it to finish setting up your account and use this page.
+        </p>
+        <p className="text-sm text-gray-500 mb-4">Can't find it? Check your spam folder or ask for a new link.</p>
+        {resendButton}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailNotice;
@@ -0,0 +1,31 @@
+import React from 'react';
+import type { BloodRequest } from '../../types';
+
+interface FulfillmentProgressProps {
+  request: Pick<BloodRequest, 'unitsNeeded' | 'fulfillmentDetails'>;
+  className?: string;
+}
+
+const FulfillmentProgress: React.FC<FulfillmentProgressProps> = ({ request, className = '' }) => {
+  const donatedUnits = request.fulfillmentDetails?.donatedUnits || 0;
+  const percent = request.unitsNeeded > 0
+    ? Math.min(100, Math.round((donatedUnits / request.unitsNeeded) * 100))
+    : 0;
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>{donatedUnits} of {request.unitsNeeded} unit(s) donated</span>
+        <span>{percent}%</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full ${percent >= 100 ? 'bg-green-500' : 'bg-red-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default FulfillmentProgress;
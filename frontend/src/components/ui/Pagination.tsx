@@ -0,0 +1,47 @@
+import React from 'react';
+import type { PaginationInfo } from '../../types';
+
+interface PaginationProps {
+  pagination: PaginationInfo | null;
+  onPageChange: (page: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ pagination, onPageChange }) => {
+  if (!pagination || pagination.pages <= 1) {
+    return null;
+  }
+
+  const { page, pages, total, limit } = pagination;
+  const from = (page - 1) * limit + 1;
+  const to = Math.min(page * limit, total);
+
+  return (
+    <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+      <p className="text-sm text-gray-700">
+        Showing <span className="font-medium">{from}</span> to <span className="font-medium">{to}</span> of{' '}
+        <span className="font-medium">{total}</span> results
+      </p>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Previous
+        </button>
+        <span className="px-3 py-1.5 text-sm text-gray-600">
+          Page {page} of {pages}
+        </span>
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pages}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
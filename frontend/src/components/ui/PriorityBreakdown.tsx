@@ -0,0 +1,65 @@
+import React from 'react';
+import type { BloodRequest, PriorityBreakdown as PriorityBreakdownType } from '../../types';
+import { formatRelativeTime } from '../../utils';
+
+type PriorityFactor = Exclude<keyof PriorityBreakdownType, 'base' | 'calculatedAt'>;
+
+// Factor labels with the most points each can add, in display order
+const priorityFactors: Array<{ key: PriorityFactor; label: string; max: number }> = [
+  { key: 'urgency', label: 'Urgency', max: 30 },
+  { key: 'time', label: 'Time until needed', max: 20 },
+  { key: 'units', label: 'Units still needed', max: 10 },
+  { key: 'coverage', label: 'Few donors responding', max: 10 },
+  { key: 'scarcity', label: 'Blood group scarce nearby', max: 10 },
+];
+
+interface PriorityBreakdownProps {
+  request: Pick<BloodRequest, 'priority' | 'priorityBreakdown'>;
+  className?: string;
+}
+
+const PriorityBreakdown: React.FC<PriorityBreakdownProps> = ({ request, className = '' }) => {
+  const breakdown = request.priorityBreakdown;
+
+  return (
+    <div className={className}>
+      <div className="flex items-baseline justify-between mb-3">
+        <span className="text-3xl font-bold text-gray-900">{request.priority}</span>
+        <span className="text-xs text-gray-500">out of 100</span>
+      </div>
+
+      {breakdown ? (
+        <>
+          <ul className="space-y-2">
+            {priorityFactors.map(({ key, label, max }) => {
+              const points = breakdown[key] ?? 0;
+              return (
+                <li key={key}>
+                  <div className="flex justify-between text-xs text-gray-600 mb-1">
+                    <span>{label}</span>
+                    <span>+{points}</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-1.5">
+                    <div
+                      className="h-1.5 rounded-full bg-red-500"
+                      style={{ width: `${Math.min(100, Math.round((points / max) * 100))}%` }}
+                    />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          <p className="mt-3 text-xs text-gray-500">
+            Includes a base of {breakdown.base} points
+            {breakdown.fraud ? ` and a fraud risk penalty of ${breakdown.fraud}` : ''}.
+            Updated {formatRelativeTime(breakdown.calculatedAt)}.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">No breakdown is available for this request yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default PriorityBreakdown;
@@ -1,7 +1,9 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
 import type { ReactNode } from 'react';
-import type { User, LoginFormData, RegisterFormData } from '../types';
+import type { User, LoginFormData, RegisterFormData, NotificationPreferences } from '../types';
 import apiService from '../services/api';
+import { forgetPushSubscription } from '../services/push';
+import { clearOfflineData } from '../services/offline';
 
 // Auth State Interface
 interface AuthState {
@@ -81,8 +83,10 @@ interface AuthContextType extends AuthState {
   login: (credentials: LoginFormData) => Promise<void>;
   register: (userData: RegisterFormData) => Promise<void>;
   logout: () => void;
-  updateProfile: (userData: Partial<User>) => Promise<void>;
+  updateProfile: (userData: Partial<User>) => Promise<string>;
+  updateNotificationPreferences: (preferences: Partial<NotificationPreferences>) => Promise<string>;
   changePassword: (data: { currentPassword: string; newPassword: string }) => Promise<void>;
+  verifyEmail: (token: string) => Promise<string>;
   clearError: () => void;
   checkAuth: () => Promise<void>;
 }
@@ -104,20 +108,34 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuth();
   }, []);
 
+  // The API client signs out by itself once the session cannot be refreshed;
+  // protected routes then redirect to the login page
+  useEffect(() => {
+    return apiService.onSessionExpired(() => dispatch({ type: 'LOGOUT' }));
+  }, []);
+
   // Check if user is authenticated
   const checkAuth = async () => {
     try {
-      const token = apiService.getAuthToken();
-      if (!token) {
+      if (!apiService.isAuthenticated()) {
         dispatch({ type: 'LOGOUT' });
         return;
       }
 
       dispatch({ type: 'AUTH_START' });
       const user = await apiService.getCurrentUser();
+      localStorage.setItem('userData', JSON.stringify(user));
       dispatch({ type: 'AUTH_SUCCESS', payload: user });
     } catch (error: any) {
       console.error('Auth check failed:', error);
+
+      // Offline with nothing cached: stay signed in as the last known user
+      const storedUser = localStorage.getItem('userData');
+      if (!error.response && storedUser) {
+        dispatch({ type: 'AUTH_SUCCESS', payload: JSON.parse(storedUser) });
+        return;
+      }
+
       apiService.removeAuthToken();
       dispatch({ type: 'AUTH_FAILURE', payload: 'Authentication failed' });
     }
@@ -129,8 +147,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       dispatch({ type: 'AUTH_START' });
       const response = await apiService.login(credentials);
       
-      // Store token and user data
-      apiService.setAuthToken(response.token);
+      // Store tokens and user data
+      apiService.setAuthToken(response.token, response.refreshToken);
       localStorage.setItem('userData', JSON.stringify(response.user));
       
       dispatch({ type: 'AUTH_SUCCESS', payload: response.user });
@@ -147,8 +165,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       dispatch({ type: 'AUTH_START' });
       const response = await apiService.register(userData);
       
-      // Store token and user data
-      apiService.setAuthToken(response.token);
+      // Store tokens and user data
+      apiService.setAuthToken(response.token, response.refreshToken);
       localStorage.setItem('userData', JSON.stringify(response.user));
       
       dispatch({ type: 'AUTH_SUCCESS', payload: response.user });
@@ -163,24 +181,35 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   // Logout function
   const logout = () => {
-    apiService.removeAuthToken();
+    // Signing out revokes the session, which removes its push subscription
+    // on the server; the browser's copy goes as well
+    forgetPushSubscription().catch((error) => console.error('Push unsubscribe error:', error));
+    clearOfflineData().catch((error) => console.error('Offline data cleanup error:', error));
+    apiService.logout().catch((error) => console.error('Logout error:', error));
     dispatch({ type: 'LOGOUT' });
   };
 
-  // Update profile function
+  // Update profile function; resolves with the server's message
   const updateProfile = async (userData: Partial<User>) => {
     try {
       const response = await apiService.updateProfile(userData);
-      if (response.data) {
-        localStorage.setItem('userData', JSON.stringify(response.data));
-        dispatch({ type: 'UPDATE_USER', payload: response.data });
-      }
+      localStorage.setItem('userData', JSON.stringify(response.user));
+      dispatch({ type: 'UPDATE_USER', payload: response.user });
+      return response.message;
     } catch (error: any) {
       const errorMessage = error.response?.data?.message || 'Profile update failed';
       throw new Error(errorMessage);
     }
   };
 
+  // Update notification preferences function; resolves with the server's message
+  const updateNotificationPreferences = async (preferences: Partial<NotificationPreferences>) => {
+    const response = await apiService.updateNotificationPreferences(preferences);
+    localStorage.setItem('userData', JSON.stringify(response.user));
+    dispatch({ type: 'UPDATE_USER', payload: response.user });
+    return response.message;
+  };
+
   // Change password function
   const changePassword = async (data: { currentPassword: string; newPassword: string }) => {
     try {
@@ -191,6 +220,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Verify email function; also works when the link is opened while logged out
+  const verifyEmail = async (token: string) => {
+    const response = await apiService.verifyEmail(token);
+    if (state.user && state.user._id === response.user._id) {
+      localStorage.setItem('userData', JSON.stringify(response.user));
+      dispatch({ type: 'UPDATE_USER', payload: response.user });
+    }
+    return response.message;
+  };
+
   // Clear error function
   const clearError = () => {
     dispatch({ type: 'CLEAR_ERROR' });
@@ -203,7 +242,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     register,
     logout,
     updateProfile,
+    updateNotificationPreferences,
     changePassword,
+    verifyEmail,
     clearError,
     checkAuth,
   };
@@ -245,7 +286,7 @@ export const withAuth = <P extends object>(Component: React.ComponentType<P>) =>
 // Role-based access control HOC
 export const withRole = <P extends object>(
   Component: React.ComponentType<P>,
-  allowedRoles: Array<'donor' | 'requester' | 'admin'>
+  allowedRoles: Array<User['role']>
 ) => {
   return (props: P) => {
     const { user, isAuthenticated, isLoading } = useAuth();
@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { ReactNode } from 'react';
+import type { BloodRequest, QueuedAction } from '../types';
+import { useAuth } from './AuthContext';
+import { useToast } from './ToastContext';
+import { OfflineContext } from './useOffline';
+import type { OfflineContextType, ResponseStatus } from './useOffline';
+import apiService from '../services/api';
+import { offlineQueue } from '../services/offline';
+import { getErrorMessage } from '../utils';
+
+// Server errors an action may hit before it is dropped, so one request the
+// server keeps failing on cannot hold up the queue forever
+const MAX_SERVER_ERRORS = 3;
+
+// Offline Provider Props
+interface OfflineProviderProps {
+  children: ReactNode;
+}
+
+// No response at all means the request never reached the server
+const isNetworkError = (error: unknown): boolean =>
+  !!error && typeof error === 'object' && 'isAxiosError' in error && !('response' in error && error.response);
+
+const getStatus = (error: unknown): number =>
+  (error as { response?: { status?: number } }).response?.status ?? 0;
+
+// Nothing will get through right now: offline, signed out mid-replay, or rate limited
+const isQueueBlocked = (error: unknown): boolean =>
+  isNetworkError(error) || getStatus(error) === 401 || getStatus(error) === 429;
+
+const getErrorCode = (error: unknown): string | undefined =>
+  (error as { response?: { data?: { code?: string } } }).response?.data?.code;
+
+const describeResponse = (request: BloodRequest, status: ResponseStatus) =>
+  `${status === 'confirmed' ? 'Offer to donate' : 'Interest'} for ${request.patientName} (${request.bloodGroup})`;
+
+// Offline Provider Component
+export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queuedActions, setQueuedActions] = useState<QueuedAction[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const replaying = useRef(false);
+  const userId = user?._id;
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const refreshQueue = useCallback(async () => {
+    setQueuedActions(userId ? await offlineQueue.list(userId) : []);
+  }, [userId]);
+
+  /**
+   * Send queued actions in order. Losing the connection, the session or
+   * hitting the rate limit stops the replay and leaves the rest queued. A
+   * server error keeps just that action for a later replay, up to
+   * MAX_SERVER_ERRORS times. Anything the server turns down (the request
+   * closed, was removed, or was already answered elsewhere) is dropped and
+   * the donor is told why.
+   */
+  const replayQueue = useCallback(async () => {
+    if (!userId || replaying.current || !navigator.onLine) return;
+    replaying.current = true;
+    setIsReplaying(true);
+
+    try {
+      for (const action of await offlineQueue.list(userId)) {
+        try {
+          await apiService.respondToBloodRequest(action.requestId, { status: action.status, message: action.message });
+          await offlineQueue.remove(action.id);
+          showToast(`${action.label} sent`, 'success');
+        } catch (error) {
+          if (isQueueBlocked(error)) break;
+
+          if (getStatus(error) >= 500) {
+            // Actions queued before the count was kept have none stored
+            const serverErrors = (action.serverErrors ?? 0) + 1;
+            if (serverErrors < MAX_SERVER_ERRORS) {
+              await offlineQueue.update({ ...action, serverErrors });
+              continue;
+            }
+          }
+
+          await offlineQueue.remove(action.id);
+          if (getErrorCode(error) === 'ALREADY_RESPONDED') {
+            showToast(`${action.label}: you had already responded to this request`, 'info');
+          } else {
+            showToast(`${action.label} could not be sent: ${getErrorMessage(error)}`, 'warning', 10000);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Offline queue replay error:', error);
+    } finally {
+      replaying.current = false;
+      setIsReplaying(false);
+      await refreshQueue();
+    }
+  }, [userId, showToast, refreshQueue]);
+
+  // Replay whenever the connection comes back, and on sign-in
+  useEffect(() => {
+    refreshQueue().catch((error) => console.error('Offline queue error:', error));
+    if (isOnline) {
+      replayQueue();
+    }
+  }, [isOnline, refreshQueue, replayQueue]);
+
+  const submitResponse = async (request: BloodRequest, status: ResponseStatus, message?: string) => {
+    if (!userId) {
+      throw new Error('Please log in to respond');
+    }
+
+    if (navigator.onLine) {
+      try {
+        await apiService.respondToBloodRequest(request._id, { status, message });
+        return 'sent';
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    await offlineQueue.add({
+      type: 'respond',
+      userId,
+      requestId: request._id,
+      status,
+      message,
+      label: describeResponse(request, status),
+    });
+    await refreshQueue();
+    return 'queued';
+  };
+
+  // Context value
+  const contextValue: OfflineContextType = {
+    isOnline,
+    queuedActions,
+    isReplaying,
+    submitResponse,
+    replayQueue,
+  };
+
+  return <OfflineContext.Provider value={contextValue}>{children}</OfflineContext.Provider>;
+};
@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import type { BloodRequest, QueuedAction } from '../types';
+
+export type ResponseStatus = QueuedAction['status'];
+
+// Offline Context Interface
+export interface OfflineContextType {
+  isOnline: boolean;
+  queuedActions: QueuedAction[];
+  isReplaying: boolean;
+  // Sends the response, or queues it when there is no connection
+  submitResponse: (request: BloodRequest, status: ResponseStatus, message?: string) => Promise<'sent' | 'queued'>;
+  replayQueue: () => Promise<void>;
+}
+
+// Create Context; the provider lives in OfflineContext.tsx
+export const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+// Custom hook to use offline context
+export const useOffline = (): OfflineContextType => {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+};
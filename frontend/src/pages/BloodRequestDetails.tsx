@@ -1,16 +1,823 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Building2,
+  Stethoscope,
+  Phone,
+  MapPin,
+  Clock,
+  Bell,
+  HeartHandshake,
+  CheckCircle2,
+  XCircle,
+  ShieldAlert,
+  Droplets,
+  TrendingUp,
+  CalendarClock,
+} from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { useOffline } from '../context/useOffline';
+import { api } from '../services/api';
+import FulfillmentProgress from '../components/ui/FulfillmentProgress';
+import PriorityBreakdown from '../components/ui/PriorityBreakdown';
+import AppointmentSlots from '../components/AppointmentSlots';
+import type { BloodRequest, BloodResponse, OutreachStatus, User } from '../types';
+import {
+  formatDate,
+  formatDateTime,
+  formatRelativeTime,
+  getDonationTypeLabel,
+  getErrorMessage,
+  getStatusColor,
+  getUrgencyColor,
+  validateBloodGroupCompatibility,
+} from '../utils';
+
+interface TimelineEvent {
+  id: string;
+  date: string;
+  title: string;
+  description?: string;
+  tone: 'gray' | 'blue' | 'green' | 'red' | 'yellow';
+}
+
+const getRefId = (ref: User | string | undefined): string => {
+  if (!ref) return '';
+  return typeof ref === 'string' ? ref : ref._id;
+};
+
+const getRefName = (ref: User | string | undefined, fallback = 'A donor'): string => {
+  if (!ref || typeof ref === 'string') return fallback;
+  return ref.name;
+};
+
+const URGENCY_OPTIONS: BloodRequest['urgency'][] = ['low', 'medium', 'high', 'critical'];
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInputValue = (date: string): string => {
+  const d = new Date(date);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+const responseStatusLabels: Record<BloodResponse['status'], string> = {
+  interested: 'expressed interest',
+  confirmed: 'confirmed they will donate',
+  donated: 'donated',
+  declined: 'declined',
+};
+
+const responseStatusColors: Record<BloodResponse['status'], string> = {
+  interested: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-blue-100 text-blue-800',
+  donated: 'bg-green-100 text-green-800',
+  declined: 'bg-gray-100 text-gray-800',
+};
+
+const outreachStopLabels: Record<NonNullable<OutreachStatus['stopReason']>, string> = {
+  covered: 'Outreach stopped because enough donors have confirmed.',
+  max_radius: 'All outreach waves have been sent.',
+  deadline: 'Outreach stopped because the required-by time has passed.',
+  inactive: 'Outreach stopped because the request is closed.',
+};
+
+const timelineDotColors: Record<TimelineEvent['tone'], string> = {
+  gray: 'bg-gray-400',
+  blue: 'bg-blue-500',
+  green: 'bg-green-500',
+  red: 'bg-red-500',
+  yellow: 'bg-yellow-500',
+};
+
+// Build a chronological list of everything that happened to a request
+const buildTimeline = (request: BloodRequest, showFraudReview: boolean): TimelineEvent[] => {
+  const events: TimelineEvent[] = [
+    {
+      id: 'created',
+      date: request.createdAt,
+      title: 'Request created',
+      description: `${request.unitsNeeded} unit(s) of ${request.bloodGroup} ${getDonationTypeLabel(request.componentType).toLowerCase()} needed at ${request.hospital?.name}`,
+      tone: 'red',
+    },
+  ];
+
+  // Donor notifications are sent in batches, so group them per minute and channel
+  const notificationBatches = new Map<string, { date: string; method: string; wave?: number; count: number }>();
+  (request.notifiedDonors || []).forEach((notification) => {
+    const key = `${notification.notificationDate.slice(0, 16)}-${notification.method}-${notification.wave ?? ''}`;
+    const batch = notificationBatches.get(key);
+    if (batch) {
+      batch.count += 1;
+    } else {
+      notificationBatches.set(key, {
+        date: notification.notificationDate,
+        method: notification.method,
+        wave: notification.wave,
+        count: 1,
+      });
+    }
+  });
+  notificationBatches.forEach((batch, key) => {
+    events.push({
+      id: `notified-${key}`,
+      date: batch.date,
+      title: `${batch.count} donor(s) notified`,
+      description: `${batch.method === 'in_app' ? 'Shown in-app only' : `Sent via ${batch.method}`}${batch.wave !== undefined ? ` in outreach wave ${batch.wave + 1}` : ''}`,
+      tone: 'gray',
+    });
+  });
+
+  (request.responses || []).forEach((response) => {
+    const donorName = getRefName(response.donor);
+    events.push({
+      id: `response-${response._id}`,
+      date: response.responseDate,
+      title: `${donorName} responded`,
+      description: response.message,
+      tone: 'yellow',
+    });
+
+    if (response.status !== 'interested' && response.statusUpdatedAt) {
+      events.push({
+        id: `response-status-${response._id}`,
+        date: response.statusUpdatedAt,
+        title: `${donorName} ${responseStatusLabels[response.status]}`,
+        tone: response.status === 'declined' ? 'gray' : response.status === 'donated' ? 'green' : 'blue',
+      });
+    }
+  });
+
+  (request.fulfillmentDetails?.donors || []).forEach((donation, index) => {
+    events.push({
+      id: `donation-${index}`,
+      date: donation.donationDate,
+      title: `${getRefName(donation.donor)} donated ${donation.units} unit(s)`,
+      tone: 'green',
+    });
+  });
+
+  if (request.fulfillmentDetails?.fulfilledDate) {
+    events.push({
+      id: 'fulfilled',
+      date: request.fulfillmentDetails.fulfilledDate,
+      title: 'Request fulfilled',
+      tone: 'green',
+    });
+  }
+
+  if (request.status === 'cancelled') {
+    events.push({ id: 'cancelled', date: request.updatedAt, title: 'Request cancelled', tone: 'gray' });
+  }
+
+  if (request.status === 'expired' && request.expiresAt) {
+    events.push({ id: 'expired', date: request.expiresAt, title: 'Request expired', tone: 'gray' });
+  }
+
+  if (showFraudReview && request.fraudCheck?.isReviewed && request.fraudCheck.reviewDate) {
+    events.push({
+      id: 'fraud-review',
+      date: request.fraudCheck.reviewDate,
+      title: 'Fraud check reviewed by admin',
+      description: request.fraudCheck.reviewNotes,
+      tone: 'blue',
+    });
+  }
+
+  return events
+    .filter((event) => !!event.date)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
 
 const BloodRequestDetails: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  // Expiry reminders link here with ?edit=deadline
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { submitResponse, queuedActions } = useOffline();
+
+  const [request, setRequest] = useState<BloodRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [responseMessage, setResponseMessage] = useState('');
+  const [donationUnits, setDonationUnits] = useState<Record<string, number>>({});
+  // Null until edited, so the form starts from the request's current values
+  const [deadline, setDeadline] = useState<string | null>(null);
+  const [deadlineUrgency, setDeadlineUrgency] = useState<BloodRequest['urgency'] | null>(null);
+
+  const loadRequest = useCallback(async () => {
+    if (!id) return;
+    try {
+      const data = await api.getBloodRequest(id);
+      setRequest(data);
+      setNotFound(false);
+    } catch (error) {
+      console.error('Error loading blood request:', error);
+      setNotFound(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  // Also reload once a response saved offline has been sent, so it shows up
+  const hasQueuedResponse = queuedActions.some((action) => action.requestId === id);
+  useEffect(() => {
+    if (!hasQueuedResponse) {
+      loadRequest();
+    }
+  }, [loadRequest, hasQueuedResponse]);
+
+  const runAction = async (key: string, action: () => Promise<unknown>, successMessage: string) => {
+    setActionLoading(key);
+    try {
+      await action();
+      showToast(successMessage, 'success');
+      await loadRequest();
+    } catch (error) {
+      console.error('Blood request action error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading blood request...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (notFound || !request) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Blood request not found</h1>
+          <p className="text-gray-600 mb-6">It may have been removed or you may not have access to it.</p>
+          <Link to="/dashboard" className="btn-primary">
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isAdmin = user?.role === 'admin';
+  const isOwner = !!user && getRefId(request.requester) === user._id;
+  const isHospitalStaff = user?.role === 'hospital' && !!user.hospital && user.hospital === request.hospital?.hospitalId;
+  const canManage = isOwner || isHospitalStaff || isAdmin;
+  const isActive = request.status === 'active';
+  const myResponse = request.responses?.find((response) => getRefId(response.donor) === user?._id);
+  const queuedResponse = queuedActions.find((action) => action.requestId === request._id);
+  const isCompatible =
+    !!user?.bloodGroup && validateBloodGroupCompatibility(user.bloodGroup, request.bloodGroup, request.componentType);
+  // Treat a missing flag as eligible; the server re-checks eligibility on respond
+  const isEligible = user?.isEligible !== false;
+  const canRespond = user?.role === 'donor' && isActive && !myResponse && !queuedResponse && isCompatible && isEligible;
+  const timeline = buildTimeline(request, isAdmin);
+  const requester = typeof request.requester === 'string' ? null : request.requester;
+
+  const handleRespond = async (status: 'interested' | 'confirmed') => {
+    setActionLoading(`respond-${status}`);
+    try {
+      const result = await submitResponse(request, status, responseMessage.trim() || undefined);
+      if (result === 'queued') {
+        showToast('You are offline. Your response will be sent when you reconnect.', 'info');
+        return;
+      }
+      showToast(status === 'confirmed' ? 'Thank you! The requester has been notified.' : 'Interest sent to the requester.', 'success');
+      await loadRequest();
+    } catch (error) {
+      console.error('Blood request action error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const remainingUnits = Math.max(0, request.unitsNeeded - (request.fulfillmentDetails?.donatedUnits || 0));
+
+  const handleResponseStatus = (responseId: string, status: 'confirmed' | 'declined' | 'donated') =>
+    runAction(
+      `${responseId}-${status}`,
+      () => api.updateResponseStatus(request._id, responseId, status),
+      `Response marked as ${status}`
+    );
+
+  const handleRecordDonation = (responseId: string) => {
+    const units = donationUnits[responseId] || 1;
+    runAction(
+      `${responseId}-donated`,
+      () => api.updateResponseStatus(request._id, responseId, 'donated', units),
+      units >= remainingUnits ? 'Donation recorded. This request is now fulfilled.' : `Recorded ${units} donated unit(s)`
+    );
+  };
+
+  const isEditingDeadline = canManage && isActive && searchParams.get('edit') === 'deadline';
+
+  const closeDeadlineEditor = () => {
+    setDeadline(null);
+    setDeadlineUrgency(null);
+    setSearchParams({}, { replace: true });
+  };
+
+  const handleUpdateDeadline = (e: React.FormEvent) => {
+    e.preventDefault();
+    const updates: Partial<BloodRequest> = {};
+    if (deadline) updates.requiredBy = new Date(deadline).toISOString();
+    if (deadlineUrgency) updates.urgency = deadlineUrgency;
+    runAction(
+      'deadline',
+      async () => {
+        await api.updateBloodRequest(request._id, updates);
+        closeDeadlineEditor();
+      },
+      'Request updated. It will stay open for donors until its new expiry time.'
+    );
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel this blood request? Donors will no longer be able to respond.')) return;
+    runAction(
+      'cancel',
+      () => api.updateBloodRequest(request._id, { status: 'cancelled' }),
+      'Blood request cancelled'
+    );
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <h1 className="text-2xl font-bold text-gray-900 mb-8">Blood Request Details</h1>
-        <div className="bg-white rounded-lg shadow-md p-8">
-          <p className="text-center text-gray-600">Blood request details coming soon...</p>
+        <Link
+          to="/dashboard"
+          className="inline-flex items-center text-sm font-medium text-gray-600 hover:text-red-600 mb-6"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Dashboard
+        </Link>
+
+        {/* Header */}
+        <div className="bg-white shadow rounded-lg p-6 mb-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <div className="flex items-center space-x-2 mb-2">
+                <span className={getUrgencyColor(request.urgency)}>{request.urgency.toUpperCase()}</span>
+                <span className={getStatusColor(request.status)}>{request.status}</span>
+                {request.origin === 'low_stock' && (
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    Blood bank restock
+                  </span>
+                )}
+              </div>
+              <h1 className="text-3xl font-bold text-gray-900">Blood needed for {request.patientName}</h1>
+              <p className="mt-2 text-gray-600">
+                {request.unitsNeeded} unit(s) of <strong>{request.bloodGroup} {getDonationTypeLabel(request.componentType).toLowerCase()}</strong> required by{' '}
+                {formatDateTime(request.requiredBy)}
+              </p>
+            </div>
+            {canManage && isActive && (
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setSearchParams({ edit: 'deadline' }, { replace: true })}
+                  disabled={isEditingDeadline}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  Update Deadline
+                </button>
+                <button
+                  onClick={handleCancel}
+                  disabled={actionLoading === 'cancel'}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel Request
+                </button>
+              </div>
+            )}
+          </div>
+
+          {isEditingDeadline && (
+            <form onSubmit={handleUpdateDeadline} className="mt-6 border-t border-gray-200 pt-4">
+              <p className="text-sm text-gray-600 mb-3">
+                This request expires {formatDateTime(request.expiresAt)}. Changing the required-by time or urgency keeps it
+                open for donors until the later of the new required-by time and a fresh urgency window.
+              </p>
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                <div>
+                  <label htmlFor="requiredBy" className="block text-sm font-medium text-gray-700">Required by</label>
+                  <input
+                    id="requiredBy"
+                    type="datetime-local"
+                    value={deadline ?? toLocalInputValue(request.requiredBy)}
+                    onChange={(e) => setDeadline(e.target.value)}
+                    min={toLocalInputValue(new Date().toISOString())}
+                    required
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-red-500 focus:border-red-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="deadlineUrgency" className="block text-sm font-medium text-gray-700">Urgency</label>
+                  <select
+                    id="deadlineUrgency"
+                    value={deadlineUrgency ?? request.urgency}
+                    onChange={(e) => setDeadlineUrgency(e.target.value as BloodRequest['urgency'])}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-2 py-2 text-sm"
+                  >
+                    {URGENCY_OPTIONS.map((urgency) => (
+                      <option key={urgency} value={urgency}>{urgency.charAt(0).toUpperCase() + urgency.slice(1)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    type="submit"
+                    disabled={actionLoading === 'deadline' || (!deadline && !deadlineUrgency)}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={closeDeadlineEditor}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Close
+                  </button>
+                </div>
+              </div>
+            </form>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-8">
+            {/* Request Information */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Request Information</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="flex items-start space-x-3">
+                  <Building2 className="h-5 w-5 text-gray-400 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{request.hospital?.name}</p>
+                    <p className="text-sm text-gray-600">{request.hospital?.address}</p>
+                    {request.hospital?.phone && (
+                      <a href={`tel:${request.hospital.phone}`} className="text-sm text-red-600 hover:text-red-500">
+                        {request.hospital.phone}
+                      </a>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-start space-x-3">
+                  <Stethoscope className="h-5 w-5 text-gray-400 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{request.doctorInfo?.name}</p>
+                    {request.doctorInfo?.license && (
+                      <p className="text-sm text-gray-600">License: {request.doctorInfo.license}</p>
+                    )}
+                    {request.doctorInfo?.phone && (
+                      <a href={`tel:${request.doctorInfo.phone}`} className="text-sm text-red-600 hover:text-red-500">
+                        {request.doctorInfo.phone}
+                      </a>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-start space-x-3">
+                  <Phone className="h-5 w-5 text-gray-400 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{requester?.name || 'Contact'}</p>
+                    <a
+                      href={`tel:${request.contactInfo?.primaryPhone}`}
+                      className="text-sm text-red-600 hover:text-red-500"
+                    >
+                      {request.contactInfo?.primaryPhone}
+                    </a>
+                    {request.contactInfo?.alternatePhone && (
+                      <p className="text-sm text-gray-600">Alt: {request.contactInfo.alternatePhone}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-start space-x-3">
+                  <MapPin className="h-5 w-5 text-gray-400 mt-0.5" />
+                  <div>
+                    <p className="text-sm text-gray-900">{request.location?.address}</p>
+                    <p className="text-sm text-gray-600">
+                      {[request.location?.city, request.location?.state].filter(Boolean).join(', ')}
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="mt-6 p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-700">
+                  <strong>Medical reason:</strong> {request.medicalReason}
+                </p>
+              </div>
+            </div>
+
+            {/* Donor Responses */}
+            <div className="bg-white shadow rounded-lg">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">
+                  Donor Responses ({request.responses?.length || 0})
+                </h2>
+              </div>
+              <div className="divide-y divide-gray-200">
+                {request.responses?.length ? (
+                  request.responses.map((response) => {
+                    const donor = typeof response.donor === 'string' ? null : response.donor;
+                    const isMine = getRefId(response.donor) === user?._id;
+                    return (
+                      <div key={response._id} className="p-6">
+                        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                          <div>
+                            <div className="flex items-center space-x-2">
+                              <p className="text-sm font-medium text-gray-900">{donor?.name || 'Donor'}</p>
+                              {donor?.bloodGroup && (
+                                <span className="text-xs font-medium text-red-700">{donor.bloodGroup}</span>
+                              )}
+                              <span
+                                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${responseStatusColors[response.status]}`}
+                              >
+                                {response.status}
+                              </span>
+                            </div>
+                            {response.message && <p className="text-sm text-gray-600 mt-1">{response.message}</p>}
+                            <p className="text-xs text-gray-400 mt-1">
+                              Responded {formatRelativeTime(response.responseDate)}
+                              {canManage && donor?.phone && (
+                                <>
+                                  {' • '}
+                                  <a href={`tel:${donor.phone}`} className="text-red-600 hover:text-red-500">
+                                    {donor.phone}
+                                  </a>
+                                </>
+                              )}
+                            </p>
+                          </div>
+
+                          {isActive && (
+                            <div className="flex space-x-2">
+                              {response.status === 'interested' && (canManage || isMine) && (
+                                <button
+                                  onClick={() => handleResponseStatus(response._id, 'confirmed')}
+                                  disabled={!!actionLoading}
+                                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                                >
+                                  <CheckCircle2 className="h-4 w-4 mr-1" />
+                                  Confirm
+                                </button>
+                              )}
+                              {response.status === 'confirmed' && canManage && remainingUnits > 0 && (
+                                <>
+                                  <select
+                                    value={donationUnits[response._id] || 1}
+                                    onChange={(e) =>
+                                      setDonationUnits((prev) => ({ ...prev, [response._id]: Number(e.target.value) }))
+                                    }
+                                    disabled={!!actionLoading}
+                                    aria-label="Units donated"
+                                    className="border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                                  >
+                                    {Array.from({ length: remainingUnits }, (_, i) => i + 1).map((count) => (
+                                      <option key={count} value={count}>
+                                        {count} unit{count > 1 ? 's' : ''}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <button
+                                    onClick={() => handleRecordDonation(response._id)}
+                                    disabled={!!actionLoading}
+                                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                                  >
+                                    <Droplets className="h-4 w-4 mr-1" />
+                                    Mark Donated
+                                  </button>
+                                </>
+                              )}
+                              {(response.status === 'interested' || response.status === 'confirmed') &&
+                                (canManage || isMine) && (
+                                  <button
+                                    onClick={() => handleResponseStatus(response._id, 'declined')}
+                                    disabled={!!actionLoading}
+                                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                                  >
+                                    {isMine && !canManage ? 'Withdraw' : 'Decline'}
+                                  </button>
+                                )}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })
+                ) : (
+                  <div className="p-6 text-center text-sm text-gray-500">No donors have responded yet.</div>
+                )}
+              </div>
+            </div>
+
+            {/* Fraud Check (admins only) */}
+            {isAdmin && request.fraudCheck && (
+              <div className="bg-white shadow rounded-lg p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                    <ShieldAlert className="h-5 w-5 mr-2 text-red-600" />
+                    Fraud Check
+                  </h2>
+                  <span
+                    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      request.fraudCheck.score > 70
+                        ? 'bg-red-100 text-red-800'
+                        : request.fraudCheck.score > 30
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : 'bg-green-100 text-green-800'
+                    }`}
+                  >
+                    Score: {request.fraudCheck.score}
+                  </span>
+                </div>
+                {request.fraudCheck.factors?.length ? (
+                  <ul className="space-y-2">
+                    {request.fraudCheck.factors.map((factor, index) => (
+                      <li key={index} className="flex justify-between text-sm">
+                        <span className="text-gray-700">{factor.factor}</span>
+                        <span className="font-medium text-red-600">+{factor.weight}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No fraud indicators detected.</p>
+                )}
+                <p className="mt-4 text-xs text-gray-500">
+                  {request.fraudCheck.isReviewed
+                    ? `Reviewed ${request.fraudCheck.reviewDate ? formatDateTime(request.fraudCheck.reviewDate) : ''}`
+                    : 'Not yet reviewed'}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-8">
+            {/* Donor Actions */}
+            {user?.role === 'donor' && (
+              <div className="bg-white shadow rounded-lg p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                  <HeartHandshake className="h-5 w-5 mr-2 text-red-600" />
+                  Can you help?
+                </h2>
+                {myResponse ? (
+                  <p className="text-sm text-gray-600">
+                    You {responseStatusLabels[myResponse.status]} {formatRelativeTime(myResponse.statusUpdatedAt || myResponse.responseDate)}.
+                  </p>
+                ) : queuedResponse ? (
+                  <p className="text-sm text-gray-600">
+                    Your response was saved {formatRelativeTime(queuedResponse.queuedAt)} while offline and will be sent when
+                    you reconnect.
+                  </p>
+                ) : !isActive ? (
+                  <p className="text-sm text-gray-600">This request is no longer accepting responses.</p>
+                ) : !isCompatible ? (
+                  <p className="text-sm text-gray-600">
+                    Your blood group ({user.bloodGroup}) is not compatible with {request.bloodGroup}{' '}
+                    {getDonationTypeLabel(request.componentType).toLowerCase()}.
+                  </p>
+                ) : !isEligible ? (
+                  <p className="text-sm text-gray-600">
+                    You can donate again from{' '}
+                    {user.nextEligibleDate ? formatDate(user.nextEligibleDate) : 'your next eligible date'}.
+                  </p>
+                ) : (
+                  <>
+                    <textarea
+                      value={responseMessage}
+                      onChange={(e) => setResponseMessage(e.target.value)}
+                      maxLength={200}
+                      rows={3}
+                      placeholder="Optional message for the requester"
+                      className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-red-500 focus:border-red-500 mb-4"
+                    />
+                    <div className="flex flex-col space-y-2">
+                      <button
+                        onClick={() => handleRespond('confirmed')}
+                        disabled={!canRespond || !!actionLoading}
+                        className="inline-flex justify-center items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                      >
+                        I will donate
+                      </button>
+                      <button
+                        onClick={() => handleRespond('interested')}
+                        disabled={!canRespond || !!actionLoading}
+                        className="inline-flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        I'm interested
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Appointments */}
+            {(canManage || myResponse?.status === 'confirmed') && (
+              <AppointmentSlots request={request} canManage={canManage} />
+            )}
+
+            {/* Fulfillment */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                <Droplets className="h-5 w-5 mr-2 text-red-600" />
+                Fulfillment
+              </h2>
+              <FulfillmentProgress request={request} />
+              {request.fulfillmentDetails?.donors?.length ? (
+                <ul className="mt-3 space-y-1">
+                  {request.fulfillmentDetails.donors.map((donation, index) => (
+                    <li key={index} className="flex justify-between text-sm">
+                      <span className="text-gray-700">{getRefName(donation.donor)}</span>
+                      <span className="text-gray-500">{donation.units} unit(s)</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : request.fulfillmentDetails?.donorsCount ? (
+                <p className="mt-3 text-sm text-gray-600">
+                  {request.fulfillmentDetails.donorsCount} donor(s) have donated so far.
+                </p>
+              ) : null}
+              {request.fulfillmentDetails?.fulfilledDate && (
+                <p className="mt-3 text-xs text-gray-500">
+                  Fulfilled {formatDateTime(request.fulfillmentDetails.fulfilledDate)}
+                </p>
+              )}
+            </div>
+
+            {/* Priority */}
+            {request.status === 'active' && (
+              <div className="bg-white shadow rounded-lg p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                  <TrendingUp className="h-5 w-5 mr-2 text-gray-400" />
+                  Priority
+                </h2>
+                <PriorityBreakdown request={request} />
+              </div>
+            )}
+
+            {/* Timeline */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                <Clock className="h-5 w-5 mr-2 text-gray-400" />
+                Timeline
+              </h2>
+              <ol className="relative border-l border-gray-200 ml-2">
+                {timeline.map((event) => (
+                  <li key={event.id} className="mb-6 ml-4 last:mb-0">
+                    <span
+                      className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${timelineDotColors[event.tone]}`}
+                    />
+                    <p className="text-sm font-medium text-gray-900">{event.title}</p>
+                    {event.description && <p className="text-sm text-gray-600">{event.description}</p>}
+                    <time className="text-xs text-gray-400">{formatDateTime(event.date)}</time>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {/* Notified Donors */}
+            {canManage && (
+              <div className="bg-white shadow rounded-lg p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                  <Bell className="h-5 w-5 mr-2 text-gray-400" />
+                  Notified Donors
+                </h2>
+                <p className="text-sm text-gray-600">
+                  {request.notifiedDonors?.length || 0} notification(s) sent to nearby compatible donors.
+                </p>
+                {request.outreach?.radiusKm && (
+                  <p className="mt-2 text-sm text-gray-600">
+                    Outreach has reached donors within {request.outreach.radiusKm} km.{' '}
+                    {request.outreach.nextWaveAt
+                      ? `Widening the search ${formatRelativeTime(request.outreach.nextWaveAt)} unless enough donors confirm.`
+                      : request.outreach.stopReason
+                      ? outreachStopLabels[request.outreach.stopReason]
+                      : null}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
   );
 };
 
-export default BloodRequestDetails;
\ No newline at end of file
+export default BloodRequestDetails;
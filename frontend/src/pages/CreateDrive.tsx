@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BLOOD_GROUPS } from 'blood-donation-shared/compatibility';
+import { MapPin } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import type { BloodGroup, DriveFormData } from '../types';
+import { getCurrentLocation, getErrorMessage } from '../utils';
+
+interface FormData {
+  name: string;
+  description: string;
+  venue: string;
+  address: string;
+  city: string;
+  state: string;
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+const emptyForm: FormData = {
+  name: '',
+  description: '',
+  venue: '',
+  address: '',
+  city: '',
+  state: '',
+  startsAt: '',
+  endsAt: '',
+  capacity: 50,
+};
+
+const inputClassName = 'mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-red-500 focus:border-red-500';
+
+const CreateDrive: React.FC = () => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+
+  const [formData, setFormData] = useState<FormData>(emptyForm);
+  // Target units per blood group; groups left at zero have no target
+  const [targets, setTargets] = useState<Partial<Record<BloodGroup, number>>>({});
+  const [locationLoading, setLocationLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Hospital accounts usually hold drives at their own hospital
+  const hospitalId = user?.role === 'hospital' ? user.hospital : undefined;
+  useEffect(() => {
+    if (!hospitalId) return;
+    let cancelled = false;
+
+    api.getHospital(hospitalId)
+      .then((hospital) => {
+        if (cancelled) return;
+        setFormData((prev) => ({
+          ...prev,
+          venue: prev.venue || hospital.name,
+          address: prev.address || hospital.location.address,
+          city: prev.city || hospital.location.city,
+          state: prev.state || hospital.location.state,
+          latitude: prev.latitude ?? hospital.location.coordinates[1],
+          longitude: prev.longitude ?? hospital.location.coordinates[0],
+        }));
+      })
+      .catch((error) => console.error('Error loading hospital:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hospitalId]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: type === 'number' ? parseInt(value) || 0 : value,
+    }));
+  };
+
+  const handleGetLocation = async () => {
+    setLocationLoading(true);
+    try {
+      const location = await getCurrentLocation();
+      setFormData((prev) => ({ ...prev, latitude: location.latitude, longitude: location.longitude }));
+      showToast('Venue location obtained successfully!', 'success');
+    } catch (error) {
+      console.error('Location error:', error);
+      showToast('Unable to get location. Please ensure location access is enabled.', 'error');
+    } finally {
+      setLocationLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.latitude === undefined || formData.longitude === undefined) {
+      showToast('Please set the venue location', 'error');
+      return;
+    }
+
+    if (!formData.startsAt || !formData.endsAt || new Date(formData.endsAt) <= new Date(formData.startsAt)) {
+      showToast('The drive must end after it starts', 'error');
+      return;
+    }
+
+    const driveData: DriveFormData = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || undefined,
+      location: {
+        coordinates: [formData.longitude, formData.latitude],
+        venue: formData.venue.trim() || undefined,
+        address: formData.address.trim(),
+        city: formData.city.trim(),
+        state: formData.state.trim(),
+      },
+      startsAt: new Date(formData.startsAt).toISOString(),
+      endsAt: new Date(formData.endsAt).toISOString(),
+      capacity: formData.capacity,
+      targets: BLOOD_GROUPS
+        .filter((group) => (targets[group] || 0) > 0)
+        .map((group) => ({ bloodGroup: group, units: targets[group] as number })),
+    };
+
+    setSaving(true);
+    try {
+      const { message, drive } = await api.createDrive(driveData);
+      showToast(message, 'success');
+      navigate(`/drives/${drive._id}`);
+    } catch (error) {
+      console.error('Create drive error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white shadow rounded-lg p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">Schedule a Blood Drive</h1>
+          <p className="text-sm text-gray-600 mb-6">Donors nearby will see the drive and can register for a place.</p>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700">Drive Name *</label>
+              <input id="name" name="name" type="text" required minLength={3} maxLength={150}
+                value={formData.name} onChange={handleChange} className={inputClassName} />
+            </div>
+
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700">Description</label>
+              <textarea id="description" name="description" rows={3} maxLength={1000}
+                value={formData.description} onChange={handleChange} className={inputClassName} />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="venue" className="block text-sm font-medium text-gray-700">Venue</label>
+                <input id="venue" name="venue" type="text" maxLength={150}
+                  value={formData.venue} onChange={handleChange} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="address" className="block text-sm font-medium text-gray-700">Address *</label>
+                <input id="address" name="address" type="text" required maxLength={200}
+                  value={formData.address} onChange={handleChange} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="city" className="block text-sm font-medium text-gray-700">City *</label>
+                <input id="city" name="city" type="text" required maxLength={50}
+                  value={formData.city} onChange={handleChange} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="state" className="block text-sm font-medium text-gray-700">State *</label>
+                <input id="state" name="state" type="text" required maxLength={50}
+                  value={formData.state} onChange={handleChange} className={inputClassName} />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between border border-gray-200 rounded-md p-3">
+              <div className="flex items-center text-sm text-gray-600">
+                <MapPin className="h-4 w-4 mr-2 text-gray-400" />
+                {formData.latitude !== undefined && formData.longitude !== undefined
+                  ? `${formData.latitude.toFixed(5)}, ${formData.longitude.toFixed(5)}`
+                  : 'Venue location not set'}
+              </div>
+              <button
+                type="button"
+                onClick={handleGetLocation}
+                disabled={locationLoading}
+                className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+              >
+                {locationLoading ? 'Locating...' : 'Use my current location'}
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="startsAt" className="block text-sm font-medium text-gray-700">Starts *</label>
+                <input id="startsAt" name="startsAt" type="datetime-local" required
+                  value={formData.startsAt} onChange={handleChange} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="endsAt" className="block text-sm font-medium text-gray-700">Ends *</label>
+                <input id="endsAt" name="endsAt" type="datetime-local" required
+                  value={formData.endsAt} onChange={handleChange} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="capacity" className="block text-sm font-medium text-gray-700">Donor Places *</label>
+                <input id="capacity" name="capacity" type="number" required min={1} max={5000}
+                  value={formData.capacity} onChange={handleChange} className={inputClassName} />
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-sm font-medium text-gray-700">Target Units per Blood Group</h2>
+              <p className="text-xs text-gray-500 mb-2">Leave a group at 0 if you have no target for it.</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {BLOOD_GROUPS.map((group) => (
+                  <div key={group}>
+                    <label htmlFor={`target-${group}`} className="block text-xs font-medium text-gray-600">{group}</label>
+                    <input
+                      id={`target-${group}`}
+                      type="number"
+                      min={0}
+                      max={5000}
+                      value={targets[group] ?? 0}
+                      onChange={(e) => setTargets((prev) => ({ ...prev, [group]: parseInt(e.target.value) || 0 }))}
+                      className={inputClassName}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => navigate('/drives')}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className={`px-4 py-2 text-white text-sm font-medium rounded-md ${
+                  saving ? 'bg-gray-400 cursor-not-allowed' : 'bg-red-600 hover:bg-red-700'
+                }`}
+              >
+                {saving ? 'Scheduling...' : 'Schedule Drive'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreateDrive;
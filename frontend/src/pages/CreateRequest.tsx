@@ -1,13 +1,17 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
 import { api } from '../services/api';
-import { getCurrentLocation } from '../utils';
+import { DONATION_TYPES, getCurrentLocation } from '../utils';
+import HospitalPicker from '../components/HospitalPicker';
+import NearbyStock from '../components/NearbyStock';
+import type { BloodGroup, DonationType, HospitalRecord } from '../types';
 
 interface FormData {
   patientName: string;
   bloodGroup: string;
+  componentType: DonationType;
   unitsNeeded: number;
   urgency: 'low' | 'medium' | 'high' | 'critical';
   hospitalName: string;
@@ -21,10 +25,28 @@ interface FormData {
   longitude?: number;
 }
 
+// Copy a registered hospital's details into the form, or clear them to enter by hand
+const withHospital = (formData: FormData, hospital: HospitalRecord | null): FormData => hospital ? {
+  ...formData,
+  hospitalName: hospital.name,
+  hospitalAddress: hospital.location.address,
+  latitude: hospital.location.coordinates[1],
+  longitude: hospital.location.coordinates[0],
+  contactPerson: formData.contactPerson || hospital.bloodBankContact?.name || '',
+  contactPhone: formData.contactPhone || hospital.bloodBankContact?.phone || hospital.phone,
+} : {
+  ...formData,
+  hospitalName: '',
+  hospitalAddress: '',
+  latitude: undefined,
+  longitude: undefined,
+};
+
 const CreateRequest: React.FC = () => {
   const [formData, setFormData] = useState<FormData>({
     patientName: '',
     bloodGroup: '',
+    componentType: 'whole_blood',
     unitsNeeded: 1,
     urgency: 'medium',
     hospitalName: '',
@@ -39,10 +61,30 @@ const CreateRequest: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [locationLoading, setLocationLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [selectedHospital, setSelectedHospital] = useState<HospitalRecord | null>(null);
 
   const { user } = useAuth();
   const { showToast } = useToast();
   const navigate = useNavigate();
+  const isHospitalAccount = user?.role === 'hospital';
+
+  const handleHospitalChange = (hospital: HospitalRecord | null) => {
+    setSelectedHospital(hospital);
+    setFormData(prev => withHospital(prev, hospital));
+    setErrors(prev => ({ ...prev, hospitalName: '', hospitalAddress: '', location: '' }));
+  };
+
+  // Hospital accounts always raise requests for their own hospital
+  const hospitalId = isHospitalAccount ? user?.hospital : undefined;
+  useEffect(() => {
+    if (!hospitalId) return;
+    api.getHospital(hospitalId)
+      .then(hospital => {
+        setSelectedHospital(hospital);
+        setFormData(prev => withHospital(prev, hospital));
+      })
+      .catch(error => console.error('Load hospital error:', error));
+  }, [hospitalId]);
 
   const bloodGroups = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
   const urgencyLevels = [
@@ -165,9 +207,11 @@ const CreateRequest: React.FC = () => {
       const requestData = {
         patientName: formData.patientName.trim(),
         bloodGroup: formData.bloodGroup,
+        componentType: formData.componentType,
         unitsNeeded: formData.unitsNeeded,
         urgency: formData.urgency,
         hospital: {
+          hospitalId: selectedHospital?._id,
           name: formData.hospitalName.trim(),
           address: formData.hospitalAddress.trim(),
           phone: formData.contactPhone.replace(/\D/g, '')
@@ -187,8 +231,8 @@ const CreateRequest: React.FC = () => {
           type: 'Point' as const,
           coordinates: [formData.longitude!, formData.latitude!],
           address: formData.hospitalAddress.trim(),
-          city: '',
-          state: ''
+          city: selectedHospital?.location.city || '',
+          state: selectedHospital?.location.state || ''
         },
         // Additional properties for backward compatibility
         hospitalName: formData.hospitalName.trim(),
@@ -282,6 +326,28 @@ const CreateRequest: React.FC = () => {
                   {errors.bloodGroup && <p className="mt-1 text-sm text-red-600">{errors.bloodGroup}</p>}
                 </div>
 
+                <div>
+                  <label htmlFor="componentType" className="block text-sm font-medium text-gray-700">
+                    Blood Component *
+                  </label>
+                  <select
+                    name="componentType"
+                    id="componentType"
+                    value={formData.componentType}
+                    onChange={handleChange}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm"
+                  >
+                    {DONATION_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                  {formData.componentType === 'plasma' && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Plasma compatibility is reversed: AB donors can give plasma to every blood group.
+                    </p>
+                  )}
+                </div>
+
                 <div>
                   <label htmlFor="unitsNeeded" className="block text-sm font-medium text-gray-700">
                     Units Needed *
@@ -345,24 +411,43 @@ const CreateRequest: React.FC = () => {
             <div>
               <h3 className="text-lg font-medium text-gray-900 mb-4">Hospital Information</h3>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <label htmlFor="hospitalName" className="block text-sm font-medium text-gray-700">
-                    Hospital Name *
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Registered Hospital
                   </label>
-                  <input
-                    type="text"
-                    name="hospitalName"
-                    id="hospitalName"
-                    value={formData.hospitalName}
-                    onChange={handleChange}
-                    className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm ${
-                      errors.hospitalName ? 'border-red-300' : 'border-gray-300'
-                    }`}
-                    placeholder="Enter hospital name"
+                  <HospitalPicker
+                    value={selectedHospital}
+                    onChange={handleHospitalChange}
+                    near={formData.latitude && formData.longitude ? { lat: formData.latitude, lng: formData.longitude } : undefined}
+                    locked={isHospitalAccount}
                   />
-                  {errors.hospitalName && <p className="mt-1 text-sm text-red-600">{errors.hospitalName}</p>}
+                  {!selectedHospital && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Pick the hospital if it is registered, or enter its details below
+                    </p>
+                  )}
                 </div>
 
+                {!selectedHospital && (
+                  <div>
+                    <label htmlFor="hospitalName" className="block text-sm font-medium text-gray-700">
+                      Hospital Name *
+                    </label>
+                    <input
+                      type="text"
+                      name="hospitalName"
+                      id="hospitalName"
+                      value={formData.hospitalName}
+                      onChange={handleChange}
+                      className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm ${
+                        errors.hospitalName ? 'border-red-300' : 'border-gray-300'
+                      }`}
+                      placeholder="Enter hospital name"
+                    />
+                    {errors.hospitalName && <p className="mt-1 text-sm text-red-600">{errors.hospitalName}</p>}
+                  </div>
+                )}
+
                 <div>
                   <label htmlFor="requiredBy" className="block text-sm font-medium text-gray-700">
                     Required By *
@@ -381,74 +466,88 @@ const CreateRequest: React.FC = () => {
                   {errors.requiredBy && <p className="mt-1 text-sm text-red-600">{errors.requiredBy}</p>}
                 </div>
 
-                <div className="md:col-span-2">
-                  <label htmlFor="hospitalAddress" className="block text-sm font-medium text-gray-700">
-                    Hospital Address *
-                  </label>
-                  <textarea
-                    name="hospitalAddress"
-                    id="hospitalAddress"
-                    rows={2}
-                    value={formData.hospitalAddress}
-                    onChange={handleChange}
-                    className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm ${
-                      errors.hospitalAddress ? 'border-red-300' : 'border-gray-300'
-                    }`}
-                    placeholder="Enter complete hospital address"
-                  />
-                  {errors.hospitalAddress && <p className="mt-1 text-sm text-red-600">{errors.hospitalAddress}</p>}
-                </div>
-
-                <div className="md:col-span-2">
-                  <div className="flex items-center justify-between">
-                    <label className="block text-sm font-medium text-gray-700">
-                      Hospital Location *
-                    </label>
-                    <button
-                      type="button"
-                      onClick={handleGetLocation}
-                      disabled={locationLoading}
-                      className={`inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 ${
-                        locationLoading
-                          ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                          : formData.latitude && formData.longitude
-                          ? 'bg-green-50 text-green-700 border-green-300'
-                          : 'bg-white text-gray-700 hover:bg-gray-50'
-                      }`}
-                    >
-                      {locationLoading ? (
-                        <>
-                          <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                          </svg>
-                          Getting location...
-                        </>
-                      ) : formData.latitude && formData.longitude ? (
-                        <>
-                          <svg className="h-4 w-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
-                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                          </svg>
-                          Location obtained
-                        </>
-                      ) : (
-                        <>
-                          <svg className="h-4 w-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
-                            <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
-                          </svg>
-                          Get hospital location
-                        </>
-                      )}
-                    </button>
-                  </div>
-                  {errors.location && <p className="mt-1 text-sm text-red-600">{errors.location}</p>}
-                  <p className="mt-1 text-xs text-gray-500">
-                    Click the button to get the hospital's current location for accurate donor matching
-                  </p>
-                </div>
+                {!selectedHospital && (
+                  <>
+                    <div className="md:col-span-2">
+                      <label htmlFor="hospitalAddress" className="block text-sm font-medium text-gray-700">
+                        Hospital Address *
+                      </label>
+                      <textarea
+                        name="hospitalAddress"
+                        id="hospitalAddress"
+                        rows={2}
+                        value={formData.hospitalAddress}
+                        onChange={handleChange}
+                        className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm ${
+                          errors.hospitalAddress ? 'border-red-300' : 'border-gray-300'
+                        }`}
+                        placeholder="Enter complete hospital address"
+                      />
+                      {errors.hospitalAddress && <p className="mt-1 text-sm text-red-600">{errors.hospitalAddress}</p>}
+                    </div>
+
+                    <div className="md:col-span-2">
+                      <div className="flex items-center justify-between">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Hospital Location *
+                        </label>
+                        <button
+                          type="button"
+                          onClick={handleGetLocation}
+                          disabled={locationLoading}
+                          className={`inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 ${
+                            locationLoading
+                              ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                              : formData.latitude && formData.longitude
+                              ? 'bg-green-50 text-green-700 border-green-300'
+                              : 'bg-white text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {locationLoading ? (
+                            <>
+                              <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                              </svg>
+                              Getting location...
+                            </>
+                          ) : formData.latitude && formData.longitude ? (
+                            <>
+                              <svg className="h-4 w-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                              </svg>
+                              Location obtained
+                            </>
+                          ) : (
+                            <>
+                              <svg className="h-4 w-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
+                              </svg>
+                              Get hospital location
+                            </>
+                          )}
+                        </button>
+                      </div>
+                      {errors.location && <p className="mt-1 text-sm text-red-600">{errors.location}</p>}
+                      <p className="mt-1 text-xs text-gray-500">
+                        Click the button to get the hospital's current location for accurate donor matching
+                      </p>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
 
+            {formData.bloodGroup && formData.latitude && formData.longitude && (
+              <NearbyStock
+                bloodGroup={formData.bloodGroup as BloodGroup}
+                componentType={formData.componentType}
+                unitsNeeded={Math.min(Math.max(formData.unitsNeeded, 1), 10)}
+                lat={formData.latitude}
+                lng={formData.longitude}
+              />
+            )}
+
             {/* Contact Information */}
             <div>
               <h3 className="text-lg font-medium text-gray-900 mb-4">Contact Information</h3>
@@ -1,19 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
 import { api } from '../services/api';
+import FulfillmentProgress from '../components/ui/FulfillmentProgress';
+import UpcomingAppointments from '../components/UpcomingAppointments';
+import ActiveSessions from '../components/ActiveSessions';
+import RequestMap from '../components/RequestMap';
+import VerifyEmailNotice from '../components/VerifyEmailNotice';
 import type { BloodRequest } from '../types';
-import { formatDate, getUrgencyColor } from '../utils';
+import { formatCountdown, formatDate, getDonationTypeLabel, getUrgencyColor } from '../utils';
+
+// Default radius of the nearby requests search
+const NEARBY_RADIUS_KM = 20;
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
   const { showToast } = useToast();
   
-  const [, setActiveRequests] = useState<BloodRequest[]>([]);
   const [myRequests, setMyRequests] = useState<BloodRequest[]>([]);
   const [nearbyRequests, setNearbyRequests] = useState<BloodRequest[]>([]);
   const [loading, setLoading] = useState(true);
+  const [nextEligibleDate, setNextEligibleDate] = useState<string | null>(user?.nextEligibleDate ?? null);
+  const [now, setNow] = useState(Date.now());
   const [stats, setStats] = useState({
     totalRequests: 0,
     successfulDonations: 0,
@@ -27,22 +36,53 @@ const Dashboard: React.FC = () => {
     }
   }, [user]);
 
-  const loadDashboardData = async () => {
-    setLoading(true);
+  // Tick the eligibility countdown once a minute while it is running
+  const isWaitingToDonate = !!nextEligibleDate && new Date(nextEligibleDate).getTime() > now;
+  useEffect(() => {
+    if (!isWaitingToDonate) return;
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [isWaitingToDonate]);
+
+  // Keep the lists current as requests are created, answered or closed.
+  // The ref lets the subscription call the latest loader without resubscribing.
+  const liveRefresh = useRef(() => {});
+  liveRefresh.current = () => loadDashboardData(false);
+  useEffect(() => {
+    if (!user) return;
+    const refresh = () => liveRefresh.current();
+    const unsubscribers = [
+      api.subscribe('request:created', refresh),
+      api.subscribe('request:response', refresh),
+      api.subscribe('request:status', refresh),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [user]);
+
+  const loadDashboardData = async (showSpinner = true) => {
+    if (showSpinner) setLoading(true);
     try {
+      let loadedMyRequests: BloodRequest[] = [];
+      let loadedNearbyRequests: BloodRequest[] = [];
+
       // Load user's own requests if requester
-      if (user?.role === 'requester' || user?.role === 'admin') {
-        const myRequestsResponse = await api.getUserRequests();
+      if (user?.role === 'requester' || user?.role === 'hospital' || user?.role === 'admin') {
+        const myRequestsResponse = await api.getUserRequests({ limit: 50 });
         if (myRequestsResponse.data) {
-          setMyRequests(myRequestsResponse.data);
+          loadedMyRequests = myRequestsResponse.data;
+          setMyRequests(loadedMyRequests);
         }
       }
 
       // Load nearby requests for donors
-      if (user?.role === 'donor' || user?.role === 'admin') {
+      if (user?.role === 'donor') {
         const nearbyResponse = await api.getNearbyRequests();
         if (nearbyResponse.nearbyRequests) {
-          setNearbyRequests(nearbyResponse.nearbyRequests);
+          loadedNearbyRequests = nearbyResponse.nearbyRequests;
+          setNearbyRequests(loadedNearbyRequests);
+        }
+        if (nearbyResponse.donor) {
+          setNextEligibleDate(nearbyResponse.donor.nextEligibleDate);
         }
       }
 
@@ -50,12 +90,13 @@ const Dashboard: React.FC = () => {
       if (user?.role === 'admin') {
         const allRequestsResponse = await api.getAllRequests();
         if (allRequestsResponse.data) {
-          setActiveRequests(allRequestsResponse.data);
+          loadedNearbyRequests = allRequestsResponse.data;
+          setNearbyRequests(loadedNearbyRequests);
         }
       }
 
       // Calculate stats
-      updateStats();
+      updateStats(loadedMyRequests, loadedNearbyRequests);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
       showToast('Error loading dashboard data', 'error');
@@ -64,12 +105,12 @@ const Dashboard: React.FC = () => {
     }
   };
 
-  const updateStats = () => {
+  const updateStats = (requests: BloodRequest[], nearby: BloodRequest[]) => {
     setStats({
-      totalRequests: myRequests.length,
-      successfulDonations: myRequests.filter(req => req.status === 'fulfilled').length,
-      pendingRequests: myRequests.filter(req => req.status === 'active').length,
-      nearbyActiveRequests: nearbyRequests.filter(req => req.status === 'active').length
+      totalRequests: requests.length,
+      successfulDonations: requests.filter(req => req.status === 'fulfilled').length,
+      pendingRequests: requests.filter(req => req.status === 'active').length,
+      nearbyActiveRequests: nearby.filter(req => req.status === 'active').length
     });
   };
 
@@ -98,7 +139,7 @@ const Dashboard: React.FC = () => {
       );
     }
 
-    if (user?.role === 'requester') {
+    if (user?.role === 'requester' || user?.role === 'hospital') {
       actions.push(
         <Link
           key="create-request"
@@ -145,6 +186,20 @@ const Dashboard: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {user && !user.emailVerified && (
+          <div className="mb-6">
+            <VerifyEmailNotice compact />
+          </div>
+        )}
+
+        {user?.role === 'hospital' && user.hospitalApproval?.status !== 'approved' && (
+          <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+            {user.hospitalApproval?.status === 'rejected'
+              ? 'An administrator did not approve this account for your hospital. Contact support if this is a mistake.'
+              : 'An administrator still has to confirm that this account belongs to your hospital. Until then you cannot manage its requests, drives or stock.'}
+          </div>
+        )}
+
         {/* Welcome Section */}
         <div className="bg-white shadow rounded-lg p-6 mb-8">
           <div className="flex items-center justify-between">
@@ -164,7 +219,7 @@ const Dashboard: React.FC = () => {
 
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-          {user?.role === 'requester' && (
+          {(user?.role === 'requester' || user?.role === 'hospital') && (
             <>
               <div className="bg-white overflow-hidden shadow rounded-lg">
                 <div className="p-5">
@@ -241,6 +296,33 @@ const Dashboard: React.FC = () => {
                   </div>
                 </div>
               </div>
+
+              <div className="bg-white overflow-hidden shadow rounded-lg">
+                <div className="p-5">
+                  <div className="flex items-center">
+                    <div className="flex-shrink-0">
+                      <svg className={`h-6 w-6 ${isWaitingToDonate ? 'text-yellow-400' : 'text-green-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                    </div>
+                    <div className="ml-5 w-0 flex-1">
+                      <dl>
+                        <dt className="text-sm font-medium text-gray-500 truncate">Donation Eligibility</dt>
+                        {isWaitingToDonate && nextEligibleDate ? (
+                          <>
+                            <dd className="text-lg font-medium text-gray-900">
+                              Eligible in {formatCountdown(nextEligibleDate, now)}
+                            </dd>
+                            <dd className="text-xs text-gray-500">on {formatDate(nextEligibleDate)}</dd>
+                          </>
+                        ) : (
+                          <dd className="text-lg font-medium text-green-600">Eligible now</dd>
+                        )}
+                      </dl>
+                    </div>
+                  </div>
+                </div>
+              </div>
             </>
           )}
 
@@ -264,14 +346,17 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Upcoming Appointments */}
+        <UpcomingAppointments />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* My Requests (for requesters) */}
-          {(user?.role === 'requester' || user?.role === 'admin') && (
+          {(user?.role === 'requester' || user?.role === 'hospital' || user?.role === 'admin') && (
             <div className="bg-white shadow rounded-lg">
               <div className="px-6 py-4 border-b border-gray-200">
                 <div className="flex items-center justify-between">
                   <h3 className="text-lg font-medium text-gray-900">
-                    {user?.role === 'admin' ? 'Recent Requests' : 'My Requests'}
+                    {user?.role === 'admin' ? 'Recent Requests' : user?.role === 'hospital' ? 'Hospital Requests' : 'My Requests'}
                   </h3>
                   <Link
                     to="/create-request"
@@ -284,16 +369,17 @@ const Dashboard: React.FC = () => {
               <div className="divide-y divide-gray-200">
                 {myRequests.length > 0 ? (
                   myRequests.slice(0, 5).map((request) => (
-                    <div key={request._id} className="p-6">
+                    <Link key={request._id} to={`/requests/${request._id}`} className="block p-6 hover:bg-gray-50">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
                           <p className="text-sm font-medium text-gray-900">{request.patientName}</p>
                           <p className="text-sm text-gray-500">
-                            {request.bloodGroup} • {request.unitsNeeded} units • {request.hospitalName || request.hospital?.name}
+                            {request.bloodGroup} {getDonationTypeLabel(request.componentType)} • {request.unitsNeeded} units • {request.hospitalName || request.hospital?.name}
                           </p>
                           <p className="text-xs text-gray-400 mt-1">
                             Created {formatDate(request.createdAt)}
                           </p>
+                          <FulfillmentProgress request={request} className="mt-2 max-w-xs" />
                         </div>
                         <div className="flex items-center space-x-2">
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getUrgencyColor(request.urgency)}`}>
@@ -308,7 +394,7 @@ const Dashboard: React.FC = () => {
                           </span>
                         </div>
                       </div>
-                    </div>
+                    </Link>
                   ))
                 ) : (
                   <div className="p-6 text-center">
@@ -339,24 +425,42 @@ const Dashboard: React.FC = () => {
                   </Link>
                 </div>
               </div>
+              {(nearbyRequests.length > 0 || user?.location?.coordinates) && (
+                <div className="px-6 pt-4">
+                  <RequestMap
+                    requests={nearbyRequests}
+                    userLocation={user?.location?.coordinates ? {
+                      lat: user.location.coordinates[1],
+                      lng: user.location.coordinates[0],
+                      address: user.location.address,
+                    } : undefined}
+                    radiusKm={user?.role === 'donor' ? NEARBY_RADIUS_KM : undefined}
+                    height={300}
+                  />
+                </div>
+              )}
               <div className="divide-y divide-gray-200">
                 {nearbyRequests.length > 0 ? (
                   nearbyRequests.slice(0, 5).map((request) => (
-                    <div key={request._id} className="p-6">
+                    <Link key={request._id} to={`/requests/${request._id}`} className="block p-6 hover:bg-gray-50">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
                           <p className="text-sm font-medium text-gray-900">{request.patientName}</p>
                           <p className="text-sm text-gray-500">
-                            {request.bloodGroup} • {request.unitsNeeded} units • {request.hospitalName || request.hospital?.name}
+                            {request.bloodGroup} {getDonationTypeLabel(request.componentType)} • {request.unitsNeeded} units • {request.hospitalName || request.hospital?.name}
                           </p>
                           <p className="text-xs text-gray-400 mt-1">
                             Required by {formatDate(request.requiredBy)}
                           </p>
+                          <FulfillmentProgress request={request} className="mt-2 max-w-xs" />
                         </div>
                         <div className="flex items-center space-x-2">
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getUrgencyColor(request.urgency)}`}>
                             {request.urgency}
                           </span>
+                          <span className="text-xs text-gray-500" title="Priority score out of 100">
+                            Priority {request.priority}
+                          </span>
                           {request.distance && (
                             <span className="text-xs text-gray-500">
                               {request.distance.toFixed(1)} km
@@ -364,7 +468,7 @@ const Dashboard: React.FC = () => {
                           )}
                         </div>
                       </div>
-                    </div>
+                    </Link>
                   ))
                 ) : (
                   <div className="p-6 text-center">
@@ -442,6 +546,11 @@ const Dashboard: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Signed-in devices */}
+        <div className="mt-8">
+          <ActiveSessions />
+        </div>
       </div>
     </div>
   );
@@ -1,22 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
+import { useOffline } from '../context/useOffline';
 import { api } from '../services/api';
-import type { BloodRequest } from '../types';
-import { formatDate, getUrgencyColor, getCurrentLocation, validateBloodGroupCompatibility } from '../utils';
+import FulfillmentProgress from '../components/ui/FulfillmentProgress';
+import RequestMap from '../components/RequestMap';
+import DriveCard from '../components/DriveCard';
+import type { BloodRequest, Drive, MapLocation } from '../types';
+import {
+  DONATION_TYPES,
+  formatDate,
+  getDonationTypeLabel,
+  getUrgencyColor,
+  getCurrentLocation,
+  getErrorMessage,
+  validateBloodGroupCompatibility,
+} from '../utils';
 
 const Donors: React.FC = () => {
   const { user } = useAuth();
   const { showToast } = useToast();
+  const { submitResponse, queuedActions } = useOffline();
   
   const [bloodRequests, setBloodRequests] = useState<BloodRequest[]>([]);
   const [filteredRequests, setFilteredRequests] = useState<BloodRequest[]>([]);
+  const [drives, setDrives] = useState<Drive[]>([]);
+  const [registeringDriveId, setRegisteringDriveId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [locationLoading, setLocationLoading] = useState(false);
+  const [userLocation, setUserLocation] = useState<MapLocation | undefined>();
+  const [showMap, setShowMap] = useState(true);
   
   // Filter states
   const [filters, setFilters] = useState({
     bloodGroup: '',
+    componentType: '',
     urgency: '',
     maxDistance: 20,
     sortBy: 'urgency' as 'urgency' | 'distance' | 'date',
@@ -26,19 +45,41 @@ const Donors: React.FC = () => {
   const bloodGroups = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
   const urgencyLevels = ['low', 'medium', 'high', 'critical'];
 
+  // The distance filter is also the search radius sent to the server
   useEffect(() => {
     loadBloodRequests();
-  }, []);
+  }, [filters.maxDistance]);
 
   useEffect(() => {
     applyFilters();
   }, [bloodRequests, filters]);
 
-  const loadBloodRequests = async () => {
-    setLoading(true);
+  // New nearby requests and status changes arrive over the realtime stream.
+  // The ref lets the subscription call the latest loader without resubscribing.
+  const liveRefresh = useRef(() => {});
+  liveRefresh.current = () => loadBloodRequests(false);
+  useEffect(() => {
+    const unsubscribers = [
+      api.subscribe('request:created', (event) => {
+        if (event.urgency === 'critical') {
+          showToast(`Critical: ${event.bloodGroup} blood needed at ${event.hospitalName}`, 'warning');
+        }
+        liveRefresh.current();
+      }),
+      api.subscribe('request:status', () => liveRefresh.current()),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [showToast]);
+
+  const loadBloodRequests = async (showSpinner = true) => {
+    if (showSpinner) setLoading(true);
     try {
       // Load nearby blood requests for donors to see
-      const response = await api.getNearbyRequests();
+      const response = await api.getNearbyRequests(filters.maxDistance);
+      const coordinates = response.donor?.location?.coordinates;
+      if (coordinates) {
+        setUserLocation({ lat: coordinates[1], lng: coordinates[0], address: response.donor.location.address });
+      }
       if (response.nearbyRequests) {
         setBloodRequests(response.nearbyRequests);
       } else {
@@ -57,6 +98,15 @@ const Donors: React.FC = () => {
     } finally {
       setLoading(false);
     }
+
+    // Drives are shown alongside requests; failing to load them is not fatal
+    try {
+      const { nearbyDrives } = await api.getNearbyDrives(filters.maxDistance);
+      setDrives(nearbyDrives);
+    } catch (error) {
+      console.error('Error loading nearby drives:', error);
+      setDrives([]);
+    }
   };
 
   const applyFilters = () => {
@@ -65,12 +115,17 @@ const Donors: React.FC = () => {
     // Filter by blood group compatibility
     if (filters.showCompatibleOnly && user?.bloodGroup) {
       filtered = filtered.filter(request => 
-        user.bloodGroup && validateBloodGroupCompatibility(user.bloodGroup, request.bloodGroup)
+        user.bloodGroup && validateBloodGroupCompatibility(user.bloodGroup, request.bloodGroup, request.componentType)
       );
     } else if (filters.bloodGroup) {
       filtered = filtered.filter(request => request.bloodGroup === filters.bloodGroup);
     }
 
+    // Filter by component type
+    if (filters.componentType) {
+      filtered = filtered.filter(request => (request.componentType || 'whole_blood') === filters.componentType);
+    }
+
     // Filter by urgency
     if (filters.urgency) {
       filtered = filtered.filter(request => request.urgency === filters.urgency);
@@ -123,8 +178,15 @@ const Donors: React.FC = () => {
   };
 
   const handleExpressInterest = async (requestId: string) => {
+    const request = bloodRequests.find(req => req._id === requestId);
+    if (!request) return;
+
     try {
-      await api.expressInterest(requestId);
+      const result = await submitResponse(request, 'interested');
+      if (result === 'queued') {
+        showToast('You are offline. Your interest will be sent when you reconnect.', 'info');
+        return;
+      }
       showToast('Interest expressed successfully! The requester will be notified.', 'success');
       // Update the request in the state to show interest expressed
       setBloodRequests(prev => prev.map(req => 
@@ -134,14 +196,37 @@ const Donors: React.FC = () => {
       ));
     } catch (error: any) {
       console.error('Express interest error:', error);
-      if (error.response?.status === 409) {
+      if (error.response?.data?.code === 'ALREADY_RESPONDED') {
         showToast('You have already expressed interest in this request.', 'warning');
       } else {
-        showToast('Failed to express interest. Please try again.', 'error');
+        showToast(getErrorMessage(error), 'error');
       }
     }
   };
 
+  const handleRegisterForDrive = async (driveId: string) => {
+    setRegisteringDriveId(driveId);
+    try {
+      const { message, drive } = await api.registerForDrive(driveId);
+      setDrives(prev => prev.map(item => item._id === driveId ? drive : item));
+      showToast(message, 'success');
+    } catch (error) {
+      console.error('Drive registration error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setRegisteringDriveId(null);
+    }
+  };
+
+  const hasResponded = (request: BloodRequest) => {
+    if (!user) return false;
+    return queuedActions.some(action => action.requestId === request._id) ||
+      !!request.interestedDonors?.includes(user._id) ||
+      !!request.responses?.some(response =>
+        (typeof response.donor === 'string' ? response.donor : response.donor._id) === user._id
+      );
+  };
+
   const getUrgencyIcon = (urgency: string) => {
     switch (urgency) {
       case 'critical':
@@ -221,7 +306,7 @@ const Donors: React.FC = () => {
         <div className="bg-white shadow rounded-lg p-6 mb-8">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Filter & Search</h3>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Blood Group</label>
               <select
@@ -236,6 +321,20 @@ const Donors: React.FC = () => {
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Component</label>
+              <select
+                value={filters.componentType}
+                onChange={(e) => handleFilterChange('componentType', e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm"
+              >
+                <option value="">All components</option>
+                {DONATION_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Urgency</label>
               <select
@@ -297,12 +396,59 @@ const Donors: React.FC = () => {
           )}
         </div>
 
+        {/* Nearby Blood Drives */}
+        {drives.length > 0 && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">Blood Drives Near You</h2>
+              <Link to="/drives" className="text-sm font-medium text-red-600 hover:text-red-500">
+                All drives
+              </Link>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {drives.map((drive) => (
+                <DriveCard
+                  key={drive._id}
+                  drive={drive}
+                  action={drive.myRegistration && drive.myRegistration.status !== 'cancelled' ? (
+                    <span className="text-sm font-medium text-green-700">You're registered</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRegisterForDrive(drive._id)}
+                      disabled={drive.spotsLeft === 0 || registeringDriveId === drive._id}
+                      className="w-full px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {registeringDriveId === drive._id ? 'Registering...' : 'Register'}
+                    </button>
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Results Summary */}
         <div className="bg-white shadow rounded-lg p-4 mb-6">
-          <p className="text-sm text-gray-600">
-            Showing {filteredRequests.length} of {bloodRequests.length} requests
-            {filters.maxDistance < 50 && ` within ${filters.maxDistance} km`}
-          </p>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              Showing {filteredRequests.length} of {bloodRequests.length} requests
+              {filters.maxDistance < 50 && ` within ${filters.maxDistance} km`}
+            </p>
+            <button
+              onClick={() => setShowMap((prev) => !prev)}
+              className="text-sm font-medium text-red-600 hover:text-red-500"
+            >
+              {showMap ? 'Hide map' : 'Show map'}
+            </button>
+          </div>
+          {showMap && (
+            <RequestMap
+              requests={filteredRequests}
+              userLocation={userLocation}
+              radiusKm={filters.maxDistance}
+              className="mt-4"
+            />
+          )}
         </div>
 
         {/* Blood Requests List */}
@@ -326,7 +472,9 @@ const Donors: React.FC = () => {
                       </div>
 
                       <h3 className="text-xl font-semibold text-gray-900 mb-2">
-                        Blood needed for {request.patientName}
+                        <Link to={`/requests/${request._id}`} className="hover:text-red-600">
+                          Blood needed for {request.patientName}
+                        </Link>
                       </h3>
 
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
@@ -334,7 +482,9 @@ const Donors: React.FC = () => {
                           <svg className="h-5 w-5 text-red-600" fill="currentColor" viewBox="0 0 20 20">
                             <path fillRule="evenodd" d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z" clipRule="evenodd" />
                           </svg>
-                          <span className="font-medium text-gray-900">{request.bloodGroup}</span>
+                          <span className="font-medium text-gray-900">
+                            {request.bloodGroup} {getDonationTypeLabel(request.componentType)}
+                          </span>
                         </div>
 
                         <div className="flex items-center space-x-2">
@@ -354,6 +504,8 @@ const Donors: React.FC = () => {
                         </div>
                       </div>
 
+                      <FulfillmentProgress request={request} className="mb-4" />
+
                       <div className="mb-4">
                         <p className="text-sm text-gray-600">
                           <strong>Units needed:</strong> {request.unitsNeeded}
@@ -389,21 +541,28 @@ const Donors: React.FC = () => {
                     </div>
 
                     <div className="ml-6 flex flex-col space-y-3">
+                      <Link
+                        to={`/requests/${request._id}`}
+                        className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                      >
+                        View Details
+                      </Link>
+
                       <button
                         onClick={() => handleExpressInterest(request._id)}
-                        disabled={request.interestedDonors?.includes(user?._id || '')}
+                        disabled={hasResponded(request)}
                         className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
-                          request.interestedDonors?.includes(user?._id || '')
+                          hasResponded(request)
                             ? 'bg-green-100 text-green-800 cursor-not-allowed'
                             : 'text-white bg-red-600 hover:bg-red-700 focus:ring-red-500'
                         }`}
                       >
-                        {request.interestedDonors?.includes(user?._id || '') ? (
+                        {hasResponded(request) ? (
                           <>
                             <svg className="mr-2 h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
                               <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
                             </svg>
-                            Interest Expressed
+                            {queuedActions.some(action => action.requestId === request._id) ? 'Sends When Online' : 'Interest Expressed'}
                           </>
                         ) : (
                           <>
@@ -441,7 +600,7 @@ const Donors: React.FC = () => {
                   </div>
                 </div>
 
-                {user?.bloodGroup && validateBloodGroupCompatibility(user.bloodGroup, request.bloodGroup) && (
+                {user?.bloodGroup && validateBloodGroupCompatibility(user.bloodGroup, request.bloodGroup, request.componentType) && (
                   <div className="bg-green-50 px-6 py-3 border-t border-green-200">
                     <div className="flex items-center">
                       <svg className="h-5 w-5 text-green-400 mr-2" fill="currentColor" viewBox="0 0 20 20">
@@ -473,7 +632,7 @@ const Donors: React.FC = () => {
                 Clear Filters
               </button>
               <button
-                onClick={loadBloodRequests}
+                onClick={() => loadBloodRequests()}
                 className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
               >
                 Refresh Requests
@@ -0,0 +1,339 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { BadgeCheck, Calendar, MapPin, Users } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import type { DonationType, Drive, DriveRegistration, DriveRegistrationStatus } from '../types';
+import { DONATION_TYPES, formatDateTime, getBloodGroupColor, getErrorMessage } from '../utils';
+
+const REGISTRATION_STATUS_STYLES: Record<DriveRegistrationStatus, { label: string; className: string }> = {
+  registered: { label: 'Registered', className: 'bg-blue-100 text-blue-800' },
+  checked_in: { label: 'Checked in', className: 'bg-yellow-100 text-yellow-800' },
+  donated: { label: 'Donated', className: 'bg-green-100 text-green-800' },
+  no_show: { label: 'No-show', className: 'bg-gray-100 text-gray-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-500' },
+};
+
+interface DonationEntry {
+  componentType: DonationType;
+  units: number;
+}
+
+const defaultDonation: DonationEntry = { componentType: 'whole_blood', units: 1 };
+
+const DriveDetails: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isAuthenticated } = useAuth();
+  const { showToast } = useToast();
+
+  const [drive, setDrive] = useState<Drive | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  // What each checked-in donor gave, keyed by registration
+  const [donations, setDonations] = useState<Record<string, DonationEntry>>({});
+
+  const loadDrive = useCallback(async () => {
+    if (!id) return;
+    try {
+      const data = await api.getDrive(id);
+      setDrive(data);
+      setNotFound(false);
+    } catch (error) {
+      console.error('Error loading blood drive:', error);
+      setNotFound(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadDrive();
+  }, [loadDrive]);
+
+  const runAction = async (key: string, action: () => Promise<{ message: string }>) => {
+    setActionLoading(key);
+    try {
+      const { message } = await action();
+      showToast(message, 'success');
+      await loadDrive();
+    } catch (error) {
+      console.error('Blood drive action error:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const getDonation = (registrationId: string) => donations[registrationId] || defaultDonation;
+
+  const updateDonation = (registrationId: string, changes: Partial<DonationEntry>) => {
+    setDonations((prev) => ({
+      ...prev,
+      [registrationId]: { ...(prev[registrationId] || defaultDonation), ...changes },
+    }));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading blood drive...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (notFound || !drive) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Blood drive not found</h2>
+          <Link to="/drives" className="text-red-600 hover:text-red-500">
+            Back to blood drives
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = drive.status === 'scheduled' && new Date(drive.endsAt) > new Date();
+  const hasStarted = new Date(drive.startsAt) <= new Date();
+  const myStatus = drive.myRegistration?.status;
+  const isRegistered = myStatus !== undefined && myStatus !== 'cancelled';
+
+  const renderAttendanceActions = (registration: DriveRegistration) => {
+    if (!['registered', 'checked_in'].includes(registration.status) || drive.status === 'cancelled' || !hasStarted) {
+      return null;
+    }
+
+    const donation = getDonation(registration._id);
+    const record = (data: Parameters<typeof api.updateDriveRegistration>[2]) =>
+      runAction(`${registration._id}-${data.status}`, () => api.updateDriveRegistration(drive._id, registration._id, data));
+
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        {registration.status === 'registered' && (
+          <button
+            onClick={() => record({ status: 'checked_in' })}
+            disabled={actionLoading !== null}
+            className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Check in
+          </button>
+        )}
+        <select
+          value={donation.componentType}
+          onChange={(e) => updateDonation(registration._id, { componentType: e.target.value as DonationType })}
+          className="border border-gray-300 rounded px-2 py-1 text-xs"
+        >
+          {DONATION_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          max={10}
+          value={donation.units}
+          onChange={(e) => updateDonation(registration._id, { units: parseInt(e.target.value) || 1 })}
+          className="w-14 border border-gray-300 rounded px-2 py-1 text-xs"
+        />
+        <button
+          onClick={() => record({ status: 'donated', ...donation })}
+          disabled={actionLoading !== null}
+          className="px-3 py-1 text-xs font-medium text-white bg-green-600 rounded hover:bg-green-700 disabled:opacity-50"
+        >
+          Donated
+        </button>
+        {registration.status === 'registered' && (
+          <button
+            onClick={() => record({ status: 'no_show' })}
+            disabled={actionLoading !== null}
+            className="px-3 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            No-show
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{drive.name}</h1>
+              {drive.hospital && (
+                <div className="flex items-center text-sm text-gray-600 mt-1">
+                  Hosted by {drive.hospital.name}
+                  {drive.hospital.isVerified && <BadgeCheck className="h-4 w-4 ml-1 text-green-600" />}
+                </div>
+              )}
+              {drive.status !== 'scheduled' && (
+                <span className={`inline-block mt-2 px-2 py-0.5 text-xs font-medium rounded-full ${
+                  drive.status === 'cancelled' ? 'bg-gray-100 text-gray-700' : 'bg-green-100 text-green-800'
+                }`}>
+                  {drive.status === 'cancelled' ? 'Cancelled' : 'Completed'}
+                </span>
+              )}
+            </div>
+
+            <div className="flex flex-col items-stretch gap-2 md:w-56">
+              {user?.role === 'donor' && isOpen && (
+                isRegistered && myStatus ? (
+                  <>
+                    <span className="text-sm font-medium text-green-700 text-center">
+                      {REGISTRATION_STATUS_STYLES[myStatus].label}
+                    </span>
+                    {myStatus === 'registered' && (
+                      <button
+                        onClick={() => runAction('unregister', () => api.cancelDriveRegistration(drive._id))}
+                        disabled={actionLoading !== null}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Cancel registration
+                      </button>
+                    )}
+                  </>
+                ) : (
+                  <button
+                    onClick={() => runAction('register', () => api.registerForDrive(drive._id))}
+                    disabled={actionLoading !== null || drive.spotsLeft === 0}
+                    className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                  >
+                    {drive.spotsLeft === 0 ? 'Fully booked' : 'Register to donate'}
+                  </button>
+                )
+              )}
+              {!isAuthenticated && isOpen && (
+                <Link
+                  to="/login"
+                  className="px-4 py-2 text-sm font-medium text-center text-white bg-red-600 rounded-md hover:bg-red-700"
+                >
+                  Log in to register
+                </Link>
+              )}
+              {drive.canManage && drive.status === 'scheduled' && (
+                <button
+                  onClick={() => {
+                    if (!window.confirm('Cancel this blood drive? Registered donors will be notified.')) return;
+                    runAction('cancel', () => api.cancelDrive(drive._id));
+                  }}
+                  disabled={actionLoading !== null}
+                  className="px-4 py-2 text-sm font-medium text-red-600 border border-red-600 rounded-md hover:bg-red-50 disabled:opacity-50"
+                >
+                  Cancel drive
+                </button>
+              )}
+            </div>
+          </div>
+
+          {drive.description && <p className="mt-4 text-gray-700 whitespace-pre-line">{drive.description}</p>}
+          {drive.status === 'cancelled' && drive.cancellationReason && (
+            <p className="mt-4 text-sm text-gray-600">Reason: {drive.cancellationReason}</p>
+          )}
+
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-700">
+            <div className="flex items-start">
+              <Calendar className="h-5 w-5 mr-2 text-gray-400" />
+              <div>
+                <div>{formatDateTime(drive.startsAt)}</div>
+                <div className="text-gray-500">until {formatDateTime(drive.endsAt)}</div>
+              </div>
+            </div>
+            <div className="flex items-start">
+              <MapPin className="h-5 w-5 mr-2 text-gray-400" />
+              <div>
+                {drive.location.venue && <div>{drive.location.venue}</div>}
+                <div className="text-gray-500">
+                  {drive.location.address}, {drive.location.city}, {drive.location.state}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-start">
+              <Users className="h-5 w-5 mr-2 text-gray-400" />
+              <div>
+                <div>{drive.registeredCount} of {drive.capacity} places taken</div>
+                <div className="text-gray-500">Organised by {drive.organizer.name}</div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {drive.targets.length > 0 && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Collection Targets</h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {drive.targets.map((target) => {
+                const collected = drive.collected[target.bloodGroup] || 0;
+                return (
+                  <div key={target.bloodGroup} className="border border-gray-200 rounded-md p-3">
+                    <span className={getBloodGroupColor(target.bloodGroup)}>{target.bloodGroup}</span>
+                    <div className="mt-2 text-sm text-gray-700">{collected} / {target.units} units</div>
+                    <div className="mt-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-red-600"
+                        style={{ width: `${Math.min(100, (collected / target.units) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {drive.canManage && drive.registrations && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Registrations & Attendance</h2>
+            {!hasStarted && drive.status === 'scheduled' && (
+              <p className="text-sm text-gray-500 mb-4">Check-in opens when the drive starts.</p>
+            )}
+            {drive.registrations.length === 0 ? (
+              <p className="text-sm text-gray-500 mt-4">No donors have registered yet.</p>
+            ) : (
+              <div className="overflow-x-auto mt-4">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                      <th className="py-2 pr-4">Donor</th>
+                      <th className="py-2 pr-4">Blood Group</th>
+                      <th className="py-2 pr-4">Phone</th>
+                      <th className="py-2 pr-4">Status</th>
+                      <th className="py-2">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {drive.registrations.map((registration) => (
+                      <tr key={registration._id}>
+                        <td className="py-2 pr-4 text-gray-900">{registration.donor.name}</td>
+                        <td className="py-2 pr-4">{registration.bloodGroup || registration.donor.bloodGroup || '—'}</td>
+                        <td className="py-2 pr-4 text-gray-600">{registration.donor.phone}</td>
+                        <td className="py-2 pr-4">
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${REGISTRATION_STATUS_STYLES[registration.status].className}`}>
+                            {REGISTRATION_STATUS_STYLES[registration.status].label}
+                          </span>
+                          {registration.status === 'donated' && registration.units && (
+                            <span className="ml-2 text-xs text-gray-500">{registration.units} unit(s)</span>
+                          )}
+                        </td>
+                        <td className="py-2">{renderAttendanceActions(registration)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DriveDetails;
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import DriveCard from '../components/DriveCard';
+import type { Drive, DriveRegistrationStatus, PaginationInfo } from '../types';
+import { formatDateTime, getErrorMessage } from '../utils';
+
+const PAGE_SIZE = 9;
+const SEARCH_DELAY_MS = 300;
+
+const REGISTRATION_LABELS: Record<DriveRegistrationStatus, string> = {
+  registered: 'Registered',
+  checked_in: 'Checked in',
+  donated: 'Donated',
+  no_show: 'Missed',
+  cancelled: 'Cancelled',
+};
+
+const Drives: React.FC = () => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+
+  const [drives, setDrives] = useState<Drive[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [page, setPage] = useState(1);
+  const [city, setCity] = useState('');
+  const [mine, setMine] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [myRegistrations, setMyRegistrations] = useState<Drive[]>([]);
+
+  const canOrganize = user?.role === 'hospital' || user?.role === 'admin';
+  const isDonor = user?.role === 'donor';
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Wait for the user to stop typing a city before searching
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await api.getDrives({ page, limit: PAGE_SIZE, city: city.trim() || undefined, mine: mine || undefined });
+        if (cancelled) return;
+        setDrives(response.data);
+        setPagination(response.pagination);
+      } catch (error) {
+        console.error('Error loading drives:', error);
+        if (!cancelled) showToast(getErrorMessage(error), 'error');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [page, city, mine, showToast]);
+
+  useEffect(() => {
+    if (!isDonor) return;
+
+    api.getMyDriveRegistrations()
+      .then((response) => setMyRegistrations(response.drives))
+      .catch((error) => console.error('Error loading drive registrations:', error));
+  }, [isDonor]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white shadow rounded-lg p-6 mb-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Blood Drives</h1>
+              <p className="mt-2 text-gray-600">Donation camps you can register for and attend.</p>
+            </div>
+            {canOrganize && (
+              <Link
+                to="/drives/create"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Schedule Drive
+              </Link>
+            )}
+          </div>
+
+          <div className="mt-6 flex flex-col sm:flex-row sm:items-center gap-4">
+            <input
+              type="text"
+              value={city}
+              onChange={(e) => {
+                setCity(e.target.value);
+                setPage(1);
+              }}
+              placeholder="Filter by city"
+              className="block w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-red-500 focus:border-red-500"
+            />
+            {canOrganize && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={mine}
+                  onChange={(e) => {
+                    setMine(e.target.checked);
+                    setPage(1);
+                  }}
+                  className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded mr-2"
+                />
+                Only drives I organise (including past ones)
+              </label>
+            )}
+          </div>
+        </div>
+
+        {isDonor && myRegistrations.length > 0 && (
+          <div className="bg-white shadow rounded-lg p-6 mb-8">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Your Registrations</h2>
+            <ul className="divide-y divide-gray-200">
+              {myRegistrations.map((drive) => (
+                <li key={drive._id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <Link to={`/drives/${drive._id}`} className="text-sm font-medium text-gray-900 hover:text-red-600">
+                      {drive.name}
+                    </Link>
+                    <div className="text-xs text-gray-500">
+                      {formatDateTime(drive.startsAt)} • {drive.location.city}
+                    </div>
+                  </div>
+                  {drive.myRegistration && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
+                      {REGISTRATION_LABELS[drive.myRegistration.status]}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+          </div>
+        ) : drives.length === 0 ? (
+          <div className="bg-white shadow rounded-lg p-12 text-center text-gray-500">
+            No blood drives found.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {drives.map((drive) => (
+                <DriveCard
+                  key={drive._id}
+                  drive={drive}
+                  action={
+                    <Link
+                      to={`/drives/${drive._id}`}
+                      className="block w-full text-center px-4 py-2 text-sm font-medium text-red-600 border border-red-600 rounded-md hover:bg-red-50"
+                    >
+                      View details
+                    </Link>
+                  }
+                />
+              ))}
+            </div>
+
+            {pagination && pagination.pages > 1 && (
+              <div className="flex items-center justify-between mt-6">
+                <button
+                  onClick={() => setPage((prev) => prev - 1)}
+                  disabled={!pagination.hasPrevPage}
+                  className="px-4 py-2 text-sm border border-gray-300 rounded-md bg-white disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {pagination.page} of {pagination.pages}
+                </span>
+                <button
+                  onClick={() => setPage((prev) => prev + 1)}
+                  disabled={!pagination.hasNextPage}
+                  className="px-4 py-2 text-sm border border-gray-300 rounded-md bg-white disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Drives;
@@ -1,10 +1,30 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { api } from '../services/api';
+import DriveCard from '../components/DriveCard';
+import type { Drive } from '../types';
 import { Heart, Users, Shield, MapPin, Phone, Clock } from 'lucide-react';
 
+const HOME_DRIVE_COUNT = 3;
+
 const Home: React.FC = () => {
   const { isAuthenticated, user } = useAuth();
+  const [drives, setDrives] = useState<Drive[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api.getDrives({ limit: HOME_DRIVE_COUNT })
+      .then((response) => {
+        if (!cancelled) setDrives(response.data);
+      })
+      .catch((error) => console.error('Upcoming drives error:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   return (
     <div className="min-h-screen">
@@ -106,6 +126,34 @@ const Home: React.FC = () => {
         </div>
       </section>
 
+      {/* Upcoming Drives Section */}
+      {drives.length > 0 && (
+        <section className="py-20 bg-gray-50">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="text-center mb-12">
+              <h2 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">
+                Upcoming Blood Drives
+              </h2>
+              <p className="text-xl text-gray-600">
+                Donation camps near you that need donors
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {drives.map((drive) => (
+                <DriveCard key={drive._id} drive={drive} />
+              ))}
+            </div>
+
+            <div className="text-center mt-8">
+              <Link to="/drives" className="text-blood-600 font-semibold hover:text-blood-700">
+                See all blood drives →
+              </Link>
+            </div>
+          </div>
+        </section>
+      )}
+
       {/* Statistics Section */}
       <section className="py-20 bg-gray-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
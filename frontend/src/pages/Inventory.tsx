@@ -0,0 +1,343 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BLOOD_GROUPS } from 'blood-donation-shared/compatibility';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import type { InventoryBatch, InventoryBatchFormData, InventoryResponse } from '../types';
+import { DONATION_TYPES, formatDate, getDonationTypeLabel, getErrorMessage } from '../utils';
+
+const emptyBatch: InventoryBatchFormData = {
+  bloodGroup: 'O+',
+  componentType: 'whole_blood',
+  units: 1,
+  expiresAt: '',
+  batchNumber: '',
+};
+
+const Inventory: React.FC = () => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+
+  const [inventory, setInventory] = useState<InventoryResponse | null>(null);
+  const [includeExpired, setIncludeExpired] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [newBatch, setNewBatch] = useState<InventoryBatchFormData>(emptyBatch);
+  const [saving, setSaving] = useState(false);
+  const [unitEdits, setUnitEdits] = useState<Record<string, number>>({});
+  const [threshold, setThreshold] = useState<number | ''>('');
+
+  const loadInventory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getInventory(includeExpired);
+      setInventory(data);
+      setThreshold(data.hospital.lowStockThreshold ?? '');
+      setUnitEdits({});
+    } catch (error) {
+      console.error('Error loading inventory:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [includeExpired, showToast]);
+
+  useEffect(() => {
+    loadInventory();
+  }, [loadInventory]);
+
+  const handleAddBatch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBatch.expiresAt) {
+      showToast('Please enter the expiry date', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.addInventoryBatch({
+        ...newBatch,
+        batchNumber: newBatch.batchNumber?.trim() || undefined,
+      });
+      showToast('Batch added', 'success');
+      setNewBatch(emptyBatch);
+      await loadInventory();
+    } catch (error) {
+      console.error('Error adding batch:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdateUnits = async (batch: InventoryBatch) => {
+    const units = unitEdits[batch._id];
+    if (units === undefined || units === batch.units) return;
+
+    try {
+      await api.updateInventoryBatch(batch._id, { units });
+      showToast('Batch updated', 'success');
+      await loadInventory();
+    } catch (error) {
+      console.error('Error updating batch:', error);
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleRemove = async (batch: InventoryBatch) => {
+    if (!window.confirm('Remove this batch from the inventory?')) return;
+
+    try {
+      await api.deleteInventoryBatch(batch._id);
+      showToast('Batch removed', 'success');
+      await loadInventory();
+    } catch (error) {
+      console.error('Error removing batch:', error);
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleSaveThreshold = async () => {
+    if (!user?.hospital || threshold === '') return;
+
+    try {
+      await api.updateHospital(user.hospital, { lowStockThreshold: threshold });
+      showToast('Low stock threshold saved', 'success');
+      await loadInventory();
+    } catch (error) {
+      console.error('Error saving threshold:', error);
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const lowStockThreshold = inventory?.hospital.lowStockThreshold ?? 0;
+  const now = Date.now();
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Blood Bank Inventory</h1>
+              <p className="mt-2 text-gray-600">
+                {inventory?.hospital.name ?? 'Your hospital'} • Stock published here is shown to requesters nearby.
+              </p>
+            </div>
+            <div className="flex items-end gap-2">
+              <div>
+                <label htmlFor="lowStockThreshold" className="block text-sm font-medium text-gray-700">
+                  Low stock threshold (units)
+                </label>
+                <input
+                  type="number"
+                  id="lowStockThreshold"
+                  min={0}
+                  max={500}
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value === '' ? '' : parseInt(e.target.value))}
+                  className="mt-1 w-32 border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={handleSaveThreshold}
+                className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+          <p className="mt-3 text-xs text-gray-500">
+            When stock of a blood group and component drops below the threshold, a low urgency restock drive is
+            created automatically to ask nearby donors to give.
+          </p>
+        </div>
+
+        {loading && !inventory ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+          </div>
+        ) : (
+          <>
+            {/* Stock Levels */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Current Stock</h2>
+              {inventory && inventory.stock.length > 0 ? (
+                <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+                  {inventory.stock.map((level) => (
+                    <div
+                      key={`${level.bloodGroup}-${level.componentType}`}
+                      className={`rounded-lg p-3 border ${
+                        level.units < lowStockThreshold ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'
+                      }`}
+                    >
+                      <div className="text-sm font-medium text-gray-900">{level.bloodGroup}</div>
+                      <div className="text-xs text-gray-500">{getDonationTypeLabel(level.componentType)}</div>
+                      <div className={`text-2xl font-bold ${level.units < lowStockThreshold ? 'text-red-600' : 'text-gray-900'}`}>
+                        {level.units}
+                      </div>
+                      {level.nextExpiry && (
+                        <div className="text-xs text-gray-500">Next expiry {formatDate(level.nextExpiry)}</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No stock recorded yet. Add your first batch below.</p>
+              )}
+            </div>
+
+            {/* Add Batch */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Add Batch</h2>
+              <form onSubmit={handleAddBatch} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+                <div>
+                  <label htmlFor="bloodGroup" className="block text-sm font-medium text-gray-700">Blood Group</label>
+                  <select
+                    id="bloodGroup"
+                    value={newBatch.bloodGroup}
+                    onChange={(e) => setNewBatch((prev) => ({ ...prev, bloodGroup: e.target.value as InventoryBatchFormData['bloodGroup'] }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    {BLOOD_GROUPS.map((group) => (
+                      <option key={group} value={group}>{group}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="componentType" className="block text-sm font-medium text-gray-700">Component</label>
+                  <select
+                    id="componentType"
+                    value={newBatch.componentType}
+                    onChange={(e) => setNewBatch((prev) => ({ ...prev, componentType: e.target.value as InventoryBatchFormData['componentType'] }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    {DONATION_TYPES.map((type) => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="units" className="block text-sm font-medium text-gray-700">Units</label>
+                  <input
+                    type="number"
+                    id="units"
+                    min={1}
+                    max={1000}
+                    value={newBatch.units}
+                    onChange={(e) => setNewBatch((prev) => ({ ...prev, units: parseInt(e.target.value) || 0 }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="expiresAt" className="block text-sm font-medium text-gray-700">Expires</label>
+                  <input
+                    type="date"
+                    id="expiresAt"
+                    min={new Date().toISOString().slice(0, 10)}
+                    value={newBatch.expiresAt}
+                    onChange={(e) => setNewBatch((prev) => ({ ...prev, expiresAt: e.target.value }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="batchNumber" className="block text-sm font-medium text-gray-700">Batch No.</label>
+                  <input
+                    type="text"
+                    id="batchNumber"
+                    value={newBatch.batchNumber}
+                    onChange={(e) => setNewBatch((prev) => ({ ...prev, batchNumber: e.target.value }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                    placeholder="Optional"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className={`px-4 py-2 text-white text-sm font-medium rounded-md ${
+                    saving ? 'bg-gray-400 cursor-not-allowed' : 'bg-red-600 hover:bg-red-700'
+                  }`}
+                >
+                  {saving ? 'Adding...' : 'Add Batch'}
+                </button>
+              </form>
+            </div>
+
+            {/* Batches */}
+            <div className="bg-white shadow rounded-lg">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <h2 className="text-lg font-medium text-gray-900">Batches</h2>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={includeExpired}
+                    onChange={(e) => setIncludeExpired(e.target.checked)}
+                    className="mr-2 rounded border-gray-300"
+                  />
+                  Show expired
+                </label>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Blood</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Updated</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {inventory?.batches.map((batch) => {
+                      const expired = new Date(batch.expiresAt).getTime() <= now;
+                      return (
+                        <tr key={batch._id} className={expired ? 'bg-gray-50 text-gray-400' : ''}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">{batch.bloodGroup}</div>
+                            <div className="text-xs text-gray-500">{getDonationTypeLabel(batch.componentType)}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <input
+                              type="number"
+                              min={0}
+                              max={1000}
+                              value={unitEdits[batch._id] ?? batch.units}
+                              onChange={(e) => setUnitEdits((prev) => ({ ...prev, [batch._id]: parseInt(e.target.value) || 0 }))}
+                              onBlur={() => handleUpdateUnits(batch)}
+                              className="w-20 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                            />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            {formatDate(batch.expiresAt)}
+                            {expired && <span className="ml-2 text-xs text-red-600">Expired</span>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{batch.batchNumber || '—'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatDate(batch.updatedAt)}
+                            {batch.updatedBy && <div className="text-xs">by {batch.updatedBy.name}</div>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <button onClick={() => handleRemove(batch)} className="text-red-600 hover:text-red-900">
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {inventory?.batches.length === 0 && (
+                <p className="p-6 text-sm text-center text-gray-500">No batches to show.</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Inventory;
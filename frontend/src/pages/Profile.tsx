@@ -1,16 +1,273 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { BLOOD_GROUPS } from 'blood-donation-shared/compatibility';
+import { MapPin, User as UserIcon } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import NotificationPreferences from '../components/NotificationPreferences';
+import DonationHistory from '../components/DonationHistory';
+import ChangePassword from '../components/ChangePassword';
+import PushNotifications from '../components/PushNotifications';
+import type { BloodGroup, User } from '../types';
+import { getCurrentLocation, getErrorMessage, validatePhoneNumber } from '../utils';
+
+interface ProfileFormData {
+  name: string;
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  coordinates: [number, number]; // [longitude, latitude]
+  isAvailable: boolean;
+  bloodGroup: BloodGroup | '';
+  medicalHistory: string;
+}
+
+const toFormData = (user: User): ProfileFormData => ({
+  name: user.name,
+  phone: user.phone,
+  address: user.location?.address || '',
+  city: user.location?.city || user.city || '',
+  state: user.location?.state || user.state || '',
+  coordinates: user.location?.coordinates || [0, 0],
+  isAvailable: user.isAvailable,
+  bloodGroup: user.bloodGroup || '',
+  medicalHistory: user.medicalHistory || '',
+});
+
+const inputClassName = (hasError?: boolean) =>
+  `mt-1 block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm disabled:bg-gray-100 disabled:text-gray-500 ${
+    hasError ? 'border-red-300' : 'border-gray-300'
+  }`;
 
 const Profile: React.FC = () => {
+  const { user, updateProfile } = useAuth();
+  const { showToast } = useToast();
+
+  const [formData, setFormData] = useState<ProfileFormData | null>(() => (user ? toFormData(user) : null));
+  const [errors, setErrors] = useState<Partial<Record<keyof ProfileFormData, string>>>({});
+  const [saving, setSaving] = useState(false);
+  const [locationLoading, setLocationLoading] = useState(false);
+
+  if (!user || !formData) {
+    return null;
+  }
+
+  const isDonor = user.role === 'donor';
+  // Once an admin verifies the account the blood group can only be corrected by them.
+  // Verifying the email address (emailVerified) does not lock it.
+  const bloodGroupLocked = user.isVerified && !!user.bloodGroup;
+
+  const update = <K extends keyof ProfileFormData>(key: K, value: ProfileFormData[K]) => {
+    setFormData((prev) => (prev ? { ...prev, [key]: value } : prev));
+    setErrors((prev) => ({ ...prev, [key]: '' }));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    update(e.target.name as 'name' | 'phone' | 'address' | 'city' | 'state' | 'medicalHistory', e.target.value);
+  };
+
+  const handleRefreshLocation = async () => {
+    setLocationLoading(true);
+    try {
+      const location = await getCurrentLocation();
+      update('coordinates', [location.longitude, location.latitude]);
+      showToast('Location updated. Save to keep it.', 'success');
+    } catch (error) {
+      console.error('Location error:', error);
+      showToast('Unable to get location. Please ensure location access is enabled.', 'error');
+    } finally {
+      setLocationLoading(false);
+    }
+  };
+
+  const validate = (): boolean => {
+    const newErrors: typeof errors = {};
+    if (formData.name.trim().length < 2) newErrors.name = 'Name must be at least 2 characters';
+    if (!validatePhoneNumber(formData.phone)) newErrors.phone = 'Please enter a valid phone number';
+    if (!formData.address.trim()) newErrors.address = 'Address is required';
+    if (!formData.city.trim()) newErrors.city = 'City is required';
+    if (!formData.state.trim()) newErrors.state = 'State is required';
+    if (isDonor && !formData.bloodGroup) newErrors.bloodGroup = 'Blood group is required for donors';
+    if (formData.medicalHistory.length > 500) newErrors.medicalHistory = 'Medical history cannot exceed 500 characters';
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    const updates: Partial<User> = {
+      name: formData.name.trim(),
+      phone: formData.phone.trim(),
+      city: formData.city.trim(),
+      state: formData.state.trim(),
+      location: {
+        type: 'Point',
+        coordinates: formData.coordinates,
+        address: formData.address.trim(),
+        city: formData.city.trim(),
+        state: formData.state.trim(),
+      },
+    };
+    if (isDonor) {
+      updates.isAvailable = formData.isAvailable;
+      updates.medicalHistory = formData.medicalHistory;
+      if (!bloodGroupLocked && formData.bloodGroup) {
+        updates.bloodGroup = formData.bloodGroup;
+      }
+    }
+
+    try {
+      setSaving(true);
+      const message = await updateProfile(updates);
+      showToast(message, 'success');
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const [longitude, latitude] = formData.coordinates;
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
         <h1 className="text-2xl font-bold text-gray-900 mb-8">Profile</h1>
-        <div className="bg-white rounded-lg shadow-md p-8">
-          <p className="text-center text-gray-600">Profile page coming soon...</p>
-        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <UserIcon className="h-5 w-5 mr-2 text-red-600" />
+              Your Details
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">{user.email}</p>
+          </div>
+
+          <div className="px-6 py-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700">Full name</label>
+                <input type="text" name="name" id="name" value={formData.name} onChange={handleChange} className={inputClassName(!!errors.name)} />
+                {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+              </div>
+              <div>
+                <label htmlFor="phone" className="block text-sm font-medium text-gray-700">Phone number</label>
+                <input type="tel" name="phone" id="phone" value={formData.phone} onChange={handleChange} className={inputClassName(!!errors.phone)} />
+                {errors.phone && <p className="mt-1 text-sm text-red-600">{errors.phone}</p>}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="address" className="block text-sm font-medium text-gray-700">Address</label>
+              <input type="text" name="address" id="address" value={formData.address} onChange={handleChange} className={inputClassName(!!errors.address)} />
+              {errors.address && <p className="mt-1 text-sm text-red-600">{errors.address}</p>}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="city" className="block text-sm font-medium text-gray-700">City</label>
+                <input type="text" name="city" id="city" value={formData.city} onChange={handleChange} className={inputClassName(!!errors.city)} />
+                {errors.city && <p className="mt-1 text-sm text-red-600">{errors.city}</p>}
+              </div>
+              <div>
+                <label htmlFor="state" className="block text-sm font-medium text-gray-700">State</label>
+                <input type="text" name="state" id="state" value={formData.state} onChange={handleChange} className={inputClassName(!!errors.state)} />
+                {errors.state && <p className="mt-1 text-sm text-red-600">{errors.state}</p>}
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-md bg-gray-50 px-4 py-3">
+              <p className="text-sm text-gray-600 flex items-center">
+                <MapPin className="h-4 w-4 mr-2 text-gray-400" />
+                {latitude.toFixed(4)}, {longitude.toFixed(4)}
+                <span className="ml-2 text-xs text-gray-400">used to match you with nearby requests</span>
+              </p>
+              <button
+                type="button"
+                onClick={handleRefreshLocation}
+                disabled={locationLoading}
+                className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {locationLoading ? 'Getting location...' : 'Use current location'}
+              </button>
+            </div>
+
+            {isDonor && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label htmlFor="bloodGroup" className="block text-sm font-medium text-gray-700">Blood group</label>
+                    <select
+                      name="bloodGroup"
+                      id="bloodGroup"
+                      value={formData.bloodGroup}
+                      disabled={bloodGroupLocked}
+                      onChange={(e) => update('bloodGroup', e.target.value as BloodGroup)}
+                      className={inputClassName(!!errors.bloodGroup)}
+                    >
+                      <option value="">Select blood group</option>
+                      {BLOOD_GROUPS.map((group) => (
+                        <option key={group} value={group}>{group}</option>
+                      ))}
+                    </select>
+                    {errors.bloodGroup && <p className="mt-1 text-sm text-red-600">{errors.bloodGroup}</p>}
+                    {bloodGroupLocked && (
+                      <p className="mt-1 text-xs text-gray-500">Verified by an administrator. Contact support to correct it.</p>
+                    )}
+                  </div>
+                  <div>
+                    <span className="block text-sm font-medium text-gray-700">Availability</span>
+                    <label className="mt-3 inline-flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.isAvailable}
+                        onChange={(e) => update('isAvailable', e.target.checked)}
+                        className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded mr-2"
+                      />
+                      Available to donate
+                    </label>
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="medicalHistory" className="block text-sm font-medium text-gray-700">Medical history</label>
+                  <textarea
+                    name="medicalHistory"
+                    id="medicalHistory"
+                    rows={3}
+                    maxLength={500}
+                    value={formData.medicalHistory}
+                    onChange={handleChange}
+                    className={inputClassName(!!errors.medicalHistory)}
+                    placeholder="Conditions or medication a blood bank should know about"
+                  />
+                  {errors.medicalHistory && <p className="mt-1 text-sm text-red-600">{errors.medicalHistory}</p>}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+
+        {isDonor && <DonationHistory />}
+        <PushNotifications />
+        {isDonor && <NotificationPreferences />}
+        <ChangePassword />
       </div>
     </div>
   );
 };
 
-export default Profile;
\ No newline at end of file
+export default Profile;
@@ -3,8 +3,9 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
 
-import { getCurrentLocation } from '../utils';
-import type { BloodGroup } from '../types';
+import HospitalPicker from '../components/HospitalPicker';
+import { DONATION_TYPES, getCurrentLocation } from '../utils';
+import type { BloodGroup, DonationType, HospitalRecord } from '../types';
 
 interface FormData {
   name: string;
@@ -13,7 +14,8 @@ interface FormData {
   confirmPassword: string;
   phone: string;
   bloodGroup: string;
-  role: 'donor' | 'requester';
+  donationPreferences: DonationType[];
+  role: 'donor' | 'requester' | 'hospital';
   address: string;
   city: string;
   state: string;
@@ -30,6 +32,7 @@ const Register: React.FC = () => {
     confirmPassword: '',
     phone: '',
     bloodGroup: '',
+    donationPreferences: ['whole_blood'],
     role: 'donor',
     address: '',
     city: '',
@@ -41,6 +44,7 @@ const Register: React.FC = () => {
   const [locationLoading, setLocationLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [step, setStep] = useState(1);
+  const [hospital, setHospital] = useState<HospitalRecord | null>(null);
 
   const { register: authRegister } = useAuth();
   const { showToast } = useToast();
@@ -95,6 +99,14 @@ const Register: React.FC = () => {
       newErrors.bloodGroup = 'Blood group is required for donors';
     }
 
+    if (formData.role === 'donor' && formData.donationPreferences.length === 0) {
+      newErrors.donationPreferences = 'Select at least one donation type';
+    }
+
+    if (formData.role === 'hospital' && !hospital) {
+      newErrors.hospital = 'Select the hospital you work for';
+    }
+
     // Address is required and must be 5-200 characters
     if (!formData.address.trim()) {
       newErrors.address = 'Address is required';
@@ -126,6 +138,22 @@ const Register: React.FC = () => {
     return Object.keys(newErrors).length === 0;
   };
 
+  const handlePreferenceToggle = (type: DonationType) => {
+    setFormData(prev => ({
+      ...prev,
+      donationPreferences: prev.donationPreferences.includes(type)
+        ? prev.donationPreferences.filter(preference => preference !== type)
+        : [...prev.donationPreferences, type]
+    }));
+
+    if (errors.donationPreferences) {
+      setErrors(prev => ({
+        ...prev,
+        donationPreferences: ''
+      }));
+    }
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -142,6 +170,22 @@ const Register: React.FC = () => {
     }
   };
 
+  // Hospital staff share their hospital's location
+  const handleHospitalChange = (selected: HospitalRecord | null) => {
+    setHospital(selected);
+    if (selected) {
+      setFormData(prev => ({
+        ...prev,
+        address: selected.location.address,
+        city: selected.location.city,
+        state: selected.location.state,
+        latitude: selected.location.coordinates[1],
+        longitude: selected.location.coordinates[0]
+      }));
+      setErrors(prev => ({ ...prev, hospital: '', address: '', city: '', state: '' }));
+    }
+  };
+
   const handleGetLocation = async () => {
     setLocationLoading(true);
     try {
@@ -190,7 +234,9 @@ const Register: React.FC = () => {
         password: formData.password,
         phone: formData.phone.trim(),
         role: formData.role,
+        hospitalId: formData.role === 'hospital' ? hospital?._id : undefined,
         bloodGroup: formData.role === 'donor' ? (formData.bloodGroup as BloodGroup) : undefined,
+        donationPreferences: formData.role === 'donor' ? formData.donationPreferences : undefined,
         location: {
           coordinates: [formData.longitude || 0, formData.latitude || 0] as [number, number],
           address: formData.address.trim(),
@@ -378,6 +424,17 @@ const Register: React.FC = () => {
                       />
                       <span className="ml-2 text-sm text-gray-700">Request blood</span>
                     </label>
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="role"
+                        value="hospital"
+                        checked={formData.role === 'hospital'}
+                        onChange={handleChange}
+                        className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">Request blood on behalf of a hospital</span>
+                    </label>
                   </div>
                 </div>
 
@@ -415,6 +472,45 @@ const Register: React.FC = () => {
                   </div>
                 )}
 
+                {formData.role === 'donor' && (
+                  <div>
+                    <span className="block text-sm font-medium text-gray-700">
+                      I am willing to donate *
+                    </span>
+                    <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {DONATION_TYPES.map(type => (
+                        <label key={type.value} className="flex items-start space-x-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={formData.donationPreferences.includes(type.value)}
+                            onChange={() => handlePreferenceToggle(type.value)}
+                            className="mt-0.5 h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                          />
+                          <span>
+                            <span className="text-gray-900">{type.label}</span>
+                            <span className="block text-xs text-gray-500">{type.description}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    {errors.donationPreferences && (
+                      <p className="mt-1 text-sm text-red-600">{errors.donationPreferences}</p>
+                    )}
+                  </div>
+                )}
+
+                {formData.role === 'hospital' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Hospital *
+                    </label>
+                    <HospitalPicker value={hospital} onChange={handleHospitalChange} error={errors.hospital} />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Requests you create will be linked to this hospital
+                    </p>
+                  </div>
+                )}
+
 
 
                 <div>
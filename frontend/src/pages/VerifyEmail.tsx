@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import LoadingSpinner from '../components/ui/LoadingSpinner';
+import VerifyEmailNotice from '../components/VerifyEmailNotice';
+import { getErrorMessage } from '../utils';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { isAuthenticated, isLoading, user, verifyEmail } = useAuth();
+
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  const [message, setMessage] = useState(token ? '' : 'This verification link is incomplete.');
+  // Links work once, so never submit the same token twice (e.g. when effects re-run)
+  const submittedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Wait for the session check so the signed-in user is updated as well
+    if (!token || isLoading || submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    verifyEmail(token)
+      .then((result) => {
+        setStatus('verified');
+        setMessage(result);
+      })
+      .catch((error) => {
+        setStatus('failed');
+        setMessage(getErrorMessage(error));
+      });
+  }, [token, isLoading, verifyEmail]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10 text-center">
+          {status === 'verifying' && (
+            <>
+              <LoadingSpinner size="lg" className="mx-auto" />
+              <p className="mt-4 text-gray-600">Verifying your email address...</p>
+            </>
+          )}
+
+          {status === 'verified' && (
+            <>
+              <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+              <h2 className="mt-4 text-2xl font-bold text-gray-900">Email verified</h2>
+              <p className="mt-2 text-gray-600">{message}</p>
+              <Link
+                to={isAuthenticated ? '/dashboard' : '/login'}
+                className="mt-6 inline-block px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+              >
+                {isAuthenticated ? 'Go to Dashboard' : 'Sign in'}
+              </Link>
+            </>
+          )}
+
+          {status === 'failed' && (
+            <>
+              <XCircle className="h-12 w-12 text-red-600 mx-auto" />
+              <h2 className="mt-4 text-2xl font-bold text-gray-900">Verification failed</h2>
+              <p className="mt-2 text-gray-600">{message}</p>
+              {isAuthenticated && user && !user.emailVerified ? (
+                <div className="mt-6 text-left">
+                  <VerifyEmailNotice compact />
+                </div>
+              ) : !isAuthenticated && (
+                <p className="mt-4 text-sm text-gray-500">
+                  <Link to="/login" className="font-medium text-red-600 hover:text-red-500">Sign in</Link>
+                  {' '}to request a new verification email.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -1,16 +1,184 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { BLOOD_GROUPS } from 'blood-donation-shared/compatibility';
+import { useToast } from '../../context/ToastContext';
+import { api } from '../../services/api';
+import type { ScarcityArea, ScarcityCell, ScarcityFilters, ScarcityLevel } from '../../types';
+import { getErrorMessage } from '../../utils';
+
+const levelStyles: Record<ScarcityLevel, string> = {
+  none: 'bg-gray-50 text-gray-400',
+  ok: 'bg-green-100 text-green-800',
+  low: 'bg-yellow-100 text-yellow-800',
+  shortage: 'bg-red-500 text-white',
+};
+
+const levelLabels: Record<ScarcityLevel, string> = {
+  none: 'No active demand',
+  ok: 'Well supplied',
+  low: 'Low supply',
+  shortage: 'Shortage',
+};
+
+const gridSizes = [0.1, 0.25, 0.5, 1, 2];
+
+const describeCell = (area: ScarcityArea, cell: ScarcityCell): string =>
+  `${cell.bloodGroup} in ${area.label}: ${cell.unitsNeeded} unit(s) needed across ${cell.requests} request(s), ` +
+  `${cell.compatibleDonors} compatible donor(s) available (${cell.donors} ${cell.bloodGroup})`;
 
 const AdminAnalytics: React.FC = () => {
+  const { showToast } = useToast();
+
+  const [areas, setAreas] = useState<ScarcityArea[]>([]);
+  const [filters, setFilters] = useState<ScarcityFilters>({ groupBy: 'city' });
+  const [shortagesOnly, setShortagesOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadHeatmap = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getScarcityHeatmap(filters);
+      setAreas(data.areas);
+    } catch (error) {
+      console.error('Error loading scarcity heatmap:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, showToast]);
+
+  useEffect(() => {
+    loadHeatmap();
+  }, [loadHeatmap]);
+
+  const shortages = areas.flatMap((area) =>
+    area.bloodGroups
+      .filter((cell) => cell.level === 'shortage')
+      .map((cell) => ({ area, cell }))
+  );
+  const visibleAreas = shortagesOnly ? areas.filter((area) => area.shortages > 0) : areas;
+
   return (
-    <div className="min-h-screen bg-gray-50 py-8">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <h1 className="text-2xl font-bold text-gray-900 mb-8">Admin Analytics</h1>
-        <div className="bg-white rounded-lg shadow-md p-8">
-          <p className="text-center text-gray-600">Admin analytics coming soon...</p>
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Blood Group Scarcity</h3>
+          <p className="text-sm text-gray-500">
+            Available eligible donors compared with units still needed by active requests.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={filters.groupBy}
+            onChange={(e) => setFilters((prev) => ({
+              ...prev,
+              groupBy: e.target.value as ScarcityFilters['groupBy'],
+              gridSize: e.target.value === 'grid' ? prev.gridSize ?? 0.5 : undefined,
+            }))}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="city">By City</option>
+            <option value="grid">By Grid Cell</option>
+          </select>
+          {filters.groupBy === 'grid' && (
+            <select
+              value={filters.gridSize}
+              onChange={(e) => setFilters((prev) => ({ ...prev, gridSize: parseFloat(e.target.value) }))}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {gridSizes.map((size) => (
+                <option key={size} value={size}>{size}° cells</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={shortagesOnly}
+              onChange={(e) => setShortagesOnly(e.target.checked)}
+              className="mr-2 rounded border-gray-300"
+            />
+            Shortages only
+          </label>
+        </div>
+      </div>
+
+      {shortages.length > 0 && (
+        <div className="border border-red-200 rounded-lg p-4 bg-red-50">
+          <p className="text-sm font-medium text-red-800 mb-2">
+            {shortages.length} shortage(s) where compatible donors cannot cover the units needed
+          </p>
+          <ul className="text-sm text-red-700 space-y-1">
+            {shortages.slice(0, 5).map(({ area, cell }) => (
+              <li key={`${area.key}-${cell.bloodGroup}`}>
+                <span className="font-medium">{cell.bloodGroup}</span> in {area.label}: {cell.unitsNeeded} unit(s) needed,{' '}
+                {cell.compatibleDonors} compatible donor(s)
+              </li>
+            ))}
+          </ul>
         </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {(Object.keys(levelLabels) as ScarcityLevel[]).map((level) => (
+          <span key={level} className="flex items-center">
+            <span className={`inline-block h-3 w-3 rounded mr-1 ${levelStyles[level]}`} />
+            {levelLabels[level]}
+          </span>
+        ))}
+        <span className="text-gray-400">Cells show compatible donors / units needed</span>
       </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Area</th>
+                  {BLOOD_GROUPS.map((bloodGroup) => (
+                    <th key={bloodGroup} className="px-2 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {bloodGroup}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleAreas.map((area) => (
+                  <tr key={area.key}>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{area.label}</div>
+                      <div className="text-xs text-gray-500">
+                        {area.totalDonors} donor(s) • {area.totalUnitsNeeded} unit(s) needed
+                      </div>
+                    </td>
+                    {area.bloodGroups.map((cell) => (
+                      <td key={cell.bloodGroup} className="px-1 py-1">
+                        <div
+                          title={describeCell(area, cell)}
+                          className={`rounded px-2 py-2 text-center text-xs font-medium ${levelStyles[cell.level]}`}
+                        >
+                          {cell.unitsNeeded > 0 ? `${cell.compatibleDonors}/${cell.unitsNeeded}` : cell.donors || '—'}
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {visibleAreas.length === 0 && (
+            <p className="p-6 text-sm text-center text-gray-500">
+              {shortagesOnly ? 'No areas currently have a shortage.' : 'No donors or active requests to analyse yet.'}
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
-export default AdminAnalytics;
\ No newline at end of file
+export default AdminAnalytics;
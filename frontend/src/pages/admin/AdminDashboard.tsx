@@ -1,16 +1,108 @@
 import React from 'react';
+import { Link, useOutletContext } from 'react-router-dom';
+import type { AdminOutletContext } from '../../types';
+import { formatDate, getStatusColor, getUrgencyColor } from '../../utils';
 
 const AdminDashboard: React.FC = () => {
+  const { dashboard } = useOutletContext<AdminOutletContext>();
+
+  if (!dashboard) {
+    return <p className="text-center text-gray-600">Dashboard data is unavailable.</p>;
+  }
+
+  const { users, requests, totalRequests, recentRequests } = dashboard;
+  const successRate = totalRequests > 0 ? Math.round((requests.fulfilled / totalRequests) * 100) : 0;
+
   return (
-    <div className="min-h-screen bg-gray-50 py-8">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <h1 className="text-2xl font-bold text-gray-900 mb-8">Admin Dashboard</h1>
-        <div className="bg-white rounded-lg shadow-md p-8">
-          <p className="text-center text-gray-600">Admin dashboard coming soon...</p>
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4">User Distribution</h3>
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Donors</span>
+              <span className="text-sm font-medium text-gray-900">{users.donors}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Requesters</span>
+              <span className="text-sm font-medium text-gray-900">{users.requesters}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Hospital Staff</span>
+              <span className="text-sm font-medium text-gray-900">{users.hospitals}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Admins</span>
+              <span className="text-sm font-medium text-gray-900">{users.admins}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Total Users</span>
+              <span className="text-sm font-medium text-gray-900">{dashboard.totalUsers}</span>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Request Analytics</h3>
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Success Rate</span>
+              <span className="text-sm font-medium text-gray-900">{successRate}%</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Active / Fulfilled</span>
+              <span className="text-sm font-medium text-gray-900">
+                {requests.active} / {requests.fulfilled}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Expired / Cancelled</span>
+              <span className="text-sm font-medium text-gray-900">
+                {requests.expired} / {requests.cancelled}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Awaiting Fraud Review</span>
+              <span className="text-sm font-medium text-red-600">{dashboard.fraudulentRequests.length}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Latest Requests</h3>
+          <Link to="/admin/requests" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            Manage requests
+          </Link>
+        </div>
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {recentRequests.length > 0 ? (
+            recentRequests.map((request) => (
+              <Link
+                key={request._id}
+                to={`/requests/${request._id}`}
+                className="flex items-center justify-between p-4 hover:bg-gray-50"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{request.patientName}</p>
+                  <p className="text-xs text-gray-500">
+                    {request.bloodGroup} • Created {formatDate(request.createdAt)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className={getUrgencyColor(request.urgency)}>{request.urgency}</span>
+                  <span className={getStatusColor(request.status)}>{request.status}</span>
+                </div>
+              </Link>
+            ))
+          ) : (
+            <p className="p-4 text-sm text-center text-gray-500">No requests yet.</p>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-export default AdminDashboard;
\ No newline at end of file
+export default AdminDashboard;
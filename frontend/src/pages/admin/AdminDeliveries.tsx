@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../../context/ToastContext';
+import { api } from '../../services/api';
+import Pagination from '../../components/ui/Pagination';
+import type {
+  ChannelInfo,
+  DeliveryFilters,
+  DeliveryStatus,
+  NotificationChannel,
+  NotificationDelivery,
+  PaginationInfo,
+} from '../../types';
+import { formatDateTime, formatRelativeTime, getErrorMessage } from '../../utils';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp',
+  push: 'Web Push',
+  webhook: 'Webhook',
+};
+
+const deliveryStatusStyles: Record<DeliveryStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  retrying: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const adapterStyles: Record<ChannelInfo['adapter'], { label: string; className: string }> = {
+  provider: { label: 'Provider', className: 'bg-green-100 text-green-800' },
+  local: { label: 'Local stand-in', className: 'bg-yellow-100 text-yellow-800' },
+  unavailable: { label: 'Not configured', className: 'bg-gray-100 text-gray-600' },
+};
+
+const AdminDeliveries: React.FC = () => {
+  const { showToast } = useToast();
+
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [channels, setChannels] = useState<ChannelInfo[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [filters, setFilters] = useState<DeliveryFilters>({ page: 1, limit: 20 });
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getDeliveries(filters);
+      setDeliveries(data.deliveries);
+      setChannels(data.channels);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error loading deliveries:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, showToast]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const updateFilter = <K extends keyof DeliveryFilters>(key: K, value: DeliveryFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value, page: 1 }));
+  };
+
+  const handleRetry = async (delivery: NotificationDelivery) => {
+    try {
+      setRetrying(delivery._id);
+      const { message, delivery: updated } = await api.retryDelivery(delivery._id);
+      showToast(message, updated.status === 'sent' ? 'success' : 'error');
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Error retrying delivery:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Channels</h3>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {channels.map((channel) => (
+            <div key={channel.name} className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-gray-900">{CHANNEL_LABELS[channel.name]}</p>
+              <span className={`mt-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${adapterStyles[channel.adapter].className}`}>
+                {adapterStyles[channel.adapter].label}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <h3 className="text-lg font-medium text-gray-900">Delivery History</h3>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={filters.channel ?? ''}
+              onChange={(e) => updateFilter('channel', (e.target.value || undefined) as DeliveryFilters['channel'])}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All Channels</option>
+              {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={filters.status ?? ''}
+              onChange={(e) => updateFilter('status', (e.target.value || undefined) as DeliveryFilters['status'])}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All Statuses</option>
+              <option value="sent">Sent</option>
+              <option value="retrying">Retrying</option>
+              <option value="failed">Failed</option>
+              <option value="pending">Pending</option>
+            </select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Message</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {deliveries.map((delivery) => (
+                    <tr key={delivery._id}>
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{delivery.template}</div>
+                        <div className="text-sm text-gray-500">{CHANNEL_LABELS[delivery.channel]}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-gray-900">{delivery.recipient?.name || '—'}</div>
+                        <div className="text-sm text-gray-500 break-all">{delivery.to}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${deliveryStatusStyles[delivery.status]}`}>
+                          {delivery.status}
+                        </span>
+                        {delivery.status === 'retrying' && delivery.nextAttemptAt && (
+                          <div className="text-xs text-gray-500 mt-1">Next try {formatRelativeTime(delivery.nextAttemptAt)}</div>
+                        )}
+                        {delivery.lastError && delivery.status !== 'sent' && (
+                          <div className="text-xs text-red-600 mt-1">{delivery.lastError}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{delivery.attempts}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDateTime(delivery.createdAt)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        {delivery.status === 'failed' && (
+                          <button
+                            onClick={() => handleRetry(delivery)}
+                            disabled={retrying !== null}
+                            className="text-blue-600 hover:text-blue-900 disabled:text-gray-400 disabled:cursor-not-allowed"
+                          >
+                            {retrying === delivery._id ? 'Retrying...' : 'Retry'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {deliveries.length === 0 && (
+              <p className="p-6 text-sm text-center text-gray-500">No deliveries match the selected filters.</p>
+            )}
+            <Pagination
+              pagination={pagination}
+              onPageChange={(page) => setFilters((prev) => ({ ...prev, page }))}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminDeliveries;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useOutletContext } from 'react-router-dom';
+import { useToast } from '../../context/ToastContext';
+import { api } from '../../services/api';
+import Pagination from '../../components/ui/Pagination';
+import type { AdminOutletContext, BloodRequest, PaginationInfo } from '../../types';
+import { formatDateTime, getErrorMessage } from '../../utils';
+
+// Requests scoring at or above this are queued for manual review
+const FRAUD_REVIEW_THRESHOLD = 50;
+
+const AdminFraud: React.FC = () => {
+  const { refreshDashboard } = useOutletContext<AdminOutletContext>();
+  const { showToast } = useToast();
+
+  const [requests, setRequests] = useState<BloodRequest[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  const loadFlagged = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getAdminRequests({
+        page,
+        limit: 10,
+        fraudScore: FRAUD_REVIEW_THRESHOLD,
+        reviewed: false,
+      });
+      setRequests(data.requests);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error loading flagged requests:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, showToast]);
+
+  useEffect(() => {
+    loadFlagged();
+  }, [loadFlagged]);
+
+  // Pick up newly flagged requests without a manual refresh
+  useEffect(() => {
+    return api.subscribe('request:fraud', (event) => {
+      showToast(`New request flagged for review: ${event.patientName} (score ${event.fraudScore})`, 'warning');
+      loadFlagged();
+      refreshDashboard();
+    });
+  }, [loadFlagged, refreshDashboard, showToast]);
+
+  const handleReview = async (request: BloodRequest, approve: boolean) => {
+    try {
+      await api.reviewFraud(request._id, {
+        isReviewed: true,
+        reviewNotes: approve ? 'Approved after manual review' : 'Rejected as fraudulent',
+      });
+      if (!approve && request.status === 'active') {
+        await api.updateRequestStatus(request._id, 'cancelled');
+      }
+      showToast(approve ? 'Request approved' : 'Request rejected and cancelled', 'success');
+      await Promise.all([loadFlagged(), refreshDashboard()]);
+    } catch (error) {
+      console.error('Error reviewing request:', error);
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium text-gray-900">Requests Awaiting Fraud Review</h3>
+
+      {requests.length === 0 ? (
+        <p className="py-8 text-sm text-center text-gray-500">No flagged requests awaiting review.</p>
+      ) : (
+        requests.map((request) => (
+          <div key={request._id} className="border border-red-200 rounded-lg p-4 bg-red-50">
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <div className="flex items-center space-x-2 mb-2">
+                  <Link to={`/requests/${request._id}`} className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                    {request.patientName}
+                  </Link>
+                  <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                    Fraud Score: {request.fraudCheck?.score ?? 0}%
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mb-2">
+                  {request.bloodGroup} • {request.hospital?.name} • {request.location?.city} • Created {formatDateTime(request.createdAt)}
+                </p>
+                {request.fraudCheck?.factors?.length > 0 && (
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-700 mb-1">Risk Factors:</p>
+                    <ul className="list-disc list-inside text-gray-600 space-y-1">
+                      {request.fraudCheck.factors.map((factor, index) => (
+                        <li key={index}>
+                          {factor.factor} <span className="text-gray-400">(+{factor.weight})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+              <div className="flex space-x-2 ml-4">
+                <button
+                  onClick={() => handleReview(request, true)}
+                  className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleReview(request, false)}
+                  className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          </div>
+        ))
+      )}
+
+      <Pagination pagination={pagination} onPageChange={setPage} />
+    </div>
+  );
+};
+
+export default AdminFraud;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../../context/ToastContext';
+import { api } from '../../services/api';
+import Pagination from '../../components/ui/Pagination';
+import type { AdminHospitalFilters, HospitalRecord, PaginationInfo } from '../../types';
+import { formatDate, getErrorMessage } from '../../utils';
+
+const AdminHospitals: React.FC = () => {
+  const { showToast } = useToast();
+
+  const [hospitals, setHospitals] = useState<HospitalRecord[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<AdminHospitalFilters>({ page: 1, limit: 20 });
+  const [searchInput, setSearchInput] = useState('');
+
+  const loadHospitals = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getAdminHospitals(filters);
+      setHospitals(data.hospitals);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error loading hospitals:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, showToast]);
+
+  useEffect(() => {
+    loadHospitals();
+  }, [loadHospitals]);
+
+  const updateFilter = <K extends keyof AdminHospitalFilters>(key: K, value: AdminHospitalFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value, page: 1 }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilter('search', searchInput.trim() || undefined);
+  };
+
+  const handleVerify = async (hospitalId: string, isVerified: boolean) => {
+    try {
+      await api.verifyHospital(hospitalId, isVerified);
+      showToast(`Hospital ${isVerified ? 'verified' : 'unverified'} successfully`, 'success');
+      await loadHospitals();
+    } catch (error) {
+      console.error('Error updating hospital verification:', error);
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <h3 className="text-lg font-medium text-gray-900">Hospitals</h3>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={filters.verified === undefined ? '' : String(filters.verified)}
+            onChange={(e) => updateFilter('verified', e.target.value === '' ? undefined : e.target.value === 'true')}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All Hospitals</option>
+            <option value="true">Verified</option>
+            <option value="false">Unverified</option>
+          </select>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Name or city"
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700"
+            >
+              Search
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hospital</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Blood Bank Contact</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Added</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {hospitals.map((hospital) => (
+                  <tr key={hospital._id}>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{hospital.name}</div>
+                      <div className="text-sm text-gray-500">
+                        {hospital.location.city}, {hospital.location.state} • {hospital.phone}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {hospital.bloodBankContact?.name || hospital.bloodBankContact?.phone ? (
+                        <>
+                          <div>{hospital.bloodBankContact.name}</div>
+                          <div className="text-gray-500">
+                            {[hospital.bloodBankContact.phone, hospital.bloodBankContact.email].filter(Boolean).join(' • ')}
+                          </div>
+                        </>
+                      ) : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        hospital.isVerified ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {hospital.isVerified ? 'Verified' : 'Unverified'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div>{hospital.createdAt ? formatDate(hospital.createdAt) : '—'}</div>
+                      {hospital.createdBy && <div className="text-xs">by {hospital.createdBy.name}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => handleVerify(hospital._id, !hospital.isVerified)}
+                        className={hospital.isVerified ? 'text-yellow-600 hover:text-yellow-900' : 'text-green-600 hover:text-green-900'}
+                      >
+                        {hospital.isVerified ? 'Unverify' : 'Verify'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {hospitals.length === 0 && (
+            <p className="p-6 text-sm text-center text-gray-500">No hospitals match the selected filters.</p>
+          )}
+          <Pagination
+            pagination={pagination}
+            onPageChange={(page) => setFilters((prev) => ({ ...prev, page }))}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminHospitals;
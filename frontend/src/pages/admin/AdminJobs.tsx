@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../../context/ToastContext';
+import { api } from '../../services/api';
+import Pagination from '../../components/ui/Pagination';
+import type { JobInfo, JobRun, JobRunFilters, JobRunStatus, PaginationInfo } from '../../types';
+import { formatDateTime, formatRelativeTime, getErrorMessage } from '../../utils';
+
+const runStatusStyles: Record<JobRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  success: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const formatInterval = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `Every ${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  return `Every ${hours} h`;
+};
+
+const formatDuration = (ms?: number): string => {
+  if (ms === undefined) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+// Job summaries are small flat objects such as { expired: 3 }
+const formatResult = (run: JobRun): string => {
+  if (run.error) return run.error;
+  if (!run.result) return '—';
+  return Object.entries(run.result)
+    .filter(([, value]) => typeof value !== 'object' || value === null)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ') || '—';
+};
+
+const AdminJobs: React.FC = () => {
+  const { showToast } = useToast();
+
+  const [jobs, setJobs] = useState<JobInfo[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [filters, setFilters] = useState<JobRunFilters>({ page: 1, limit: 20 });
+  const [loading, setLoading] = useState(true);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const data = await api.getAdminJobs();
+      setJobs(data.jobs);
+    } catch (error) {
+      console.error('Error loading jobs:', error);
+      showToast(getErrorMessage(error), 'error');
+    }
+  }, [showToast]);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getJobHistory(filters);
+      setRuns(data.runs);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error loading job history:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, showToast]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const updateFilter = <K extends keyof JobRunFilters>(key: K, value: JobRunFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value, page: 1 }));
+  };
+
+  const handleRun = async (name: string) => {
+    try {
+      setRunningJob(name);
+      const { message, run } = await api.runJob(name);
+      showToast(`${name}: ${message}`, run.status === 'success' ? 'success' : 'error');
+      await Promise.all([loadJobs(), loadHistory()]);
+    } catch (error) {
+      console.error('Error running job:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Background Jobs</h3>
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Schedule</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Run</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Run</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {jobs.map((job) => (
+                  <tr key={job.name}>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{job.name}</div>
+                      <div className="text-sm text-gray-500">{job.description}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatInterval(job.intervalMs)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {job.lastRun ? (
+                        <div className="flex items-center space-x-2">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${runStatusStyles[job.lastRun.status]}`}>
+                            {job.lastRun.status}
+                          </span>
+                          <span className="text-sm text-gray-500">{formatRelativeTime(job.lastRun.startedAt)}</span>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-400">Never</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {job.nextRunAt ? formatDateTime(job.nextRunAt) : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => handleRun(job.name)}
+                        disabled={job.running || runningJob !== null}
+                        className="text-blue-600 hover:text-blue-900 disabled:text-gray-400 disabled:cursor-not-allowed"
+                      >
+                        {job.running || runningJob === job.name ? 'Running...' : 'Run Now'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {jobs.length === 0 && (
+            <p className="p-6 text-sm text-center text-gray-500">No background jobs are registered.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <h3 className="text-lg font-medium text-gray-900">Run History</h3>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={filters.job ?? ''}
+              onChange={(e) => updateFilter('job', e.target.value || undefined)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All Jobs</option>
+              {jobs.map((job) => (
+                <option key={job.name} value={job.name}>{job.name}</option>
+              ))}
+            </select>
+            <select
+              value={filters.status ?? ''}
+              onChange={(e) => updateFilter('status', (e.target.value || undefined) as JobRunFilters['status'])}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All Statuses</option>
+              <option value="success">Success</option>
+              <option value="failed">Failed</option>
+              <option value="running">Running</option>
+            </select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trigger</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {runs.map((run) => (
+                    <tr key={run._id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{run.job}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${runStatusStyles[run.status]}`}>
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDateTime(run.startedAt)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDuration(run.durationMs)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {run.trigger === 'manual' ? `Manual${run.triggeredBy ? ` (${run.triggeredBy.name})` : ''}` : 'Scheduled'}
+                      </td>
+                      <td className={`px-6 py-4 text-sm ${run.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                        {formatResult(run)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {runs.length === 0 && (
+              <p className="p-6 text-sm text-center text-gray-500">No job runs match the selected filters.</p>
+            )}
+            <Pagination
+              pagination={pagination}
+              onPageChange={(page) => setFilters((prev) => ({ ...prev, page }))}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminJobs;
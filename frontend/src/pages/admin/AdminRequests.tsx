@@ -1,16 +1,218 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useOutletContext } from 'react-router-dom';
+import { useToast } from '../../context/ToastContext';
+import { api } from '../../services/api';
+import Pagination from '../../components/ui/Pagination';
+import type {
+  AdminOutletContext,
+  AdminRequestFilters,
+  BloodGroup,
+  BloodRequest,
+  DonationType,
+  PaginationInfo,
+} from '../../types';
+import {
+  DONATION_TYPES,
+  formatDate,
+  getDonationTypeLabel,
+  getErrorMessage,
+  getStatusColor,
+  getUrgencyColor,
+} from '../../utils';
+
+const bloodGroups: BloodGroup[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
 
 const AdminRequests: React.FC = () => {
+  const { refreshDashboard } = useOutletContext<AdminOutletContext>();
+  const { showToast } = useToast();
+
+  const [requests, setRequests] = useState<BloodRequest[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<AdminRequestFilters>({ page: 1, limit: 20 });
+  const [searchInput, setSearchInput] = useState('');
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getAdminRequests(filters);
+      setRequests(data.requests);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error loading requests:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, showToast]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const updateFilter = <K extends keyof AdminRequestFilters>(key: K, value: AdminRequestFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value, page: 1 }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilter('search', searchInput.trim() || undefined);
+  };
+
+  const handleStatusChange = async (requestId: string, status: BloodRequest['status']) => {
+    try {
+      await api.updateRequestStatus(requestId, status);
+      showToast(`Request marked as ${status}`, 'success');
+      await Promise.all([loadRequests(), refreshDashboard()]);
+    } catch (error) {
+      console.error('Error updating request status:', error);
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
   return (
-    <div className="min-h-screen bg-gray-50 py-8">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <h1 className="text-2xl font-bold text-gray-900 mb-8">Admin Requests</h1>
-        <div className="bg-white rounded-lg shadow-md p-8">
-          <p className="text-center text-gray-600">Admin requests management coming soon...</p>
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <h3 className="text-lg font-medium text-gray-900">Blood Requests</h3>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={filters.status ?? ''}
+            onChange={(e) => updateFilter('status', (e.target.value || undefined) as AdminRequestFilters['status'])}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All Statuses</option>
+            <option value="active">Active</option>
+            <option value="fulfilled">Fulfilled</option>
+            <option value="expired">Expired</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+          <select
+            value={filters.urgency ?? ''}
+            onChange={(e) => updateFilter('urgency', (e.target.value || undefined) as AdminRequestFilters['urgency'])}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All Urgencies</option>
+            <option value="critical">Critical</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <select
+            value={filters.bloodGroup ?? ''}
+            onChange={(e) => updateFilter('bloodGroup', (e.target.value || undefined) as BloodGroup | undefined)}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All Blood Groups</option>
+            {bloodGroups.map((group) => (
+              <option key={group} value={group}>{group}</option>
+            ))}
+          </select>
+          <select
+            value={filters.componentType ?? ''}
+            onChange={(e) => updateFilter('componentType', (e.target.value || undefined) as DonationType | undefined)}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All Components</option>
+            {DONATION_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Patient, hospital or city"
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700"
+            >
+              Search
+            </button>
+          </form>
         </div>
       </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Blood Group</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Urgency</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {requests.map((request) => (
+                  <tr key={request._id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Link to={`/requests/${request._id}`} className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                        {request.patientName}
+                      </Link>
+                      <div className="text-sm text-gray-500">{request.hospital?.name}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                        {request.bloodGroup}
+                      </span>
+                      <div className="text-xs text-gray-500">{getDonationTypeLabel(request.componentType)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={getUrgencyColor(request.urgency)}>{request.urgency}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={getStatusColor(request.status)}>{request.status}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(request.createdAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {request.status === 'active' ? (
+                        <div className="flex space-x-3">
+                          <button
+                            onClick={() => handleStatusChange(request._id, 'fulfilled')}
+                            className="text-green-600 hover:text-green-900"
+                          >
+                            Complete
+                          </button>
+                          <button
+                            onClick={() => handleStatusChange(request._id, 'cancelled')}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {requests.length === 0 && (
+            <p className="p-6 text-sm text-center text-gray-500">No requests match the selected filters.</p>
+          )}
+          <Pagination
+            pagination={pagination}
+            onPageChange={(page) => setFilters((prev) => ({ ...prev, page }))}
+          />
+        </div>
+      )}
     </div>
   );
 };
 
-export default AdminRequests;
\ No newline at end of file
+export default AdminRequests;
@@ -1,16 +1,217 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useOutletContext } from 'react-router-dom';
+import { useToast } from '../../context/ToastContext';
+import { api } from '../../services/api';
+import Pagination from '../../components/ui/Pagination';
+import type { AdminOutletContext, AdminUserFilters, PaginationInfo, User } from '../../types';
+import { formatDate, getErrorMessage } from '../../utils';
 
 const AdminUsers: React.FC = () => {
+  const { refreshDashboard } = useOutletContext<AdminOutletContext>();
+  const { showToast } = useToast();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<AdminUserFilters>({ page: 1, limit: 20 });
+  const [searchInput, setSearchInput] = useState('');
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getAdminUsers(filters);
+      setUsers(data.users);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error loading users:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, showToast]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const updateFilter = <K extends keyof AdminUserFilters>(key: K, value: AdminUserFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value, page: 1 }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilter('search', searchInput.trim() || undefined);
+  };
+
+  const handleVerify = async (userId: string, isVerified: boolean) => {
+    try {
+      await api.verifyUser(userId, isVerified);
+      showToast(`User ${isVerified ? 'verified' : 'unverified'} successfully`, 'success');
+      await Promise.all([loadUsers(), refreshDashboard()]);
+    } catch (error) {
+      console.error('Error updating user verification:', error);
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleHospitalApproval = async (userId: string, approved: boolean) => {
+    try {
+      const { message } = await api.setHospitalApproval(userId, approved);
+      showToast(message, 'success');
+      await loadUsers();
+    } catch (error) {
+      console.error('Error updating hospital approval:', error);
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
   return (
-    <div className="min-h-screen bg-gray-50 py-8">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <h1 className="text-2xl font-bold text-gray-900 mb-8">Admin Users</h1>
-        <div className="bg-white rounded-lg shadow-md p-8">
-          <p className="text-center text-gray-600">Admin users management coming soon...</p>
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <h3 className="text-lg font-medium text-gray-900">Users</h3>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={filters.role ?? ''}
+            onChange={(e) => updateFilter('role', (e.target.value || undefined) as AdminUserFilters['role'])}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All Roles</option>
+            <option value="donor">Donors</option>
+            <option value="requester">Requesters</option>
+            <option value="hospital">Hospital Staff</option>
+            <option value="admin">Admins</option>
+          </select>
+          <select
+            value={filters.verified === undefined ? '' : String(filters.verified)}
+            onChange={(e) => updateFilter('verified', e.target.value === '' ? undefined : e.target.value === 'true')}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">All Users</option>
+            <option value="true">Verified</option>
+            <option value="false">Unverified</option>
+          </select>
+          <select
+            value={filters.hospitalApproval ?? ''}
+            onChange={(e) => updateFilter('hospitalApproval', (e.target.value || undefined) as AdminUserFilters['hospitalApproval'])}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">Any Hospital Approval</option>
+            <option value="pending">Awaiting Approval</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+          </select>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Name or email"
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700"
+            >
+              Search
+            </button>
+          </form>
         </div>
       </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Blood Group</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Joined</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map((user) => (
+                  <tr key={user._id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                      <div className="text-sm text-gray-500">{user.email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        user.role === 'donor' ? 'bg-red-100 text-red-800' :
+                        user.role === 'admin' ? 'bg-purple-100 text-purple-800' :
+                        user.role === 'hospital' ? 'bg-teal-100 text-teal-800' : 'bg-blue-100 text-blue-800'
+                      }`}>
+                        {user.role}
+                      </span>
+                      {user.hospitalApproval && (
+                        <div className="mt-1 text-xs text-gray-500">
+                          {user.hospitalApproval.status === 'pending' ? 'Awaiting approval' : user.hospitalApproval.status}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {user.bloodGroup || '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        user.isVerified ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {user.isVerified ? 'Verified' : 'Unverified'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(user.createdAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {user.role !== 'admin' && (
+                        <button
+                          onClick={() => handleVerify(user._id, !user.isVerified)}
+                          className={user.isVerified ? 'text-yellow-600 hover:text-yellow-900' : 'text-green-600 hover:text-green-900'}
+                        >
+                          {user.isVerified ? 'Unverify' : 'Verify'}
+                        </button>
+                      )}
+                      {user.role === 'hospital' && user.hospitalApproval?.status !== 'approved' && (
+                        <button
+                          onClick={() => handleHospitalApproval(user._id, true)}
+                          className="ml-4 text-green-600 hover:text-green-900"
+                        >
+                          Approve hospital
+                        </button>
+                      )}
+                      {user.role === 'hospital' && user.hospitalApproval?.status !== 'rejected' && (
+                        <button
+                          onClick={() => handleHospitalApproval(user._id, false)}
+                          className="ml-4 text-red-600 hover:text-red-900"
+                        >
+                          {user.hospitalApproval?.status === 'approved' ? 'Revoke hospital' : 'Reject hospital'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {users.length === 0 && (
+            <p className="p-6 text-sm text-center text-gray-500">No users match the selected filters.</p>
+          )}
+          <Pagination
+            pagination={pagination}
+            onPageChange={(page) => setFilters((prev) => ({ ...prev, page }))}
+          />
+        </div>
+      )}
     </div>
   );
 };
 
-export default AdminUsers;
\ No newline at end of file
+export default AdminUsers;
@@ -1,28 +1,96 @@
 import axios from 'axios';
-import type { AxiosInstance, AxiosResponse } from 'axios';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import type {
   User,
   BloodRequest,
   AuthResponse,
+  AuthSession,
+  AuthTokens,
   BloodRequestsResponse,
   DonorsResponse,
   LoginFormData,
   RegisterFormData,
   BloodRequestFormData,
   BloodRequestFilters,
+  MyRequestFilters,
   DonorFilters,
   AdminDashboard,
   AdminAnalytics,
+  AdminUserFilters,
+  AdminRequestFilters,
+  AdminUsersResponse,
+  AdminRequestsResponse,
+  AdminHospitalFilters,
+  AdminHospitalsResponse,
+  HospitalRecord,
+  InventoryBatch,
+  InventoryBatchFormData,
+  InventoryResponse,
+  NearbyStockBank,
+  NearbyStockFilters,
+  Drive,
+  DriveAttendanceUpdate,
+  DriveFilters,
+  DriveFormData,
+  DriveRegistration,
+  DrivesResponse,
+  ScarcityFilters,
+  ScarcityHeatmapResponse,
+  JobInfo,
+  JobRun,
+  JobRunFilters,
+  JobRunsResponse,
+  DeliveriesResponse,
+  DeliveryFilters,
+  NotificationDelivery,
+  NotificationPreferences,
   DonorStats,
+  DonationRecord,
+  DonorEligibility,
+  AppointmentSlot,
+  AppointmentSlotFormData,
+  AppointmentsResponse,
+  AppNotification,
+  NotificationsResponse,
+  RealtimeEventHandler,
+  RealtimeEventType,
   ApiResponse,
 } from '../types';
+import { RealtimeClient } from './realtime';
+
+// A 401 from these means wrong credentials, not an expired access token
+const NO_REFRESH_URLS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/change-password',
+];
+
+// How long to wait for another tab to store the tokens it just refreshed
+const ROTATION_WAIT_MS = 1000;
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
 
 class ApiService {
   private api: AxiosInstance;
+  private realtime: RealtimeClient;
+  private baseURL: string;
+  // Shared by every request that hits a 401 while a refresh is under way
+  private refreshPromise: Promise<string> | null = null;
+  private sessionExpiredHandlers = new Set<() => void>();
 
   constructor() {
+    const baseURL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+    this.baseURL = baseURL;
+    this.realtime = new RealtimeClient(
+      `${baseURL}/events`,
+      () => this.getAuthToken(),
+      () => this.refreshAccessToken()
+    );
+
     this.api = axios.create({
-      baseURL: import.meta.env.VITE_API_URL || 'http://localhost:5000/api',
+      baseURL,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -30,7 +98,13 @@ class ApiService {
 
     // Request interceptor to add auth token
     this.api.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        // Hold new requests until a running refresh finishes so they do not
+        // go out with the old token
+        if (this.refreshPromise) {
+          await this.refreshPromise.catch(() => null);
+        }
+
         const token = localStorage.getItem('authToken');
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
@@ -42,20 +116,94 @@ class ApiService {
       }
     );
 
-    // Response interceptor to handle common errors
+    // Response interceptor to refresh expired access tokens and retry
     this.api.interceptors.response.use(
       (response: AxiosResponse) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          localStorage.removeItem('authToken');
-          localStorage.removeItem('userData');
-          window.location.href = '/login';
+      async (error) => {
+        const config = error.config as RetryableRequestConfig | undefined;
+
+        if (
+          error.response?.status !== 401 ||
+          !config ||
+          config._retried ||
+          NO_REFRESH_URLS.some((url) => config.url?.startsWith(url))
+        ) {
+          return Promise.reject(error);
+        }
+
+        if (!this.getRefreshToken()) {
+          if (this.getAuthToken()) {
+            this.expireSession();
+          }
+          return Promise.reject(error);
+        }
+
+        config._retried = true;
+        try {
+          const token = await this.refreshAccessToken();
+          config.headers.Authorization = `Bearer ${token}`;
+          return this.api(config);
+        } catch {
+          return Promise.reject(error);
         }
-        return Promise.reject(error);
       }
     );
   }
 
+  // Get a new access token, starting a refresh only if none is running
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestNewTokens().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestNewTokens(): Promise<string> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      throw new Error('No refresh token');
+    }
+
+    try {
+      // Plain axios so the call skips this instance's interceptors
+      const response = await axios.post<AuthTokens>(`${this.baseURL}/auth/refresh`, { refreshToken });
+      this.setAuthToken(response.data.token, response.data.refreshToken);
+      return response.data.token;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.data?.code === 'REFRESH_TOKEN_ROTATED') {
+        // Another tab refreshed with the same token first and stores the new pair
+        await new Promise((resolve) => setTimeout(resolve, ROTATION_WAIT_MS));
+      }
+
+      const storedToken = this.getRefreshToken();
+      const accessToken = this.getAuthToken();
+      if (storedToken && storedToken !== refreshToken && accessToken) {
+        return accessToken;
+      }
+
+      // Network and server errors may pass; a rejected token will not
+      if (axios.isAxiosError(error) && error.response && error.response.status < 500) {
+        this.expireSession();
+      }
+      throw error;
+    }
+  }
+
+  private expireSession(): void {
+    this.removeAuthToken();
+    this.sessionExpiredHandlers.forEach((handler) => handler());
+  }
+
+  // Called when the session can no longer be refreshed and the user has to log in again
+  onSessionExpired(handler: () => void): () => void {
+    this.sessionExpiredHandlers.add(handler);
+    return () => {
+      this.sessionExpiredHandlers.delete(handler);
+    };
+  }
+
   // Authentication APIs
   async login(data: LoginFormData): Promise<AuthResponse> {
     const response = await this.api.post<AuthResponse>('/auth/login', data);
@@ -67,13 +215,64 @@ class ApiService {
     return response.data;
   }
 
+  // Signs this device out; the tokens are cleared even if the call fails
+  async logout(): Promise<void> {
+    const refreshToken = this.getRefreshToken();
+    this.removeAuthToken();
+    if (refreshToken) {
+      await this.api.post('/auth/logout', { refreshToken });
+    }
+  }
+
+  async getSessions(): Promise<AuthSession[]> {
+    const response = await this.api.get<{ sessions: AuthSession[] }>('/auth/sessions');
+    return response.data.sessions;
+  }
+
+  async revokeSession(id: string): Promise<{ message: string }> {
+    const response = await this.api.delete<{ message: string }>(`/auth/sessions/${id}`);
+    return response.data;
+  }
+
+  async revokeOtherSessions(): Promise<{ message: string; revokedCount: number }> {
+    const response = await this.api.delete<{ message: string; revokedCount: number }>('/auth/sessions');
+    return response.data;
+  }
+
   async getCurrentUser(): Promise<User> {
     const response = await this.api.get<User>('/auth/me');
     return response.data;
   }
 
-  async updateProfile(data: Partial<User>): Promise<ApiResponse<User>> {
-    const response = await this.api.put<ApiResponse<User>>('/auth/profile', data);
+  async updateProfile(data: Partial<User>): Promise<{ message: string; user: User }> {
+    const response = await this.api.put<{ message: string; user: User }>('/auth/profile', data);
+    return response.data;
+  }
+
+  async updateNotificationPreferences(
+    preferences: Partial<NotificationPreferences>
+  ): Promise<{ message: string; user: User }> {
+    const response = await this.api.put<{ message: string; user: User }>('/auth/notification-preferences', preferences);
+    return response.data;
+  }
+
+  async verifyEmail(token: string): Promise<{ message: string; user: User }> {
+    const response = await this.api.post<{ message: string; user: User }>('/auth/verify-email', { token });
+    return response.data;
+  }
+
+  async resendVerification(): Promise<{ message: string }> {
+    const response = await this.api.post<{ message: string }>('/auth/resend-verification');
+    return response.data;
+  }
+
+  async forgotPassword(email: string): Promise<{ message: string }> {
+    const response = await this.api.post<{ message: string }>('/auth/forgot-password', { email });
+    return response.data;
+  }
+
+  async resetPassword(token: string, password: string): Promise<{ message: string }> {
+    const response = await this.api.post<{ message: string }>('/auth/reset-password', { token, password });
     return response.data;
   }
 
@@ -109,19 +308,42 @@ class ApiService {
     return response.data;
   }
 
-  async getNearbyRequests(radius?: number): Promise<{ nearbyRequests: BloodRequest[]; donor: any }> {
+  async getNearbyRequests(radius?: number): Promise<{ nearbyRequests: BloodRequest[]; donor: DonorEligibility }> {
     const params = radius ? `?radius=${radius}` : '';
-    const response = await this.api.get<{ nearbyRequests: BloodRequest[]; donor: any }>(`/blood-requests/nearby${params}`);
+    const response = await this.api.get<{ nearbyRequests: BloodRequest[]; donor: DonorEligibility }>(`/blood-requests/nearby${params}`);
     return response.data;
   }
 
-  async getUserRequests(): Promise<ApiResponse<BloodRequest[]>> {
-    const response = await this.api.get<ApiResponse<BloodRequest[]>>('/blood-requests/my-requests');
+  async getUserRequests(filters?: MyRequestFilters): Promise<ApiResponse<BloodRequest[]>> {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await this.api.get<ApiResponse<BloodRequest[]>>(`/blood-requests/my-requests?${params}`);
     return response.data;
   }
 
-  async getAllRequests(): Promise<ApiResponse<BloodRequest[]>> {
-    const response = await this.api.get<ApiResponse<BloodRequest[]>>('/blood-requests/all');
+  async getMyDonations(page = 1, limit = 10): Promise<ApiResponse<DonationRecord[]>> {
+    const response = await this.api.get<ApiResponse<DonationRecord[]>>(
+      `/blood-requests/my-donations?page=${page}&limit=${limit}`
+    );
+    return response.data;
+  }
+
+  async getAllRequests(filters?: BloodRequestFilters): Promise<ApiResponse<BloodRequest[]>> {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await this.api.get<ApiResponse<BloodRequest[]>>(`/blood-requests/all?${params}`);
     return response.data;
   }
 
@@ -141,6 +363,19 @@ class ApiService {
     return response.data;
   }
 
+  async updateResponseStatus(
+    requestId: string,
+    responseId: string,
+    status: 'confirmed' | 'declined' | 'donated',
+    units?: number
+  ): Promise<ApiResponse<BloodRequest>> {
+    const response = await this.api.put<ApiResponse<BloodRequest>>(
+      `/blood-requests/${requestId}/responses/${responseId}`,
+      { status, units }
+    );
+    return response.data;
+  }
+
   async updateBloodRequest(
     requestId: string,
     data: Partial<BloodRequest>
@@ -152,6 +387,117 @@ class ApiService {
     return response.data;
   }
 
+  // Appointment APIs
+  async getMyAppointments(upcoming = true): Promise<AppointmentsResponse> {
+    const response = await this.api.get<AppointmentsResponse>(`/appointments/my?upcoming=${upcoming}`);
+    return response.data;
+  }
+
+  async getRequestSlots(requestId: string): Promise<AppointmentsResponse> {
+    const response = await this.api.get<AppointmentsResponse>(`/appointments/request/${requestId}`);
+    return response.data;
+  }
+
+  async createSlot(
+    requestId: string,
+    data: AppointmentSlotFormData
+  ): Promise<{ message: string; appointment: AppointmentSlot }> {
+    const response = await this.api.post<{ message: string; appointment: AppointmentSlot }>(
+      `/appointments/request/${requestId}`,
+      data
+    );
+    return response.data;
+  }
+
+  async updateSlot(
+    appointmentId: string,
+    data: AppointmentSlotFormData
+  ): Promise<{ message: string; appointment: AppointmentSlot }> {
+    const response = await this.api.put<{ message: string; appointment: AppointmentSlot }>(
+      `/appointments/${appointmentId}`,
+      data
+    );
+    return response.data;
+  }
+
+  async bookSlot(appointmentId: string): Promise<{ message: string; appointment: AppointmentSlot }> {
+    const response = await this.api.post<{ message: string; appointment: AppointmentSlot }>(
+      `/appointments/${appointmentId}/book`
+    );
+    return response.data;
+  }
+
+  async rescheduleAppointment(
+    appointmentId: string,
+    slotId: string
+  ): Promise<{ message: string; appointment: AppointmentSlot }> {
+    const response = await this.api.post<{ message: string; appointment: AppointmentSlot }>(
+      `/appointments/${appointmentId}/reschedule`,
+      { slotId }
+    );
+    return response.data;
+  }
+
+  async cancelAppointment(
+    appointmentId: string,
+    reason?: string
+  ): Promise<{ message: string; appointment: AppointmentSlot }> {
+    const response = await this.api.post<{ message: string; appointment: AppointmentSlot }>(
+      `/appointments/${appointmentId}/cancel`,
+      { reason }
+    );
+    return response.data;
+  }
+
+  // Notification APIs
+  async getNotifications(params?: { page?: number; limit?: number; unreadOnly?: boolean }): Promise<NotificationsResponse> {
+    const query = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          query.append(key, value.toString());
+        }
+      });
+    }
+    const response = await this.api.get<NotificationsResponse>(`/notifications?${query}`);
+    return response.data;
+  }
+
+  async getUnreadNotificationCount(): Promise<number> {
+    const response = await this.api.get<{ unreadCount: number }>('/notifications/unread-count');
+    return response.data.unreadCount;
+  }
+
+  async markNotificationRead(notificationId: string): Promise<{ message: string; notification: AppNotification }> {
+    const response = await this.api.put<{ message: string; notification: AppNotification }>(
+      `/notifications/${notificationId}/read`
+    );
+    return response.data;
+  }
+
+  async markAllNotificationsRead(): Promise<{ message: string; updated: number }> {
+    const response = await this.api.put<{ message: string; updated: number }>('/notifications/read-all');
+    return response.data;
+  }
+
+  // Web Push APIs
+  async getPushPublicKey(): Promise<string | null> {
+    const response = await this.api.get<{ publicKey: string | null }>('/notifications/push/public-key');
+    return response.data.publicKey;
+  }
+
+  async savePushSubscription(subscription: PushSubscriptionJSON): Promise<{ message: string }> {
+    const response = await this.api.post<{ message: string }>('/notifications/push/subscriptions', subscription);
+    return response.data;
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<{ message: string }> {
+    const response = await this.api.delete<{ message: string }>('/notifications/push/subscriptions', {
+      data: { endpoint },
+    });
+    return response.data;
+  }
+
   // Donor APIs
   async getDonors(filters?: DonorFilters): Promise<DonorsResponse> {
     const params = new URLSearchParams();
@@ -190,19 +536,143 @@ class ApiService {
     return response.data;
   }
 
+  // Hospital APIs
+  async searchHospitals(
+    q: string,
+    coords?: { lat: number; lng: number }
+  ): Promise<{ hospitals: HospitalRecord[] }> {
+    const params = new URLSearchParams();
+    if (q) {
+      params.append('q', q);
+    }
+    if (coords) {
+      params.append('lat', coords.lat.toString());
+      params.append('lng', coords.lng.toString());
+    }
+    const response = await this.api.get<{ hospitals: HospitalRecord[] }>(`/hospitals/search?${params}`);
+    return response.data;
+  }
+
+  async getHospital(id: string): Promise<HospitalRecord> {
+    const response = await this.api.get<HospitalRecord>(`/hospitals/${id}`);
+    return response.data;
+  }
+
+  async updateHospital(
+    hospitalId: string,
+    data: Partial<Pick<HospitalRecord, 'phone' | 'bloodBankContact' | 'lowStockThreshold'>>
+  ): Promise<{ message: string; hospital: HospitalRecord }> {
+    const response = await this.api.put<{ message: string; hospital: HospitalRecord }>(`/hospitals/${hospitalId}`, data);
+    return response.data;
+  }
+
+  // Inventory APIs
+  async getNearbyStock(filters: NearbyStockFilters): Promise<{ banks: NearbyStockBank[] }> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        params.append(key, value.toString());
+      }
+    });
+    const response = await this.api.get<{ banks: NearbyStockBank[] }>(`/inventory/nearby?${params}`);
+    return response.data;
+  }
+
+  async getInventory(includeExpired = false): Promise<InventoryResponse> {
+    const response = await this.api.get<InventoryResponse>(`/inventory?includeExpired=${includeExpired}`);
+    return response.data;
+  }
+
+  async addInventoryBatch(data: InventoryBatchFormData): Promise<{ message: string; item: InventoryBatch }> {
+    const response = await this.api.post<{ message: string; item: InventoryBatch }>('/inventory', data);
+    return response.data;
+  }
+
+  async updateInventoryBatch(
+    batchId: string,
+    data: Partial<Pick<InventoryBatch, 'units' | 'expiresAt' | 'batchNumber'>>
+  ): Promise<{ message: string; item: InventoryBatch }> {
+    const response = await this.api.put<{ message: string; item: InventoryBatch }>(`/inventory/${batchId}`, data);
+    return response.data;
+  }
+
+  async deleteInventoryBatch(batchId: string): Promise<{ message: string }> {
+    const response = await this.api.delete<{ message: string }>(`/inventory/${batchId}`);
+    return response.data;
+  }
+
+  // Blood Drive APIs
+  async getDrives(filters?: DriveFilters): Promise<DrivesResponse> {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await this.api.get<DrivesResponse>(`/drives?${params}`);
+    return response.data;
+  }
+
+  async getNearbyDrives(radius?: number): Promise<{ nearbyDrives: Drive[] }> {
+    const params = radius ? `?radius=${radius}` : '';
+    const response = await this.api.get<{ nearbyDrives: Drive[] }>(`/drives/nearby${params}`);
+    return response.data;
+  }
+
+  async getMyDriveRegistrations(): Promise<{ drives: Drive[] }> {
+    const response = await this.api.get<{ drives: Drive[] }>('/drives/my-registrations');
+    return response.data;
+  }
+
+  async getDrive(id: string): Promise<Drive> {
+    const response = await this.api.get<{ drive: Drive }>(`/drives/${id}`);
+    return response.data.drive;
+  }
+
+  async createDrive(data: DriveFormData): Promise<{ message: string; drive: Drive }> {
+    const response = await this.api.post<{ message: string; drive: Drive }>('/drives', data);
+    return response.data;
+  }
+
+  async cancelDrive(id: string, cancellationReason?: string): Promise<{ message: string; drive: Drive }> {
+    const response = await this.api.put<{ message: string; drive: Drive }>(`/drives/${id}`, {
+      status: 'cancelled',
+      cancellationReason,
+    });
+    return response.data;
+  }
+
+  async registerForDrive(id: string): Promise<{ message: string; drive: Drive }> {
+    const response = await this.api.post<{ message: string; drive: Drive }>(`/drives/${id}/register`);
+    return response.data;
+  }
+
+  async cancelDriveRegistration(id: string): Promise<{ message: string; drive: Drive }> {
+    const response = await this.api.delete<{ message: string; drive: Drive }>(`/drives/${id}/register`);
+    return response.data;
+  }
+
+  async updateDriveRegistration(
+    driveId: string,
+    registrationId: string,
+    data: DriveAttendanceUpdate
+  ): Promise<{ message: string; registration: DriveRegistration }> {
+    const response = await this.api.put<{ message: string; registration: DriveRegistration }>(
+      `/drives/${driveId}/registrations/${registrationId}`,
+      data
+    );
+    return response.data;
+  }
+
   // Admin APIs
   async getAdminDashboard(): Promise<AdminDashboard> {
     const response = await this.api.get<AdminDashboard>('/admin/dashboard');
     return response.data;
   }
 
-  async getAdminUsers(filters?: {
-    page?: number;
-    limit?: number;
-    role?: string;
-    verified?: boolean;
-    search?: string;
-  }): Promise<{ users: User[]; pagination: any }> {
+  async getAdminUsers(filters?: AdminUserFilters): Promise<AdminUsersResponse> {
     const params = new URLSearchParams();
     if (filters) {
       Object.entries(filters).forEach(([key, value]) => {
@@ -211,18 +681,11 @@ class ApiService {
         }
       });
     }
-    const response = await this.api.get(`/admin/users?${params}`);
+    const response = await this.api.get<AdminUsersResponse>(`/admin/users?${params}`);
     return response.data;
   }
 
-  async getAdminRequests(filters?: {
-    page?: number;
-    limit?: number;
-    status?: string;
-    urgency?: string;
-    bloodGroup?: string;
-    fraudScore?: number;
-  }): Promise<{ requests: BloodRequest[]; pagination: any }> {
+  async getAdminRequests(filters?: AdminRequestFilters): Promise<AdminRequestsResponse> {
     const params = new URLSearchParams();
     if (filters) {
       Object.entries(filters).forEach(([key, value]) => {
@@ -231,7 +694,7 @@ class ApiService {
         }
       });
     }
-    const response = await this.api.get(`/admin/requests?${params}`);
+    const response = await this.api.get<AdminRequestsResponse>(`/admin/requests?${params}`);
     return response.data;
   }
 
@@ -242,6 +705,34 @@ class ApiService {
     return response.data;
   }
 
+  async setHospitalApproval(userId: string, approved: boolean): Promise<{ message: string; user: User }> {
+    const response = await this.api.put<{ message: string; user: User }>(`/admin/users/${userId}/hospital-approval`, {
+      approved,
+    });
+    return response.data;
+  }
+
+  async getAdminHospitals(filters?: AdminHospitalFilters): Promise<AdminHospitalsResponse> {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await this.api.get<AdminHospitalsResponse>(`/admin/hospitals?${params}`);
+    return response.data;
+  }
+
+  async verifyHospital(hospitalId: string, isVerified: boolean): Promise<{ message: string; hospital: HospitalRecord }> {
+    const response = await this.api.put<{ message: string; hospital: HospitalRecord }>(
+      `/admin/hospitals/${hospitalId}/verify`,
+      { isVerified }
+    );
+    return response.data;
+  }
+
   async reviewFraud(
     requestId: string,
     data: { isReviewed: boolean; reviewNotes?: string }
@@ -279,22 +770,91 @@ class ApiService {
     return response.data;
   }
 
+  async getScarcityHeatmap(filters?: ScarcityFilters): Promise<ScarcityHeatmapResponse> {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await this.api.get<ScarcityHeatmapResponse>(`/admin/analytics/scarcity?${params}`);
+    return response.data;
+  }
+
+  async getAdminJobs(): Promise<{ jobs: JobInfo[] }> {
+    const response = await this.api.get<{ jobs: JobInfo[] }>('/admin/jobs');
+    return response.data;
+  }
+
+  async getJobHistory(filters?: JobRunFilters): Promise<JobRunsResponse> {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await this.api.get<JobRunsResponse>(`/admin/jobs/history?${params}`);
+    return response.data;
+  }
+
+  async runJob(name: string): Promise<{ message: string; run: JobRun }> {
+    const response = await this.api.post<{ message: string; run: JobRun }>(`/admin/jobs/${name}/run`);
+    return response.data;
+  }
+
+  async getDeliveries(filters?: DeliveryFilters): Promise<DeliveriesResponse> {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, value.toString());
+        }
+      });
+    }
+    const response = await this.api.get<DeliveriesResponse>(`/admin/deliveries?${params}`);
+    return response.data;
+  }
+
+  async retryDelivery(id: string): Promise<{ message: string; delivery: NotificationDelivery }> {
+    const response = await this.api.post<{ message: string; delivery: NotificationDelivery }>(`/admin/deliveries/${id}/retry`);
+    return response.data;
+  }
+
   // Utility methods
-  setAuthToken(token: string): void {
+  setAuthToken(token: string, refreshToken?: string): void {
     localStorage.setItem('authToken', token);
+    if (refreshToken) {
+      localStorage.setItem('refreshToken', refreshToken);
+    }
   }
 
   removeAuthToken(): void {
     localStorage.removeItem('authToken');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('userData');
+    this.realtime.disconnect();
   }
 
   getAuthToken(): string | null {
     return localStorage.getItem('authToken');
   }
 
+  getRefreshToken(): string | null {
+    return localStorage.getItem('refreshToken');
+  }
+
+  // An expired access token is fine as long as it can be refreshed
   isAuthenticated(): boolean {
-    return !!this.getAuthToken();
+    return !!(this.getAuthToken() || this.getRefreshToken());
+  }
+
+  // Realtime events
+  subscribe<E extends RealtimeEventType>(event: E, handler: RealtimeEventHandler<E>): () => void {
+    return this.realtime.subscribe(event, handler as RealtimeEventHandler);
   }
 
   // Geolocation utilities
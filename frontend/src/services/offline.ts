@@ -0,0 +1,78 @@
+import type { QueuedAction } from '../types';
+
+const DB_NAME = 'blood-donation-offline';
+const DB_VERSION = 1;
+const STORE = 'actions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request against the actions store and resolve with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Actions taken while offline, kept in IndexedDB until they can be sent.
+ * Actions are stored per user and replayed in the order they were queued.
+ */
+export const offlineQueue = {
+  async add(action: Omit<QueuedAction, 'id' | 'queuedAt' | 'serverErrors'>): Promise<QueuedAction> {
+    const queued = { ...action, queuedAt: new Date().toISOString(), serverErrors: 0 };
+    const id = await withStore('readwrite', (store) => store.add(queued));
+    return { ...queued, id: id as number };
+  },
+
+  async list(userId: string): Promise<QueuedAction[]> {
+    const actions = await withStore<QueuedAction[]>('readonly', (store) => store.getAll());
+    return actions.filter((action) => action.userId === userId).sort((a, b) => a.id - b.id);
+  },
+
+  async update(action: QueuedAction): Promise<void> {
+    await withStore('readwrite', (store) => store.put(action));
+  },
+
+  async remove(id: number): Promise<void> {
+    await withStore('readwrite', (store) => store.delete(id));
+  },
+
+  async clear(): Promise<void> {
+    await withStore('readwrite', (store) => store.clear());
+  },
+};
+
+/**
+ * Forget everything kept for offline use: the action queue and the API
+ * responses the service worker cached for the signed-in user
+ */
+export const clearOfflineData = async (): Promise<void> => {
+  await offlineQueue.clear();
+  if ('serviceWorker' in navigator) {
+    const registration = await navigator.serviceWorker.getRegistration();
+    registration?.active?.postMessage({ type: 'CLEAR_USER_DATA' });
+  }
+};
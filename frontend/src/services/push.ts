@@ -0,0 +1,73 @@
+import { api } from './api';
+
+export type PushStatus = 'unsupported' | 'unavailable' | 'denied' | 'disabled' | 'enabled';
+
+export const isPushSupported = (): boolean =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// The VAPID public key comes base64url-encoded; subscribe() wants the raw bytes
+const decodeKey = (key: string): Uint8Array<ArrayBuffer> => {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const getCurrentSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+};
+
+/**
+ * Whether this browser gets push notifications for the signed-in user.
+ * 'unavailable' means the server has no VAPID key configured.
+ */
+export const getPushStatus = async (): Promise<PushStatus> => {
+  if (!isPushSupported()) return 'unsupported';
+  if (!(await api.getPushPublicKey())) return 'unavailable';
+  if (Notification.permission === 'denied') return 'denied';
+  return (await getCurrentSubscription()) ? 'enabled' : 'disabled';
+};
+
+/**
+ * Ask for permission, subscribe this browser and register it with the server.
+ * An existing subscription is registered again, since the server drops it when
+ * the session that saved it signs out.
+ */
+export const enablePush = async (): Promise<string> => {
+  const publicKey = await api.getPushPublicKey();
+  if (!publicKey) {
+    throw new Error('Push notifications are not set up on this server');
+  }
+  if ((await Notification.requestPermission()) !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeKey(publicKey),
+    }));
+
+  const { message } = await api.savePushSubscription(subscription.toJSON());
+  return message;
+};
+
+export const disablePush = async (): Promise<string> => {
+  const subscription = await getCurrentSubscription();
+  if (!subscription) return 'Push notifications are already off on this device';
+
+  const { message } = await api.deletePushSubscription(subscription.endpoint);
+  await subscription.unsubscribe();
+  return message;
+};
+
+/**
+ * Drop this browser's subscription without telling the server, e.g. on
+ * logout, where revoking the session already removes it server-side
+ */
+export const forgetPushSubscription = async (): Promise<void> => {
+  if (!isPushSupported()) return;
+  const subscription = await getCurrentSubscription();
+  await subscription?.unsubscribe();
+};
@@ -0,0 +1,165 @@
+import type { RealtimeEventHandler, RealtimeEventType } from '../types';
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+/**
+ * Server-Sent Events client for /api/events.
+ *
+ * EventSource cannot send an Authorization header, so the stream is read with
+ * fetch instead, using the same bearer token as the REST calls. The connection
+ * is opened while at least one handler is subscribed and reconnects with
+ * exponential backoff when it drops. An expired token is refreshed before
+ * reconnecting.
+ */
+export class RealtimeClient {
+  private handlers = new Map<RealtimeEventType, Set<RealtimeEventHandler>>();
+  private controller: AbortController | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = INITIAL_RETRY_MS;
+  private url: string;
+  private getToken: () => string | null;
+  private refreshToken: () => Promise<unknown>;
+
+  constructor(url: string, getToken: () => string | null, refreshToken: () => Promise<unknown>) {
+    this.url = url;
+    this.getToken = getToken;
+    this.refreshToken = refreshToken;
+  }
+
+  subscribe(event: RealtimeEventType, handler: RealtimeEventHandler): () => void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    this.connect();
+
+    return () => {
+      this.handlers.get(event)?.delete(handler);
+      if (this.handlerCount() === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  disconnect(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+    this.retryDelay = INITIAL_RETRY_MS;
+  }
+
+  private handlerCount(): number {
+    let count = 0;
+    this.handlers.forEach((set) => {
+      count += set.size;
+    });
+    return count;
+  }
+
+  private connect(): void {
+    if (this.controller || this.retryTimer) return;
+
+    const token = this.getToken();
+    if (!token) return;
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    this.stream(token, controller.signal)
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.error('Realtime connection error:', error);
+        }
+      })
+      .finally(() => {
+        if (this.controller !== controller) return;
+        this.controller = null;
+        this.scheduleReconnect();
+      });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.handlerCount() === 0 || !this.getToken()) return;
+
+    // Jitter spreads reconnects out when the server restarts
+    const delay = this.retryDelay + Math.random() * this.retryDelay * 0.3;
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private async stream(token: string, signal: AbortSignal): Promise<void> {
+    const response = await fetch(this.url, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'text/event-stream',
+      },
+      signal,
+    });
+
+    if (response.status === 401) {
+      try {
+        // The reconnect picks up the new token
+        await this.refreshToken();
+      } catch {
+        // The session is gone, so retrying would only fail again
+        this.handlers.clear();
+      }
+      return;
+    }
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Realtime stream failed with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() ?? '';
+      messages.forEach((message) => this.dispatch(message));
+    }
+  }
+
+  private dispatch(message: string): void {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    message.split('\n').forEach((line) => {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trim());
+      }
+    });
+
+    if (!dataLines.length) return;
+
+    if (event === 'ready') {
+      this.retryDelay = INITIAL_RETRY_MS;
+      return;
+    }
+
+    const handlers = this.handlers.get(event as RealtimeEventType);
+    if (!handlers?.size) return;
+
+    try {
+      const data = JSON.parse(dataLines.join('\n'));
+      handlers.forEach((handler) => handler(data));
+    } catch (error) {
+      console.error('Error parsing realtime event:', error);
+    }
+  }
+}
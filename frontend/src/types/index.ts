@@ -1,24 +1,60 @@
+import type { BloodGroup, ComponentType } from 'blood-donation-shared/compatibility';
+
 // User Types
 export interface User {
   _id: string;
   name: string;
   email: string;
   phone: string;
-  role: 'donor' | 'requester' | 'admin';
+  role: 'donor' | 'requester' | 'hospital' | 'admin';
+  // Set for hospital accounts: the hospital they act for
+  hospital?: string;
+  // Hospital accounts only act for their hospital once an admin approves them
+  hospitalApproval?: {
+    status: 'pending' | 'approved' | 'rejected';
+    reviewedAt?: string;
+  };
   bloodGroup?: BloodGroup;
   location: Location;
   city?: string;
   state?: string;
   isAvailable: boolean;
   lastDonation?: string;
+  lastDonationType?: DonationType;
+  nextEligibleDate?: string | null;
+  isEligible?: boolean;
+  donationPreferences?: DonationType[];
   medicalHistory?: string;
+  notificationPreferences?: NotificationPreferences;
+  // Set by admins; emailVerified is set by the emailed verification link
   isVerified: boolean;
+  emailVerified: boolean;
   totalDonations: number;
   rating: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// Alert Channel Type (channels a donor can receive nearby-request alerts on)
+export type AlertChannel = 'email' | 'sms' | 'whatsapp' | 'push';
+
+// How and when a donor is alerted about nearby blood requests
+export interface NotificationPreferences {
+  channels: AlertChannel[];
+  maxDistanceKm: number;
+  // Requests below this urgency are not alerted at all
+  minUrgency: BloodRequest['urgency'];
+  // Most distinct requests alerted per 24 hours; null means no cap
+  dailyLimit: number | null;
+  quietHours: {
+    enabled: boolean;
+    start: string; // HH:mm
+    end: string; // HH:mm
+    timezone: string; // IANA time zone, e.g. "Asia/Kolkata"
+  };
+  criticalOverridesQuietHours: boolean;
+}
+
 // Location Type
 export interface Location {
   type: 'Point';
@@ -29,7 +65,18 @@ export interface Location {
 }
 
 // Blood Group Type
-export type BloodGroup = 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-';
+export type { BloodGroup };
+
+// Donation Type (determines how long a donor must wait before donating again)
+export type DonationType = ComponentType;
+
+// Eligibility details returned alongside nearby requests
+export interface DonorEligibility {
+  bloodGroup: BloodGroup;
+  location: Location;
+  canDonate: boolean;
+  nextEligibleDate: string | null;
+}
 
 // Blood Request Types
 export interface BloodRequest {
@@ -37,6 +84,7 @@ export interface BloodRequest {
   requester: User | string;
   patientName: string;
   bloodGroup: BloodGroup;
+  componentType: DonationType;
   unitsNeeded: number;
   urgency: 'low' | 'medium' | 'high' | 'critical';
   hospital: Hospital;
@@ -46,11 +94,17 @@ export interface BloodRequest {
   doctorInfo: DoctorInfo;
   requiredBy: string;
   status: 'active' | 'fulfilled' | 'expired' | 'cancelled';
+  // 'low_stock' requests are raised automatically to restock a blood bank
+  origin?: 'manual' | 'low_stock';
   responses: BloodResponse[];
-  notifiedDonors: NotifiedDonor[];
+  // Only sent to people who can manage the request; others get the count
+  notifiedDonors?: NotifiedDonor[];
+  notifiedDonorsCount?: number;
+  outreach?: OutreachStatus;
   fulfillmentDetails: FulfillmentDetails;
   fraudCheck: FraudCheck;
   priority: number;
+  priorityBreakdown?: PriorityBreakdown;
   createdAt: string;
   updatedAt: string;
   expiresAt: string;
@@ -69,11 +123,169 @@ export interface BloodRequest {
 
 export interface Hospital {
   _id?: string;
+  // Set when the request was raised against a registered hospital
+  hospitalId?: string;
   name: string;
   address: string;
   phone: string;
 }
 
+// A registered hospital, as returned by /hospitals
+export interface HospitalRecord {
+  _id: string;
+  name: string;
+  phone: string;
+  location: Location;
+  bloodBankContact?: {
+    name?: string;
+    phone?: string;
+    email?: string;
+  };
+  lowStockThreshold?: number;
+  isVerified: boolean;
+  verifiedAt?: string;
+  createdBy?: Pick<User, '_id' | 'name' | 'email'>;
+  createdAt?: string;
+}
+
+// Blood Bank Inventory Types
+export interface InventoryBatch {
+  _id: string;
+  hospital: string;
+  bloodGroup: BloodGroup;
+  componentType: DonationType;
+  units: number;
+  expiresAt: string;
+  batchNumber?: string;
+  updatedBy?: Pick<User, '_id' | 'name'>;
+  updatedAt: string;
+}
+
+export interface InventoryBatchFormData {
+  bloodGroup: BloodGroup;
+  componentType: DonationType;
+  units: number;
+  expiresAt: string;
+  batchNumber?: string;
+}
+
+// Unexpired units of one blood group and component at a blood bank
+export interface StockLevel {
+  bloodGroup: BloodGroup;
+  componentType: DonationType;
+  units: number;
+  nextExpiry: string | null;
+}
+
+export interface InventoryResponse {
+  hospital: Pick<HospitalRecord, '_id' | 'name' | 'lowStockThreshold'>;
+  batches: InventoryBatch[];
+  stock: StockLevel[];
+}
+
+export interface NearbyStockFilters {
+  lat: number;
+  lng: number;
+  bloodGroup: BloodGroup;
+  componentType?: DonationType;
+  unitsNeeded?: number;
+  radius?: number;
+}
+
+// A blood bank holding stock compatible with a request
+export interface NearbyStockBank {
+  hospital: Omit<HospitalRecord, 'createdBy' | 'createdAt'>;
+  distanceKm: number;
+  units: number;
+  compatibleUnits: number;
+  canCover: boolean;
+  stock: Array<{ bloodGroup: BloodGroup; units: number; nextExpiry: string }>;
+}
+
+// Blood Drive Types
+export type DriveRegistrationStatus = 'registered' | 'checked_in' | 'donated' | 'no_show' | 'cancelled';
+
+export interface DriveRegistration {
+  _id: string;
+  donor: Pick<User, '_id' | 'name' | 'bloodGroup' | 'phone' | 'email'>;
+  bloodGroup?: BloodGroup;
+  status: DriveRegistrationStatus;
+  registeredAt: string;
+  checkedInAt?: string;
+  donatedAt?: string;
+  componentType?: DonationType;
+  units?: number;
+}
+
+export interface DriveTarget {
+  bloodGroup: BloodGroup;
+  units: number;
+}
+
+export interface Drive {
+  _id: string;
+  name: string;
+  description?: string;
+  organizer: Pick<User, '_id' | 'name'> & Partial<Pick<User, 'email' | 'phone'>>;
+  hospital?: Pick<HospitalRecord, '_id' | 'name' | 'isVerified'> & Partial<Pick<HospitalRecord, 'phone'>>;
+  location: Location & { venue?: string };
+  startsAt: string;
+  endsAt: string;
+  targets: DriveTarget[];
+  capacity: number;
+  status: 'scheduled' | 'cancelled' | 'completed';
+  cancellationReason?: string;
+  registeredCount: number;
+  spotsLeft: number;
+  // Units donated so far, keyed by blood group
+  collected: Partial<Record<BloodGroup, number>>;
+  // The current donor's own registration, if any
+  myRegistration?: Pick<DriveRegistration, '_id' | 'status' | 'registeredAt'>;
+  // Only returned to the drive's organisers
+  registrations?: DriveRegistration[];
+  canManage?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DriveFormData {
+  name: string;
+  description?: string;
+  location: {
+    coordinates: [number, number];
+    venue?: string;
+    address: string;
+    city: string;
+    state: string;
+  };
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  targets: DriveTarget[];
+}
+
+export interface DriveFilters {
+  page?: number;
+  limit?: number;
+  lat?: number;
+  lng?: number;
+  radius?: number;
+  city?: string;
+  mine?: boolean;
+}
+
+export interface DrivesResponse {
+  message: string;
+  data: Drive[];
+  pagination: PaginationInfo;
+}
+
+export interface DriveAttendanceUpdate {
+  status: Extract<DriveRegistrationStatus, 'checked_in' | 'donated' | 'no_show'>;
+  componentType?: DonationType;
+  units?: number;
+}
+
 export interface ContactInfo {
   primaryPhone: string;
   alternatePhone?: string;
@@ -94,24 +306,112 @@ export interface BloodResponse {
   message?: string;
   responseDate: string;
   status: 'interested' | 'confirmed' | 'donated' | 'declined';
+  statusUpdatedAt?: string;
+}
+
+// A donation the current user recorded against a blood request
+export interface DonationRecord {
+  request: string;
+  patientName: string;
+  bloodGroup: BloodGroup;
+  componentType: DonationType;
+  hospitalName: string;
+  status: BloodRequest['status'];
+  units: number;
+  donationDate: string;
+}
+
+// A donor response made while offline, kept in IndexedDB until it is sent
+export interface QueuedAction {
+  id: number;
+  type: 'respond';
+  userId: string;
+  requestId: string;
+  status: 'interested' | 'confirmed';
+  message?: string;
+  // Describes the action in the offline banner and replay toasts
+  label: string;
+  queuedAt: string;
+  // Replays the server failed with; the action is dropped after a few
+  serverErrors: number;
 }
 
 export interface NotifiedDonor {
   donor: User | string;
   notificationDate: string;
-  method: 'email' | 'sms' | 'push';
+  // 'in_app' when the donor's preferences kept every external channel quiet
+  method: AlertChannel | 'in_app';
+  wave?: number;
+}
+
+export interface OutreachStatus {
+  wave: number;
+  radiusKm?: number;
+  lastWaveAt?: string;
+  nextWaveAt?: string | null;
+  completedAt?: string;
+  stopReason?: 'covered' | 'max_radius' | 'deadline' | 'inactive';
+}
+
+// Points each factor contributed to a request's priority. The fraud penalty
+// is only returned to admins.
+export interface PriorityBreakdown {
+  base: number;
+  urgency: number;
+  time: number;
+  units: number;
+  coverage: number;
+  scarcity: number;
+  fraud?: number;
+  calculatedAt: string;
 }
 
 export interface FulfillmentDetails {
   donatedUnits: number;
-  donors: {
+  // Only sent to people who can manage the request; others get the count
+  donors?: {
     donor: User | string;
     units: number;
     donationDate: string;
   }[];
+  donorsCount?: number;
   fulfilledDate?: string;
 }
 
+// Appointment Types
+export interface AppointmentSlot {
+  _id: string;
+  bloodRequest: Pick<BloodRequest, '_id' | 'patientName' | 'bloodGroup' | 'componentType' | 'hospital' | 'requiredBy' | 'status' | 'requester'> | string;
+  createdBy: string;
+  startTime: string;
+  endTime: string;
+  location?: {
+    name?: string;
+    address?: string;
+  };
+  notes?: string;
+  status: 'open' | 'booked' | 'cancelled' | 'completed';
+  donor?: User | string;
+  bookedAt?: string;
+  cancellationReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AppointmentSlotFormData {
+  startTime: string;
+  endTime: string;
+  location?: {
+    name?: string;
+    address?: string;
+  };
+  notes?: string;
+}
+
+export interface AppointmentsResponse {
+  appointments: AppointmentSlot[];
+}
+
 export interface FraudCheck {
   score: number;
   factors: {
@@ -131,8 +431,11 @@ export interface RegisterFormData {
   password: string;
   confirmPassword?: string;
   phone: string;
-  role: 'donor' | 'requester';
+  role: 'donor' | 'requester' | 'hospital';
+  // Required for hospital accounts
+  hospitalId?: string;
   bloodGroup?: BloodGroup;
+  donationPreferences?: DonationType[];
   location: {
     coordinates: [number, number];
     address: string;
@@ -150,6 +453,7 @@ export interface LoginFormData {
 export interface BloodRequestFormData {
   patientName: string;
   bloodGroup: BloodGroup;
+  componentType?: DonationType;
   unitsNeeded: number;
   urgency: 'low' | 'medium' | 'high' | 'critical';
   hospital: {
@@ -182,14 +486,32 @@ export interface ApiResponse<T> {
   message: string;
   data?: T;
   error?: string;
+  pagination?: PaginationInfo;
 }
 
 export interface AuthResponse {
   message: string;
   token: string;
+  refreshToken: string;
   user: User;
 }
 
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// A signed-in device, as listed under active sessions
+export interface AuthSession {
+  _id: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
 export interface PaginationInfo {
   page: number;
   pages: number;
@@ -213,6 +535,7 @@ export interface DonorsResponse {
 // Filter Types
 export interface BloodRequestFilters {
   bloodGroup?: BloodGroup;
+  componentType?: DonationType;
   urgency?: 'low' | 'medium' | 'high' | 'critical';
   status?: 'active' | 'fulfilled' | 'expired' | 'cancelled';
   lat?: number;
@@ -222,6 +545,12 @@ export interface BloodRequestFilters {
   limit?: number;
 }
 
+export interface MyRequestFilters {
+  status?: 'active' | 'fulfilled' | 'expired' | 'cancelled';
+  page?: number;
+  limit?: number;
+}
+
 export interface DonorFilters {
   bloodGroup?: BloodGroup;
   city?: string;
@@ -239,6 +568,7 @@ export interface AdminDashboard {
   users: {
     donors: number;
     requesters: number;
+    hospitals: number;
     admins: number;
   };
   requests: {
@@ -253,6 +583,91 @@ export interface AdminDashboard {
   totalRequests: number;
 }
 
+export interface AdminUserFilters {
+  page?: number;
+  limit?: number;
+  role?: 'donor' | 'requester' | 'hospital' | 'admin';
+  verified?: boolean;
+  hospitalApproval?: NonNullable<User['hospitalApproval']>['status'];
+  search?: string;
+}
+
+export interface AdminHospitalFilters {
+  page?: number;
+  limit?: number;
+  verified?: boolean;
+  search?: string;
+}
+
+export interface AdminRequestFilters {
+  page?: number;
+  limit?: number;
+  status?: 'active' | 'fulfilled' | 'expired' | 'cancelled';
+  urgency?: 'low' | 'medium' | 'high' | 'critical';
+  bloodGroup?: BloodGroup;
+  componentType?: DonationType;
+  fraudScore?: number;
+  reviewed?: boolean;
+  search?: string;
+}
+
+export interface AdminUsersResponse {
+  users: User[];
+  pagination: PaginationInfo;
+}
+
+export interface AdminHospitalsResponse {
+  hospitals: HospitalRecord[];
+  pagination: PaginationInfo;
+}
+
+export interface AdminRequestsResponse {
+  requests: BloodRequest[];
+  pagination: PaginationInfo;
+}
+
+// Supply vs demand per area, for the admin scarcity heatmap
+export type ScarcityLevel = 'none' | 'ok' | 'low' | 'shortage';
+
+export interface ScarcityCell {
+  bloodGroup: BloodGroup;
+  donors: number;
+  compatibleDonors: number;
+  unitsNeeded: number;
+  requests: number;
+  level: ScarcityLevel;
+}
+
+export interface ScarcityArea {
+  key: string;
+  label: string;
+  center: { lat: number; lng: number };
+  totalDonors: number;
+  totalUnitsNeeded: number;
+  shortages: number;
+  bloodGroups: ScarcityCell[];
+}
+
+export interface ScarcityFilters {
+  groupBy?: 'city' | 'grid';
+  gridSize?: number;
+  lat?: number;
+  lng?: number;
+  radius?: number;
+}
+
+export interface ScarcityHeatmapResponse {
+  groupBy: 'city' | 'grid';
+  gridSize?: number;
+  areas: ScarcityArea[];
+}
+
+// Shared with the admin sub-pages rendered inside the Admin layout
+export interface AdminOutletContext {
+  dashboard: AdminDashboard | null;
+  refreshDashboard: () => Promise<void>;
+}
+
 export interface AdminAnalytics {
   userGrowth: Array<{
     _id: { date: string; role: string };
@@ -275,6 +690,150 @@ export interface AdminAnalytics {
   };
 }
 
+// Background Job Types
+export type JobRunStatus = 'running' | 'success' | 'failed';
+
+export interface JobRun {
+  _id: string;
+  job: string;
+  trigger: 'schedule' | 'manual';
+  triggeredBy?: Pick<User, '_id' | 'name' | 'email'>;
+  status: JobRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface JobInfo {
+  name: string;
+  description: string;
+  intervalMs: number;
+  running: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  lastRun: JobRun | null;
+}
+
+export interface JobRunFilters {
+  page?: number;
+  limit?: number;
+  job?: string;
+  status?: JobRunStatus;
+}
+
+export interface JobRunsResponse {
+  runs: JobRun[];
+  pagination: PaginationInfo;
+}
+
+// Notification Delivery Types
+export type NotificationChannel = 'email' | 'sms' | 'whatsapp' | 'push' | 'webhook';
+
+export type DeliveryStatus = 'pending' | 'sent' | 'retrying' | 'failed';
+
+export interface NotificationDelivery {
+  _id: string;
+  channel: NotificationChannel;
+  template: string;
+  recipient?: Pick<User, '_id' | 'name' | 'email'>;
+  to: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  providerMessageId?: string;
+  sentAt?: string;
+  bloodRequest?: string;
+  createdAt: string;
+}
+
+// Which adapter a channel is using: a real provider, the local stand-in, or none
+export interface ChannelInfo {
+  name: NotificationChannel;
+  adapter: 'provider' | 'local' | 'unavailable';
+}
+
+export interface DeliveryFilters {
+  page?: number;
+  limit?: number;
+  channel?: NotificationChannel;
+  status?: DeliveryStatus;
+  template?: string;
+}
+
+export interface DeliveriesResponse {
+  deliveries: NotificationDelivery[];
+  channels: ChannelInfo[];
+  pagination: PaginationInfo;
+}
+
+// In-app Notification Types
+export type NotificationType =
+  | 'nearby_request'
+  | 'request_response'
+  | 'status_change'
+  | 'verification'
+  | 'appointment'
+  | 'reminder'
+  | 'eligibility'
+  | 'low_stock'
+  | 'drive';
+
+export interface AppNotification {
+  _id: string;
+  recipient: string;
+  type: NotificationType;
+  title: string;
+  message?: string;
+  link?: string;
+  bloodRequest?: string;
+  isRead: boolean;
+  readAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationsResponse {
+  notifications: AppNotification[];
+  unreadCount: number;
+  pagination: PaginationInfo;
+}
+
+// Realtime Event Types
+export type RealtimeEventType =
+  | 'request:created'
+  | 'request:response'
+  | 'request:status'
+  | 'request:fraud'
+  | 'notification';
+
+export interface RequestEventSummary {
+  requestId: string;
+  patientName: string;
+  bloodGroup: BloodGroup;
+  componentType: DonationType;
+  urgency: BloodRequest['urgency'];
+  status: BloodRequest['status'];
+  hospitalName?: string;
+  donorName?: string;
+  responseStatus?: BloodResponse['status'];
+  fraudScore?: number;
+}
+
+export interface RealtimeEventMap {
+  'request:created': RequestEventSummary;
+  'request:response': RequestEventSummary;
+  'request:status': RequestEventSummary;
+  'request:fraud': RequestEventSummary;
+  notification: AppNotification;
+}
+
+export type RealtimeEventHandler<E extends RealtimeEventType = RealtimeEventType> = (
+  data: RealtimeEventMap[E]
+) => void;
+
 // Toast/Notification Types
 export interface Toast {
   id: string;
@@ -1,5 +1,6 @@
-import type { BloodGroup } from '../types';
+import type { BloodGroup, DonationType } from '../types';
 import { format, formatDistanceToNow, isValid, parseISO } from 'date-fns';
+import { canDonate, getCompatibleDonorGroups } from 'blood-donation-shared/compatibility';
 
 // Blood Group Utilities
 export const getBloodGroupColor = (bloodGroup: BloodGroup): string => {
@@ -16,28 +17,40 @@ export const getBloodGroupColor = (bloodGroup: BloodGroup): string => {
   }
 };
 
-export const getCompatibleBloodGroups = (bloodGroup: BloodGroup): BloodGroup[] => {
-  const compatibility: Record<BloodGroup, BloodGroup[]> = {
-    'A+': ['A+', 'A-', 'O+', 'O-'],
-    'A-': ['A-', 'O-'],
-    'B+': ['B+', 'B-', 'O+', 'O-'],
-    'B-': ['B-', 'O-'],
-    'AB+': ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
-    'AB-': ['A-', 'B-', 'AB-', 'O-'],
-    'O+': ['O+', 'O-'],
-    'O-': ['O-'],
-  };
-  
-  return compatibility[bloodGroup] || [];
+// Compatibility rules live in the shared package so the API and UI agree
+export const getCompatibleBloodGroups = (
+  bloodGroup: BloodGroup,
+  componentType: DonationType = 'whole_blood'
+): BloodGroup[] => {
+  return getCompatibleDonorGroups(bloodGroup, componentType);
 };
 
-export const canDonateToBloodGroup = (donorBloodGroup: BloodGroup, recipientBloodGroup: BloodGroup): boolean => {
-  const compatibleGroups = getCompatibleBloodGroups(recipientBloodGroup);
-  return compatibleGroups.includes(donorBloodGroup);
+export const canDonateToBloodGroup = (
+  donorBloodGroup: BloodGroup,
+  recipientBloodGroup: BloodGroup,
+  componentType: DonationType = 'whole_blood'
+): boolean => {
+  return canDonate(donorBloodGroup, recipientBloodGroup, componentType);
 };
 
-export const validateBloodGroupCompatibility = (donorBloodGroup: BloodGroup, requestedBloodGroup: BloodGroup): boolean => {
-  return canDonateToBloodGroup(donorBloodGroup, requestedBloodGroup);
+export const validateBloodGroupCompatibility = (
+  donorBloodGroup: BloodGroup,
+  requestedBloodGroup: BloodGroup,
+  componentType: DonationType = 'whole_blood'
+): boolean => {
+  return canDonateToBloodGroup(donorBloodGroup, requestedBloodGroup, componentType);
+};
+
+// Donation Type Utilities
+export const DONATION_TYPES: { value: DonationType; label: string; description: string }[] = [
+  { value: 'whole_blood', label: 'Whole Blood', description: 'Standard donation, every 8 weeks' },
+  { value: 'platelets', label: 'Platelets', description: 'Apheresis, as often as every 7 days' },
+  { value: 'plasma', label: 'Plasma', description: 'Apheresis, every 4 weeks' },
+  { value: 'double_red_cells', label: 'Double Red Cells', description: 'Apheresis, every 16 weeks' },
+];
+
+export const getDonationTypeLabel = (type?: DonationType): string => {
+  return DONATION_TYPES.find((option) => option.value === type)?.label || 'Whole Blood';
 };
 
 // Urgency Utilities
@@ -120,6 +133,20 @@ export const formatRelativeTime = (date: string | Date): string => {
   }
 };
 
+export const formatCountdown = (date: string | Date, now: number = Date.now()): string => {
+  const dateObj = typeof date === 'string' ? parseISO(date) : date;
+  if (!isValid(dateObj)) return 'Invalid date';
+
+  const totalMinutes = Math.max(0, Math.ceil((dateObj.getTime() - now) / (1000 * 60)));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
 export const isExpiringSoon = (date: string | Date, hoursThreshold: number = 24): boolean => {
   try {
     const dateObj = typeof date === 'string' ? parseISO(date) : date;
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  // Map tiles, e.g. a local tile server for offline development
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+  readonly VITE_MAP_TILE_SUBDOMAINS?: string;
+  readonly VITE_MAP_MAX_ZOOM?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
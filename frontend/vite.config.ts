@@ -4,9 +4,18 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The shared workspace package is CommonJS so the backend can require() it
+  optimizeDeps: {
+    include: ['blood-donation-shared/compatibility']
+  },
+  build: {
+    commonjsOptions: {
+      include: [/[\\/]shared[\\/]compatibility\.js$/, /node_modules/]
+    }
+  },
   server: {
     allowedHosts: ['.clackypaas.com'],
     host: true,
     port: 5173
   }
-})
\ No newline at end of file
+})
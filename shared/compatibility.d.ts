@@ -0,0 +1,54 @@
+export type BloodGroup = 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-';
+
+export type ComponentType = 'whole_blood' | 'platelets' | 'plasma' | 'double_red_cells';
+
+export interface BloodProfile {
+  bloodGroup: BloodGroup;
+  phenotypes?: string[];
+}
+
+export interface RankingOptions {
+  /** Rank every Rh-negative donor ahead of Rh-positive ones */
+  preferRhNegative?: boolean;
+}
+
+/** Return false to veto a donor/recipient match */
+export type PhenotypeRule = (
+  donor: BloodProfile,
+  recipient: BloodProfile,
+  componentType: ComponentType
+) => boolean | undefined;
+
+export const BLOOD_GROUPS: readonly BloodGroup[];
+export const COMPONENT_TYPES: readonly ComponentType[];
+
+export function canDonate(
+  donorGroup: BloodGroup,
+  recipientGroup: BloodGroup,
+  componentType?: ComponentType
+): boolean;
+
+export function getCompatibleDonorGroups(
+  recipientGroup: BloodGroup,
+  componentType?: ComponentType,
+  options?: RankingOptions
+): BloodGroup[];
+
+export function getCompatibleRecipientGroups(
+  donorGroup: BloodGroup,
+  componentType?: ComponentType
+): BloodGroup[];
+
+export function rankDonorGroups(
+  recipientGroup: BloodGroup,
+  donorGroups: BloodGroup[],
+  options?: RankingOptions
+): BloodGroup[];
+
+export function registerPhenotypeRule(name: string, rule: PhenotypeRule): () => boolean;
+
+export function isCompatible(
+  donor: BloodProfile,
+  recipient: BloodProfile,
+  componentType?: ComponentType
+): boolean;
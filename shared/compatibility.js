@@ -0,0 +1,179 @@
+/**
+ * Blood compatibility rules shared by the frontend and backend.
+ *
+ * Every lookup is derived from the explicit donor x recipient matrices below,
+ * so a change to the rules is a change to exactly one table.
+ */
+
+const BLOOD_GROUPS = ['O-', 'O+', 'A-', 'A+', 'B-', 'B+', 'AB-', 'AB+'];
+const COMPONENT_TYPES = ['whole_blood', 'platelets', 'plasma', 'double_red_cells'];
+
+// Rows are donor groups, columns are recipient groups (same order as BLOOD_GROUPS)
+
+// Red cells follow ABO/Rh red cell rules: O- is the universal donor
+//                  O-  O+  A-  A+  B-  B+ AB- AB+
+const RED_CELL_MATRIX = {
+  'O-':  [1,  1,  1,  1,  1,  1,  1,  1],
+  'O+':  [0,  1,  0,  1,  0,  1,  0,  1],
+  'A-':  [0,  0,  1,  1,  0,  0,  1,  1],
+  'A+':  [0,  0,  0,  1,  0,  0,  0,  1],
+  'B-':  [0,  0,  0,  0,  1,  1,  1,  1],
+  'B+':  [0,  0,  0,  0,  0,  1,  0,  1],
+  'AB-': [0,  0,  0,  0,  0,  0,  1,  1],
+  'AB+': [0,  0,  0,  0,  0,  0,  0,  1]
+};
+
+// Plasma compatibility is inverted and ignores Rh: AB is the universal donor
+//                  O-  O+  A-  A+  B-  B+ AB- AB+
+const PLASMA_MATRIX = {
+  'O-':  [1,  1,  0,  0,  0,  0,  0,  0],
+  'O+':  [1,  1,  0,  0,  0,  0,  0,  0],
+  'A-':  [1,  1,  1,  1,  0,  0,  0,  0],
+  'A+':  [1,  1,  1,  1,  0,  0,  0,  0],
+  'B-':  [1,  1,  0,  0,  1,  1,  0,  0],
+  'B+':  [1,  1,  0,  0,  1,  1,  0,  0],
+  'AB-': [1,  1,  1,  1,  1,  1,  1,  1],
+  'AB+': [1,  1,  1,  1,  1,  1,  1,  1]
+};
+
+// Platelets are matched on plasma ABO, but Rh-negative patients still need
+// Rh-negative donors because units carry residual red cells
+//                  O-  O+  A-  A+  B-  B+ AB- AB+
+const PLATELET_MATRIX = {
+  'O-':  [1,  1,  0,  0,  0,  0,  0,  0],
+  'O+':  [0,  1,  0,  0,  0,  0,  0,  0],
+  'A-':  [1,  1,  1,  1,  0,  0,  0,  0],
+  'A+':  [0,  1,  0,  1,  0,  0,  0,  0],
+  'B-':  [1,  1,  0,  0,  1,  1,  0,  0],
+  'B+':  [0,  1,  0,  0,  0,  1,  0,  0],
+  'AB-': [1,  1,  1,  1,  1,  1,  1,  1],
+  'AB+': [0,  1,  0,  1,  0,  1,  0,  1]
+};
+
+const COMPATIBILITY_MATRICES = {
+  whole_blood: RED_CELL_MATRIX,
+  double_red_cells: RED_CELL_MATRIX,
+  platelets: PLATELET_MATRIX,
+  plasma: PLASMA_MATRIX
+};
+
+// Components that contain red cells, and therefore red cell antigens
+const RED_CELL_COMPONENTS = ['whole_blood', 'double_red_cells'];
+
+const isBloodGroup = (value) => BLOOD_GROUPS.includes(value);
+
+const getAbo = (bloodGroup) => bloodGroup.slice(0, -1);
+
+const isRhNegative = (bloodGroup) => bloodGroup.endsWith('-');
+
+const getMatrix = (componentType = 'whole_blood') =>
+  COMPATIBILITY_MATRICES[componentType] || RED_CELL_MATRIX;
+
+/**
+ * Check whether a donor blood group can give the component to a recipient group
+ */
+const canDonate = (donorGroup, recipientGroup, componentType = 'whole_blood') => {
+  if (!isBloodGroup(donorGroup) || !isBloodGroup(recipientGroup)) return false;
+  return getMatrix(componentType)[donorGroup][BLOOD_GROUPS.indexOf(recipientGroup)] === 1;
+};
+
+/**
+ * Order donor groups for a recipient: identical group first, then donors of the
+ * same Rh type and ABO group, keeping group O (the universal stock) for last.
+ * With preferRhNegative, every Rh-negative donor ranks ahead of Rh-positive ones.
+ */
+const rankDonorGroups = (recipientGroup, donorGroups, options = {}) => {
+  const { preferRhNegative = false } = options;
+
+  const score = (donorGroup) => [
+    donorGroup === recipientGroup ? 0 : 1,
+    preferRhNegative
+      ? (isRhNegative(donorGroup) ? 0 : 1)
+      : (isRhNegative(donorGroup) === isRhNegative(recipientGroup) ? 0 : 1),
+    getAbo(donorGroup) === getAbo(recipientGroup) ? 0 : 1,
+    getAbo(donorGroup) === 'O' ? 1 : 0,
+    BLOOD_GROUPS.indexOf(donorGroup)
+  ];
+
+  return [...donorGroups].sort((a, b) => {
+    const scoreA = score(a);
+    const scoreB = score(b);
+    for (let i = 0; i < scoreA.length; i++) {
+      if (scoreA[i] !== scoreB[i]) return scoreA[i] - scoreB[i];
+    }
+    return 0;
+  });
+};
+
+/**
+ * Get the donor groups a recipient can receive the component from, best match first
+ */
+const getCompatibleDonorGroups = (recipientGroup, componentType = 'whole_blood', options = {}) => {
+  if (!isBloodGroup(recipientGroup)) return [];
+
+  const donorGroups = BLOOD_GROUPS.filter(donorGroup =>
+    canDonate(donorGroup, recipientGroup, componentType)
+  );
+
+  return rankDonorGroups(recipientGroup, donorGroups, options);
+};
+
+/**
+ * Get the recipient groups a donor can give the component to
+ */
+const getCompatibleRecipientGroups = (donorGroup, componentType = 'whole_blood') => {
+  if (!isBloodGroup(donorGroup)) return [];
+
+  return BLOOD_GROUPS.filter(recipientGroup =>
+    canDonate(donorGroup, recipientGroup, componentType)
+  );
+};
+
+// Rare phenotype rules run after the ABO/Rh check. Each rule receives the donor
+// and recipient profiles ({ bloodGroup, phenotypes }) and the component type,
+// and returns false to veto the match.
+const phenotypeRules = new Map();
+
+/**
+ * Register a rare phenotype rule. Returns a function that removes it again.
+ */
+const registerPhenotypeRule = (name, rule) => {
+  phenotypeRules.set(name, rule);
+  return () => phenotypeRules.delete(name);
+};
+
+const hasPhenotype = (profile, phenotype) =>
+  Array.isArray(profile.phenotypes) && profile.phenotypes.includes(phenotype);
+
+// Bombay (hh) patients carry anti-H and can only receive red cells from other
+// Bombay donors, even though they type as group O
+registerPhenotypeRule('bombay', (donor, recipient, componentType) => {
+  if (!RED_CELL_COMPONENTS.includes(componentType)) return true;
+  return !hasPhenotype(recipient, 'bombay') || hasPhenotype(donor, 'bombay');
+});
+
+/**
+ * Full compatibility check between a donor and recipient profile, including
+ * any registered rare phenotype rules
+ */
+const isCompatible = (donor, recipient, componentType = 'whole_blood') => {
+  if (!donor || !recipient) return false;
+  if (!canDonate(donor.bloodGroup, recipient.bloodGroup, componentType)) return false;
+
+  for (const rule of phenotypeRules.values()) {
+    if (rule(donor, recipient, componentType) === false) return false;
+  }
+
+  return true;
+};
+
+module.exports = {
+  BLOOD_GROUPS,
+  COMPONENT_TYPES,
+  canDonate,
+  getCompatibleDonorGroups,
+  getCompatibleRecipientGroups,
+  rankDonorGroups,
+  registerPhenotypeRule,
+  isCompatible
+};
@@ -0,0 +1,181 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  BLOOD_GROUPS,
+  COMPONENT_TYPES,
+  canDonate,
+  getCompatibleDonorGroups,
+  getCompatibleRecipientGroups,
+  rankDonorGroups,
+  registerPhenotypeRule,
+  isCompatible
+} = require('./compatibility');
+
+// Expected results are worked out from antigens here rather than copied from
+// the matrices in compatibility.js, so a typo in a table shows up as a failure
+const ABO_ANTIGENS = { O: [], A: ['A'], B: ['B'], AB: ['A', 'B'] };
+
+const antigens = (bloodGroup) => ABO_ANTIGENS[bloodGroup.slice(0, -1)];
+const isRhPositive = (bloodGroup) => bloodGroup.endsWith('+');
+const includesAll = (groupAntigens, required) => required.every(antigen => groupAntigens.includes(antigen));
+
+// Red cells must not carry an ABO or RhD antigen the recipient lacks
+const redCellsCompatible = (donor, recipient) =>
+  includesAll(antigens(recipient), antigens(donor)) && (!isRhPositive(donor) || isRhPositive(recipient));
+
+// Donor plasma must not carry antibodies against the recipient's ABO antigens; Rh does not matter
+const plasmaCompatible = (donor, recipient) => includesAll(antigens(donor), antigens(recipient));
+
+// Platelets follow plasma, but residual red cells mean Rh-negative patients need Rh-negative donors
+const plateletsCompatible = (donor, recipient) =>
+  plasmaCompatible(donor, recipient) && (isRhPositive(recipient) || !isRhPositive(donor));
+
+const EXPECTED = {
+  whole_blood: redCellsCompatible,
+  double_red_cells: redCellsCompatible,
+  plasma: plasmaCompatible,
+  platelets: plateletsCompatible
+};
+
+describe('canDonate', () => {
+  for (const componentType of COMPONENT_TYPES) {
+    test(`matches every donor/recipient pair for ${componentType}`, () => {
+      let pairs = 0;
+      for (const donor of BLOOD_GROUPS) {
+        for (const recipient of BLOOD_GROUPS) {
+          assert.equal(
+            canDonate(donor, recipient, componentType),
+            EXPECTED[componentType](donor, recipient),
+            `${donor} -> ${recipient} (${componentType})`
+          );
+          pairs += 1;
+        }
+      }
+      assert.equal(pairs, 64);
+    });
+  }
+
+  test('defaults to whole blood', () => {
+    for (const donor of BLOOD_GROUPS) {
+      for (const recipient of BLOOD_GROUPS) {
+        assert.equal(canDonate(donor, recipient), redCellsCompatible(donor, recipient));
+      }
+    }
+  });
+
+  test('rejects unknown blood groups', () => {
+    assert.equal(canDonate('C+', 'A+'), false);
+    assert.equal(canDonate('O-', 'o+'), false);
+    assert.equal(canDonate(undefined, 'A+'), false);
+  });
+});
+
+describe('getCompatibleDonorGroups', () => {
+  for (const componentType of COMPONENT_TYPES) {
+    test(`returns exactly the compatible donors for every recipient for ${componentType}`, () => {
+      for (const recipient of BLOOD_GROUPS) {
+        const donors = getCompatibleDonorGroups(recipient, componentType);
+        const expected = BLOOD_GROUPS.filter(donor => EXPECTED[componentType](donor, recipient));
+
+        assert.deepEqual([...donors].sort(), [...expected].sort(), `${recipient} (${componentType})`);
+        assert.equal(donors[0], recipient, `${recipient} (${componentType}) should rank its own group first`);
+      }
+    });
+  }
+
+  test('returns nothing for unknown blood groups', () => {
+    assert.deepEqual(getCompatibleDonorGroups('C+'), []);
+  });
+});
+
+describe('getCompatibleRecipientGroups', () => {
+  for (const componentType of COMPONENT_TYPES) {
+    test(`returns exactly the compatible recipients for every donor for ${componentType}`, () => {
+      for (const donor of BLOOD_GROUPS) {
+        assert.deepEqual(
+          getCompatibleRecipientGroups(donor, componentType),
+          BLOOD_GROUPS.filter(recipient => EXPECTED[componentType](donor, recipient)),
+          `${donor} (${componentType})`
+        );
+      }
+    });
+  }
+});
+
+describe('rankDonorGroups', () => {
+  test('ranks the identical group, then same Rh, then same ABO, keeping O last', () => {
+    assert.deepEqual(rankDonorGroups('A+', ['O-', 'O+', 'A-', 'A+']), ['A+', 'O+', 'A-', 'O-']);
+    assert.deepEqual(
+      rankDonorGroups('AB+', BLOOD_GROUPS),
+      ['AB+', 'A+', 'B+', 'O+', 'AB-', 'A-', 'B-', 'O-']
+    );
+  });
+
+  test('puts every Rh-negative donor first with preferRhNegative', () => {
+    assert.deepEqual(
+      rankDonorGroups('A+', ['O-', 'O+', 'A-', 'A+'], { preferRhNegative: true }),
+      ['A+', 'A-', 'O-', 'O+']
+    );
+    assert.deepEqual(
+      rankDonorGroups('AB+', BLOOD_GROUPS, { preferRhNegative: true }),
+      ['AB+', 'AB-', 'A-', 'B-', 'O-', 'A+', 'B+', 'O+']
+    );
+  });
+
+  test('does not reorder the array it is given', () => {
+    const donors = ['O-', 'O+', 'A-', 'A+'];
+    rankDonorGroups('A+', donors);
+    assert.deepEqual(donors, ['O-', 'O+', 'A-', 'A+']);
+  });
+});
+
+describe('isCompatible', () => {
+  const bombay = (bloodGroup) => ({ bloodGroup, phenotypes: ['bombay'] });
+
+  test('follows canDonate for donors without rare phenotypes', () => {
+    for (const componentType of COMPONENT_TYPES) {
+      for (const donor of BLOOD_GROUPS) {
+        for (const recipient of BLOOD_GROUPS) {
+          assert.equal(
+            isCompatible({ bloodGroup: donor }, { bloodGroup: recipient }, componentType),
+            EXPECTED[componentType](donor, recipient),
+            `${donor} -> ${recipient} (${componentType})`
+          );
+        }
+      }
+    }
+  });
+
+  test('Bombay recipients only take red cells from Bombay donors', () => {
+    for (const componentType of ['whole_blood', 'double_red_cells']) {
+      assert.equal(isCompatible({ bloodGroup: 'O-' }, bombay('O+'), componentType), false);
+      assert.equal(isCompatible(bombay('O-'), bombay('O+'), componentType), true);
+    }
+  });
+
+  test('the Bombay rule leaves plasma and platelets to ABO/Rh', () => {
+    assert.equal(isCompatible({ bloodGroup: 'O-' }, bombay('O+'), 'plasma'), true);
+    assert.equal(isCompatible({ bloodGroup: 'O-' }, bombay('O+'), 'platelets'), true);
+  });
+
+  test('Bombay donors still need an ABO/Rh match', () => {
+    assert.equal(isCompatible(bombay('O+'), { bloodGroup: 'A+' }), true);
+    assert.equal(isCompatible(bombay('O+'), bombay('O-')), false);
+  });
+
+  test('registered phenotype rules can veto a match until removed', () => {
+    const remove = registerPhenotypeRule('test-veto', (donor) => donor.bloodGroup !== 'O-');
+    try {
+      assert.equal(isCompatible({ bloodGroup: 'O-' }, { bloodGroup: 'A+' }), false);
+      assert.equal(isCompatible({ bloodGroup: 'A+' }, { bloodGroup: 'A+' }), true);
+    } finally {
+      remove();
+    }
+    assert.equal(isCompatible({ bloodGroup: 'O-' }, { bloodGroup: 'A+' }), true);
+  });
+
+  test('rejects missing profiles', () => {
+    assert.equal(isCompatible(null, { bloodGroup: 'A+' }), false);
+    assert.equal(isCompatible({ bloodGroup: 'A+' }, undefined), false);
+  });
+});